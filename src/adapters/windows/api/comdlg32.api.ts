@@ -94,3 +94,9 @@ export const DEVNAMES = defineStruct('DEVNAMES', {
 export const PrintDlgW = comdlg32.func('PrintDlgW', 'bool', [
   koffi.inout(koffi.pointer(PRINTDLGW))  // lppd
 ]);
+
+/**
+ * Get the error code of the last common dialog failure
+ * Returns 0 when PrintDlgW returned false because the user cancelled
+ */
+export const CommDlgExtendedError = comdlg32.func('CommDlgExtendedError', 'uint32', []);
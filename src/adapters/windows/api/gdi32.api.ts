@@ -220,8 +220,43 @@ export const BitBlt =
     ])
 ;
 
+export const PatBlt =
+  gdi32.func('PatBlt', 'bool', [
+      'void*',   // hdc
+      'int',     // x
+      'int',     // y
+      'int',     // w
+      'int',     // h
+      'uint32'   // rop
+    ])
+;
+
+// Clipping
+export const SaveDC =
+  gdi32.func('SaveDC', 'int', ['void*'])
+;
+
+export const RestoreDC =
+  gdi32.func('RestoreDC', 'bool', ['void*', 'int'])
+;
+
+export const IntersectClipRect =
+  gdi32.func('IntersectClipRect', 'int', [
+      'void*',   // hdc
+      'int',     // left
+      'int',     // top
+      'int',     // right
+      'int'      // bottom
+    ])
+;
+
+// IntersectClipRect result
+export const CLIP_ERROR = 0;
+
 // Raster operation codes
 export const SRCCOPY = 0x00CC0020;
+export const BLACKNESS = 0x00000042;
+export const WHITENESS = 0x00FF0062;
 
 // Enhanced Metafile structures and functions
 export const ENHMETAHEADER = defineStruct('ENHMETAHEADER', {
@@ -250,6 +285,10 @@ export const GetEnhMetaFileW =
   gdi32.func('GetEnhMetaFileW', 'void*', ['str16'])
 ;
 
+export const SetEnhMetaFileBits =
+  gdi32.func('SetEnhMetaFileBits', 'void*', ['uint32', 'void*'])
+;
+
 export const PlayEnhMetaFile =
   gdi32.func('PlayEnhMetaFile', 'bool', ['void*', 'void*', koffi.pointer(koffi.array('int32', 4))])
 ;
@@ -283,3 +322,84 @@ export const MM_HIENGLISH = 5;
 export const MM_TWIPS = 6;
 export const MM_ISOTROPIC = 7;
 export const MM_ANISOTROPIC = 8;
+
+// Text output
+export const TEXTMETRICW = defineStruct('TEXTMETRICW', {
+  tmHeight: 'int32',
+  tmAscent: 'int32',
+  tmDescent: 'int32',
+  tmInternalLeading: 'int32',
+  tmExternalLeading: 'int32',
+  tmAveCharWidth: 'int32',
+  tmMaxCharWidth: 'int32',
+  tmWeight: 'int32',
+  tmOverhang: 'int32',
+  tmDigitizedAspectX: 'int32',
+  tmDigitizedAspectY: 'int32',
+  tmFirstChar: 'uint16',
+  tmLastChar: 'uint16',
+  tmDefaultChar: 'uint16',
+  tmBreakChar: 'uint16',
+  tmItalic: 'uint8',
+  tmUnderlined: 'uint8',
+  tmStruckOut: 'uint8',
+  tmPitchAndFamily: 'uint8',
+  tmCharSet: 'uint8'
+});
+
+export const SIZE = defineStruct('SIZE', {
+  cx: 'int32',
+  cy: 'int32'
+});
+
+export const CreateFontW =
+  gdi32.func('CreateFontW', 'void*', [
+    'int',    // cHeight
+    'int',    // cWidth
+    'int',    // cEscapement
+    'int',    // cOrientation
+    'int',    // cWeight
+    'uint32', // bItalic
+    'uint32', // bUnderline
+    'uint32', // bStrikeOut
+    'uint32', // iCharSet
+    'uint32', // iOutPrecision
+    'uint32', // iClipPrecision
+    'uint32', // iQuality
+    'uint32', // iPitchAndFamily
+    'str16'   // pszFaceName
+  ])
+;
+
+export const SelectObject =
+  gdi32.func('SelectObject', 'void*', ['void*', 'void*'])
+;
+
+export const DeleteObject =
+  gdi32.func('DeleteObject', 'bool', ['void*'])
+;
+
+export const SetBkMode =
+  gdi32.func('SetBkMode', 'int', ['void*', 'int'])
+;
+
+export const GetTextMetricsW =
+  gdi32.func('GetTextMetricsW', 'bool', ['void*', koffi.out(koffi.pointer(TEXTMETRICW))])
+;
+
+export const GetTextExtentPoint32W =
+  gdi32.func('GetTextExtentPoint32W', 'bool', ['void*', 'str16', 'int', koffi.out(koffi.pointer(SIZE))])
+;
+
+export const TextOutW =
+  gdi32.func('TextOutW', 'bool', ['void*', 'int', 'int', 'str16', 'int'])
+;
+
+// Font and background constants
+export const FW_NORMAL = 400;
+export const DEFAULT_CHARSET = 1;
+export const OUT_DEFAULT_PRECIS = 0;
+export const CLIP_DEFAULT_PRECIS = 0;
+export const DEFAULT_QUALITY = 0;
+export const DEFAULT_PITCH = 0;
+export const TRANSPARENT = 1;
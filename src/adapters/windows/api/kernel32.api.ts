@@ -32,3 +32,17 @@ export const GlobalUnlock = kernel32.func('GlobalUnlock', 'bool', ['void*']);
 export const GMEM_MOVEABLE = 0x0002;
 export const GMEM_ZEROINIT = 0x0040;
 export const GHND = GMEM_MOVEABLE | GMEM_ZEROINIT;
+
+// Synchronization functions
+/**
+ * Wait until a handle is signaled or the timeout elapses
+ */
+export const WaitForSingleObject = kernel32.func('WaitForSingleObject', 'uint32', ['void*', 'uint32']);
+
+// Wait results
+export const WAIT_OBJECT_0 = 0x00000000;
+export const WAIT_TIMEOUT = 0x00000102;
+export const WAIT_FAILED = 0xFFFFFFFF;
+
+// Address of the INVALID_HANDLE_VALUE pseudo-handle returned when handle creation fails (64-bit)
+export const INVALID_HANDLE_VALUE = 0xFFFFFFFFFFFFFFFFn;
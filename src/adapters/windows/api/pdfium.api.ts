@@ -4,6 +4,7 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { PdfiumUnavailableError } from '../../../core/errors';
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -28,7 +29,7 @@ for (const dllPath of possiblePaths) {
 }
 
 if (!pdfiumLib) {
-  throw new Error(
+  throw new PdfiumUnavailableError(
     'PDFium DLL not found. Please download pdfium.dll and place it in the bin/ directory.\n' +
     'Download from: https://github.com/bblanchon/pdfium-binaries/releases'
   );
@@ -73,6 +74,24 @@ export const PDFIUM_BITMAPINFOHEADER = koffi.struct('PDFIUM_BITMAPINFOHEADER', {
   biClrImportant: 'uint32'
 });
 
+// FS_MATRIX: device = (a*x + c*y + e, b*x + d*y + f)
+export const FS_MATRIX = koffi.struct('FS_MATRIX', {
+  a: 'float',
+  b: 'float',
+  c: 'float',
+  d: 'float',
+  e: 'float',
+  f: 'float'
+});
+
+// FS_RECTF (note the left, top, right, bottom order)
+export const FS_RECTF = koffi.struct('FS_RECTF', {
+  left: 'float',
+  top: 'float',
+  right: 'float',
+  bottom: 'float'
+});
+
 // BI_RGB constant
 export const BI_RGB = 0;
 export const DIB_RGB_COLORS = 0;
@@ -80,74 +99,113 @@ export const DIB_RGB_COLORS = 0;
 // PDFium initialization and cleanup
 export const FPDF_InitLibrary = pdfiumLib 
   ? pdfiumLib.func('FPDF_InitLibrary', 'void', [])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDF_DestroyLibrary = pdfiumLib
   ? pdfiumLib.func('FPDF_DestroyLibrary', 'void', [])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 // Document loading
 export const FPDF_LoadMemDocument = pdfiumLib
   ? pdfiumLib.func('FPDF_LoadMemDocument', 'void*', ['void*', 'int', 'string'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDF_CloseDocument = pdfiumLib
   ? pdfiumLib.func('FPDF_CloseDocument', 'void', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDF_GetPageCount = pdfiumLib
   ? pdfiumLib.func('FPDF_GetPageCount', 'int', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 // Page operations
 export const FPDF_LoadPage = pdfiumLib
   ? pdfiumLib.func('FPDF_LoadPage', 'void*', ['void*', 'int'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDF_ClosePage = pdfiumLib
   ? pdfiumLib.func('FPDF_ClosePage', 'void', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDF_GetPageWidth = pdfiumLib
   ? pdfiumLib.func('FPDF_GetPageWidth', 'double', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDF_GetPageHeight = pdfiumLib
   ? pdfiumLib.func('FPDF_GetPageHeight', 'double', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
+
+// Page rotation (/Rotate): 0 = 0°, 1 = 90°, 2 = 180°, 3 = 270° clockwise
+export const FPDFPage_GetRotation = pdfiumLib
+  ? pdfiumLib.func('FPDFPage_GetRotation', 'int', ['void*'])
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
+
+// Page bounding box: CropBox clipped to MediaBox, with inherited values resolved
+export const FPDF_GetPageBoundingBox = pdfiumLib
+  ? pdfiumLib.func('FPDF_GetPageBoundingBox', 'int', ['void*', koffi.out(koffi.pointer(FS_RECTF))])
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
+
+// Page boxes (left, bottom, right, top); return 0 when the page dictionary has no such box
+const PAGE_BOX_PARAMS = [
+  'void*',                            // page
+  koffi.out(koffi.pointer('float')),  // left
+  koffi.out(koffi.pointer('float')),  // bottom
+  koffi.out(koffi.pointer('float')),  // right
+  koffi.out(koffi.pointer('float'))   // top
+];
+
+export const FPDFPage_GetMediaBox = pdfiumLib
+  ? pdfiumLib.func('FPDFPage_GetMediaBox', 'int', PAGE_BOX_PARAMS)
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
+
+export const FPDFPage_GetCropBox = pdfiumLib
+  ? pdfiumLib.func('FPDFPage_GetCropBox', 'int', PAGE_BOX_PARAMS)
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
+
+export const FPDFPage_GetBleedBox = pdfiumLib
+  ? pdfiumLib.func('FPDFPage_GetBleedBox', 'int', PAGE_BOX_PARAMS)
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
+
+export const FPDFPage_GetTrimBox = pdfiumLib
+  ? pdfiumLib.func('FPDFPage_GetTrimBox', 'int', PAGE_BOX_PARAMS)
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
+
+export const FPDFPage_GetArtBox = pdfiumLib
+  ? pdfiumLib.func('FPDFPage_GetArtBox', 'int', PAGE_BOX_PARAMS)
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 // Bitmap operations
 export const FPDFBitmap_Create = pdfiumLib
   ? pdfiumLib.func('FPDFBitmap_Create', 'void*', ['int', 'int', 'int'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDFBitmap_CreateEx = pdfiumLib
   ? pdfiumLib.func('FPDFBitmap_CreateEx', 'void*', ['int', 'int', 'int', 'void*', 'int'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDFBitmap_Destroy = pdfiumLib
   ? pdfiumLib.func('FPDFBitmap_Destroy', 'void', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDFBitmap_GetBuffer = pdfiumLib
   ? pdfiumLib.func('FPDFBitmap_GetBuffer', 'void*', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDFBitmap_GetWidth = pdfiumLib
   ? pdfiumLib.func('FPDFBitmap_GetWidth', 'int', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDFBitmap_GetHeight = pdfiumLib
   ? pdfiumLib.func('FPDFBitmap_GetHeight', 'int', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDFBitmap_GetStride = pdfiumLib
   ? pdfiumLib.func('FPDFBitmap_GetStride', 'int', ['void*'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 export const FPDFBitmap_FillRect = pdfiumLib
   ? pdfiumLib.func('FPDFBitmap_FillRect', 'void', ['void*', 'int', 'int', 'int', 'int', 'uint32'])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 // Page rendering
 export const FPDF_RenderPageBitmap = pdfiumLib
@@ -161,7 +219,32 @@ export const FPDF_RenderPageBitmap = pdfiumLib
       'int',     // rotate
       'int'      // flags
     ])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
+
+// Render straight into a device context (Windows builds only); text and vector graphics stay vector
+export const FPDF_RenderPage = pdfiumLib
+  ? pdfiumLib.func('FPDF_RenderPage', 'void', [
+      'void*',   // dc
+      'void*',   // page
+      'int',     // start_x
+      'int',     // start_y
+      'int',     // size_x
+      'int',     // size_y
+      'int',     // rotate
+      'int'      // flags
+    ])
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
+
+// Render with a transform applied after the page's display matrix, clipped to a device rectangle
+export const FPDF_RenderPageBitmapWithMatrix = pdfiumLib
+  ? pdfiumLib.func('FPDF_RenderPageBitmapWithMatrix', 'void', [
+      'void*',                     // bitmap
+      'void*',                     // page
+      koffi.pointer(FS_MATRIX),    // matrix
+      koffi.pointer(FS_RECTF),     // clipping
+      'int'                        // flags
+    ])
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 // Error codes
 export const FPDF_ERR_SUCCESS = 0;
@@ -174,7 +257,7 @@ export const FPDF_ERR_PAGE = 6;
 
 export const FPDF_GetLastError = pdfiumLib
   ? pdfiumLib.func('FPDF_GetLastError', 'uint32', [])
-  : (() => { throw new Error('PDFium library not loaded'); });
+  : (() => { throw new PdfiumUnavailableError('PDFium library not loaded'); });
 
 // Helper to check if PDFium is available
 export function isPDFiumAvailable(): boolean {
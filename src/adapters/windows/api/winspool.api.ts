@@ -32,6 +32,9 @@ export const PRINTER_ACCESS_ADMINISTER = 0x00000004;
 export const PRINTER_ACCESS_USE = 0x00000008;
 export const PRINTER_ALL_ACCESS = 0x000F000C;
 
+// GetLastError() value when OpenPrinterW is given an unknown printer name
+export const ERROR_INVALID_PRINTER_NAME = 1801;
+
 // Enum flags
 export const PRINTER_ENUM_LOCAL = 0x00000002;
 export const PRINTER_ENUM_CONNECTIONS = 0x00000004;
@@ -101,6 +104,14 @@ export const OpenPrinterW = winspool.func('OpenPrinterW', 'bool', [
 
 export const ClosePrinter = winspool.func('ClosePrinter', 'bool', ['void*']);
 
+export const GetPrinterW = winspool.func('GetPrinterW', 'bool', [
+  'void*',                           // hPrinter
+  'uint32',                          // Level
+  'void*',                           // pPrinter
+  'uint32',                          // cbBuf
+  koffi.out(koffi.pointer('uint32')) // pcbNeeded
+]);
+
 export const DocumentPropertiesW = winspool.func('DocumentPropertiesW', 'int32', [
   'void*',                           // hWnd
   'void*',                           // hPrinter
@@ -130,6 +141,7 @@ export const DC_DUPLEX = 7;        // Duplex support
 export const DC_BINNAMES = 12;     // Names of bins/trays
 export const DC_COPIES = 18;       // Maximum number of copies
 export const DC_PAPERNAMES = 16;   // Names of paper forms
+export const DC_COLLATE = 22;      // Collation support
 export const DC_MEDIAREADY = 29;   // Media loaded in printer
 export const DC_MEDIATYPENAMES = 34; // Names of media types
 export const DC_MEDIATYPES = 35;   // Media type IDs
@@ -142,3 +154,127 @@ export const DeviceCapabilitiesW = winspool.func('DeviceCapabilitiesW', 'int32',
   'void*',                           // pOutput (buffer for results)
   koffi.pointer(DEVMODEW)            // pDevMode (can be null)
 ]);
+
+// SYSTEMTIME structure (used by JOB_INFO_1W.Submitted, always UTC)
+export const SYSTEMTIME = defineStruct('SYSTEMTIME', {
+  wYear: 'uint16',
+  wMonth: 'uint16',
+  wDayOfWeek: 'uint16',
+  wDay: 'uint16',
+  wHour: 'uint16',
+  wMinute: 'uint16',
+  wSecond: 'uint16',
+  wMilliseconds: 'uint16'
+});
+
+// JOB_INFO_1W structure
+export const JOB_INFO_1W = defineStruct('JOB_INFO_1W', {
+  JobId: 'uint32',
+  pPrinterName: 'str16',
+  pMachineName: 'str16',
+  pUserName: 'str16',
+  pDocument: 'str16',
+  pDatatype: 'str16',
+  pStatus: 'str16',
+  Status: 'uint32',
+  Priority: 'uint32',
+  Position: 'uint32',
+  TotalPages: 'uint32',
+  PagesPrinted: 'uint32',
+  Submitted: SYSTEMTIME
+});
+
+// Job control commands (SetJobW Command)
+export const JOB_CONTROL_PAUSE = 1;
+export const JOB_CONTROL_RESUME = 2;
+export const JOB_CONTROL_RESTART = 4;
+export const JOB_CONTROL_DELETE = 5;
+
+// Winspool job management functions
+export const EnumJobsW = winspool.func('EnumJobsW', 'bool', [
+  'void*',                           // hPrinter
+  'uint32',                          // FirstJob
+  'uint32',                          // NoJobs
+  'uint32',                          // Level
+  'void*',                           // pJob
+  'uint32',                          // cbBuf
+  koffi.out(koffi.pointer('uint32')),// pcbNeeded
+  koffi.out(koffi.pointer('uint32')) // pcReturned
+]);
+
+export const GetJobW = winspool.func('GetJobW', 'bool', [
+  'void*',                           // hPrinter
+  'uint32',                          // JobId
+  'uint32',                          // Level
+  'void*',                           // pJob
+  'uint32',                          // cbBuf
+  koffi.out(koffi.pointer('uint32')) // pcbNeeded
+]);
+
+export const SetJobW = winspool.func('SetJobW', 'bool', [
+  'void*',                           // hPrinter
+  'uint32',                          // JobId
+  'uint32',                          // Level (0 when only sending a command)
+  'void*',                           // pJob
+  'uint32'                           // Command (JOB_CONTROL_* constant)
+]);
+
+// DOC_INFO_1W structure (StartDocPrinterW Level 1)
+export const DOC_INFO_1W = defineStruct('DOC_INFO_1W', {
+  pDocName: 'str16',
+  pOutputFile: 'str16',
+  pDatatype: 'str16'
+});
+
+// Winspool raw spooling functions (data is written to the job without a device context)
+export const StartDocPrinterW = winspool.func('StartDocPrinterW', 'uint32', [
+  'void*',                           // hPrinter
+  'uint32',                          // Level
+  koffi.pointer(DOC_INFO_1W)         // pDocInfo
+]);
+
+export const StartPagePrinter = winspool.func('StartPagePrinter', 'bool', ['void*']);
+
+export const WritePrinter = winspool.func('WritePrinter', 'bool', [
+  'void*',                           // hPrinter
+  'void*',                           // pBuf
+  'uint32',                          // cbBuf
+  koffi.out(koffi.pointer('uint32')) // pcWritten
+]);
+
+export const EndPagePrinter = winspool.func('EndPagePrinter', 'bool', ['void*']);
+
+export const EndDocPrinter = winspool.func('EndDocPrinter', 'bool', ['void*']);
+
+export const AbortPrinter = winspool.func('AbortPrinter', 'bool', ['void*']);
+
+// Printer change notification flags (FindFirstPrinterChangeNotification fdwFilter)
+export const PRINTER_CHANGE_ADD_PRINTER = 0x00000001;
+export const PRINTER_CHANGE_SET_PRINTER = 0x00000002;
+export const PRINTER_CHANGE_DELETE_PRINTER = 0x00000004;
+export const PRINTER_CHANGE_FAILED_CONNECTION_PRINTER = 0x00000008;
+export const PRINTER_CHANGE_PRINTER = 0x000000FF;
+export const PRINTER_CHANGE_ADD_JOB = 0x00000100;
+export const PRINTER_CHANGE_SET_JOB = 0x00000200;
+export const PRINTER_CHANGE_DELETE_JOB = 0x00000400;
+export const PRINTER_CHANGE_WRITE_JOB = 0x00000800;
+export const PRINTER_CHANGE_JOB = 0x0000FF00;
+
+// Printer change notification functions
+export const FindFirstPrinterChangeNotification = winspool.func('FindFirstPrinterChangeNotification', 'void*', [
+  'void*',                           // hPrinter
+  'uint32',                          // fdwFilter (PRINTER_CHANGE_* flags)
+  'uint32',                          // fdwOptions (must be 0)
+  'void*'                            // pPrinterNotifyOptions
+]);
+
+export const FindNextPrinterChangeNotification = winspool.func('FindNextPrinterChangeNotification', 'bool', [
+  'void*',                           // hChange
+  koffi.out(koffi.pointer('uint32')),// pdwChange
+  'void*',                           // pPrinterNotifyOptions
+  'void*'                            // ppPrinterNotifyInfo
+]);
+
+export const FindClosePrinterChangeNotification = winspool.func('FindClosePrinterChangeNotification', 'bool', [
+  'void*'                            // hChange
+]);
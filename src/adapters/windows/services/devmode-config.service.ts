@@ -1,5 +1,5 @@
 // DEVMODE Configuration Service
-import type { PrintOptions } from '../../../core/types';
+import { PageOrientation, type PrintOptions } from '../../../core/types';
 import { createLogger, type Logger } from '../../../core/logger';
 import {
   OpenPrinterW,
@@ -13,9 +13,15 @@ import {
   DM_DUPLEX,
   DM_COLOR,
   DM_DEFAULTSOURCE,
-  DM_COLLATE
+  DM_COLLATE,
+  DM_COPIES
 } from '../api';
 
+// wingdi.h DMDUP_SIMPLEX: single-sided
+const DMDUP_SIMPLEX = 1;
+// wingdi.h DMDUP_HORIZONTAL: double-sided with short-edge binding
+const DMDUP_SHORT_EDGE = 3;
+
 export class DevModeConfigService {
   private logger: Logger;
 
@@ -99,9 +105,21 @@ export class DevModeConfigService {
         this.logger.debug(`Setting dmColor = ${options.color} (1=MONOCHROME, 2=COLOR)`);
       }
 
-      // Note: We do NOT set dmCopies here because copies are handled by the manual loop
-      // in WindowsPrinterAdapter to maintain compatibility with the cache system.
-      // Setting dmCopies would cause copies to multiply (manual loop × DEVMODE copies).
+      // Booklets print two pages per landscape side and flip on the short edge,
+      // so the back of each sheet comes out the right way up when folded
+      if (options.booklet) {
+        dm.dmOrientation = PageOrientation.LANDSCAPE;
+        dm.dmDuplex = DMDUP_SHORT_EDGE;
+        fieldsToModify |= DM_ORIENTATION | DM_DUPLEX;
+        this.logger.debug(`Booklet: setting dmOrientation = ${dm.dmOrientation}, dmDuplex = ${dm.dmDuplex} (short edge)`);
+      }
+
+      // Manual duplex prints each side as its own single-sided job
+      if (options.manualDuplex) {
+        dm.dmDuplex = DMDUP_SIMPLEX;
+        fieldsToModify |= DM_DUPLEX;
+        this.logger.debug('Manual duplex: setting dmDuplex = 1 (simplex)');
+      }
 
       // Apply collate setting
       if (options.collate !== undefined) {
@@ -111,6 +129,20 @@ export class DevModeConfigService {
         this.logger.debug(`Setting dmCollate = ${dm.dmCollate} (${options.collate ? 'TRUE' : 'FALSE'})`);
       }
 
+      // dmCopies is only set for driver copies: in software mode the adapter spools
+      // every copy itself, and the two would multiply (manual loop × DEVMODE copies)
+      if (options.copiesMode === 'driver' && options.copies !== undefined && options.copies > 1) {
+        dm.dmCopies = options.copies;
+        fieldsToModify |= DM_COPIES;
+        this.logger.debug(`Setting dmCopies = ${options.copies} (driver copies)`);
+        
+        // Booklet copies must stay collated to keep their sheets together
+        if (options.booklet) {
+          dm.dmCollate = 1;
+          fieldsToModify |= DM_COLLATE;
+        }
+      }
+
       // STEP 4: Update dmFields to include all fields we want to modify
       dm.dmFields = fieldsToModify;
       
@@ -0,0 +1,110 @@
+// Enhanced Metafile Service - loads EMF data and plays it onto device contexts
+import koffi from 'koffi';
+import {
+  SetEnhMetaFileBits,
+  GetEnhMetaFileHeader,
+  PlayEnhMetaFile,
+  DeleteEnhMetaFile,
+  ENHMETAHEADER
+} from '../api/gdi32.api';
+import { EmfLoadError } from '../../../core/errors';
+import { createLogger, type Logger } from '../../../core/logger';
+import { POINTS_PER_INCH, type Rect } from '../../../core/layout';
+
+// wingdi.h: every EMF starts with an EMR_HEADER record carrying the " EMF" signature
+const EMR_HEADER = 1;
+const ENHMETA_SIGNATURE = 0x464D4520;
+const SIGNATURE_OFFSET = 40;
+const MIN_HEADER_SIZE = 88;
+
+// rclFrame is in .01 millimetre units
+const FRAME_UNITS_PER_INCH = 2540;
+
+/**
+ * A loaded enhanced metafile
+ */
+export interface Metafile {
+  /** HENHMETAFILE handle; release with close() */
+  handle: any;
+  /** Picture width in points */
+  width: number;
+  /** Picture height in points */
+  height: number;
+}
+
+export class EmfService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = createLogger({ context: 'Emf' });
+  }
+
+  /**
+   * Load an enhanced metafile from memory
+   * @param data - Contents of an .emf file
+   * @param index - Position of the metafile in the job, reported in errors
+   * @throws EmfLoadError if the data is not an EMF or has no picture frame
+   */
+  load(data: Buffer, index = 0): Metafile {
+    if (
+      data.length < MIN_HEADER_SIZE ||
+      data.readUInt32LE(0) !== EMR_HEADER ||
+      data.readUInt32LE(SIGNATURE_OFFSET) !== ENHMETA_SIGNATURE
+    ) {
+      const error = new EmfLoadError(`Metafile ${index + 1} is not an enhanced metafile (EMF)`, index);
+      this.logger.error('Invalid metafile', error);
+      throw error;
+    }
+
+    const handle = SetEnhMetaFileBits(data.length, data);
+    if (!handle) {
+      const error = new EmfLoadError(`Failed to load metafile ${index + 1}`, index);
+      this.logger.error('SetEnhMetaFileBits failed', error);
+      throw error;
+    }
+
+    try {
+      const header: any = {};
+      if (!GetEnhMetaFileHeader(handle, koffi.sizeof(ENHMETAHEADER), header)) {
+        const error = new EmfLoadError(`Failed to read the header of metafile ${index + 1}`, index);
+        this.logger.error('GetEnhMetaFileHeader failed', error);
+        throw error;
+      }
+
+      const [left, top, right, bottom] = header.rclFrame;
+      const width = ((right - left) / FRAME_UNITS_PER_INCH) * POINTS_PER_INCH;
+      const height = ((bottom - top) / FRAME_UNITS_PER_INCH) * POINTS_PER_INCH;
+      if (!(width > 0 && height > 0)) {
+        const error = new EmfLoadError(`Metafile ${index + 1} has an empty picture frame`, index);
+        this.logger.error('Invalid metafile', error);
+        throw error;
+      }
+
+      this.logger.debug(`Metafile ${index + 1}: ${width.toFixed(2)}x${height.toFixed(2)} points, ${header.nRecords} records`);
+      return { handle, width, height };
+    } catch (error) {
+      DeleteEnhMetaFile(handle);
+      throw error;
+    }
+  }
+
+  /**
+   * Play a metafile so its picture frame fills `rect` (device units)
+   * @returns false if GDI could not play the metafile
+   */
+  play(hDC: any, metafile: Metafile, rect: Rect): boolean {
+    const left = Math.round(rect.x);
+    const top = Math.round(rect.y);
+    const right = Math.round(rect.x + rect.width);
+    const bottom = Math.round(rect.y + rect.height);
+
+    return Boolean(PlayEnhMetaFile(hDC, metafile.handle, [left, top, right, bottom]));
+  }
+
+  /**
+   * Release a loaded metafile
+   */
+  close(metafile: Metafile): void {
+    DeleteEnhMetaFile(metafile.handle);
+  }
+}
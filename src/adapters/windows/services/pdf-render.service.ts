@@ -1,12 +1,69 @@
 // PDF Rendering Service using PDFium with performance optimizations
 import type * as PdfiumAPI from '../api/pdfium.api';
 import { createLogger, type Logger } from '../../../core/logger';
+import {
+  PdfiumUnavailableError,
+  PdfiumNotInitializedError,
+  RenderError,
+  PdfLoadError,
+  PdfFileError,
+  PdfFormatError,
+  PdfPasswordError,
+  PdfSecurityError,
+  PdfPageError
+} from '../../../core/errors';
+import type { PageBox, PageRotation } from '../../../core/types';
+import {
+  resolvePageBox,
+  toDisplayRect,
+  computeRenderMatrix,
+  computeBoxPageRect,
+  type PdfBox,
+  type Rect
+} from '../../../core/layout';
 
 export interface RenderOptions {
   width: number;
   height: number;
   maintainAspectRatio?: boolean;
   backgroundColor?: number;
+  /**
+   * Render only part of the page: the page is drawn at viewport.width x viewport.height
+   * pixels and the region starting at (viewport.x, viewport.y) fills the bitmap.
+   * When set, the bitmap is exactly width x height and maintainAspectRatio is ignored.
+   */
+  viewport?: {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+  };
+  /**
+   * FPDF_RenderPageBitmap rotation: 0 = normal, 1 = 90° clockwise, 2 = 180°, 3 = 90° counter-clockwise
+   * Width, height and viewport describe the rotated output.
+   */
+  rotate?: number;
+  /**
+   * Region of the page to render, in display points (see getPageGeometry)
+   * When set, this box fills the rendered page instead of the crop box.
+   */
+  box?: Rect;
+}
+
+/**
+ * Size and position of a page box
+ */
+export interface PageGeometry {
+  /** The selected box in PDF user space, after fallbacks */
+  bounds: PdfBox;
+  /** The page's /Rotate attribute */
+  rotation: PageRotation;
+  /** Displayed width in points, with /Rotate applied */
+  width: number;
+  /** Displayed height in points, with /Rotate applied */
+  height: number;
+  /** The box in PDFium display space (origin top-left of the crop box, /Rotate applied) */
+  display: Rect;
 }
 
 export interface RenderedPage {
@@ -50,7 +107,7 @@ export class PdfRenderService {
       this.logger.endTimer(loadTimer);
 
       if (!globalPdfiumInstance.isPDFiumAvailable()) {
-        const error = new Error(
+        const error = new PdfiumUnavailableError(
           'PDFium library not found. Please download pdfium.dll from:\n' +
           'https://github.com/bblanchon/pdfium-binaries/releases\n' +
           'and place it in the bin/ directory of your project.'
@@ -142,20 +199,23 @@ export class PdfRenderService {
 
   /**
    * Load PDF document from buffer
+   * @param pdfData - PDF file contents
+   * @param password - Password for encrypted documents
+   * @throws PdfLoadError subclass matching the PDFium error code
    */
-  loadDocument(pdfData: Buffer): any {
+  loadDocument(pdfData: Buffer, password?: string): any {
     const timer = this.logger.startTimer('PDF document load');
     
     if (!this.pdfium) {
-      const error = new Error('PDFium not initialized. Call initialize() first.');
+      const error = new PdfiumNotInitializedError('PDFium not initialized. Call initialize() first.');
       this.logger.error('Cannot load document', error);
       throw error;
     }
 
-    const pdfDoc = this.pdfium.FPDF_LoadMemDocument(pdfData, pdfData.length, null);
+    const pdfDoc = this.pdfium.FPDF_LoadMemDocument(pdfData, pdfData.length, password ?? null);
     if (!pdfDoc) {
       const errorCode = this.pdfium.FPDF_GetLastError();
-      const error = new Error(`Failed to load PDF document. PDFium error code: ${errorCode}`);
+      const error = this.createLoadError(errorCode, password !== undefined);
       this.logger.error('PDF load failed', error);
       throw error;
     }
@@ -166,6 +226,33 @@ export class PdfRenderService {
     return pdfDoc;
   }
 
+  /**
+   * Map a PDFium FPDF_ERR_* code to a typed load error
+   */
+  private createLoadError(code: number, passwordProvided: boolean): PdfLoadError {
+    const pdfium = this.pdfium!;
+    switch (code) {
+      case pdfium.FPDF_ERR_FILE:
+        return new PdfFileError('Failed to load PDF document: file could not be opened or read', code);
+      case pdfium.FPDF_ERR_FORMAT:
+        return new PdfFormatError('Failed to load PDF document: data is not a PDF or is corrupted', code);
+      case pdfium.FPDF_ERR_PASSWORD:
+        return new PdfPasswordError(
+          passwordProvided
+            ? 'Failed to load PDF document: incorrect password'
+            : 'Failed to load PDF document: document is password protected',
+          code,
+          passwordProvided
+        );
+      case pdfium.FPDF_ERR_SECURITY:
+        return new PdfSecurityError('Failed to load PDF document: unsupported security scheme', code);
+      case pdfium.FPDF_ERR_PAGE:
+        return new PdfPageError('Failed to load PDF document: page not found or content error', code);
+      default:
+        return new PdfLoadError(`Failed to load PDF document. PDFium error code: ${code}`, code);
+    }
+  }
+
   /**
    * Close PDF document and clear its cache
    */
@@ -185,14 +272,14 @@ export class PdfRenderService {
    */
   getPageCount(pdfDoc: any): number {
     if (!this.pdfium) {
-      const error = new Error('PDFium not initialized');
+      const error = new PdfiumNotInitializedError('PDFium not initialized');
       this.logger.error('Cannot get page count', error);
       throw error;
     }
 
     const pageCount = this.pdfium.FPDF_GetPageCount(pdfDoc);
     if (pageCount <= 0) {
-      const error = new Error('PDF document has no pages');
+      const error = new PdfFormatError('PDF document has no pages', this.pdfium.FPDF_ERR_FORMAT);
       this.logger.error('Invalid PDF document', error);
       throw error;
     }
@@ -201,19 +288,77 @@ export class PdfRenderService {
     return pageCount;
   }
 
+  /**
+   * Get the geometry of a page box, honouring the page's /Rotate attribute
+   * @param pageBox - Box that defines the page (default: crop box)
+   */
+  getPageGeometry(pdfDoc: any, pageIndex: number, pageBox: PageBox = 'crop'): PageGeometry {
+    if (!this.pdfium) {
+      const error = new PdfiumNotInitializedError('PDFium not initialized');
+      this.logger.error('Cannot get page geometry', error);
+      throw error;
+    }
+
+    const page = this.pdfium.FPDF_LoadPage(pdfDoc, pageIndex);
+    if (!page) {
+      const error = new PdfPageError(`Failed to load page ${pageIndex + 1}`, this.pdfium.FPDF_ERR_PAGE, pageIndex);
+      this.logger.error('Page load failed', error);
+      throw error;
+    }
+
+    try {
+      const pdfium = this.pdfium;
+      const readBox = (getBox: typeof pdfium.FPDFPage_GetMediaBox): PdfBox | null => {
+        const left = [0];
+        const bottom = [0];
+        const right = [0];
+        const top = [0];
+        return getBox(page, left, bottom, right, top)
+          ? { left: left[0], bottom: bottom[0], right: right[0], top: top[0] }
+          : null;
+      };
+
+      const rect = { left: 0, top: 0, right: 0, bottom: 0 };
+      const bounds: PdfBox = pdfium.FPDF_GetPageBoundingBox(page, rect)
+        ? { left: rect.left, bottom: rect.bottom, right: rect.right, top: rect.top }
+        : { left: 0, bottom: 0, right: pdfium.FPDF_GetPageWidth(page), top: pdfium.FPDF_GetPageHeight(page) };
+
+      const box = resolvePageBox(pageBox, {
+        bounds,
+        media: readBox(pdfium.FPDFPage_GetMediaBox),
+        bleed: pageBox === 'bleed' ? readBox(pdfium.FPDFPage_GetBleedBox) : null,
+        trim: pageBox === 'trim' ? readBox(pdfium.FPDFPage_GetTrimBox) : null,
+        art: pageBox === 'art' ? readBox(pdfium.FPDFPage_GetArtBox) : null
+      });
+
+      const quarterTurns = pdfium.FPDFPage_GetRotation(page);
+      const rotation = ((quarterTurns >= 0 ? quarterTurns % 4 : 0) * 90) as PageRotation;
+      const display = toDisplayRect(box, bounds, rotation);
+
+      this.logger.debug(
+        `Page ${pageIndex} ${pageBox} box: ${display.width.toFixed(2)}x${display.height.toFixed(2)} points, /Rotate ${rotation}`
+      );
+
+      return { bounds: box, rotation, width: display.width, height: display.height, display };
+    } finally {
+      this.pdfium.FPDF_ClosePage(page);
+    }
+  }
+
   /**
    * Get page dimensions in points (1/72 inch)
+   * PDFium reports the crop box size with /Rotate already applied.
    */
   getPageDimensions(pdfDoc: any, pageIndex: number): { width: number; height: number } {
     if (!this.pdfium) {
-      const error = new Error('PDFium not initialized');
+      const error = new PdfiumNotInitializedError('PDFium not initialized');
       this.logger.error('Cannot get page dimensions', error);
       throw error;
     }
 
     const page = this.pdfium.FPDF_LoadPage(pdfDoc, pageIndex);
     if (!page) {
-      const error = new Error(`Failed to load page ${pageIndex + 1}`);
+      const error = new PdfPageError(`Failed to load page ${pageIndex + 1}`, this.pdfium.FPDF_ERR_PAGE, pageIndex);
       this.logger.error('Page load failed', error);
       throw error;
     }
@@ -252,13 +397,13 @@ export class PdfRenderService {
     const timer = this.logger.startTimer(`renderPage(${pageIndex})`);
     
     if (!this.pdfium) {
-      const error = new Error('PDFium not initialized');
+      const error = new PdfiumNotInitializedError('PDFium not initialized');
       this.logger.error('Cannot render page', error);
       throw error;
     }
 
     // Check cache if enabled
-    const cacheKey = this.getCacheKey(pageIndex, options.width, options.height);
+    const cacheKey = this.getRenderCacheKey(pageIndex, options);
     if (this.cacheEnabled && this.pageCache.has(cacheKey)) {
       this.logger.endTimer(timer);
       this.logger.debug(`Page ${pageIndex} retrieved from cache`);
@@ -269,7 +414,7 @@ export class PdfRenderService {
     const pageLoadTimer = this.logger.startTimer(`Page ${pageIndex} load`);
     const page = this.pdfium.FPDF_LoadPage(pdfDoc, pageIndex);
     if (!page) {
-      const error = new Error(`Failed to load page ${pageIndex + 1}`);
+      const error = new PdfPageError(`Failed to load page ${pageIndex + 1}`, this.pdfium.FPDF_ERR_PAGE, pageIndex);
       this.logger.error('Page load failed', error);
       throw error;
     }
@@ -284,8 +429,11 @@ export class PdfRenderService {
       let renderWidth = options.width;
       let renderHeight = options.height;
 
-      if (options.maintainAspectRatio !== false) {
-        const pageAspect = pageWidth / pageHeight;
+      if (!options.viewport && options.maintainAspectRatio !== false) {
+        // Quarter turns swap the page's width and height
+        const boxWidth = options.box ? options.box.width : pageWidth;
+        const boxHeight = options.box ? options.box.height : pageHeight;
+        const pageAspect = (options.rotate ?? 0) % 2 === 1 ? boxHeight / boxWidth : boxWidth / boxHeight;
         const targetAspect = options.width / options.height;
 
         if (pageAspect > targetAspect) {
@@ -306,7 +454,7 @@ export class PdfRenderService {
       );
 
       if (!bitmap) {
-        const error = new Error('Failed to create bitmap');
+        const error = new RenderError(`Failed to create bitmap for page ${pageIndex + 1}`, pageIndex);
         this.logger.error('Bitmap creation failed', error);
         throw error;
       }
@@ -321,16 +469,32 @@ export class PdfRenderService {
 
         // Render PDF page to bitmap
         const renderTimer = this.logger.startTimer(`Page ${pageIndex} render to bitmap`);
-        this.pdfium.FPDF_RenderPageBitmap(
-          bitmap,
-          page,
-          0,              // start_x
-          0,              // start_y
-          renderWidth,    // size_x
-          renderHeight,   // size_y
-          0,              // rotate (0 = no rotation)
-          this.pdfium.FPDF_PRINTING | this.pdfium.FPDF_ANNOT  // flags
-        );
+        const viewport = options.viewport;
+        const flags = this.pdfium.FPDF_PRINTING | this.pdfium.FPDF_ANNOT;
+        if (options.box) {
+          // Map the selected box onto the bitmap; content outside it is clipped
+          const matrix = computeRenderMatrix({
+            box: options.box,
+            rotation: (((options.rotate ?? 0) % 4) * 90) as PageRotation,
+            width: viewport ? viewport.width : renderWidth,
+            height: viewport ? viewport.height : renderHeight,
+            offsetX: viewport ? viewport.x : 0,
+            offsetY: viewport ? viewport.y : 0
+          });
+          const clipping = { left: 0, top: 0, right: renderWidth, bottom: renderHeight };
+          this.pdfium.FPDF_RenderPageBitmapWithMatrix(bitmap, page, matrix, clipping, flags);
+        } else {
+          this.pdfium.FPDF_RenderPageBitmap(
+            bitmap,
+            page,
+            viewport ? -viewport.x : 0,                 // start_x
+            viewport ? -viewport.y : 0,                 // start_y
+            viewport ? viewport.width : renderWidth,    // size_x
+            viewport ? viewport.height : renderHeight,  // size_y
+            options.rotate ?? 0,                        // rotate
+            flags
+          );
+        }
         this.logger.endTimer(renderTimer);
 
         // Get bitmap data - we need to keep the bitmap alive until after rendering
@@ -348,7 +512,6 @@ export class PdfRenderService {
 
         // Cache if enabled
         if (this.cacheEnabled) {
-          const cacheKey = this.getCacheKey(pageIndex, options.width, options.height);
           this.pageCache.set(cacheKey, renderedPage);
           this.logger.debug(`Page ${pageIndex} cached with key: ${cacheKey}`);
         }
@@ -367,10 +530,87 @@ export class PdfRenderService {
     }
   }
 
+  /**
+   * Render a page straight into a device context with FPDF_RenderPage
+   * Text and vector graphics reach the printer as GDI drawing calls instead of
+   * a bitmap. PDFium always draws the whole page, so callers clip the device
+   * context to the part that should be visible. Nothing is cached.
+   * @param target - Where the page, or `options.box` of it, is drawn in device pixels
+   */
+  renderPageToDC(
+    pdfDoc: any,
+    pageIndex: number,
+    hDC: any,
+    target: Rect,
+    options: Pick<RenderOptions, 'rotate' | 'box'> = {}
+  ): void {
+    const timer = this.logger.startTimer(`renderPageToDC(${pageIndex})`);
+
+    if (!this.pdfium) {
+      const error = new PdfiumNotInitializedError('PDFium not initialized');
+      this.logger.error('Cannot render page', error);
+      throw error;
+    }
+
+    const page = this.pdfium.FPDF_LoadPage(pdfDoc, pageIndex);
+    if (!page) {
+      const error = new PdfPageError(`Failed to load page ${pageIndex + 1}`, this.pdfium.FPDF_ERR_PAGE, pageIndex);
+      this.logger.error('Page load failed', error);
+      throw error;
+    }
+
+    try {
+      const rotate = options.rotate ?? 0;
+      const pageRect = options.box
+        ? computeBoxPageRect(
+          options.box,
+          { width: this.pdfium.FPDF_GetPageWidth(page), height: this.pdfium.FPDF_GetPageHeight(page) },
+          ((rotate % 4) * 90) as PageRotation,
+          target
+        )
+        : target;
+
+      const left = Math.round(pageRect.x);
+      const top = Math.round(pageRect.y);
+      this.pdfium.FPDF_RenderPage(
+        hDC,
+        page,
+        left,                                            // start_x
+        top,                                             // start_y
+        Math.round(pageRect.x + pageRect.width) - left,  // size_x
+        Math.round(pageRect.y + pageRect.height) - top,  // size_y
+        rotate,                                          // rotate
+        this.pdfium.FPDF_PRINTING | this.pdfium.FPDF_ANNOT
+      );
+      this.logger.endTimer(timer);
+    } finally {
+      this.pdfium.FPDF_ClosePage(page);
+    }
+  }
+
   getCacheKey(pageIndex: number, width: number, height: number): string {
     return `${pageIndex}_${width}_${height}`;
   }
 
+  /**
+   * Cache key for a render request, including the viewport, rotation and page box when set
+   */
+  private getRenderCacheKey(pageIndex: number, options: RenderOptions): string {
+    let key = this.getCacheKey(pageIndex, options.width, options.height);
+    const viewport = options.viewport;
+    if (viewport) {
+      key += `_${viewport.width}x${viewport.height}+${viewport.x}+${viewport.y}`;
+    }
+    if (options.rotate) {
+      key += `_r${options.rotate}`;
+    }
+    const box = options.box;
+    if (box) {
+      key += `_b${box.x},${box.y},${box.width},${box.height}`;
+    }
+    return key;
+  }
+
   /**
    * Pre-render multiple pages in parallel (performance optimization)
    */
@@ -385,8 +625,7 @@ export class PdfRenderService {
     }
 
     const pagesToRender = pageIndices.filter(pageIndex => {
-      const cacheKey = this.getCacheKey(pageIndex, options.width, options.height);
-      return !this.pageCache.has(cacheKey);
+      return !this.pageCache.has(this.getRenderCacheKey(pageIndex, options));
     });
 
     if (pagesToRender.length === 0) {
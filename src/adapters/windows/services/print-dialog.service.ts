@@ -3,6 +3,7 @@ import koffi from 'koffi';
 import * as buffer from 'buffer';
 import {
   PrintDlgW,
+  CommDlgExtendedError,
   PD_RETURNDC,
   PD_ALLPAGES,
   PD_USEDEVMODECOPIESANDCOLLATE,
@@ -16,6 +17,7 @@ import {
   GHND
 } from '../api/kernel32.api';
 import type { PrintOptions } from '../../../core/types';
+import { DialogError } from '../../../core/errors';
 
 const Buffer = buffer.Buffer;
 
@@ -78,7 +80,11 @@ export class PrintDialogService {
       const result = PrintDlgW(pdArray);
 
       if (!result) {
-        // User cancelled or error occurred
+        // A zero extended error means the user cancelled
+        const dialogError = CommDlgExtendedError();
+        if (dialogError !== 0) {
+          throw new DialogError(`Failed to show print dialog. Error: 0x${dialogError.toString(16)}`, dialogError);
+        }
         if (pdArray[0].hDevMode) GlobalFree(pdArray[0].hDevMode);
         if (pdArray[0].hDevNames) GlobalFree(pdArray[0].hDevNames);
         return { cancelled: true };
@@ -114,7 +120,10 @@ export class PrintDialogService {
           GlobalFree(pdArray[0].hDevNames);
         } catch {}
       }
-      throw new Error(`Failed to show print dialog: ${error.message}`);
+      if (error instanceof DialogError) {
+        throw error;
+      }
+      throw new DialogError(`Failed to show print dialog: ${error.message}`, 0);
     }
   }
 
@@ -142,14 +151,14 @@ export class PrintDialogService {
     // Allocate global memory
     const hDevNames = GlobalAlloc(GHND, totalSize);
     if (!hDevNames) {
-      throw new Error('Failed to allocate memory for DEVNAMES');
+      throw new DialogError('Failed to allocate memory for DEVNAMES', 0);
     }
     
     try {
       const pDevNames = GlobalLock(hDevNames);
       if (!pDevNames) {
         GlobalFree(hDevNames);
-        throw new Error('Failed to lock DEVNAMES memory');
+        throw new DialogError('Failed to lock DEVNAMES memory', 0);
       }
       
       try {
@@ -13,6 +13,7 @@ import {
   DC_BINNAMES,
   DC_DUPLEX, 
   DC_COPIES, 
+  DC_COLLATE,
   DC_PAPERNAMES,
   DC_MEDIAREADY,
   DC_MEDIATYPENAMES 
@@ -38,6 +39,7 @@ export class PrinterCapabilitiesService {
       trayFormAssignments: this.getTrayFormAssignments(bins, paperNames),
       supportsDuplex: this.supportsDuplex(printerName),
       maxCopies: this.getMaxCopies(printerName),
+      supportsCollate: this.supportsCollate(printerName),
       mediaReady: this.getMediaReady(printerName),
       mediaTypeNames: this.getMediaTypeNames(printerName)
     };
@@ -230,6 +232,14 @@ export class PrinterCapabilitiesService {
     return result > 0 ? result : 1;
   }
 
+  /**
+   * Check if the driver can collate copies
+   */
+  supportsCollate(printerName: string): boolean {
+    const result = DeviceCapabilitiesW(printerName, null, DC_COLLATE, null, null);
+    return result === 1;
+  }
+
   /**
    * Get media ready (loaded paper)
    */
@@ -0,0 +1,181 @@
+// Raw Print Service - writes printer-ready data (PCL, PostScript, ZPL, ...) to spooler jobs
+import koffi from 'koffi';
+import {
+  OpenPrinterW,
+  ClosePrinter,
+  EnumPrintProcessorDatatypesW,
+  StartDocPrinterW,
+  StartPagePrinter,
+  WritePrinter,
+  EndPagePrinter,
+  EndDocPrinter,
+  AbortPrinter,
+  DATATYPES_INFO_1W,
+  PRINTER_ACCESS_USE,
+  ERROR_INVALID_PRINTER_NAME
+} from '../api/winspool.api';
+import { GetLastError } from '../api/kernel32.api';
+import { PrinterNotFoundError, SpoolerError } from '../../../core/errors';
+import { createLogger, type Logger } from '../../../core/logger';
+
+/**
+ * A spooler job started with startJob()
+ */
+export interface RawPrintJob {
+  /** Printer handle of the job; released by endJob() or abortJob() */
+  hPrinter: any;
+  /** Spooler job id returned by StartDocPrinter */
+  jobId: number;
+  printerName: string;
+}
+
+export class RawPrintService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = createLogger({ context: 'RawPrint' });
+  }
+
+  /**
+   * List the datatypes a print processor accepts
+   * @param printProcessor - Print processor of the printer (PrinterInfo.printProcessor)
+   * @returns Datatype names, or an empty list if they could not be read
+   */
+  getDatatypes(printProcessor: string): string[] {
+    const needed = [0];
+    const returned = [0];
+
+    // First call gets the buffer size
+    EnumPrintProcessorDatatypesW(null, printProcessor, 1, null, 0, needed, returned);
+    if (needed[0] === 0) {
+      this.logger.warn(`Could not list the datatypes of print processor '${printProcessor}'. Error: ${GetLastError()}`);
+      return [];
+    }
+
+    const buffer = Buffer.alloc(needed[0]);
+    if (!EnumPrintProcessorDatatypesW(null, printProcessor, 1, buffer, needed[0], needed, returned)) {
+      this.logger.warn(`Could not list the datatypes of print processor '${printProcessor}'. Error: ${GetLastError()}`);
+      return [];
+    }
+
+    const datatypes: string[] = [];
+    const structSize = koffi.sizeof(DATATYPES_INFO_1W);
+    for (let i = 0; i < returned[0]; i++) {
+      const offset = i * structSize;
+      const info = koffi.decode(buffer.slice(offset, offset + structSize), DATATYPES_INFO_1W);
+      if (info.pName) {
+        datatypes.push(info.pName);
+      }
+    }
+
+    this.logger.debug(`Print processor '${printProcessor}' datatypes: ${datatypes.join(', ')}`);
+    return datatypes;
+  }
+
+  /**
+   * Open the printer and start a spooler job of the given datatype
+   * @throws PrinterNotFoundError if the printer does not exist
+   * @throws SpoolerError if the printer cannot be opened or the job cannot be started
+   */
+  startJob(printerName: string, documentName: string, datatype: string): RawPrintJob {
+    const hPrinter = [null];
+    const defaults = {
+      pDatatype: datatype,
+      pDevMode: null,
+      DesiredAccess: PRINTER_ACCESS_USE
+    };
+
+    if (!OpenPrinterW(printerName, hPrinter, defaults) || !hPrinter[0]) {
+      const win32Error = GetLastError();
+      const error = win32Error === ERROR_INVALID_PRINTER_NAME
+        ? new PrinterNotFoundError(`Printer not found: ${printerName}`, printerName)
+        : new SpoolerError(
+          `Failed to open printer '${printerName}'. Error: ${win32Error}`,
+          { printerName, operation: 'OpenPrinter', win32Error }
+        );
+      this.logger.error('Printer open failed', error);
+      throw error;
+    }
+
+    const jobId = StartDocPrinterW(hPrinter[0], 1, {
+      pDocName: documentName,
+      pOutputFile: null,
+      pDatatype: datatype
+    });
+    if (!jobId) {
+      const win32Error = GetLastError();
+      ClosePrinter(hPrinter[0]);
+      const error = new SpoolerError(
+        `Failed to start ${datatype} document. Error: ${win32Error}`,
+        { printerName, operation: 'StartDocPrinter', win32Error }
+      );
+      this.logger.error('Document start failed', error);
+      throw error;
+    }
+
+    this.logger.debug(`Raw job started (jobId: ${jobId}, datatype: ${datatype})`);
+    return { hPrinter: hPrinter[0], jobId, printerName };
+  }
+
+  /**
+   * Write one page of data to the job (StartPagePrinter, WritePrinter, EndPagePrinter)
+   * The spooler counts each page; the data itself is not interpreted.
+   * @throws SpoolerError if the spooler rejects the page or the data
+   */
+  writePage(job: RawPrintJob, data: Buffer): void {
+    const { hPrinter, jobId, printerName } = job;
+
+    if (!StartPagePrinter(hPrinter)) {
+      this.throwJobError('StartPagePrinter', 'Failed to start page', job);
+    }
+
+    // WritePrinter may accept less than it was given; write the rest until done
+    let offset = 0;
+    while (offset < data.length) {
+      const written = [0];
+      if (!WritePrinter(hPrinter, data.subarray(offset), data.length - offset, written) || written[0] === 0) {
+        this.throwJobError('WritePrinter', `Failed to write data after ${offset} of ${data.length} bytes`, job);
+      }
+      offset += written[0];
+    }
+
+    if (!EndPagePrinter(hPrinter)) {
+      this.throwJobError('EndPagePrinter', 'Failed to end page', job);
+    }
+    this.logger.debug(`Wrote ${data.length} bytes to job ${jobId} on '${printerName}'`);
+  }
+
+  /**
+   * End the job so the spooler sends it to the printer, and close the printer
+   * @throws SpoolerError if the spooler cannot end the job
+   */
+  endJob(job: RawPrintJob): void {
+    try {
+      if (!EndDocPrinter(job.hPrinter)) {
+        this.throwJobError('EndDocPrinter', 'Failed to end document', job);
+      }
+    } finally {
+      ClosePrinter(job.hPrinter);
+    }
+  }
+
+  /**
+   * Delete the partially written job and close the printer
+   */
+  abortJob(job: RawPrintJob): void {
+    if (!AbortPrinter(job.hPrinter)) {
+      this.logger.warn(`Failed to abort job ${job.jobId}. Error: ${GetLastError()}`);
+    }
+    ClosePrinter(job.hPrinter);
+  }
+
+  private throwJobError(operation: string, message: string, job: RawPrintJob): never {
+    const win32Error = GetLastError();
+    const error = new SpoolerError(
+      `${message}. Error: ${win32Error}`,
+      { printerName: job.printerName, operation, win32Error, jobId: job.jobId }
+    );
+    this.logger.error('Raw job failed', error);
+    throw error;
+  }
+}
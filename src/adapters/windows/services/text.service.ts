@@ -0,0 +1,114 @@
+// Text Service - creates GDI fonts and measures and draws lines of text on device contexts
+import {
+  CreateFontW,
+  SelectObject,
+  DeleteObject,
+  SetBkMode,
+  GetTextMetricsW,
+  GetTextExtentPoint32W,
+  TextOutW,
+  SaveDC,
+  RestoreDC,
+  FW_NORMAL,
+  DEFAULT_CHARSET,
+  OUT_DEFAULT_PRECIS,
+  CLIP_DEFAULT_PRECIS,
+  DEFAULT_QUALITY,
+  DEFAULT_PITCH,
+  TRANSPARENT
+} from '../api/gdi32.api';
+import { createLogger, type Logger } from '../../../core/logger';
+import { POINTS_PER_INCH } from '../../../core/layout';
+
+// Line spacing used when the driver reports no text metrics
+const FALLBACK_LINE_SPACING = 1.2;
+
+/**
+ * A GDI font sized for one device context
+ */
+export interface TextFont {
+  /** HFONT handle; release with close() */
+  handle: any;
+  /** Distance between baselines, in device pixels */
+  lineHeight: number;
+}
+
+export class TextService {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = createLogger({ context: 'Text' });
+  }
+
+  /**
+   * Create a font of `size` points for a device of `dpiY` vertical resolution
+   * @returns The font, or null if GDI could not create it
+   */
+  createFont(hDC: any, face: string, size: number, dpiY: number): TextFont | null {
+    // A negative height asks for the character height (em size) rather than the cell height
+    const height = Math.max(1, Math.round((size * dpiY) / POINTS_PER_INCH));
+    const handle = CreateFontW(
+      -height, 0, 0, 0, FW_NORMAL, 0, 0, 0,
+      DEFAULT_CHARSET, OUT_DEFAULT_PRECIS, CLIP_DEFAULT_PRECIS, DEFAULT_QUALITY, DEFAULT_PITCH,
+      face
+    );
+    if (!handle) {
+      return null;
+    }
+
+    let lineHeight = Math.round(height * FALLBACK_LINE_SPACING);
+    this.use(hDC, { handle, lineHeight }, () => {
+      const metrics: any = {};
+      if (GetTextMetricsW(hDC, metrics) && metrics.tmHeight > 0) {
+        lineHeight = metrics.tmHeight + metrics.tmExternalLeading;
+      }
+    });
+
+    this.logger.debug(`Font "${face}" ${size}pt: ${height}px, line height ${lineHeight}px`);
+    return { handle, lineHeight };
+  }
+
+  /**
+   * Run `draw` with the font selected and a transparent text background
+   * The previous state of the device context is restored afterwards.
+   */
+  use<T>(hDC: any, font: TextFont, draw: () => T): T {
+    const savedState = SaveDC(hDC);
+    try {
+      SelectObject(hDC, font.handle);
+      SetBkMode(hDC, TRANSPARENT);
+      return draw();
+    } finally {
+      RestoreDC(hDC, savedState);
+    }
+  }
+
+  /**
+   * Width of a string in the selected font, in device pixels
+   */
+  measure(hDC: any, text: string): number {
+    if (text.length === 0) {
+      return 0;
+    }
+    const size: any = {};
+    return GetTextExtentPoint32W(hDC, text, text.length, size) ? size.cx : 0;
+  }
+
+  /**
+   * Draw a string in the selected font with its top-left corner at (x, y)
+   * @returns false if GDI could not draw the text
+   */
+  draw(hDC: any, x: number, y: number, text: string): boolean {
+    if (text.length === 0) {
+      return true;
+    }
+    return Boolean(TextOutW(hDC, Math.round(x), Math.round(y), text, text.length));
+  }
+
+  /**
+   * Release a font
+   */
+  close(font: TextFont): void {
+    DeleteObject(font.handle);
+  }
+}
@@ -0,0 +1,196 @@
+// Windows Print Job Manager Adapter - lists and controls spooler jobs
+import type { IPrintJobManager } from '../../core/interfaces';
+import type { JobInfo } from '../../core/types';
+import { createLogger, type Logger } from '../../core/logger';
+import {
+  OpenPrinterW,
+  ClosePrinter,
+  EnumJobsW,
+  GetJobW,
+  SetJobW,
+  JOB_INFO_1W,
+  PRINTER_ACCESS_USE,
+  JOB_CONTROL_PAUSE,
+  JOB_CONTROL_RESUME,
+  JOB_CONTROL_RESTART,
+  JOB_CONTROL_DELETE,
+  ERROR_INVALID_PRINTER_NAME,
+  GetLastError
+} from './api';
+import { PrinterNotFoundError, SpoolerError } from '../../core/errors';
+import { decodeJobStatus, describeJobStatus } from '../../core/spooler';
+import koffi from 'koffi';
+
+export class WindowsPrintJobManagerAdapter implements IPrintJobManager {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = createLogger({ context: 'PrintJobManager' });
+  }
+
+  /**
+   * List all jobs in a printer queue
+   * @param printerName - Name of the printer to query
+   */
+  getJobs(printerName: string): JobInfo[] {
+    return this.withPrinter(printerName, hPrinter => {
+      const jobs: JobInfo[] = [];
+      const needed = [0];
+      const returned = [0];
+
+      // First call gets the buffer size; 0xFFFFFFFF jobs means "all jobs"
+      EnumJobsW(hPrinter, 0, 0xFFFFFFFF, 1, null, 0, needed, returned);
+
+      if (needed[0] === 0) {
+        return jobs;
+      }
+
+      const buffer = Buffer.alloc(needed[0]);
+      const success = EnumJobsW(hPrinter, 0, 0xFFFFFFFF, 1, buffer, needed[0], needed, returned);
+
+      if (!success) {
+        const win32Error = GetLastError();
+        throw new SpoolerError(
+          `Failed to enumerate jobs for printer '${printerName}'. Error: ${win32Error}`,
+          { printerName, operation: 'EnumJobs', win32Error }
+        );
+      }
+
+      const structSize = koffi.sizeof(JOB_INFO_1W);
+      for (let i = 0; i < returned[0]; i++) {
+        const offset = i * structSize;
+        const jobInfo = koffi.decode(buffer.slice(offset, offset + structSize), JOB_INFO_1W);
+        jobs.push(this.toJobInfo(jobInfo));
+      }
+
+      this.logger.debug(`Found ${jobs.length} job(s) on '${printerName}'`);
+      return jobs;
+    });
+  }
+
+  /**
+   * Get a single job
+   * @param printerName - Name of the printer the job was sent to
+   * @param jobId - Spooler job id
+   * @returns Job information, or null if the job is no longer in the queue
+   */
+  getJob(printerName: string, jobId: number): JobInfo | null {
+    return this.withPrinter(printerName, hPrinter => {
+      const needed = [0];
+
+      GetJobW(hPrinter, jobId, 1, null, 0, needed);
+
+      if (needed[0] === 0) {
+        // ERROR_INVALID_PARAMETER: the job has left the queue
+        this.logger.debug(`Job ${jobId} not found on '${printerName}'`);
+        return null;
+      }
+
+      const buffer = Buffer.alloc(needed[0]);
+      if (!GetJobW(hPrinter, jobId, 1, buffer, needed[0], needed)) {
+        this.logger.debug(`Job ${jobId} left the queue of '${printerName}'`);
+        return null;
+      }
+
+      const jobInfo = koffi.decode(buffer, JOB_INFO_1W);
+      return this.toJobInfo(jobInfo);
+    });
+  }
+
+  pauseJob(printerName: string, jobId: number): void {
+    this.controlJob(printerName, jobId, JOB_CONTROL_PAUSE, 'pause');
+  }
+
+  resumeJob(printerName: string, jobId: number): void {
+    this.controlJob(printerName, jobId, JOB_CONTROL_RESUME, 'resume');
+  }
+
+  restartJob(printerName: string, jobId: number): void {
+    this.controlJob(printerName, jobId, JOB_CONTROL_RESTART, 'restart');
+  }
+
+  cancelJob(printerName: string, jobId: number): void {
+    this.controlJob(printerName, jobId, JOB_CONTROL_DELETE, 'cancel');
+  }
+
+  /**
+   * Send a JOB_CONTROL_* command to a job
+   */
+  private controlJob(printerName: string, jobId: number, command: number, action: string): void {
+    this.withPrinter(printerName, hPrinter => {
+      if (!SetJobW(hPrinter, jobId, 0, null, command)) {
+        const win32Error = GetLastError();
+        const error = new SpoolerError(
+          `Failed to ${action} job ${jobId} on printer '${printerName}'. Error: ${win32Error}`,
+          { printerName, operation: 'SetJob', win32Error, jobId }
+        );
+        this.logger.error(`Job ${action} failed`, error);
+        throw error;
+      }
+      this.logger.info(`Job ${jobId} on '${printerName}': ${action} requested`);
+    });
+  }
+
+  /**
+   * Open a printer handle for the duration of the callback
+   */
+  private withPrinter<T>(printerName: string, callback: (hPrinter: any) => T): T {
+    const hPrinter = [null];
+    const defaults = {
+      pDatatype: null,
+      pDevMode: null,
+      DesiredAccess: PRINTER_ACCESS_USE
+    };
+
+    if (!OpenPrinterW(printerName, hPrinter, defaults) || !hPrinter[0]) {
+      const win32Error = GetLastError();
+      const error = win32Error === ERROR_INVALID_PRINTER_NAME
+        ? new PrinterNotFoundError(`Printer not found: ${printerName}`, printerName)
+        : new SpoolerError(
+          `Failed to open printer '${printerName}'. Error: ${win32Error}`,
+          { printerName, operation: 'OpenPrinter', win32Error }
+        );
+      this.logger.error('Printer open failed', error);
+      throw error;
+    }
+
+    try {
+      return callback(hPrinter[0]);
+    } finally {
+      ClosePrinter(hPrinter[0]);
+    }
+  }
+
+  /**
+   * Convert a decoded JOB_INFO_1W structure to JobInfo
+   */
+  private toJobInfo(jobInfo: any): JobInfo {
+    const statusFlags = decodeJobStatus(jobInfo.Status);
+    const submitted = jobInfo.Submitted;
+
+    return {
+      jobId: jobInfo.JobId,
+      printerName: jobInfo.pPrinterName || '',
+      machineName: jobInfo.pMachineName || undefined,
+      userName: jobInfo.pUserName || undefined,
+      documentName: jobInfo.pDocument || '',
+      datatype: jobInfo.pDatatype || undefined,
+      status: jobInfo.Status,
+      statusFlags,
+      statusText: jobInfo.pStatus || describeJobStatus(statusFlags),
+      priority: jobInfo.Priority,
+      position: jobInfo.Position,
+      totalPages: jobInfo.TotalPages,
+      pagesPrinted: jobInfo.PagesPrinted,
+      submitted: new Date(Date.UTC(
+        submitted.wYear,
+        submitted.wMonth - 1,
+        submitted.wDay,
+        submitted.wHour,
+        submitted.wMinute,
+        submitted.wSecond,
+        submitted.wMilliseconds
+      ))
+    };
+  }
+}
@@ -3,12 +3,22 @@ import type { IPrinterManager } from '../../core/interfaces';
 import {
   EnumPrintersW,
   GetDefaultPrinterW,
+  OpenPrinterW,
+  ClosePrinter,
+  GetPrinterW,
   PRINTER_ENUM_LOCAL,
   PRINTER_ENUM_CONNECTIONS,
-  PRINTER_INFO_2W
+  PRINTER_INFO_2W,
+  PRINTER_ACCESS_USE,
+  ERROR_INVALID_PRINTER_NAME,
+  GetLastError
 } from './api';
 import { PrinterCapabilitiesService } from './services/printer-capabilities.service';
-import type { PrinterCapabilitiesInfo, PrinterInfo } from '../../core/types';
+import { WindowsPrintJobManagerAdapter } from './windows-print-job-manager.adapter';
+import { WindowsPrinterWatcher } from './windows-printer-watcher.adapter';
+import type { PrinterCapabilitiesInfo, PrinterInfo, PrinterStatus, PrinterWatchOptions } from '../../core/types';
+import { UnsupportedPlatformError, PrinterNotFoundError, SpoolerError } from '../../core/errors';
+import { decodePrinterAttributes, decodePrinterStatus, describePrinterStatus, isPrinterReady } from '../../core/spooler';
 import koffi from 'koffi';
 
 export class WindowsPrinterManagerAdapter implements IPrinterManager {
@@ -17,10 +27,11 @@ export class WindowsPrinterManagerAdapter implements IPrinterManager {
   constructor() {
     // Validate Windows platform early - fail fast
     if (process.platform !== 'win32') {
-      throw new Error(
+      throw new UnsupportedPlatformError(
         `Windows PDF Printer Native only supports Windows platform. ` +
         `Current platform: ${process.platform}. ` +
-        `For Unix/Linux/macOS printing, please use: https://www.npmjs.com/package/unix-print`
+        `For Unix/Linux/macOS printing, please use: https://www.npmjs.com/package/unix-print`,
+        process.platform
       );
     }
     
@@ -53,21 +64,133 @@ export class WindowsPrinterManagerAdapter implements IPrinterManager {
       const offset = i * structSize;
       const printerInfo = koffi.decode(buffer.slice(offset, offset + structSize), PRINTER_INFO_2W);
       
-      printers.push({
-        name: printerInfo.pPrinterName || '',
-        serverName: printerInfo.pServerName || undefined,
-        portName: printerInfo.pPortName || undefined,
-        driverName: printerInfo.pDriverName || undefined,
-        location: printerInfo.pLocation || undefined,
-        comment: printerInfo.pComment || undefined,
-        status: printerInfo.Status,
-        isDefault: printerInfo.pPrinterName === defaultPrinter
-      });
+      printers.push(this.toPrinterInfo(printerInfo, defaultPrinter));
     }
     
     return printers;
   }
   
+  /**
+   * Get the current status of a printer
+   * @param printerName - Name of the printer to query
+   * @returns Decoded status including a `ready` flag
+   */
+  getPrinterStatus(printerName: string): PrinterStatus {
+    const printerInfo = this.getPrinterInfo2(printerName);
+    const statusFlags = decodePrinterStatus(printerInfo.Status);
+    const { workOffline } = decodePrinterAttributes(printerInfo.Attributes);
+    
+    return {
+      printerName: printerInfo.pPrinterName || printerName,
+      status: printerInfo.Status,
+      statusFlags,
+      statusText: describePrinterStatus(statusFlags),
+      ready: isPrinterReady(statusFlags, workOffline),
+      jobCount: printerInfo.cJobs
+    };
+  }
+  
+  /**
+   * Get the full PRINTER_INFO_2W details of a single printer
+   * @param printerName - Name of the printer to query
+   */
+  getPrinterInfo(printerName: string): PrinterInfo {
+    return this.toPrinterInfo(this.getPrinterInfo2(printerName), this.getDefaultPrinter());
+  }
+  
+  /**
+   * Watch printers and jobs for changes
+   * @param options - Printer to watch (default: the whole local print server) and event kinds
+   * @returns A started watcher; call close() to release the notification handle
+   */
+  watch(options?: PrinterWatchOptions): WindowsPrinterWatcher {
+    const watcher = new WindowsPrinterWatcher(this, new WindowsPrintJobManagerAdapter(), options);
+    watcher.start();
+    return watcher;
+  }
+  
+  /**
+   * Read PRINTER_INFO_2W for a single printer with GetPrinterW
+   */
+  private getPrinterInfo2(printerName: string): any {
+    const hPrinter = [null];
+    const defaults = {
+      pDatatype: null,
+      pDevMode: null,
+      DesiredAccess: PRINTER_ACCESS_USE
+    };
+    
+    if (!OpenPrinterW(printerName, hPrinter, defaults) || !hPrinter[0]) {
+      const win32Error = GetLastError();
+      if (win32Error === ERROR_INVALID_PRINTER_NAME) {
+        throw new PrinterNotFoundError(`Printer not found: ${printerName}`, printerName);
+      }
+      throw new SpoolerError(
+        `Failed to open printer '${printerName}'. Error: ${win32Error}`,
+        { printerName, operation: 'OpenPrinter', win32Error }
+      );
+    }
+    
+    try {
+      const needed = [0];
+      GetPrinterW(hPrinter[0], 2, null, 0, needed);
+      
+      if (needed[0] === 0) {
+        const win32Error = GetLastError();
+        throw new SpoolerError(
+          `Failed to query printer '${printerName}'. Error: ${win32Error}`,
+          { printerName, operation: 'GetPrinter', win32Error }
+        );
+      }
+      
+      const buffer = Buffer.alloc(needed[0]);
+      if (!GetPrinterW(hPrinter[0], 2, buffer, needed[0], needed)) {
+        const win32Error = GetLastError();
+        throw new SpoolerError(
+          `Failed to query printer '${printerName}'. Error: ${win32Error}`,
+          { printerName, operation: 'GetPrinter', win32Error }
+        );
+      }
+      
+      return koffi.decode(buffer, PRINTER_INFO_2W);
+    } finally {
+      ClosePrinter(hPrinter[0]);
+    }
+  }
+  
+  /**
+   * Convert a decoded PRINTER_INFO_2W structure to PrinterInfo
+   */
+  private toPrinterInfo(printerInfo: any, defaultPrinter: string | null): PrinterInfo {
+    const statusFlags = decodePrinterStatus(printerInfo.Status);
+    
+    return {
+      name: printerInfo.pPrinterName || '',
+      serverName: printerInfo.pServerName || undefined,
+      portName: printerInfo.pPortName || undefined,
+      driverName: printerInfo.pDriverName || undefined,
+      location: printerInfo.pLocation || undefined,
+      comment: printerInfo.pComment || undefined,
+      status: printerInfo.Status,
+      statusFlags,
+      statusText: describePrinterStatus(statusFlags),
+      isDefault: printerInfo.pPrinterName === defaultPrinter,
+      shareName: printerInfo.pShareName || undefined,
+      printProcessor: printerInfo.pPrintProcessor || undefined,
+      datatype: printerInfo.pDatatype || undefined,
+      parameters: printerInfo.pParameters || undefined,
+      separatorFile: printerInfo.pSepFile || undefined,
+      attributes: printerInfo.Attributes,
+      attributeFlags: decodePrinterAttributes(printerInfo.Attributes),
+      priority: printerInfo.Priority,
+      defaultPriority: printerInfo.DefaultPriority,
+      startTime: printerInfo.StartTime,
+      untilTime: printerInfo.UntilTime,
+      jobCount: printerInfo.cJobs,
+      averagePagesPerMinute: printerInfo.AveragePPM
+    };
+  }
+  
   getDefaultPrinter(): string | null {
     const bufferSize = [256];
     const buffer = Buffer.alloc(256 * 2);
@@ -0,0 +1,401 @@
+// Windows Printer Watcher - printer change notifications using FindFirstPrinterChangeNotification
+import { EventEmitter } from 'events';
+import koffi from 'koffi';
+import type { IPrinterWatcher } from '../../core/interfaces';
+import type { JobInfo, PrinterChangeEvent, PrinterInfo, PrinterWatchOptions } from '../../core/types';
+import { createLogger, type Logger } from '../../core/logger';
+import { PrinterNotFoundError, SpoolerError } from '../../core/errors';
+import {
+  OpenPrinterW,
+  ClosePrinter,
+  FindFirstPrinterChangeNotification,
+  FindNextPrinterChangeNotification,
+  FindClosePrinterChangeNotification,
+  PRINTER_ACCESS_USE,
+  PRINTER_CHANGE_PRINTER,
+  PRINTER_CHANGE_JOB,
+  WaitForSingleObject,
+  WAIT_OBJECT_0,
+  WAIT_FAILED,
+  INVALID_HANDLE_VALUE,
+  ERROR_INVALID_PRINTER_NAME,
+  GetLastError
+} from './api';
+import type { WindowsPrinterManagerAdapter } from './windows-printer-manager.adapter';
+import type { WindowsPrintJobManagerAdapter } from './windows-print-job-manager.adapter';
+
+// Each wait runs on a koffi worker thread; short slices keep close() responsive
+const WAIT_SLICE_MS = 250;
+
+/**
+ * Watches printers and jobs and emits typed change events
+ *
+ * Change notifications only say *what kind* of change happened, so the watcher
+ * keeps a snapshot of printers and jobs and diffs it on every notification.
+ *
+ * Events are emitted as 'change' (every event) and under their own type
+ * ('printer-added', 'job-deleted', ...). 'close' is emitted once the
+ * notification handle has been released.
+ *
+ * @example
+ * ```typescript
+ * const watcher = await PrinterManager.watch();
+ * watcher.on('status-changed', (event) => console.log(event.printer.name, event.printer.statusText));
+ *
+ * for await (const event of watcher) {
+ *   if (event.type === 'printer-added') console.log('New printer:', event.printer.name);
+ * }
+ *
+ * await watcher.close();
+ * ```
+ */
+export class WindowsPrinterWatcher extends EventEmitter implements IPrinterWatcher {
+  private logger: Logger;
+  private options: PrinterWatchOptions;
+  private hPrinter: any = null;
+  private hChange: any = null;
+  private closed = false;
+  private waiting = false;
+  private released = false;
+  private closePromise: Promise<void>;
+  private resolveClose!: () => void;
+  private printers = new Map<string, PrinterInfo>();
+  private jobs = new Map<string, Map<number, JobInfo>>();
+
+  constructor(
+    private manager: WindowsPrinterManagerAdapter,
+    private jobManager: WindowsPrintJobManagerAdapter,
+    options: PrinterWatchOptions = {}
+  ) {
+    super();
+    this.logger = createLogger({ context: 'PrinterWatcher' });
+    this.options = { printers: true, jobs: true, ...options };
+    this.closePromise = new Promise(resolve => {
+      this.resolveClose = resolve;
+    });
+  }
+
+  /**
+   * Open the notification handle and start waiting for changes
+   */
+  start(): void {
+    const printerName = this.options.printerName ?? '';
+    const target = this.options.printerName ?? 'local print server';
+    const hPrinter = [null];
+    const defaults = this.options.printerName
+      ? { pDatatype: null, pDevMode: null, DesiredAccess: PRINTER_ACCESS_USE }
+      : null;
+
+    if (!OpenPrinterW(this.options.printerName ?? null, hPrinter, defaults) || !hPrinter[0]) {
+      const win32Error = GetLastError();
+      const error = win32Error === ERROR_INVALID_PRINTER_NAME
+        ? new PrinterNotFoundError(`Printer not found: ${printerName}`, printerName)
+        : new SpoolerError(
+          `Failed to open ${target} for change notifications. Error: ${win32Error}`,
+          { printerName, operation: 'OpenPrinter', win32Error }
+        );
+      this.logger.error('Printer open failed', error);
+      throw error;
+    }
+    this.hPrinter = hPrinter[0];
+
+    let filter = 0;
+    if (this.options.printers) filter |= PRINTER_CHANGE_PRINTER;
+    if (this.options.jobs) filter |= PRINTER_CHANGE_JOB;
+
+    const hChange = FindFirstPrinterChangeNotification(this.hPrinter, filter, 0, null);
+    if (!hChange || koffi.address(hChange) === INVALID_HANDLE_VALUE) {
+      // Read the error before ClosePrinter can overwrite it
+      const win32Error = GetLastError();
+      ClosePrinter(this.hPrinter);
+      this.hPrinter = null;
+      const error = new SpoolerError(
+        `Failed to watch ${target} for changes. Error: ${win32Error}`,
+        { printerName, operation: 'FindFirstPrinterChangeNotification', win32Error }
+      );
+      this.logger.error('FindFirstPrinterChangeNotification failed', error);
+      throw error;
+    }
+    this.hChange = hChange;
+
+    try {
+      this.takeSnapshot();
+    } catch (error) {
+      this.logger.error('Failed to read the initial printer snapshot', error);
+      this.closed = true;
+      this.release();
+      throw error;
+    }
+    this.logger.info(`Watching ${target} (filter: 0x${filter.toString(16)})`);
+    this.waitForChange();
+  }
+
+  /**
+   * Stop watching and release the notification handle
+   * Resolves once the handle has been closed; safe to call more than once.
+   */
+  close(): Promise<void> {
+    if (!this.closed) {
+      this.closed = true;
+      this.logger.debug('Closing printer watcher');
+      // An in-flight wait releases the handle when it returns
+      if (!this.waiting) {
+        this.release();
+      }
+    }
+    return this.closePromise;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<PrinterChangeEvent> {
+    const buffered: PrinterChangeEvent[] = [];
+    // Callers may request several events before any arrives
+    const pending: Array<(result: IteratorResult<PrinterChangeEvent>) => void> = [];
+
+    const onChange = (event: PrinterChangeEvent) => {
+      const resolve = pending.shift();
+      if (resolve) {
+        resolve({ value: event, done: false });
+      } else {
+        buffered.push(event);
+      }
+    };
+    const onClose = () => {
+      cleanup();
+    };
+    const cleanup = () => {
+      this.off('change', onChange);
+      this.off('close', onClose);
+      for (const resolve of pending.splice(0)) {
+        resolve({ value: undefined, done: true });
+      }
+    };
+
+    this.on('change', onChange);
+    this.on('close', onClose);
+
+    return {
+      next: () => {
+        if (buffered.length > 0) {
+          return Promise.resolve({ value: buffered.shift()!, done: false });
+        }
+        if (this.released) {
+          cleanup();
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => {
+          pending.push(resolve);
+        });
+      },
+      return: async () => {
+        cleanup();
+        return { value: undefined, done: true };
+      }
+    };
+  }
+
+  /**
+   * Wait for the notification handle on a worker thread, then handle the change
+   */
+  private waitForChange(): void {
+    if (this.closed) {
+      this.release();
+      return;
+    }
+
+    this.waiting = true;
+    WaitForSingleObject.async(this.hChange, WAIT_SLICE_MS, (error: any, result: number) => {
+      this.waiting = false;
+
+      if (this.closed) {
+        this.release();
+        return;
+      }
+
+      if (error || result === WAIT_FAILED) {
+        this.fail(error ?? this.createSpoolerError('Waiting for printer changes failed', 'WaitForSingleObject'));
+        return;
+      }
+
+      if (result === WAIT_OBJECT_0) {
+        const change = [0];
+        // Resets the handle so the next change can be signaled
+        if (!FindNextPrinterChangeNotification(this.hChange, change, null, null)) {
+          this.fail(this.createSpoolerError('Failed to read printer change notification', 'FindNextPrinterChangeNotification'));
+          return;
+        }
+        this.handleChange(change[0]);
+      }
+
+      this.waitForChange();
+    });
+  }
+
+  /**
+   * Diff the snapshot for the kind of change reported by the spooler
+   */
+  private handleChange(change: number): void {
+    this.logger.debug(`Printer change notification: 0x${change.toString(16)}`);
+
+    try {
+      if (change & PRINTER_CHANGE_PRINTER) {
+        this.diffPrinters();
+      }
+      if (change & PRINTER_CHANGE_JOB) {
+        this.diffJobs();
+      }
+    } catch (error) {
+      // Printers can disappear between the notification and the snapshot
+      this.logger.warn(`Failed to refresh printer snapshot: ${(error as Error)?.message}`);
+    }
+  }
+
+  private takeSnapshot(): void {
+    this.printers = new Map(this.readPrinters().map(printer => [printer.name, printer]));
+    if (this.options.jobs) {
+      for (const printerName of this.printers.keys()) {
+        const jobs = this.readJobs(printerName);
+        if (jobs) {
+          this.jobs.set(printerName, jobs);
+        }
+      }
+    }
+  }
+
+  private diffPrinters(): void {
+    const current = new Map(this.readPrinters().map(printer => [printer.name, printer]));
+
+    for (const [name, printer] of current) {
+      const previous = this.printers.get(name);
+      if (!previous) {
+        this.emitChange({ type: 'printer-added', printer });
+        continue;
+      }
+      if (previous.status !== printer.status) {
+        this.emitChange({
+          type: 'status-changed',
+          printer,
+          previousStatus: previous.status,
+          previousStatusText: previous.statusText
+        });
+      }
+      if (this.describePrinter(previous) !== this.describePrinter(printer)) {
+        this.emitChange({ type: 'printer-changed', printer });
+      }
+    }
+
+    for (const name of this.printers.keys()) {
+      if (!current.has(name)) {
+        this.jobs.delete(name);
+        this.emitChange({ type: 'printer-deleted', printerName: name });
+      }
+    }
+
+    this.printers = current;
+  }
+
+  private diffJobs(): void {
+    for (const printerName of this.printers.keys()) {
+      const currentJobs = this.readJobs(printerName);
+      if (!currentJobs) {
+        continue;
+      }
+      const previousJobs = this.jobs.get(printerName) ?? new Map<number, JobInfo>();
+
+      for (const [jobId, job] of currentJobs) {
+        const previous = previousJobs.get(jobId);
+        if (!previous) {
+          this.emitChange({ type: 'job-added', printerName, job });
+        } else if (JSON.stringify(previous) !== JSON.stringify(job)) {
+          this.emitChange({ type: 'job-set', printerName, job });
+        }
+      }
+
+      for (const jobId of previousJobs.keys()) {
+        if (!currentJobs.has(jobId)) {
+          this.emitChange({ type: 'job-deleted', printerName, jobId });
+        }
+      }
+
+      this.jobs.set(printerName, currentJobs);
+    }
+  }
+
+  private readPrinters(): PrinterInfo[] {
+    if (!this.options.printerName) {
+      return this.manager.getAvailablePrinters();
+    }
+    try {
+      return [this.manager.getPrinterInfo(this.options.printerName)];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Read the jobs of one printer, or null when its queue cannot be opened
+   * Connection printers on unreachable servers fail here; they are skipped
+   * so the other printers are still watched.
+   */
+  private readJobs(printerName: string): Map<number, JobInfo> | null {
+    try {
+      return new Map(this.jobManager.getJobs(printerName).map(job => [job.jobId, job]));
+    } catch (error) {
+      this.logger.warn(`Skipping jobs of '${printerName}': ${(error as Error)?.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Printer fields compared for 'printer-changed' (status and job count have their own events)
+   */
+  private describePrinter(printer: PrinterInfo): string {
+    const { status, statusFlags, statusText, jobCount, ...details } = printer;
+    return JSON.stringify(details);
+  }
+
+  private emitChange(event: PrinterChangeEvent): void {
+    this.emit('change', event);
+    this.emit(event.type, event);
+  }
+
+  private createSpoolerError(message: string, operation: string): SpoolerError {
+    const win32Error = GetLastError();
+    return new SpoolerError(`${message}. Error: ${win32Error}`, {
+      printerName: this.options.printerName ?? '',
+      operation,
+      win32Error
+    });
+  }
+
+  private fail(error: Error): void {
+    this.logger.error('Printer watcher stopped', error);
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+    this.closed = true;
+    this.release();
+  }
+
+  /**
+   * Close the notification and printer handles
+   */
+  private release(): void {
+    if (this.released) {
+      return;
+    }
+    this.released = true;
+
+    if (this.hChange) {
+      FindClosePrinterChangeNotification(this.hChange);
+      this.hChange = null;
+    }
+    if (this.hPrinter) {
+      ClosePrinter(this.hPrinter);
+      this.hPrinter = null;
+    }
+
+    this.logger.debug('Printer watcher closed');
+    this.emit('close');
+    this.resolveClose();
+  }
+}
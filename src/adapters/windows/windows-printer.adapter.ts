@@ -1,7 +1,91 @@
 // Windows Printer Adapter - implements IPrinter interface using GDI for printing
 import type { IPrinter } from '../../core/interfaces';
-import { PrintQuality, type PrintOptions } from '../../core/types';
+import {
+  PrintQuality,
+  DuplexMode,
+  type PrintOptions,
+  type PrintProgressEvent,
+  type PrintJobResult,
+  type PrintJobCompletion,
+  type PrintJobTimings,
+  type WaitForCompletionOptions,
+  type JobInfo,
+  type PageRotation,
+  type TextPrintOptions,
+  type TextPrintResult,
+  type LabelDefinition,
+  type LabelPrintOptions
+} from '../../core/types';
+import {
+  PrintJobError,
+  PrintJobTimeoutError,
+  PrinterNotFoundError,
+  FileNotFoundError,
+  DeviceContextError,
+  SpoolerError,
+  PrintAbortedError,
+  InvalidOptionError,
+  EmfLoadError,
+  ImageDecodeError,
+  type PrintJobFailureReason
+} from '../../core/errors';
 import { createLogger, type Logger } from '../../core/logger';
+import {
+  parsePageSelection,
+  imposeBooklet,
+  pairDuplexSides,
+  planManualDuplex,
+  selectPageSubset,
+  reverseSides,
+  validateCopiesMode,
+  resolveCopiesMode,
+  type CopiesRequest
+} from '../../core/pages';
+import {
+  computePagePlacement,
+  computeRenderViewport,
+  computeLayoutAreas,
+  validateMargins,
+  validateScaling,
+  validatePageRotation,
+  validatePageBox,
+  getPageRotationOverride,
+  resolvePageRotation,
+  rotateSize,
+  toPdfiumRotation,
+  addRotations,
+  rotateRect180,
+  validateNUp,
+  getPagesPerSheet,
+  computeNUpLayout,
+  groupPagesIntoSheets,
+  computeBorderStrips,
+  intersectRects,
+  type Rect,
+  type SheetMetrics,
+  type LayoutAreas,
+  type NUpLayout
+} from '../../core/layout';
+import {
+  openImage,
+  getFrameSize,
+  rotateImage,
+  DEFAULT_IMAGE_DPI,
+  type ImageDocument,
+  type ImageFrame,
+  type DecodedImage
+} from '../../core/images';
+import {
+  DEFAULT_TEXT_FONT,
+  DEFAULT_FONT_SIZE,
+  validateTextOptions,
+  computeLinesPerPage,
+  paginateText,
+  formatHeaderFooter,
+  type TextLayout
+} from '../../core/text';
+import { detectPrintLanguage, isPdfDocument, selectRawDatatype } from '../../core/raw';
+import { LabelBuilder, encodeLabel } from '../../core/labels';
 import * as fs from 'fs';
 import * as path from 'path';
 import koffi from 'koffi';
@@ -11,6 +95,7 @@ import {
   DeleteDC,
   StartDocW,
   EndDoc,
+  AbortDoc,
   StartPage,
   EndPage,
   StretchDIBits,
@@ -19,31 +104,92 @@ import {
   VERTRES,
   LOGPIXELSX,
   LOGPIXELSY,
+  PHYSICALWIDTH,
+  PHYSICALHEIGHT,
+  PHYSICALOFFSETX,
+  PHYSICALOFFSETY,
   BITMAPINFOHEADER,
   BI_RGB,
   DIB_RGB_COLORS,
   SRCCOPY,
+  PatBlt,
+  BLACKNESS,
+  WHITENESS,
+  SaveDC,
+  RestoreDC,
+  IntersectClipRect,
+  CLIP_ERROR,
   GetLastError
 } from './api';
 import { WindowsPrinterManagerAdapter } from './windows-printer-manager.adapter';
-import { PdfRenderService } from './services/pdf-render.service';
+import { WindowsPrintJobManagerAdapter } from './windows-print-job-manager.adapter';
+import { PdfRenderService, type PageGeometry } from './services/pdf-render.service';
 import { DevModeConfigService } from './services/devmode-config.service';
+import { PrinterCapabilitiesService } from './services/printer-capabilities.service';
 import { PrintDialogService } from './services/print-dialog.service';
+import { EmfService, type Metafile } from './services/emf.service';
+import { TextService, type TextFont } from './services/text.service';
+import { RawPrintService } from './services/raw-print.service';
+
+/**
+ * Sheet geometry of the device context and the areas pages are placed in
+ */
+interface PageLayout {
+  sheet: SheetMetrics;
+  areas: LayoutAreas;
+  /** Cells of each sheet (a single cell covering the page area unless printing N-up) */
+  nUp: NUpLayout;
+}
+
+/**
+ * Per-phase timings of a job that has not started yet
+ */
+function createTimings(): PrintJobTimings {
+  return {
+    dialog: 0,
+    load: 0,
+    deviceContext: 0,
+    startDoc: 0,
+    render: 0,
+    spool: 0,
+    endDoc: 0,
+    completion: 0,
+    flip: 0,
+    total: 0
+  };
+}
+
+/**
+ * Draws one page into a cell of the current GDI page
+ * @returns Time spent rendering the page, in milliseconds
+ */
+type DrawPage = (pageIndex: number, cell: Rect, job: { printerName: string; jobId: number }, rotate180: boolean) => number;
+
+// Defaults for waitForCompletion
+const DEFAULT_COMPLETION_TIMEOUT = 5 * 60 * 1000;
+const DEFAULT_COMPLETION_POLL_INTERVAL = 500;
 
 export class WindowsPrinterAdapter implements IPrinter {
   private printerName: string;
   private pdfRenderService: PdfRenderService;
   private devModeConfigService: DevModeConfigService;
+  private capabilitiesService: PrinterCapabilitiesService;
   private printDialogService: PrintDialogService;
+  private emfService: EmfService;
+  private textService: TextService;
+  private rawPrintService: RawPrintService;
+  private printerManager: WindowsPrinterManagerAdapter;
+  private jobManager: WindowsPrintJobManagerAdapter;
   private logger: Logger;
   
   constructor(printerName?: string) {
     this.logger = createLogger({ context: 'WindowsPrinter' });
     const manager = new WindowsPrinterManagerAdapter();
+    this.printerManager = manager;
     
     if (printerName) {
       if (!manager.printerExists(printerName)) {
-        const error = new Error(`Printer not found: ${printerName}`);
+        const error = new PrinterNotFoundError(`Printer not found: ${printerName}`, printerName);
         this.logger.error('Printer not found', error);
         throw error;
       }
@@ -52,7 +198,7 @@ export class WindowsPrinterAdapter implements IPrinter {
     } else {
       const defaultPrinter = manager.getDefaultPrinter();
       if (!defaultPrinter) {
-        const error = new Error('No default printer found');
+        const error = new PrinterNotFoundError('No default printer found', null);
         this.logger.error('No default printer available', error);
         throw error;
       }
@@ -63,14 +209,19 @@ export class WindowsPrinterAdapter implements IPrinter {
     // Initialize services
     this.pdfRenderService = new PdfRenderService();
     this.devModeConfigService = new DevModeConfigService();
+    this.capabilitiesService = new PrinterCapabilitiesService();
     this.printDialogService = new PrintDialogService();
+    this.emfService = new EmfService();
+    this.textService = new TextService();
+    this.rawPrintService = new RawPrintService();
+    this.jobManager = new WindowsPrintJobManagerAdapter();
   }
   
-  async print(pdfPath: string, options?: PrintOptions): Promise<void> {
+  async print(pdfPath: string, options?: PrintOptions): Promise<PrintJobResult> {
     this.logger.info(`Print request for: ${pdfPath}`);
     
     if (!fs.existsSync(pdfPath)) {
-      const error = new Error(`PDF file not found: ${pdfPath}`);
+      const error = new FileNotFoundError(`PDF file not found: ${pdfPath}`, pdfPath);
       this.logger.error('PDF file not found', error);
       throw error;
     }
@@ -79,13 +230,212 @@ export class WindowsPrinterAdapter implements IPrinter {
     this.logger.debug(`PDF file read: ${(pdfData.length / 1024).toFixed(2)}KB`);
     
     const documentName = options?.printer || path.basename(pdfPath);
+    const printerName = options?.printer || this.printerName;
+    
+    // Always render: a file that is not a PDF is rejected by PDFium, never sent to the printer as is
+    const result = await this.printWithRawData(printerName, pdfData, documentName, options);
+    await this.waitIfRequested(result, options);
+    return result;
+  }
+  
+  async printRaw(data: Buffer, documentName: string = 'Document', options?: PrintOptions): Promise<PrintJobResult> {
+    const printerName = options?.printer || this.printerName;
+    // PDFs are rendered; data in a printer language goes to the printer unchanged
+    const result = isPdfDocument(data) && !options?.passthrough
+      ? await this.printWithRawData(printerName, data, documentName, options)
+      : await this.printWithPassthrough(printerName, data, documentName, options);
+    await this.waitIfRequested(result, options);
+    return result;
+  }
+  
+  async printEmf(source: string | Buffer | Array<string | Buffer>, options?: PrintOptions): Promise<PrintJobResult> {
+    const sources = Array.isArray(source) ? source : [source];
+    this.logger.info(`EMF print request for ${sources.length} metafile(s)`);
+    
+    if (sources.length === 0) {
+      const error = new EmfLoadError('No metafiles to print', 0);
+      this.logger.error('Nothing to print', error);
+      throw error;
+    }
+    
+    const metafileData = this.readSourceFiles(sources, 'EMF');
+    const documentName = typeof sources[0] === 'string' ? path.basename(sources[0]) : 'Metafile';
+    const printerName = options?.printer || this.printerName;
+    const result = await this.printWithMetafiles(printerName, metafileData, documentName, options);
+    await this.waitIfRequested(result, options);
+    return result;
+  }
+  
+  async printImage(source: string | Buffer | Array<string | Buffer>, options?: PrintOptions): Promise<PrintJobResult> {
+    const sources = Array.isArray(source) ? source : [source];
+    this.logger.info(`Image print request for ${sources.length} image(s)`);
+    
+    if (sources.length === 0) {
+      const error = new ImageDecodeError('No images to print');
+      this.logger.error('Nothing to print', error);
+      throw error;
+    }
+    
+    const imageData = this.readSourceFiles(sources, 'Image');
+    const documentName = typeof sources[0] === 'string' ? path.basename(sources[0]) : 'Image';
+    const printerName = options?.printer || this.printerName;
+    const result = await this.printWithImages(printerName, imageData, documentName, options);
+    await this.waitIfRequested(result, options);
+    return result;
+  }
+  
+  async printText(text: string, options?: TextPrintOptions): Promise<TextPrintResult> {
+    this.logger.info(`Text print request for ${text.length} character(s)`);
     
-    return this.printRaw(pdfData, documentName, options);
+    const documentName = options?.documentName || 'Text';
+    const printerName = options?.printer || this.printerName;
+    const result = await this.printWithText(printerName, text, documentName, options);
+    await this.waitIfRequested(result, options);
+    return result;
   }
   
-  async printRaw(data: Buffer, documentName: string = 'Document', options?: PrintOptions): Promise<void> {
+  async printLabel(label: LabelBuilder | LabelDefinition, options?: LabelPrintOptions): Promise<PrintJobResult> {
+    const language = options?.language ?? 'zpl';
+    this.logger.info(`Label print request (${String(language).toUpperCase()})`);
+    
+    // The printer prints the copies from the label quantity
+    const copies = options?.copies || 1;
+    let data: Buffer;
+    try {
+      data = encodeLabel(label instanceof LabelBuilder ? label.build() : label, language, copies);
+    } catch (error) {
+      this.logger.error('Invalid label', error);
+      throw error;
+    }
+    
+    const documentName = options?.documentName || 'Label';
     const printerName = options?.printer || this.printerName;
-    return this.printWithRawData(printerName, data, documentName, options);
+    const result = await this.printWithPassthrough(printerName, data, documentName, { ...options, copies: 1 });
+    await this.waitIfRequested(result, options);
+    return { ...result, copies };
+  }
+  
+  /**
+   * Read the files of a multi-file print request; buffers are used as they are
+   */
+  private readSourceFiles(sources: Array<string | Buffer>, kind: string): Buffer[] {
+    return sources.map(item => {
+      if (typeof item !== 'string') {
+        return item;
+      }
+      if (!fs.existsSync(item)) {
+        const error = new FileNotFoundError(`${kind} file not found: ${item}`, item);
+        this.logger.error(`${kind} file not found`, error);
+        throw error;
+      }
+      return fs.readFileSync(item);
+    });
+  }
+  
+  /**
+   * Wait for every spooler job of a result to print when `waitForCompletion` is set
+   */
+  private async waitIfRequested(result: PrintJobResult, options?: PrintOptions): Promise<void> {
+    if (!options?.waitForCompletion || result.cancelled) {
+      return;
+    }
+    
+    const waitOptions = typeof options.waitForCompletion === 'object' ? options.waitForCompletion : {};
+    const completionStart = performance.now();
+    result.completion = 'printed';
+    for (const jobId of result.jobIds) {
+      if (await this.waitForJobCompletion(result.printerName, jobId, waitOptions, options.signal) === 'unknown') {
+        result.completion = 'unknown';
+      }
+    }
+    result.timings.completion = performance.now() - completionStart;
+    result.timings.total += result.timings.completion;
+  }
+  
+  /**
+   * Poll the spooler until a job is printed, deleted or enters an error state
+   * A job that leaves the queue after it was last seen printing or sent to the
+   * printer is considered printed; one that leaves earlier was cancelled and is
+   * reported as deleted. A job that is gone at the first check may have printed
+   * before it could be seen, so its outcome is 'unknown'.
+   * Aborting the signal stops the wait; the job itself stays in the queue.
+   */
+  private async waitForJobCompletion(
+    printerName: string,
+    jobId: number,
+    options: WaitForCompletionOptions,
+    signal?: AbortSignal
+  ): Promise<PrintJobCompletion> {
+    const timeout = options.timeout ?? DEFAULT_COMPLETION_TIMEOUT;
+    const pollInterval = options.pollInterval ?? DEFAULT_COMPLETION_POLL_INTERVAL;
+    const deadline = Date.now() + timeout;
+    const timer = this.logger.startTimer(`Wait for job ${jobId} completion`);
+    this.logger.debug(`Waiting for job ${jobId} on '${printerName}' to print (timeout: ${timeout}ms)`);
+    
+    let lastSeen: JobInfo | null = null;
+    
+    while (true) {
+      this.throwIfAborted(signal);
+      const job = this.jobManager.getJob(printerName, jobId);
+      
+      if (!job) {
+        if (!lastSeen) {
+          this.logger.warn(`Print job ${jobId} was not found in the queue; it may have printed before the first check`);
+          this.logger.endTimer(timer);
+          return 'unknown';
+        }
+        // Printed jobs are removed from the queue unless the printer keeps them; a job
+        // that leaves before it was sent to the printer was cancelled between polls
+        const { printing, printed, complete, deleting, deleted } = lastSeen.statusFlags;
+        if (deleting || deleted || !(printing || printed || complete)) {
+          throw this.createJobError(`Print job ${jobId} was deleted before printing`, printerName, jobId, 'deleted', lastSeen);
+        }
+        this.logger.info(`Print job ${jobId} left the queue, printing completed`);
+        break;
+      }
+      
+      lastSeen = job;
+      const flags = job.statusFlags;
+      
+      if (flags.printed) {
+        this.logger.info(`Print job ${jobId} printed`);
+        break;
+      }
+      
+      if (flags.deleting || flags.deleted) {
+        throw this.createJobError(`Print job ${jobId} was deleted before printing`, printerName, jobId, 'deleted', job);
+      }
+      
+      if (flags.error || flags.offline || flags.paperOut || flags.blocked || flags.userIntervention) {
+        throw this.createJobError(`Print job ${jobId} failed: ${job.statusText}`, printerName, jobId, 'error', job);
+      }
+      
+      if (Date.now() >= deadline) {
+        const error = new PrintJobTimeoutError(
+          `Print job ${jobId} did not finish within ${timeout}ms (last status: ${job.statusText})`,
+          { jobId, printerName, job, timeout }
+        );
+        this.logger.error('Print job completion timed out', error);
+        throw error;
+      }
+      
+      await this.delay(pollInterval, signal);
+    }
+    
+    this.logger.endTimer(timer);
+    return 'printed';
+  }
+  
+  private createJobError(
+    message: string,
+    printerName: string,
+    jobId: number,
+    reason: PrintJobFailureReason,
+    job: JobInfo | null
+  ): PrintJobError {
+    const error = new PrintJobError(message, { jobId, printerName, reason, job });
+    this.logger.error('Print job did not complete', error);
+    return error;
   }
   
   /**
@@ -96,24 +446,44 @@ export class WindowsPrinterAdapter implements IPrinter {
     data: Buffer,
     documentName: string,
     options?: PrintOptions
-  ): Promise<void> {
+  ): Promise<PrintJobResult> {
     const timer = this.logger.startTimer('printWithRawData()');
     this.logger.debug(`Starting print job for printer: ${printerName}`);
     
+    const jobStart = performance.now();
+    const timings = createTimings();
+    
+    const signal = options?.signal;
+    this.throwIfAborted(signal);
+    
     // Show print dialog if requested
     let finalPrinterName = printerName;
     let finalOptions = options;
     let dialogDC: any = null;
-    let dialogDevMode: any = null;
     
     if (options?.showPrintDialog) {
       this.logger.debug('Showing print dialog...');
       
+      const dialogStart = performance.now();
       const dialogResult = this.printDialogService.showPrintDialog(printerName, options);
+      timings.dialog = performance.now() - dialogStart;
       
       if (dialogResult.cancelled) {
         this.logger.info('Print dialog cancelled by user');
-        return; // User cancelled, don't print
+        timings.total = performance.now() - jobStart;
+        this.logger.endTimer(timer);
+        // User cancelled, don't print
+        return {
+          jobId: 0,
+          jobIds: [],
+          printerName,
+          documentName,
+          pagesPrinted: 0,
+          copies: options?.copies || 1,
+          renderDpi: options?.quality || PrintQuality.MEDIUM,
+          cancelled: true,
+          timings
+        };
       }
       
       // Use settings from dialog
@@ -121,9 +491,8 @@ export class WindowsPrinterAdapter implements IPrinter {
         finalPrinterName = dialogResult.printerName;
       }
       
-      // Store dialog DC and devMode for later use
+      // Store dialog DC for later use
       dialogDC = dialogResult.hDC;
-      dialogDevMode = dialogResult.devMode;
       
       // Update options with user selections including page range
       finalOptions = {
@@ -140,164 +509,180 @@ export class WindowsPrinterAdapter implements IPrinter {
     }
     
     // Initialize PDF rendering service
+    const loadStart = performance.now();
     await this.pdfRenderService.initialize();
     
     try {
       // Load PDF document
-      const pdfDoc = this.pdfRenderService.loadDocument(data);
+      const pdfDoc = this.pdfRenderService.loadDocument(data, finalOptions?.password);
+      timings.load = performance.now() - loadStart;
       
       try {
-        // Get page count
+        // Get page count and resolve the pages to print before touching the printer
         const pageCount = this.pdfRenderService.getPageCount(pdfDoc);
+        const pageIndices = selectPageSubset(this.resolvePageIndices(pageCount, finalOptions), finalOptions?.pageSubset);
+        if (finalOptions?.pageSubset === 'odd' || finalOptions?.pageSubset === 'even') {
+          this.logger.info(`Printing ${finalOptions.pageSubset} pages only (${pageIndices.length} page(s))`);
+        }
         
-        // Get DEVMODE settings (unless using dialog DC)
-        let devMode = dialogDevMode;
-        let hDC = dialogDC;
+        // Reject invalid layout options before a spooler job is created
+        validateScaling(finalOptions?.scaling);
+        validateMargins(finalOptions?.margins);
+        validatePageRotation(finalOptions?.pageRotation);
+        validatePageBox(finalOptions?.pageBox);
+        validateNUp(finalOptions?.nUp);
+        const booklet = finalOptions?.booklet === true;
+        if (booklet && getPagesPerSheet(finalOptions?.nUp) > 1) {
+          const error = new InvalidOptionError('Booklet printing cannot be combined with nUp', 'booklet');
+          this.logger.error('Invalid print options', error);
+          throw error;
+        }
+        const renderMode = finalOptions?.renderMode;
+        if (renderMode !== undefined && renderMode !== 'raster' && renderMode !== 'vector') {
+          const error = new InvalidOptionError(`Invalid render mode: ${String(renderMode)} (expected 'raster' or 'vector')`, 'renderMode');
+          this.logger.error('Invalid print options', error);
+          throw error;
+        }
+        const manualDuplex = finalOptions?.manualDuplex;
+        if (manualDuplex && typeof manualDuplex.onFlip !== 'function') {
+          const error = new InvalidOptionError('manualDuplex requires an onFlip callback', 'manualDuplex');
+          this.logger.error('Invalid print options', error);
+          throw error;
+        }
+        
+        // Handle copies with respect to collate option
+        // Booklets are always collated so every copy keeps its front/back pairs
+        const copies = finalOptions?.copies || 1;
+        const collate = finalOptions?.collate === true || booklet; // Default to false if not specified
+        let copiesMode = this.resolveCopiesMode(
+          finalPrinterName,
+          finalOptions,
+          { copies, collate },
+          dialogDC !== null || manualDuplex !== undefined
+        );
         
+        // Use the dialog's device context, or create one with the job's DEVMODE settings
+        let hDC = dialogDC;
+        const deviceContextStart = performance.now();
         if (!hDC) {
-          // No dialog DC, create manually
-          devMode = this.devModeConfigService.getDevModeWithSettings(finalPrinterName, finalOptions);
-          
-          // Create Device Context for the printer
-          const dcTimer = this.logger.startTimer('Device Context creation');
-          hDC = CreateDCW(null, finalPrinterName, null, devMode);
-          if (!hDC) {
-            const error = new Error(`Failed to create device context for printer: ${finalPrinterName}`);
-            this.logger.error('DC creation failed', error);
-            throw error;
-          }
-          this.logger.endTimer(dcTimer);
+          ({ hDC, copiesMode } = this.createDeviceContext(finalPrinterName, finalOptions, copiesMode));
         } else {
           this.logger.debug('Using Device Context from print dialog');
         }
+        timings.deviceContext = performance.now() - deviceContextStart;
+        // With driver copies one set is spooled and the printer repeats it
+        const spooledCopies = copiesMode === 'driver' ? 1 : copies;
         
         try {
-          // Prepare document info
-          const docInfo = {
-            cbSize: 20,
-            lpszDocName: documentName,
-            lpszOutput: null,
-            lpszDatatype: null,
-            fwType: 0
+          // Use user-specified quality or default to 300 DPI (MEDIUM)
+          const renderDpi = finalOptions?.quality || PrintQuality.MEDIUM;
+          
+          // Get sheet geometry and printer resolution
+          const sheet = this.getSheetMetrics(hDC);
+          const areas = computeLayoutAreas(sheet, finalOptions?.margins, finalOptions?.compensateMargins !== false);
+          const layout: PageLayout = {
+            sheet,
+            areas,
+            nUp: computeNUpLayout(booklet ? 2 : finalOptions?.nUp, areas.area, sheet.dpiX, sheet.dpiY)
           };
+          if (booklet && areas.area.width < areas.area.height) {
+            this.logger.warn('Booklet printing on a portrait sheet: the driver did not apply landscape orientation');
+          }
           
-          // Start document
-          const startDocTimer = this.logger.startTimer('Start document');
-          const jobId = StartDocW(hDC, docInfo);
-          if (jobId <= 0) {
-            const error = new Error(`Failed to start document. Error: ${GetLastError()}`);
-            this.logger.error('Document start failed', error);
-            throw error;
+          this.logger.debug(`Render quality: ${renderDpi} DPI (printer DPI: ${sheet.dpiX}x${sheet.dpiY})`);
+          
+          // Disable cache for multiple copies without collate to avoid buffer reuse issues
+          // When collate is disabled, the same page is printed multiple times consecutively
+          // and reusing the cached bitmap buffer can cause GDI corruption
+          const originalCacheState = this.pdfRenderService.isCacheEnabled();
+          if (spooledCopies > 1 && !collate) {
+            this.logger.debug('Disabling cache for multiple copies without collate');
+            this.pdfRenderService.setCacheEnabled(false);
           }
-          this.logger.endTimer(startDocTimer);
-          this.logger.info(`Print job started (jobId: ${jobId})`);
+          this.logger.debug(
+            collate
+              ? `Collate enabled: printing ${spooledCopies} complete set(s)`
+              : `Collate disabled: printing ${spooledCopies} copy(ies) of each page`
+          );
+          
+          // Group pages into the sides of the sheets, honouring the booklet and N-up options
+          const groupedSides: Array<Array<number | null>> = booklet
+            ? imposeBooklet(pageIndices)
+            : groupPagesIntoSheets(pageIndices, getPagesPerSheet(finalOptions?.nUp));
+          // Reversed two-sided output keeps each front with its back; blank sides are empty sheets
+          const twoSided = booklet || manualDuplex !== undefined || (finalOptions?.duplex ?? DuplexMode.SIMPLEX) !== DuplexMode.SIMPLEX;
+          const sides = finalOptions?.reverse
+            ? reverseSides(groupedSides, twoSided).map(side => side ?? [])
+            : groupedSides;
+          const job = { printerName: finalPrinterName, documentName, copies: spooledCopies, timings };
+          const drawPage: DrawPage = (pageIndex, cell, pageJob, rotate180) =>
+            this.printPdfPage(hDC, pdfDoc, pageIndex, cell, layout, renderDpi, finalOptions, pageJob, rotate180);
+          const jobIds: number[] = [];
+          let pagesPrinted = 0;
           
           try {
-            const copies = finalOptions?.copies || 1;
-            
-            // Get printer resolution
-            const printerWidth = GetDeviceCaps(hDC, HORZRES);
-            const printerHeight = GetDeviceCaps(hDC, VERTRES);
-            const printerDpiX = GetDeviceCaps(hDC, LOGPIXELSX);
-            const printerDpiY = GetDeviceCaps(hDC, LOGPIXELSY);
-            
-            // Use user-specified quality or default to 300 DPI (MEDIUM)
-            const renderDpi = finalOptions?.quality || PrintQuality.MEDIUM;
-            this.logger.debug(`Render quality: ${renderDpi} DPI (printer DPI: ${printerDpiX}x${printerDpiY})`);
-            
-            // Determine page range to print
-            let startPage = 0;
-            let endPage = pageCount - 1;
-            
-            if (finalOptions?.pageRange && !finalOptions.pageRange.allPages) {
-              // User selected specific page range
-              startPage = Math.max(0, finalOptions.pageRange.from - 1); // Convert to 0-based index
-              endPage = Math.min(pageCount - 1, finalOptions.pageRange.to - 1); // Convert to 0-based index
-              this.logger.info(`Printing pages ${startPage + 1} to ${endPage + 1}`);
+            if (!manualDuplex) {
+              const sequence = this.buildPrintSequence(sides, spooledCopies, collate);
+              const spooled = await this.spoolDocument(hDC, sequence, layout, drawPage, finalOptions, job);
+              jobIds.push(spooled.jobId);
+              pagesPrinted += spooled.pagesPrinted;
+            } else {
+              // Fronts and backs of the same physical sheets, copies included
+              const sequence = this.buildPrintSequence(pairDuplexSides(sides), spooledCopies, collate);
+              const { fronts, backs } = planManualDuplex(
+                sequence.map(({ pages, copy }) => ({
+                  front: { pages: pages.front, copy },
+                  back: { pages: pages.back ?? [], copy }
+                })),
+                manualDuplex.reverseBacks !== false
+              );
+              const binding = manualDuplex.binding ?? (booklet ? 'short' : 'long');
+              
+              const frontJob = await this.spoolDocument(hDC, fronts, layout, drawPage, finalOptions, job, {
+                reportCopies: false
+              });
+              jobIds.push(frontJob.jobId);
+              pagesPrinted += frontJob.pagesPrinted;
+              
+              this.logger.info(`Manual duplex: waiting for ${fronts.length} sheet(s) to be flipped (${binding}-edge binding)`);
+              const flipStart = performance.now();
+              await manualDuplex.onFlip({ jobId: frontJob.jobId, sheets: fronts.length, binding, signal });
+              timings.flip = performance.now() - flipStart;
+              
+              const backJob = await this.spoolDocument(
+                hDC,
+                backs.filter((entry): entry is { pages: Array<number | null>; copy: number } => entry !== null),
+                layout,
+                drawPage,
+                finalOptions,
+                job,
+                { rotate180: binding === 'short' }
+              );
+              jobIds.push(backJob.jobId);
+              pagesPrinted += backJob.pagesPrinted;
             }
-            
-            // Handle copies with respect to collate option
-            const collate = finalOptions?.collate === true; // Default to false if not specified
-            
-            // Disable cache for multiple copies without collate to avoid buffer reuse issues
-            // When collate is disabled, the same page is printed multiple times consecutively
-            // and reusing the cached bitmap buffer can cause GDI corruption
-            const originalCacheState = this.pdfRenderService.isCacheEnabled();
-            if (copies > 1 && !collate) {
-              this.logger.debug('Disabling cache for multiple copies without collate');
-              this.pdfRenderService.setCacheEnabled(false);
-            }
-            
-            try {
-              if (collate) {
-                // COLLATE = TRUE: Print complete sets (page1, page2, page3, page1, page2, page3)
-                this.logger.debug(`Collate enabled: printing ${copies} complete set(s)`);
-                for (let copy = 0; copy < copies; copy++) {
-                  const copyTimer = this.logger.startTimer(`Copy ${copy + 1}/${copies}`);
-                  this.logger.debug(`Starting copy ${copy + 1}/${copies}`);
-                  
-                  // Print each page in the range for this copy
-                  for (let pageIndex = startPage; pageIndex <= endPage; pageIndex++) {
-                    await this.printPdfPage(
-                      hDC,
-                      pdfDoc,
-                      pageIndex,
-                      printerWidth,
-                      printerHeight,
-                      renderDpi,
-                      printerDpiX,
-                      printerDpiY
-                    );
-                    this.logger.debug(`Page ${pageIndex + 1}/${pageCount} printed`);
-                  }
-                  
-                  this.logger.endTimer(copyTimer);
-                }
-              } else {
-                // COLLATE = FALSE: Print all copies of each page (page1, page1, page2, page2, page3, page3)
-                this.logger.debug(`Collate disabled: printing ${copies} copy(ies) of each page`);
-                for (let pageIndex = startPage; pageIndex <= endPage; pageIndex++) {
-                  const pageTimer = this.logger.startTimer(`Page ${pageIndex + 1}/${pageCount}`);
-                  this.logger.debug(`Printing ${copies} copy(ies) of page ${pageIndex + 1}`);
-                  
-                  // Print all copies of this page
-                  for (let copy = 0; copy < copies; copy++) {
-                    await this.printPdfPage(
-                      hDC,
-                      pdfDoc,
-                      pageIndex,
-                      printerWidth,
-                      printerHeight,
-                      renderDpi,
-                      printerDpiX,
-                      printerDpiY
-                    );
-                  }
-                  
-                  this.logger.debug(`Page ${pageIndex + 1}/${pageCount} completed (${copies} copies)`);
-                  this.logger.endTimer(pageTimer);
-                }
-              }
-            } finally {
-              // Restore original cache state
-              if (copies > 1 && !collate) {
-                this.logger.debug('Restoring original cache state');
-                this.pdfRenderService.setCacheEnabled(originalCacheState);
-              }
-            }
-            
           } finally {
-            // End the document
-            const endDocTimer = this.logger.startTimer('End document');
-            const endDocResult = EndDoc(hDC);
-            if (endDocResult <= 0) {
-              const error = new Error(`Failed to end document. Error: ${GetLastError()}`);
-              this.logger.error('Document end failed', error);
-              throw error;
+            // Restore original cache state
+            if (spooledCopies > 1 && !collate) {
+              this.logger.debug('Restoring original cache state');
+              this.pdfRenderService.setCacheEnabled(originalCacheState);
             }
-            this.logger.endTimer(endDocTimer);
-            this.logger.info('Print job completed successfully');
           }
+          
+          timings.total = performance.now() - jobStart;
+          return {
+            jobId: jobIds[0],
+            jobIds,
+            printerName: finalPrinterName,
+            documentName,
+            // The printer repeats every spooled page for driver copies
+            pagesPrinted: pagesPrinted * (copies / spooledCopies),
+            copies,
+            // Vector pages are drawn at the printer's own resolution
+            renderDpi: finalOptions?.renderMode === 'vector' ? sheet.dpiX : renderDpi,
+            cancelled: false,
+            timings
+          };
         } finally {
           // Clean up device context (only if we created it, not from dialog)
           if (!dialogDC) {
@@ -317,130 +702,1283 @@ export class WindowsPrinterAdapter implements IPrinter {
   }
   
   /**
-   * Print a single PDF page using PDFium and GDI
+   * Send printer-ready data to the printer unchanged, as a raw spooler job
+   * The datatype is negotiated with the printer's print processor. Each copy is
+   * written as one spooler page; page selection, layout and DEVMODE options
+   * do not apply because the data is not rendered.
    */
-  private async printPdfPage(
-    hDC: any,
-    pdfDoc: any,
-    pageIndex: number,
-    printerWidth: number,
-    printerHeight: number,
-    renderDpi: number,
-    printerDpiX: number,
-    printerDpiY: number
-  ): Promise<void> {
-    const pageTimer = this.logger.startTimer(`printPdfPage(${pageIndex})`);
+  private async printWithPassthrough(
+    printerName: string,
+    data: Buffer,
+    documentName: string,
+    options?: PrintOptions
+  ): Promise<PrintJobResult> {
+    const timer = this.logger.startTimer('printWithPassthrough()');
+    const jobStart = performance.now();
+    const timings = createTimings();
     
-      // 1) largura física do papel em polegadas
-      const pageWidthInches = printerWidth / printerDpiX;
-
-      // 2) largura em pixels para o render (usa DPI de render)
-      const renderWidth = Math.floor(pageWidthInches * renderDpi);
-
-      // 3) pegar dimensões do PDF e calcular aspect ratio
-      const { width: pdfW, height: pdfH } =
-        this.pdfRenderService.getPageDimensions(pdfDoc, pageIndex);
-      const aspectRatio = pdfW / pdfH;
-
-      // 4) altura derivada da largura
-      const renderHeight = Math.floor(renderWidth / aspectRatio);
-
-      this.logger.debug(
-        `Render size: ${renderWidth}x${renderHeight} at ${renderDpi} DPI ` +
-        `(printer: ${printerWidth}x${printerHeight} at ${printerDpiX}x${printerDpiY} DPI)`
+    const signal = options?.signal;
+    this.throwIfAborted(signal);
+    
+    try {
+      // Both need a device context and rendered pages
+      for (const option of ['showPrintDialog', 'manualDuplex'] as const) {
+        if (options?.[option]) {
+          const error = new InvalidOptionError(`${option} cannot be used with raw printer data`, option);
+          this.logger.error('Invalid print options', error);
+          throw error;
+        }
+      }
+      
+      const language = detectPrintLanguage(data);
+      this.logger.info(
+        `Sending ${(data.length / 1024).toFixed(2)}KB of ${language === 'unknown' ? 'unrecognised' : language.toUpperCase()} data unchanged`
       );
-
-      const renderedPage = this.pdfRenderService.renderPage(pdfDoc, pageIndex, {
-        width: renderWidth,
-        height: renderHeight,
-        maintainAspectRatio: true,
-        backgroundColor: 0xFFFFFFFF
+      
+      // Negotiate the datatype with the printer's print processor
+      const { printProcessor } = this.printerManager.getPrinterInfo(printerName);
+      const supported = printProcessor ? this.rawPrintService.getDatatypes(printProcessor) : [];
+      const datatype = selectRawDatatype(supported, options?.datatype);
+      
+      const copies = options?.copies || 1;
+      this.throwIfAborted(signal);
+      
+      const startDocStart = performance.now();
+      const job = this.rawPrintService.startJob(printerName, documentName, datatype);
+      timings.startDoc = performance.now() - startDocStart;
+      const { jobId } = job;
+      this.logger.info(`Print job started (jobId: ${jobId}, datatype: ${datatype})`);
+      
+      this.emitProgress(options, {
+        type: 'job-started',
+        jobId,
+        printerName,
+        documentName,
+        totalPages: copies,
+        copies
       });
+      
+      let aborted = false;
+      let completed = false;
+      let pagesPrinted = 0;
+      try {
+        for (let copy = 0; copy < copies; copy++) {
+          // Stop between copies when the caller aborts
+          await this.yieldForAbort(signal);
+          if (signal?.aborted) {
+            aborted = true;
+            this.throwIfAborted(signal);
+          }
+          
+          const spoolStart = performance.now();
+          this.rawPrintService.writePage(job, data);
+          timings.spool += performance.now() - spoolStart;
+          pagesPrinted++;
+          
+          this.emitProgress(options, { type: 'page-spooled', pageNumber: 1, copy: copy + 1, current: pagesPrinted, totalPages: copies });
+          this.emitProgress(options, { type: 'copy-completed', copy: copy + 1, copies });
+        }
+        completed = true;
+      } finally {
+        const endDocStart = performance.now();
+        if (completed) {
+          this.rawPrintService.endJob(job);
+          this.logger.info('Print job completed successfully');
+        } else {
+          // Never send partial printer data: it can leave the printer in the middle of a command
+          this.rawPrintService.abortJob(job);
+          this.logger.info(`Print job aborted (jobId: ${jobId})`);
+          if (aborted) {
+            this.emitProgress(options, { type: 'job-finished', jobId, pagesPrinted, aborted: true });
+          }
+        }
+        timings.endDoc = performance.now() - endDocStart;
+      }
+      
+      this.emitProgress(options, { type: 'job-finished', jobId, pagesPrinted, aborted: false });
+      timings.total = performance.now() - jobStart;
+      return {
+        jobId,
+        jobIds: [jobId],
+        printerName,
+        documentName,
+        pagesPrinted,
+        copies,
+        renderDpi: 0,
+        cancelled: false,
+        timings,
+        datatype
+      };
+    } finally {
+      this.logger.endTimer(timer);
+    }
+  }
+  
+  /**
+   * Print enhanced metafiles using GDI, one metafile per page
+   * Metafiles are played at the device resolution with the same layout, copies
+   * and DEVMODE handling as PDF pages.
+   */
+  private async printWithMetafiles(
+    printerName: string,
+    metafileData: Buffer[],
+    documentName: string,
+    options?: PrintOptions
+  ): Promise<PrintJobResult> {
+    const timer = this.logger.startTimer('printWithMetafiles()');
+    const jobStart = performance.now();
+    const timings = createTimings();
+    
+    this.throwIfAborted(options?.signal);
+    
+    // Reject invalid layout options before a spooler job is created
+    validateScaling(options?.scaling);
+    validateMargins(options?.margins);
+    validateNUp(options?.nUp);
+    
+    const loadStart = performance.now();
+    const metafiles: Metafile[] = [];
     
     try {
-      // Start GDI page
-      const startPageTimer = this.logger.startTimer('StartPage()');
-      const pageResult = StartPage(hDC);
-      if (pageResult <= 0) {
-        const error = new Error(`Failed to start page. Error: ${GetLastError()}`);
-        this.logger.error('StartPage failed', error);
-        throw error;
-      }
-      this.logger.endTimer(startPageTimer);
+      metafileData.forEach((data, index) => metafiles.push(this.emfService.load(data, index)));
+      timings.load = performance.now() - loadStart;
+      
+      const copies = options?.copies || 1;
+      const collate = options?.collate === true;
+      let copiesMode = this.resolveCopiesMode(printerName, options, { copies, collate }, false);
+      
+      const deviceContextStart = performance.now();
+      let hDC: any;
+      ({ hDC, copiesMode } = this.createDeviceContext(printerName, options, copiesMode));
+      timings.deviceContext = performance.now() - deviceContextStart;
       
       try {
-        // Prepare BITMAPINFOHEADER
-        const bmiData = {
-          biSize: 40,
-          biWidth: renderedPage.width,
-          biHeight: -renderedPage.height,  // Negative for top-down bitmap
-          biPlanes: 1,
-          biBitCount: 32,  // BGRA = 32 bits
-          biCompression: BI_RGB,
-          biSizeImage: renderedPage.stride * renderedPage.height,
-          biXPelsPerMeter: Math.floor(renderDpi * 39.37), // Convert DPI to pixels per meter
-          biYPelsPerMeter: Math.floor(renderDpi * 39.37),
-          biClrUsed: 0,
-          biClrImportant: 0
+        const spooledCopies = copiesMode === 'driver' ? 1 : copies;
+        const sheet = this.getSheetMetrics(hDC);
+        const areas = computeLayoutAreas(sheet, options?.margins, options?.compensateMargins !== false);
+        const layout: PageLayout = {
+          sheet,
+          areas,
+          nUp: computeNUpLayout(options?.nUp, areas.area, sheet.dpiX, sheet.dpiY)
         };
         
-        // Convert to pointer
-        const bmi = [bmiData];
-        const bmiPtr = koffi.as(bmi, koffi.pointer(BITMAPINFOHEADER));
+        const sides = groupPagesIntoSheets(metafiles.map((_, index) => index), getPagesPerSheet(options?.nUp));
+        const sequence = this.buildPrintSequence(sides, spooledCopies, collate);
+        const drawPage: DrawPage = (index, cell, pageJob) =>
+          this.printEmfPage(hDC, metafiles[index], index, cell, layout, options, pageJob);
+        
+        const spooled = await this.spoolDocument(hDC, sequence, layout, drawPage, options, {
+          printerName,
+          documentName,
+          copies: spooledCopies,
+          timings
+        });
+        
+        timings.total = performance.now() - jobStart;
+        return {
+          jobId: spooled.jobId,
+          jobIds: [spooled.jobId],
+          printerName,
+          documentName,
+          // The printer repeats every spooled page for driver copies
+          pagesPrinted: spooled.pagesPrinted * (copies / spooledCopies),
+          copies,
+          renderDpi: sheet.dpiX,
+          cancelled: false,
+          timings
+        };
+      } finally {
+        this.logger.debug('Cleaning up Device Context');
+        DeleteDC(hDC);
+      }
+    } finally {
+      metafiles.forEach(metafile => this.emfService.close(metafile));
+      this.logger.endTimer(timer);
+    }
+  }
+  
+  /**
+   * Print raster images using GDI, one page per image frame (every page of a multi-page TIFF)
+   * Frames are decoded one at a time and stretched to the device with the same
+   * layout, rotation, copies and DEVMODE handling as PDF pages.
+   */
+  private async printWithImages(
+    printerName: string,
+    imageData: Buffer[],
+    documentName: string,
+    options?: PrintOptions
+  ): Promise<PrintJobResult> {
+    const timer = this.logger.startTimer('printWithImages()');
+    const jobStart = performance.now();
+    const timings = createTimings();
+    
+    this.throwIfAborted(options?.signal);
+    
+    try {
+      // Only the headers are read here; pixels are decoded page by page while spooling
+      const loadStart = performance.now();
+      const pages = imageData.flatMap((data, fileIndex) => {
+        let image: ImageDocument;
+        try {
+          image = openImage(data);
+        } catch (error) {
+          this.logger.error(`Failed to read image ${fileIndex + 1}`, error as Error);
+          throw error;
+        }
+        return image.frames.map((frame, frameIndex) => ({ image, frame, frameIndex }));
+      });
+      timings.load = performance.now() - loadStart;
+      
+      const pageIndices = selectPageSubset(this.resolvePageIndices(pages.length, options), options?.pageSubset);
+      
+      // Reject invalid layout options before a spooler job is created
+      validateScaling(options?.scaling);
+      validateMargins(options?.margins);
+      validatePageRotation(options?.pageRotation);
+      validateNUp(options?.nUp);
+      
+      const copies = options?.copies || 1;
+      const collate = options?.collate === true;
+      let copiesMode = this.resolveCopiesMode(printerName, options, { copies, collate }, false);
+      
+      const deviceContextStart = performance.now();
+      let hDC: any;
+      ({ hDC, copiesMode } = this.createDeviceContext(printerName, options, copiesMode));
+      timings.deviceContext = performance.now() - deviceContextStart;
+      
+      try {
+        const spooledCopies = copiesMode === 'driver' ? 1 : copies;
+        const sheet = this.getSheetMetrics(hDC);
+        const areas = computeLayoutAreas(sheet, options?.margins, options?.compensateMargins !== false);
+        const layout: PageLayout = {
+          sheet,
+          areas,
+          nUp: computeNUpLayout(options?.nUp, areas.area, sheet.dpiX, sheet.dpiY)
+        };
         
-        // Scale rendered image to fit printer page maintaining aspect ratio
-        const scaleX = printerWidth / renderWidth;
-        const scaleY = printerHeight / renderHeight;
-        const scale = Math.min(scaleX, scaleY);
+        const groupedSides = groupPagesIntoSheets(pageIndices, getPagesPerSheet(options?.nUp));
+        const twoSided = (options?.duplex ?? DuplexMode.SIMPLEX) !== DuplexMode.SIMPLEX;
+        const sides = options?.reverse
+          ? reverseSides(groupedSides, twoSided).map(side => side ?? [])
+          : groupedSides;
+        const sequence = this.buildPrintSequence(sides, spooledCopies, collate);
         
-        const scaledWidth = Math.floor(renderWidth * scale);
-        const scaledHeight = Math.floor(renderHeight * scale);
+        // Keep the last decoded frame: uncollated copies print the same page back to back
+        let decoded: { pageIndex: number; image: DecodedImage } | undefined;
+        const decodePage = (pageIndex: number): DecodedImage => {
+          if (decoded?.pageIndex !== pageIndex) {
+            decoded = undefined; // Release the previous frame before decoding the next one
+            const { image, frameIndex } = pages[pageIndex];
+            decoded = { pageIndex, image: image.decodeFrame(frameIndex) };
+          }
+          return decoded.image;
+        };
+        const drawPage: DrawPage = (index, cell, pageJob, rotate180) =>
+          this.printImagePage(hDC, pages[index].frame, () => decodePage(index), index, cell, layout, options, pageJob, rotate180);
         
-        // Center the image on the page
-        const offsetX = Math.floor((printerWidth - scaledWidth) / 2);
-        const offsetY = Math.floor((printerHeight - scaledHeight) / 2);
+        const spooled = await this.spoolDocument(hDC, sequence, layout, drawPage, options, {
+          printerName,
+          documentName,
+          copies: spooledCopies,
+          timings
+        });
         
-        // Draw bitmap to printer DC using StretchDIBits for proper scaling
-        const drawTimer = this.logger.startTimer(`StretchDIBits (${renderWidth}x${renderHeight} to ${scaledWidth}x${scaledHeight})`);
-        const result = StretchDIBits(
-          hDC,
-          offsetX,                // xDest
-          offsetY,                // yDest
-          scaledWidth,            // DestWidth
-          scaledHeight,           // DestHeight
-          0,                      // xSrc
-          0,                      // ySrc
-          renderedPage.width,     // SrcWidth
-          renderedPage.height,    // SrcHeight
-          renderedPage.buffer,    // lpBits
-          bmiPtr,                 // lpbmi
-          DIB_RGB_COLORS,         // iUsage
-          SRCCOPY                 // rop
-        );
-        this.logger.endTimer(drawTimer);
+        timings.total = performance.now() - jobStart;
+        return {
+          jobId: spooled.jobId,
+          jobIds: [spooled.jobId],
+          printerName,
+          documentName,
+          // The printer repeats every spooled page for driver copies
+          pagesPrinted: spooled.pagesPrinted * (copies / spooledCopies),
+          copies,
+          renderDpi: sheet.dpiX,
+          cancelled: false,
+          timings
+        };
+      } finally {
+        this.logger.debug('Cleaning up Device Context');
+        DeleteDC(hDC);
+      }
+    } finally {
+      this.logger.endTimer(timer);
+    }
+  }
+  
+  /**
+   * Print plain text using GDI text output
+   * The text is paginated to the page area (printable area less margins) with the
+   * metrics of the device font, then spooled with the same page selection,
+   * copies and DEVMODE handling as PDF pages.
+   */
+  private async printWithText(
+    printerName: string,
+    text: string,
+    documentName: string,
+    options?: TextPrintOptions
+  ): Promise<TextPrintResult> {
+    const timer = this.logger.startTimer('printWithText()');
+    const jobStart = performance.now();
+    const timings = createTimings();
+    
+    this.throwIfAborted(options?.signal);
+    
+    // Reject invalid options before a spooler job is created
+    validateTextOptions(options);
+    validateMargins(options?.margins);
+    
+    try {
+      const copies = options?.copies || 1;
+      const collate = options?.collate === true;
+      let copiesMode = this.resolveCopiesMode(printerName, options, { copies, collate }, false);
+      
+      const deviceContextStart = performance.now();
+      let hDC: any;
+      ({ hDC, copiesMode } = this.createDeviceContext(printerName, options, copiesMode));
+      timings.deviceContext = performance.now() - deviceContextStart;
+      
+      try {
+        const spooledCopies = copiesMode === 'driver' ? 1 : copies;
+        const sheet = this.getSheetMetrics(hDC);
+        const areas = computeLayoutAreas(sheet, options?.margins, options?.compensateMargins !== false);
+        const layout: PageLayout = {
+          sheet,
+          areas,
+          nUp: computeNUpLayout(undefined, areas.area, sheet.dpiX, sheet.dpiY)
+        };
         
-        if (result === 0) {
-          const error = new Error(`Failed to draw bitmap to printer. Error: ${GetLastError()}`);
-          this.logger.error('StretchDIBits failed', error);
+        const fontName = options?.font ?? DEFAULT_TEXT_FONT;
+        const fontSize = options?.fontSize ?? DEFAULT_FONT_SIZE;
+        const font = this.textService.createFont(hDC, fontName, fontSize, sheet.dpiY);
+        if (!font) {
+          const win32Error = GetLastError();
+          const error = new SpoolerError(
+            `Failed to create font "${fontName}". Error: ${win32Error}`,
+            { printerName, operation: 'CreateFontW', win32Error }
+          );
+          this.logger.error('CreateFontW failed', error);
           throw error;
         }
         
+        try {
+          // Lines are measured with the font the printer will use, so wrapping matches the output
+          const loadStart = performance.now();
+          const linesPerPage = computeLinesPerPage(areas.area.height, font.lineHeight, {
+            header: options?.header !== undefined,
+            footer: options?.footer !== undefined
+          });
+          const textLayout = this.textService.use(hDC, font, () =>
+            paginateText(text, {
+              linesPerPage,
+              maxWidth: areas.area.width,
+              measure: line => this.textService.measure(hDC, line),
+              tabWidth: options?.tabWidth,
+              wrap: options?.wrap,
+              lineNumbers: options?.lineNumbers
+            })
+          );
+          timings.load = performance.now() - loadStart;
+          const pageCount = textLayout.pages.length;
+          this.logger.debug(`Text paginated into ${pageCount} page(s) of ${linesPerPage} line(s)`);
+          
+          const pageIndices = selectPageSubset(this.resolvePageIndices(pageCount, options), options?.pageSubset);
+          const groupedSides = groupPagesIntoSheets(pageIndices, 1);
+          const twoSided = (options?.duplex ?? DuplexMode.SIMPLEX) !== DuplexMode.SIMPLEX;
+          const sides = options?.reverse
+            ? reverseSides(groupedSides, twoSided).map(side => side ?? [])
+            : groupedSides;
+          const sequence = this.buildPrintSequence(sides, spooledCopies, collate);
+          const drawPage: DrawPage = (index, cell, pageJob) =>
+            this.printTextPage(hDC, font, textLayout, index, cell, documentName, options, pageJob);
+          
+          const spooled = await this.spoolDocument(hDC, sequence, layout, drawPage, options, {
+            printerName,
+            documentName,
+            copies: spooledCopies,
+            timings
+          });
+          
+          timings.total = performance.now() - jobStart;
+          return {
+            jobId: spooled.jobId,
+            jobIds: [spooled.jobId],
+            printerName,
+            documentName,
+            // The printer repeats every spooled page for driver copies
+            pagesPrinted: spooled.pagesPrinted * (copies / spooledCopies),
+            pageCount,
+            copies,
+            renderDpi: sheet.dpiX,
+            cancelled: false,
+            timings
+          };
+        } finally {
+          this.textService.close(font);
+        }
       } finally {
-        // End the page
-        const endPageTimer = this.logger.startTimer('EndPage()');
-        const endResult = EndPage(hDC);
-        if (endResult <= 0) {
-          const error = new Error(`Failed to end page. Error: ${GetLastError()}`);
-          this.logger.error('EndPage failed', error);
+        this.logger.debug('Cleaning up Device Context');
+        DeleteDC(hDC);
+      }
+    } finally {
+      this.logger.endTimer(timer);
+    }
+  }
+  
+  /**
+   * Spool a sequence of sheets as one spooler job (StartDoc to EndDoc)
+   * The job is discarded with AbortDoc when the caller aborts between sheets or
+   * a sheet fails, so a partial job never reaches the printer.
+   */
+  private async spoolDocument(
+    hDC: any,
+    sequence: Array<{ pages: Array<number | null>; copy: number }>,
+    layout: PageLayout,
+    drawPage: DrawPage,
+    options: PrintOptions | undefined,
+    job: { printerName: string; documentName: string; copies: number; timings: PrintJobTimings },
+    spool: { rotate180?: boolean; reportCopies?: boolean } = {}
+  ): Promise<{ jobId: number; pagesPrinted: number }> {
+    const { printerName, documentName, copies, timings } = job;
+    const signal = options?.signal;
+    
+    // Prepare document info
+    const docInfo = {
+      cbSize: 20,
+      lpszDocName: documentName,
+      lpszOutput: null,
+      lpszDatatype: null,
+      fwType: 0
+    };
+    
+    // Don't create a spooler job if the caller aborted while we were preparing
+    this.throwIfAborted(signal);
+    
+    // Start document
+    const startDocTimer = this.logger.startTimer('Start document');
+    const startDocStart = performance.now();
+    const jobId = StartDocW(hDC, docInfo);
+    timings.startDoc += performance.now() - startDocStart;
+    if (jobId <= 0) {
+      const win32Error = GetLastError();
+      const error = new SpoolerError(
+        `Failed to start document. Error: ${win32Error}`,
+        { printerName, operation: 'StartDoc', win32Error }
+      );
+      this.logger.error('Document start failed', error);
+      throw error;
+    }
+    this.logger.endTimer(startDocTimer);
+    this.logger.info(`Print job started (jobId: ${jobId})`);
+    
+    let aborted = false;
+    let completed = false;
+    let pagesPrinted = 0;
+    const totalPages = sequence.reduce((total, { pages }) => total + pages.filter(pageIndex => pageIndex !== null).length, 0);
+    
+    // A copy is complete once its last sheet has been spooled
+    const lastPositionByCopy = new Map<number, number>();
+    sequence.forEach((entry, position) => lastPositionByCopy.set(entry.copy, position));
+    
+    this.emitProgress(options, {
+      type: 'job-started',
+      jobId,
+      printerName,
+      documentName,
+      totalPages,
+      copies
+    });
+    
+    try {
+      for (let position = 0; position < sequence.length; position++) {
+        const { pages, copy } = sequence[position];
+        
+        // Stop between sheets when the caller aborts
+        await this.yieldForAbort(signal);
+        if (signal?.aborted) {
+          aborted = true;
+          this.throwIfAborted(signal);
+        }
+        
+        const printed = pages.filter((pageIndex): pageIndex is number => pageIndex !== null);
+        const spooledBefore = pagesPrinted;
+        const pageProgress = (pageIndex: number, offset: number) => ({
+          pageNumber: pageIndex + 1,
+          copy: copy + 1,
+          current: spooledBefore + offset + 1,
+          totalPages
+        });
+        
+        const sheetTimings = await this.printSheet(
+          hDC,
+          pages,
+          layout,
+          drawPage,
+          { printerName, jobId },
+          (pageIndex, offset) => this.emitProgress(options, { type: 'page-rendered', ...pageProgress(pageIndex, offset) }),
+          spool.rotate180 === true
+        );
+        timings.render += sheetTimings.render;
+        timings.spool += sheetTimings.spool;
+        pagesPrinted += printed.length;
+        this.logger.debug(
+          `Sheet ${position + 1}/${sequence.length} printed ` +
+          `(page(s) ${pages.map(pageIndex => pageIndex === null ? 'blank' : pageIndex + 1).join(', ') || 'blank'}, ` +
+          `copy ${copy + 1}/${copies})`
+        );
+        printed.forEach((pageIndex, offset) =>
+          this.emitProgress(options, { type: 'page-spooled', ...pageProgress(pageIndex, offset) })
+        );
+        
+        if (spool.reportCopies !== false && lastPositionByCopy.get(copy) === position) {
+          this.emitProgress(options, { type: 'copy-completed', copy: copy + 1, copies });
+        }
+      }
+      completed = true;
+    } finally {
+      if (!completed) {
+        // Discard the partially spooled job instead of sending it to the printer
+        const abortDocStart = performance.now();
+        const abortDocResult = AbortDoc(hDC);
+        if (abortDocResult <= 0) {
+          this.logger.warn(`Failed to abort document. Error: ${GetLastError()}`);
+        }
+        timings.endDoc += performance.now() - abortDocStart;
+        this.logger.info(`Print job aborted (jobId: ${jobId})`);
+        if (aborted) {
+          this.emitProgress(options, { type: 'job-finished', jobId, pagesPrinted, aborted: true });
+        }
+      }
+    }
+    
+    // End the document
+    const endDocTimer = this.logger.startTimer('End document');
+    const endDocStart = performance.now();
+    const endDocResult = EndDoc(hDC);
+    timings.endDoc += performance.now() - endDocStart;
+    if (endDocResult <= 0) {
+      const win32Error = GetLastError();
+      const error = new SpoolerError(
+        `Failed to end document. Error: ${win32Error}`,
+        { printerName, operation: 'EndDoc', win32Error, jobId }
+      );
+      this.logger.error('Document end failed', error);
+      throw error;
+    }
+    this.logger.endTimer(endDocTimer);
+    this.logger.info('Print job completed successfully');
+    
+    this.emitProgress(options, { type: 'job-finished', jobId, pagesPrinted, aborted: false });
+    return { jobId, pagesPrinted };
+  }
+  
+  /**
+   * Create a printer device context with the job's DEVMODE settings
+   * Driver copies fall back to software copies when no DEVMODE is available.
+   */
+  private createDeviceContext(
+    printerName: string,
+    options: PrintOptions | undefined,
+    copiesMode: 'driver' | 'software'
+  ): { hDC: any; copiesMode: 'driver' | 'software' } {
+    const devMode = this.devModeConfigService.getDevModeWithSettings(printerName, options && { ...options, copiesMode });
+    if (copiesMode === 'driver' && !devMode) {
+      this.logger.warn('No DEVMODE available for driver copies, printing them in software');
+      copiesMode = 'software';
+    }
+    
+    const dcTimer = this.logger.startTimer('Device Context creation');
+    const hDC = CreateDCW(null, printerName, null, devMode);
+    if (!hDC) {
+      const error = new DeviceContextError(
+        `Failed to create device context for printer: ${printerName}`,
+        { printerName, win32Error: GetLastError() }
+      );
+      this.logger.error('DC creation failed', error);
+      throw error;
+    }
+    this.logger.endTimer(dcTimer);
+    
+    return { hDC, copiesMode };
+  }
+  
+  /**
+   * Decide whether the driver or the copy loop produces the copies
+   * Dialog device contexts already carry the dialog's DEVMODE, and manual duplex
+   * needs every copy in both passes, so both always use software copies.
+   */
+  private resolveCopiesMode(
+    printerName: string,
+    options: PrintOptions | undefined,
+    request: CopiesRequest,
+    softwareOnly: boolean
+  ): 'driver' | 'software' {
+    const mode = options?.copiesMode;
+    validateCopiesMode(mode);
+    
+    if (softwareOnly) {
+      if (mode === 'driver' || mode === 'auto') {
+        this.logger.debug(`copiesMode '${mode}' ignored: printing copies in software`);
+      }
+      return 'software';
+    }
+    
+    // Only query the driver when its answer matters
+    const support = mode === 'auto' && request.copies > 1
+      ? { maxCopies: this.capabilitiesService.getMaxCopies(printerName), collate: this.capabilitiesService.supportsCollate(printerName) }
+      : undefined;
+    const resolved = resolveCopiesMode(mode, request, support);
+    
+    if (support) {
+      this.logger.info(
+        resolved === 'driver'
+          ? `Driver copies: ${request.copies} (max ${support.maxCopies}, collate ${support.collate ? 'supported' : 'not supported'})`
+          : `Driver cannot print ${request.copies} ${request.collate ? 'collated ' : ''}copies, printing them in software`
+      );
+    }
+    return resolved;
+  }
+  
+  /**
+   * Resolve the zero-based page indices to print
+   * A page range from the print dialog wins over the `pages` option.
+   */
+  private resolvePageIndices(pageCount: number, options?: PrintOptions): number[] {
+    if (options?.pageRange && !options.pageRange.allPages) {
+      // User selected specific page range in the print dialog
+      const startPage = Math.max(0, options.pageRange.from - 1); // Convert to 0-based index
+      const endPage = Math.min(pageCount - 1, options.pageRange.to - 1); // Convert to 0-based index
+      this.logger.info(`Printing pages ${startPage + 1} to ${endPage + 1}`);
+      
+      const pageIndices: number[] = [];
+      for (let pageIndex = startPage; pageIndex <= endPage; pageIndex++) {
+        pageIndices.push(pageIndex);
+      }
+      return pageIndices;
+    }
+    
+    if (options?.pages !== undefined) {
+      try {
+        const pageIndices = parsePageSelection(options.pages, pageCount);
+        this.logger.info(`Printing pages "${options.pages}" (${pageIndices.length} page(s))`);
+        return pageIndices;
+      } catch (error) {
+        this.logger.error('Invalid page selection', error as Error);
+        throw error;
+      }
+    }
+    
+    return Array.from({ length: pageCount }, (_, pageIndex) => pageIndex);
+  }
+  
+  /**
+   * Build the ordered list of sheets to spool for all copies
+   * - Collate: complete sets (sheet1, sheet2, sheet3, sheet1, sheet2, sheet3)
+   * - No collate: all copies of each sheet together (sheet1, sheet1, sheet2, sheet2, sheet3, sheet3)
+   */
+  private buildPrintSequence<T>(
+    sheets: T[],
+    copies: number,
+    collate: boolean
+  ): Array<{ pages: T; copy: number }> {
+    const sequence: Array<{ pages: T; copy: number }> = [];
+    
+    if (collate) {
+      for (let copy = 0; copy < copies; copy++) {
+        for (const pages of sheets) {
+          sequence.push({ pages, copy });
+        }
+      }
+    } else {
+      for (const pages of sheets) {
+        for (let copy = 0; copy < copies; copy++) {
+          sequence.push({ pages, copy });
+        }
+      }
+    }
+    
+    return sequence;
+  }
+  
+  /**
+   * Forward a progress event to the caller's onProgress callback
+   * Callback errors are logged and never interrupt the print job.
+   */
+  private emitProgress(options: PrintOptions | undefined, event: PrintProgressEvent): void {
+    if (!options?.onProgress) {
+      return;
+    }
+    
+    try {
+      options.onProgress(event);
+    } catch (error) {
+      this.logger.warn(`onProgress callback failed for '${event.type}' event: ${(error as Error)?.message}`);
+    }
+  }
+  
+  /**
+   * Let pending timers and events run so an abort() from outside the job is seen
+   * Spooling is synchronous GDI work; without yielding, the signal would only
+   * change after the last sheet.
+   */
+  private async yieldForAbort(signal?: AbortSignal): Promise<void> {
+    if (signal) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+  
+  /**
+   * Wait for `ms` milliseconds, or until the caller's signal is aborted
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+  
+  /**
+   * Throw an AbortError if the caller's signal has been aborted
+   */
+  private throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      const error = new PrintAbortedError();
+      this.logger.info('Print job aborted by caller');
+      throw error;
+    }
+  }
+  
+  /**
+   * Print one sheet: a GDI page holding one page, or several when printing N-up
+   * `null` entries are blank cells (booklet padding).
+   */
+  private async printSheet(
+    hDC: any,
+    pages: Array<number | null>,
+    layout: PageLayout,
+    drawPage: DrawPage,
+    job: { printerName: string; jobId: number },
+    onRendered?: (pageIndex: number, offset: number) => void,
+    rotate180 = false
+  ): Promise<{ render: number; spool: number }> {
+    const sheetTimer = this.logger.startTimer(`printSheet(${pages.join(',')})`);
+    const sheetStart = performance.now();
+    let render = 0;
+    
+    // Start GDI page
+    const startPageTimer = this.logger.startTimer('StartPage()');
+    const pageResult = StartPage(hDC);
+    if (pageResult <= 0) {
+      const win32Error = GetLastError();
+      const error = new SpoolerError(
+        `Failed to start page. Error: ${win32Error}`,
+        { ...job, operation: 'StartPage', win32Error, pageIndex: pages.find(pageIndex => pageIndex !== null) ?? undefined }
+      );
+      this.logger.error('StartPage failed', error);
+      throw error;
+    }
+    this.logger.endTimer(startPageTimer);
+    
+    let completed = false;
+    let endPageError: number | undefined;
+    try {
+      let drawn = 0;
+      for (let cellIndex = 0; cellIndex < pages.length; cellIndex++) {
+        const pageIndex = pages[cellIndex];
+        if (pageIndex === null) {
+          continue;
+        }
+        // Turned sheets (manual duplex backs) mirror the cells and rotate each page
+        const cell = rotate180
+          ? rotateRect180(layout.nUp.cells[cellIndex], layout.areas.sheet)
+          : layout.nUp.cells[cellIndex];
+        render += drawPage(pageIndex, cell, job, rotate180);
+        onRendered?.(pageIndex, drawn++);
+      }
+      completed = true;
+    } finally {
+      // End the page
+      const endPageTimer = this.logger.startTimer('EndPage()');
+      if (EndPage(hDC) <= 0) {
+        endPageError = GetLastError();
+        if (!completed) {
+          // Keep the drawing error: the job is discarded anyway
+          this.logger.warn(`Failed to end page. Error: ${endPageError}`);
+        }
+      }
+      this.logger.endTimer(endPageTimer);
+      this.logger.endTimer(sheetTimer);
+    }
+    
+    if (endPageError !== undefined) {
+      const error = new SpoolerError(
+        `Failed to end page. Error: ${endPageError}`,
+        { ...job, operation: 'EndPage', win32Error: endPageError, pageIndex: [...pages].reverse().find(pageIndex => pageIndex !== null) ?? undefined }
+      );
+      this.logger.error('EndPage failed', error);
+      throw error;
+    }
+    
+    return { render, spool: performance.now() - sheetStart - render };
+  }
+  
+  /**
+   * Draw a single PDF page into a cell of the current GDI page using PDFium
+   * @returns Time spent rendering the page, in milliseconds
+   */
+  private printPdfPage(
+    hDC: any,
+    pdfDoc: any,
+    pageIndex: number,
+    cell: Rect,
+    layout: PageLayout,
+    renderDpi: number,
+    options: PrintOptions | undefined,
+    job: { printerName: string; jobId: number },
+    rotate180 = false
+  ): number {
+    const renderStart = performance.now();
+    
+    // Place the page in its cell in device pixels; N-up pages never spill into neighbouring cells
+    const { sheet, areas, nUp } = layout;
+    const clip = nUp.cells.length > 1 ? intersectRects(cell, areas.clip) : areas.clip;
+    const geometry = this.pdfRenderService.getPageGeometry(pdfDoc, pageIndex, options?.pageBox);
+    const { width: pdfW, height: pdfH } = geometry;
+    const pageRotation = resolvePageRotation({
+      pageWidth: pdfW,
+      pageHeight: pdfH,
+      area: cell,
+      autoRotate: options?.autoRotate,
+      override: getPageRotationOverride(options?.pageRotation, pageIndex)
+    });
+    const rotation = rotate180 ? addRotations(pageRotation, 180) : pageRotation;
+    const rotated = rotateSize(pdfW, pdfH, rotation);
+    const placement = computePagePlacement({
+      pageWidth: rotated.width,
+      pageHeight: rotated.height,
+      area: cell,
+      clip,
+      dpiX: sheet.dpiX,
+      dpiY: sheet.dpiY,
+      scaling: options?.scaling
+    });
+    
+    const destination = placement.visible;
+    
+    if (options?.renderMode === 'vector') {
+      try {
+        this.drawPdfPageVector(hDC, pdfDoc, pageIndex, placement.page, destination, rotation, geometry, options, job);
+        this.drawPageBorder(hDC, destination, nUp.borderWidth, job, pageIndex);
+        return performance.now() - renderStart;
+      } catch (error) {
+        if (error instanceof SpoolerError) {
           throw error;
         }
-        this.logger.endTimer(endPageTimer);
-        this.logger.endTimer(pageTimer);
+        this.logger.warn(`Vector rendering failed for page ${pageIndex + 1}, falling back to raster: ${(error as Error)?.message}`);
+        // PDFium may have drawn part of the page already; rasterize onto a blank cell
+        if (destination.width > 0 && destination.height > 0) {
+          this.fillRect(hDC, destination, WHITENESS, 'clear page area', job, pageIndex);
+        }
       }
+    }
+    
+    // Only the visible part of the page is rendered, at the render DPI
+    const viewport = computeRenderViewport(placement, renderDpi / sheet.dpiX, renderDpi / sheet.dpiY);
+    
+    this.logger.debug(
+      `Render size: ${viewport.bitmapWidth}x${viewport.bitmapHeight} at ${renderDpi} DPI, ` +
+      `scale ${(placement.scale * 100).toFixed(1)}%, rotation ${rotation}° ` +
+      `(printable: ${sheet.printableWidth}x${sheet.printableHeight} of ${sheet.physicalWidth}x${sheet.physicalHeight} ` +
+      `at ${sheet.dpiX}x${sheet.dpiY} DPI)`
+    );
+    
+    const renderedPage = this.pdfRenderService.renderPage(pdfDoc, pageIndex, {
+      width: viewport.bitmapWidth,
+      height: viewport.bitmapHeight,
+      backgroundColor: 0xFFFFFFFF,
+      viewport: {
+        width: viewport.pageWidth,
+        height: viewport.pageHeight,
+        x: viewport.offsetX,
+        y: viewport.offsetY
+      },
+      rotate: toPdfiumRotation(rotation),
+      box: options?.pageBox ? geometry.display : undefined
+    });
+    const render = performance.now() - renderStart;
+    
+    try {
+      this.drawBitmap(hDC, renderedPage, destination, renderDpi, job, pageIndex);
+      this.drawPageBorder(hDC, destination, nUp.borderWidth, job, pageIndex);
     } finally {
       // Cleanup rendered page bitmap
       this.pdfRenderService.cleanupRenderedPage(renderedPage);
     }
+    
+    return render;
+  }
+  
+  /**
+   * Draw a PDF page into the device context with PDFium's GDI renderer
+   * The device context is clipped to the visible part of the page while drawing.
+   */
+  private drawPdfPageVector(
+    hDC: any,
+    pdfDoc: any,
+    pageIndex: number,
+    page: Rect,
+    visible: Rect,
+    rotation: PageRotation,
+    geometry: PageGeometry,
+    options: PrintOptions,
+    job: { printerName: string; jobId: number }
+  ): void {
+    if (visible.width <= 0 || visible.height <= 0) {
+      return;
+    }
+    
+    this.logger.debug(
+      `Vector render: page ${page.width.toFixed(0)}x${page.height.toFixed(0)} at ${page.x.toFixed(0)},${page.y.toFixed(0)}, ` +
+      `clipped to ${visible.width}x${visible.height}, rotation ${rotation}°`
+    );
+    
+    this.drawClipped(hDC, visible, job, pageIndex, () =>
+      this.pdfRenderService.renderPageToDC(pdfDoc, pageIndex, hDC, page, {
+        rotate: toPdfiumRotation(rotation),
+        box: options.pageBox ? geometry.display : undefined
+      })
+    );
+  }
+  
+  /**
+   * Play a metafile into a cell of the current GDI page
+   * @returns Time spent playing the metafile, in milliseconds
+   */
+  private printEmfPage(
+    hDC: any,
+    metafile: Metafile,
+    index: number,
+    cell: Rect,
+    layout: PageLayout,
+    options: PrintOptions | undefined,
+    job: { printerName: string; jobId: number }
+  ): number {
+    const playStart = performance.now();
+    
+    const { sheet, areas, nUp } = layout;
+    const placement = computePagePlacement({
+      pageWidth: metafile.width,
+      pageHeight: metafile.height,
+      area: cell,
+      clip: nUp.cells.length > 1 ? intersectRects(cell, areas.clip) : areas.clip,
+      dpiX: sheet.dpiX,
+      dpiY: sheet.dpiY,
+      scaling: options?.scaling
+    });
+    const visible = placement.visible;
+    
+    if (visible.width > 0 && visible.height > 0) {
+      this.drawClipped(hDC, visible, job, index, () => {
+        if (!this.emfService.play(hDC, metafile, placement.page)) {
+          const win32Error = GetLastError();
+          const error = new SpoolerError(
+            `Failed to play metafile ${index + 1}. Error: ${win32Error}`,
+            { ...job, operation: 'PlayEnhMetaFile', win32Error, pageIndex: index }
+          );
+          this.logger.error('PlayEnhMetaFile failed', error);
+          throw error;
+        }
+      });
+    }
+    this.drawPageBorder(hDC, visible, nUp.borderWidth, job, index);
+    
+    return performance.now() - playStart;
+  }
+  
+  /**
+   * Draw an image frame into a cell of the current GDI page
+   * Frames are sized from their recorded resolution and stretched to the device by StretchDIBits.
+   * @returns Time spent decoding and drawing the frame, in milliseconds
+   */
+  private printImagePage(
+    hDC: any,
+    frame: ImageFrame,
+    decode: () => DecodedImage,
+    pageIndex: number,
+    cell: Rect,
+    layout: PageLayout,
+    options: PrintOptions | undefined,
+    job: { printerName: string; jobId: number },
+    rotate180 = false
+  ): number {
+    const renderStart = performance.now();
+    
+    const { sheet, areas, nUp } = layout;
+    const size = getFrameSize(frame);
+    const pageRotation = resolvePageRotation({
+      pageWidth: size.width,
+      pageHeight: size.height,
+      area: cell,
+      autoRotate: options?.autoRotate,
+      override: getPageRotationOverride(options?.pageRotation, pageIndex)
+    });
+    const rotation = rotate180 ? addRotations(pageRotation, 180) : pageRotation;
+    const rotated = rotateSize(size.width, size.height, rotation);
+    const placement = computePagePlacement({
+      pageWidth: rotated.width,
+      pageHeight: rotated.height,
+      area: cell,
+      clip: nUp.cells.length > 1 ? intersectRects(cell, areas.clip) : areas.clip,
+      dpiX: sheet.dpiX,
+      dpiY: sheet.dpiY,
+      scaling: options?.scaling
+    });
+    const visible = placement.visible;
+    
+    if (visible.width > 0 && visible.height > 0) {
+      const image = rotateImage(decode(), rotation);
+      this.logger.debug(
+        `Image page ${pageIndex + 1}: ${image.width}x${image.height} pixels to ` +
+        `${placement.page.width}x${placement.page.height}, scale ${(placement.scale * 100).toFixed(1)}%, rotation ${rotation}°`
+      );
+      
+      // The whole frame is stretched over the page; the clip keeps it inside its visible part
+      this.drawClipped(hDC, visible, job, pageIndex, () =>
+        this.drawBitmap(
+          hDC,
+          { buffer: image.data, width: image.width, height: image.height, stride: image.width * 4 },
+          placement.page,
+          frame.dpiX || DEFAULT_IMAGE_DPI,
+          job,
+          pageIndex
+        )
+      );
+    }
+    this.drawPageBorder(hDC, visible, nUp.borderWidth, job, pageIndex);
+    
+    return performance.now() - renderStart;
+  }
+  
+  /**
+   * Draw one page of paginated text, with its header and footer, into the page area
+   * @returns Time spent drawing the page, in milliseconds
+   */
+  private printTextPage(
+    hDC: any,
+    font: TextFont,
+    textLayout: TextLayout,
+    pageIndex: number,
+    area: Rect,
+    documentName: string,
+    options: TextPrintOptions | undefined,
+    job: { printerName: string; jobId: number }
+  ): number {
+    const drawStart = performance.now();
+    const { lineHeight } = font;
+    const info = { page: pageIndex + 1, pages: textLayout.pages.length, documentName };
+    
+    const drawText = (x: number, y: number, text: string): void => {
+      if (!this.textService.draw(hDC, x, y, text)) {
+        const win32Error = GetLastError();
+        const error = new SpoolerError(
+          `Failed to draw text on page ${pageIndex + 1}. Error: ${win32Error}`,
+          { ...job, operation: 'TextOutW', win32Error, pageIndex }
+        );
+        this.logger.error('TextOutW failed', error);
+        throw error;
+      }
+    };
+    const drawHeaderFooter = (template: TextPrintOptions['header'], y: number): void => {
+      if (template === undefined) {
+        return;
+      }
+      const { left, center, right } = formatHeaderFooter(template, info);
+      drawText(area.x, y, left);
+      drawText(area.x + (area.width - this.textService.measure(hDC, center)) / 2, y, center);
+      drawText(area.x + area.width - this.textService.measure(hDC, right), y, right);
+    };
+    
+    // Lines cut off by the margins when wrapping is off stay inside the page area
+    this.drawClipped(hDC, area, job, pageIndex, () =>
+      this.textService.use(hDC, font, () => {
+        drawHeaderFooter(options?.header, area.y);
+        
+        let y = area.y + (options?.header !== undefined ? 2 * lineHeight : 0);
+        for (const line of textLayout.pages[pageIndex]) {
+          if (line.lineNumber !== undefined) {
+            const number = String(line.lineNumber);
+            drawText(area.x + textLayout.numberWidth - this.textService.measure(hDC, number), y, number);
+          }
+          drawText(area.x + textLayout.gutterWidth, y, line.text);
+          y += lineHeight;
+        }
+        
+        drawHeaderFooter(options?.footer, area.y + area.height - lineHeight);
+      })
+    );
+    
+    return performance.now() - drawStart;
+  }
+  
+  /**
+   * Stretch a top-down 32 bpp BGRA bitmap over `destination` with StretchDIBits
+   */
+  private drawBitmap(
+    hDC: any,
+    bitmap: { buffer: any; width: number; height: number; stride: number },
+    destination: Rect,
+    dpi: number,
+    job: { printerName: string; jobId: number },
+    pageIndex: number
+  ): void {
+    // Prepare BITMAPINFOHEADER
+    const bmiData = {
+      biSize: 40,
+      biWidth: bitmap.width,
+      biHeight: -bitmap.height,  // Negative for top-down bitmap
+      biPlanes: 1,
+      biBitCount: 32,  // BGRA = 32 bits
+      biCompression: BI_RGB,
+      biSizeImage: bitmap.stride * bitmap.height,
+      biXPelsPerMeter: Math.floor(dpi * 39.37), // Convert DPI to pixels per meter
+      biYPelsPerMeter: Math.floor(dpi * 39.37),
+      biClrUsed: 0,
+      biClrImportant: 0
+    };
+    
+    // Convert to pointer
+    const bmi = [bmiData];
+    const bmiPtr = koffi.as(bmi, koffi.pointer(BITMAPINFOHEADER));
+    
+    // Draw bitmap to printer DC using StretchDIBits, scaling from the bitmap resolution to device DPI
+    const drawTimer = this.logger.startTimer(
+      `StretchDIBits (${bitmap.width}x${bitmap.height} to ${destination.width}x${destination.height})`
+    );
+    const result = StretchDIBits(
+      hDC,
+      destination.x,          // xDest
+      destination.y,          // yDest
+      destination.width,      // DestWidth
+      destination.height,     // DestHeight
+      0,                      // xSrc
+      0,                      // ySrc
+      bitmap.width,           // SrcWidth
+      bitmap.height,          // SrcHeight
+      bitmap.buffer,          // lpBits
+      bmiPtr,                 // lpbmi
+      DIB_RGB_COLORS,         // iUsage
+      SRCCOPY                 // rop
+    );
+    this.logger.endTimer(drawTimer);
+    
+    if (result === 0) {
+      const win32Error = GetLastError();
+      const error = new SpoolerError(
+        `Failed to draw bitmap to printer. Error: ${win32Error}`,
+        { ...job, operation: 'StretchDIBits', win32Error, pageIndex }
+      );
+      this.logger.error('StretchDIBits failed', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Draw with the device context clipped to `rect`, restoring the previous clip afterwards
+   */
+  private drawClipped(
+    hDC: any,
+    rect: Rect,
+    job: { printerName: string; jobId: number },
+    pageIndex: number,
+    draw: () => void
+  ): void {
+    const savedState = SaveDC(hDC);
+    try {
+      const clipResult = IntersectClipRect(hDC, rect.x, rect.y, rect.x + rect.width, rect.y + rect.height);
+      if (clipResult === CLIP_ERROR) {
+        const win32Error = GetLastError();
+        const error = new SpoolerError(
+          `Failed to clip page. Error: ${win32Error}`,
+          { ...job, operation: 'IntersectClipRect', win32Error, pageIndex }
+        );
+        this.logger.error('IntersectClipRect failed', error);
+        throw error;
+      }
+      
+      draw();
+    } finally {
+      RestoreDC(hDC, savedState);
+    }
+  }
+  
+  /**
+   * Outline a page for N-up borders
+   */
+  private drawPageBorder(
+    hDC: any,
+    rect: Rect,
+    borderWidth: number,
+    job: { printerName: string; jobId: number },
+    pageIndex: number
+  ): void {
+    for (const strip of computeBorderStrips(rect, borderWidth)) {
+      this.fillRect(hDC, strip, BLACKNESS, 'draw page border', job, pageIndex);
+    }
+  }
+  
+  /**
+   * Fill a rectangle of the current GDI page with a PatBlt raster operation
+   */
+  private fillRect(
+    hDC: any,
+    rect: Rect,
+    rop: number,
+    action: string,
+    job: { printerName: string; jobId: number },
+    pageIndex: number
+  ): void {
+    if (!PatBlt(hDC, rect.x, rect.y, rect.width, rect.height, rop)) {
+      const win32Error = GetLastError();
+      const error = new SpoolerError(
+        `Failed to ${action}. Error: ${win32Error}`,
+        { ...job, operation: 'PatBlt', win32Error, pageIndex }
+      );
+      this.logger.error('PatBlt failed', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Read the sheet geometry of a printer device context
+   * Falls back to the printable area when the driver does not report a physical size.
+   */
+  private getSheetMetrics(hDC: any): SheetMetrics {
+    const printableWidth = GetDeviceCaps(hDC, HORZRES);
+    const printableHeight = GetDeviceCaps(hDC, VERTRES);
+    const physicalWidth = GetDeviceCaps(hDC, PHYSICALWIDTH);
+    const physicalHeight = GetDeviceCaps(hDC, PHYSICALHEIGHT);
+    const hasPhysicalSize = physicalWidth >= printableWidth && physicalHeight >= printableHeight;
+    
+    const sheet: SheetMetrics = {
+      physicalWidth: hasPhysicalSize ? physicalWidth : printableWidth,
+      physicalHeight: hasPhysicalSize ? physicalHeight : printableHeight,
+      offsetX: hasPhysicalSize ? GetDeviceCaps(hDC, PHYSICALOFFSETX) : 0,
+      offsetY: hasPhysicalSize ? GetDeviceCaps(hDC, PHYSICALOFFSETY) : 0,
+      printableWidth,
+      printableHeight,
+      dpiX: GetDeviceCaps(hDC, LOGPIXELSX),
+      dpiY: GetDeviceCaps(hDC, LOGPIXELSY)
+    };
+    
+    this.logger.debug(
+      `Sheet: ${sheet.physicalWidth}x${sheet.physicalHeight}, printable ${printableWidth}x${printableHeight} ` +
+      `at offset ${sheet.offsetX},${sheet.offsetY}`
+    );
+    return sheet;
   }
   
   getPrinterName(): string {
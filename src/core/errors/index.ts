@@ -0,0 +1,324 @@
+// Core error types - thrown by printer adapters and services
+import type { JobInfo } from '../types';
+
+/**
+ * Base class for all errors thrown by this library
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   await printer.print('./document.pdf');
+ * } catch (error) {
+ *   if (error instanceof PdfPrinterError) {
+ *     console.error(error.name, error.message);
+ *   }
+ * }
+ * ```
+ */
+export class PdfPrinterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Why a spooled job did not finish printing
+ * - 'error' - the job or printer entered an error state (error, offline, paper out, ...)
+ * - 'deleted' - the job was deleted from the queue before printing
+ * - 'timeout' - the job did not finish within the allowed time
+ */
+export type PrintJobFailureReason = 'error' | 'deleted' | 'timeout';
+
+/**
+ * Thrown when a job tracked with `waitForCompletion` does not finish printing
+ */
+export class PrintJobError extends PdfPrinterError {
+  /** Spooler job id */
+  readonly jobId: number;
+  /** Printer the job was sent to */
+  readonly printerName: string;
+  /** Why the job did not complete */
+  readonly reason: PrintJobFailureReason;
+  /** Last status seen in the queue (null if no status was read) */
+  readonly job: JobInfo | null;
+
+  constructor(
+    message: string,
+    details: { jobId: number; printerName: string; reason: PrintJobFailureReason; job: JobInfo | null }
+  ) {
+    super(message);
+    this.jobId = details.jobId;
+    this.printerName = details.printerName;
+    this.reason = details.reason;
+    this.job = details.job;
+  }
+}
+
+/**
+ * Thrown when a job tracked with `waitForCompletion` exceeds its timeout
+ */
+export class PrintJobTimeoutError extends PrintJobError {
+  /** Timeout that elapsed, in milliseconds */
+  readonly timeout: number;
+
+  constructor(message: string, details: { jobId: number; printerName: string; job: JobInfo | null; timeout: number }) {
+    super(message, { ...details, reason: 'timeout' });
+    this.timeout = details.timeout;
+  }
+}
+
+/**
+ * Thrown when the library is used on a platform other than Windows
+ */
+export class UnsupportedPlatformError extends PdfPrinterError {
+  /** Value of `process.platform` */
+  readonly platform: string;
+
+  constructor(message: string, platform: string) {
+    super(message);
+    this.platform = platform;
+  }
+}
+
+/**
+ * Thrown when a printer does not exist or no default printer is configured
+ */
+export class PrinterNotFoundError extends PdfPrinterError {
+  /** Requested printer name (null when looking up the default printer) */
+  readonly printerName: string | null;
+
+  constructor(message: string, printerName: string | null) {
+    super(message);
+    this.printerName = printerName;
+  }
+}
+
+/**
+ * Thrown when a file to print does not exist
+ */
+export class FileNotFoundError extends PdfPrinterError {
+  /** Path that was requested */
+  readonly filePath: string;
+
+  constructor(message: string, filePath: string) {
+    super(message);
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Thrown when a print option has an invalid value
+ */
+export class InvalidOptionError extends PdfPrinterError {
+  /** Name of the offending option, e.g. 'scaling' */
+  readonly option: string;
+
+  constructor(message: string, option: string) {
+    super(message);
+    this.option = option;
+  }
+}
+
+/**
+ * Thrown when a `pages` selection cannot be parsed or is out of range
+ */
+export class PageSelectionError extends PdfPrinterError {
+  /** Selection expression that was rejected */
+  readonly selection: string;
+
+  constructor(message: string, selection: string) {
+    super(message);
+    this.selection = selection;
+  }
+}
+
+/**
+ * Thrown when a print job is cancelled through its `signal`
+ * Named 'AbortError' to match the DOM convention for aborted operations.
+ */
+export class PrintAbortedError extends PdfPrinterError {
+  constructor(message = 'Print job aborted') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Thrown when pdfium.dll cannot be found or loaded
+ */
+export class PdfiumUnavailableError extends PdfPrinterError {}
+
+/**
+ * Thrown when the PDF render service is used before initialize()
+ */
+export class PdfiumNotInitializedError extends PdfPrinterError {}
+
+/**
+ * Thrown when PDFium fails to render a page into a bitmap
+ */
+export class RenderError extends PdfPrinterError {
+  /** Zero-based page index */
+  readonly pageIndex: number;
+
+  constructor(message: string, pageIndex: number) {
+    super(message);
+    this.pageIndex = pageIndex;
+  }
+}
+
+/**
+ * Thrown when CreateDCW cannot create a printer device context
+ */
+export class DeviceContextError extends PdfPrinterError {
+  /** Printer the device context was created for */
+  readonly printerName: string;
+  /** GetLastError() value */
+  readonly win32Error: number;
+
+  constructor(message: string, details: { printerName: string; win32Error: number }) {
+    super(message);
+    this.printerName = details.printerName;
+    this.win32Error = details.win32Error;
+  }
+}
+
+/**
+ * Thrown when a spooler or GDI call fails (OpenPrinter, StartDoc, StartPage, EndPage, SetJob, ...)
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   await printer.print('./document.pdf');
+ * } catch (error) {
+ *   if (error instanceof SpoolerError && error.win32Error === 5) {
+ *     console.error(`Access denied on ${error.printerName} during ${error.operation}`);
+ *   }
+ * }
+ * ```
+ */
+export class SpoolerError extends PdfPrinterError {
+  /** Printer the call was made against */
+  readonly printerName: string;
+  /** Win32 function that failed, e.g. 'StartDoc' */
+  readonly operation: string;
+  /** GetLastError() value */
+  readonly win32Error: number;
+  /** Spooler job id, when a job had been started */
+  readonly jobId?: number;
+  /** Zero-based page index, when the failure happened on a page */
+  readonly pageIndex?: number;
+
+  constructor(
+    message: string,
+    details: { printerName: string; operation: string; win32Error: number; jobId?: number; pageIndex?: number }
+  ) {
+    super(message);
+    this.printerName = details.printerName;
+    this.operation = details.operation;
+    this.win32Error = details.win32Error;
+    this.jobId = details.jobId;
+    this.pageIndex = details.pageIndex;
+  }
+}
+
+/**
+ * Thrown when the print dialog cannot be shown
+ */
+export class DialogError extends PdfPrinterError {
+  /** CommDlgExtendedError() value (0 when the failure was not reported by the dialog) */
+  readonly dialogError: number;
+
+  constructor(message: string, dialogError: number) {
+    super(message);
+    this.dialogError = dialogError;
+  }
+}
+
+/**
+ * Thrown when PDFium cannot load a PDF document
+ * Catch the subclasses to react to a specific cause, e.g. prompt for a password on `PdfPasswordError`.
+ */
+export class PdfLoadError extends PdfPrinterError {
+  /** PDFium error code (FPDF_ERR_*) */
+  readonly code: number;
+  /** Zero-based page index, when a single page failed to load */
+  readonly pageIndex?: number;
+
+  constructor(message: string, code: number, pageIndex?: number) {
+    super(message);
+    this.code = code;
+    this.pageIndex = pageIndex;
+  }
+}
+
+/**
+ * The document could not be opened or read (FPDF_ERR_FILE)
+ */
+export class PdfFileError extends PdfLoadError {}
+
+/**
+ * The data is not a PDF, is corrupted or has no pages (FPDF_ERR_FORMAT)
+ */
+export class PdfFormatError extends PdfLoadError {}
+
+/**
+ * The document is encrypted and the password is missing or wrong (FPDF_ERR_PASSWORD)
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   await printer.print('./statement.pdf');
+ * } catch (error) {
+ *   if (error instanceof PdfPasswordError && !error.passwordProvided) {
+ *     const password = await askUserForPassword();
+ *     await printer.print('./statement.pdf', { password });
+ *   }
+ * }
+ * ```
+ */
+export class PdfPasswordError extends PdfLoadError {
+  /** Whether a password was supplied (true means it was wrong) */
+  readonly passwordProvided: boolean;
+
+  constructor(message: string, code: number, passwordProvided: boolean) {
+    super(message, code);
+    this.passwordProvided = passwordProvided;
+  }
+}
+
+/**
+ * The document uses an unsupported security handler (FPDF_ERR_SECURITY)
+ */
+export class PdfSecurityError extends PdfLoadError {}
+
+/**
+ * A page could not be found or its content is invalid (FPDF_ERR_PAGE)
+ */
+export class PdfPageError extends PdfLoadError {}
+
+/**
+ * Thrown when an enhanced metafile (EMF) cannot be loaded
+ */
+export class EmfLoadError extends PdfPrinterError {
+  /** Zero-based position of the metafile in the printEmf() input */
+  readonly index: number;
+
+  constructor(message: string, index: number) {
+    super(message);
+    this.index = index;
+  }
+}
+
+/**
+ * Thrown when an image passed to printImage() cannot be decoded
+ */
+export class ImageDecodeError extends PdfPrinterError {
+  /** Detected image format ('png', 'jpeg', 'bmp' or 'tiff'), if any */
+  readonly format?: string;
+
+  constructor(message: string, format?: string) {
+    super(message);
+    this.format = format;
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * BMP decoder
+ *
+ * Supports OS/2 and Windows headers (BITMAPCOREHEADER to BITMAPV5HEADER),
+ * 1, 4 and 8-bit palettes, 16, 24 and 32-bit pixels with or without bit
+ * field masks, RLE4/RLE8 compression and top-down bitmaps.
+ */
+
+import { ImageDecodeError } from '../errors';
+import { assertImageSize, createImage, writePixel, type DecodedImage, type ImageDocument } from './image';
+
+const FILE_HEADER_SIZE = 14;
+const CORE_HEADER_SIZE = 12;
+const INFO_HEADER_SIZE = 40;
+
+// biCompression values
+const BI_RGB = 0;
+const BI_RLE8 = 1;
+const BI_RLE4 = 2;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+const METRES_PER_INCH = 0.0254;
+
+interface BitField {
+  mask: number;
+  shift: number;
+  max: number;
+}
+
+interface BmpInfo {
+  data: Buffer;
+  width: number;
+  height: number;
+  topDown: boolean;
+  bitCount: number;
+  compression: number;
+  pixelOffset: number;
+  palette: Array<[number, number, number]>;
+  masks?: { red: BitField; green: BitField; blue: BitField; alpha?: BitField };
+}
+
+/**
+ * Whether the data starts with a BMP file header
+ */
+export function isBmp(data: Buffer): boolean {
+  return data.length >= FILE_HEADER_SIZE + CORE_HEADER_SIZE && data[0] === 0x42 && data[1] === 0x4D;
+}
+
+/**
+ * Read a BMP file
+ * @throws ImageDecodeError if the headers are invalid or use an unsupported compression
+ */
+export function readBmp(data: Buffer): ImageDocument {
+  if (!isBmp(data)) {
+    throw new ImageDecodeError('Invalid BMP header', 'bmp');
+  }
+
+  const pixelOffset = data.readUInt32LE(10);
+  const headerSize = data.readUInt32LE(FILE_HEADER_SIZE);
+  const core = headerSize === CORE_HEADER_SIZE;
+  if (!core && headerSize < INFO_HEADER_SIZE) {
+    throw new ImageDecodeError(`Unsupported BMP header size ${headerSize}`, 'bmp');
+  }
+  if (FILE_HEADER_SIZE + headerSize > data.length) {
+    throw new ImageDecodeError('BMP header is truncated', 'bmp');
+  }
+
+  const header = FILE_HEADER_SIZE;
+  const width = core ? data.readUInt16LE(header + 4) : data.readInt32LE(header + 4);
+  const rawHeight = core ? data.readUInt16LE(header + 6) : data.readInt32LE(header + 8);
+  const bitCount = core ? data.readUInt16LE(header + 10) : data.readUInt16LE(header + 14);
+  const compression = core ? BI_RGB : data.readUInt32LE(header + 16);
+  const height = Math.abs(rawHeight);
+
+  if (width <= 0 || height === 0) {
+    throw new ImageDecodeError('BMP image has no pixels', 'bmp');
+  }
+  assertImageSize(width, height, 'bmp');
+  if (![1, 4, 8, 16, 24, 32].includes(bitCount)) {
+    throw new ImageDecodeError(`Unsupported BMP bit depth ${bitCount}`, 'bmp');
+  }
+  if (
+    ![BI_RGB, BI_RLE8, BI_RLE4, BI_BITFIELDS, BI_ALPHABITFIELDS].includes(compression) ||
+    (compression === BI_RLE8 && bitCount !== 8) ||
+    (compression === BI_RLE4 && bitCount !== 4)
+  ) {
+    throw new ImageDecodeError(`Unsupported BMP compression ${compression} for ${bitCount}-bit pixels`, 'bmp');
+  }
+
+  // Bit field masks follow a BITMAPINFOHEADER, or are part of the V2+ headers
+  let tableOffset = header + headerSize;
+  let masks: BmpInfo['masks'];
+  if (compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS) {
+    const maskOffset = header + INFO_HEADER_SIZE;
+    const maskCount = compression === BI_ALPHABITFIELDS || headerSize >= 56 ? 4 : 3;
+    if (headerSize === INFO_HEADER_SIZE) {
+      tableOffset += maskCount * 4;
+    }
+    masks = {
+      red: toBitField(data.readUInt32LE(maskOffset)),
+      green: toBitField(data.readUInt32LE(maskOffset + 4)),
+      blue: toBitField(data.readUInt32LE(maskOffset + 8)),
+      alpha: maskCount === 4 ? toBitField(data.readUInt32LE(maskOffset + 12)) : undefined
+    };
+  } else if (bitCount === 16) {
+    // 16-bit BI_RGB is 5-5-5
+    masks = { red: toBitField(0x7C00), green: toBitField(0x03E0), blue: toBitField(0x001F) };
+  }
+
+  const palette: Array<[number, number, number]> = [];
+  if (bitCount <= 8) {
+    const used = core ? 0 : data.readUInt32LE(header + 32);
+    const entrySize = core ? 3 : 4;
+    const count = Math.min(used || 1 << bitCount, 1 << bitCount);
+    for (let index = 0; index < count && tableOffset + (index + 1) * entrySize <= data.length; index++) {
+      const entry = tableOffset + index * entrySize;
+      palette.push([data[entry + 2], data[entry + 1], data[entry]]);
+    }
+  }
+
+  const pixelsPerMetreX = core ? 0 : data.readInt32LE(header + 24);
+  const pixelsPerMetreY = core ? 0 : data.readInt32LE(header + 28);
+
+  const bmp: BmpInfo = {
+    data,
+    width,
+    height,
+    topDown: rawHeight < 0,
+    bitCount,
+    compression,
+    pixelOffset,
+    palette,
+    masks
+  };
+
+  return {
+    format: 'bmp',
+    frames: [{
+      width,
+      height,
+      dpiX: Math.max(0, pixelsPerMetreX * METRES_PER_INCH),
+      dpiY: Math.max(0, pixelsPerMetreY * METRES_PER_INCH)
+    }],
+    decodeFrame: () => (compression === BI_RLE8 || compression === BI_RLE4 ? decodeRle(bmp) : decodeBmp(bmp))
+  };
+}
+
+function decodeBmp(bmp: BmpInfo): DecodedImage {
+  const { data, width, height, bitCount, palette, masks } = bmp;
+  const stride = Math.floor((bitCount * width + 31) / 32) * 4;
+  if (bmp.pixelOffset + stride * height > data.length) {
+    throw new ImageDecodeError('BMP pixel data is truncated', 'bmp');
+  }
+
+  const readValue = (row: number, x: number): number =>
+    bitCount === 16 ? data.readUInt16LE(bmp.pixelOffset + row * stride + x * 2) : data.readUInt32LE(bmp.pixelOffset + row * stride + x * 4);
+  // Many writers declare an alpha mask but leave every alpha value at zero; treat those as opaque
+  const alpha = masks?.alpha?.mask ? masks.alpha : undefined;
+  let useAlpha = false;
+  for (let row = 0; alpha && !useAlpha && row < height; row++) {
+    for (let x = 0; x < width && !useAlpha; x++) {
+      useAlpha = (readValue(row, x) & alpha.mask) !== 0;
+    }
+  }
+
+  const image = createImage(width, height);
+  for (let row = 0; row < height; row++) {
+    const y = bmp.topDown ? row : height - 1 - row;
+    const start = bmp.pixelOffset + row * stride;
+
+    for (let x = 0; x < width; x++) {
+      if (bitCount <= 8) {
+        const bit = x * bitCount;
+        const index = (data[start + (bit >> 3)] >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1);
+        const [red, green, blue] = palette[index] ?? [0, 0, 0];
+        writePixel(image, x, y, red, green, blue);
+      } else if (bitCount === 24) {
+        const offset = start + x * 3;
+        writePixel(image, x, y, data[offset + 2], data[offset + 1], data[offset]);
+      } else if (masks) {
+        const value = readValue(row, x);
+        writePixel(
+          image,
+          x,
+          y,
+          readBitField(value, masks.red),
+          readBitField(value, masks.green),
+          readBitField(value, masks.blue),
+          alpha && useAlpha ? readBitField(value, alpha) : 255
+        );
+      } else {
+        // 32-bit BI_RGB: the fourth byte is unused
+        const offset = start + x * 4;
+        writePixel(image, x, y, data[offset + 2], data[offset + 1], data[offset]);
+      }
+    }
+  }
+  return image;
+}
+
+/**
+ * Decode RLE8/RLE4 data; skipped pixels stay white
+ */
+function decodeRle(bmp: BmpInfo): DecodedImage {
+  const { data, width, height, palette } = bmp;
+  const rle4 = bmp.compression === BI_RLE4;
+  const image = createImage(width, height);
+  let x = 0;
+  let row = 0;
+  let offset = bmp.pixelOffset;
+
+  const put = (index: number): void => {
+    if (x < width && row < height) {
+      const [red, green, blue] = palette[index] ?? [0, 0, 0];
+      writePixel(image, x, height - 1 - row, red, green, blue);
+    }
+    x++;
+  };
+
+  while (offset + 1 < data.length && row < height) {
+    const count = data[offset];
+    const value = data[offset + 1];
+    offset += 2;
+
+    if (count > 0) {
+      // Encoded run; RLE4 alternates the two nibbles
+      for (let i = 0; i < count; i++) {
+        put(rle4 ? (i % 2 === 0 ? value >> 4 : value & 0x0F) : value);
+      }
+    } else if (value === 0) {
+      x = 0;
+      row++;
+    } else if (value === 1) {
+      break;
+    } else if (value === 2) {
+      x += data[offset] ?? 0;
+      row += data[offset + 1] ?? 0;
+      offset += 2;
+    } else {
+      // Absolute run of `value` pixels, padded to a 16-bit boundary
+      const bytes = rle4 ? Math.ceil(value / 2) : value;
+      for (let i = 0; i < value; i++) {
+        const byte = data[offset + (rle4 ? i >> 1 : i)] ?? 0;
+        put(rle4 ? (i % 2 === 0 ? byte >> 4 : byte & 0x0F) : byte);
+      }
+      offset += bytes + (bytes % 2);
+    }
+  }
+  return image;
+}
+
+function toBitField(mask: number): BitField {
+  if (mask === 0) {
+    return { mask: 0, shift: 0, max: 1 };
+  }
+
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) {
+    shift++;
+  }
+  return { mask: mask >>> 0, shift, max: (mask >>> shift) >>> 0 };
+}
+
+function readBitField(value: number, field: BitField): number {
+  return field.mask ? Math.round(((((value & field.mask) >>> 0) >>> field.shift) * 255) / field.max) : 0;
+}
@@ -0,0 +1,297 @@
+/**
+ * CCITT fax decoder
+ *
+ * Decodes the bilevel compressions used by scanners and fax software in TIFF
+ * files: Modified Huffman (TIFF compression 2), T.4 one and two-dimensional
+ * coding (3) and T.6 (4, "Group 4"). Output rows are packed one bit per
+ * pixel, most significant bit first, with 1 for black.
+ */
+
+import { ImageDecodeError } from '../errors';
+
+export type CcittMode = 'modifiedHuffman' | 't4' | 't6';
+
+export interface CcittOptions {
+  mode: CcittMode;
+  width: number;
+  rows: number;
+  /** T4Options: bit 0 = two-dimensional coding, bit 2 = EOLs are byte-aligned */
+  t4Options?: number;
+  /** TIFF FillOrder 2: bits are stored least significant first */
+  reverseBits?: boolean;
+}
+
+// Run-length codes (ITU T.4 tables 2 and 3) as "code run" pairs
+const WHITE_CODES = [
+  '00110101 0', '000111 1', '0111 2', '1000 3', '1011 4', '1100 5', '1110 6', '1111 7',
+  '10011 8', '10100 9', '00111 10', '01000 11', '001000 12', '000011 13', '110100 14', '110101 15',
+  '101010 16', '101011 17', '0100111 18', '0001100 19', '0001000 20', '0010111 21', '0000011 22', '0000100 23',
+  '0101000 24', '0101011 25', '0010011 26', '0100100 27', '0011000 28', '00000010 29', '00000011 30', '00011010 31',
+  '00011011 32', '00010010 33', '00010011 34', '00010100 35', '00010101 36', '00010110 37', '00010111 38', '00101000 39',
+  '00101001 40', '00101010 41', '00101011 42', '00101100 43', '00101101 44', '00000100 45', '00000101 46', '00001010 47',
+  '00001011 48', '01010010 49', '01010011 50', '01010100 51', '01010101 52', '00100100 53', '00100101 54', '01011000 55',
+  '01011001 56', '01011010 57', '01011011 58', '01001010 59', '01001011 60', '00110010 61', '00110011 62', '00110100 63',
+  '11011 64', '10010 128', '010111 192', '0110111 256', '00110110 320', '00110111 384', '01100100 448', '01100101 512',
+  '01101000 576', '01100111 640', '011001100 704', '011001101 768', '011010010 832', '011010011 896', '011010100 960',
+  '011010101 1024', '011010110 1088', '011010111 1152', '011011000 1216', '011011001 1280', '011011010 1344',
+  '011011011 1408', '010011000 1472', '010011001 1536', '010011010 1600', '011000 1664', '010011011 1728'
+];
+
+const BLACK_CODES = [
+  '0000110111 0', '010 1', '11 2', '10 3', '011 4', '0011 5', '0010 6', '00011 7',
+  '000101 8', '000100 9', '0000100 10', '0000101 11', '0000111 12', '00000100 13', '00000111 14', '000011000 15',
+  '0000010111 16', '0000011000 17', '0000001000 18', '00001100111 19', '00001101000 20', '00001101100 21',
+  '00000110111 22', '00000101000 23', '00000010111 24', '00000011000 25', '000011001010 26', '000011001011 27',
+  '000011001100 28', '000011001101 29', '000001101000 30', '000001101001 31', '000001101010 32', '000001101011 33',
+  '000011010010 34', '000011010011 35', '000011010100 36', '000011010101 37', '000011010110 38', '000011010111 39',
+  '000001101100 40', '000001101101 41', '000011011010 42', '000011011011 43', '000001010100 44', '000001010101 45',
+  '000001010110 46', '000001010111 47', '000001100100 48', '000001100101 49', '000001010010 50', '000001010011 51',
+  '000000100100 52', '000000110111 53', '000000111000 54', '000000100111 55', '000000101000 56', '000001011000 57',
+  '000001011001 58', '000000101011 59', '000000101100 60', '000001011010 61', '000001100110 62', '000001100111 63',
+  '0000001111 64', '000011001000 128', '000011001001 192', '000001011011 256', '000000110011 320', '000000110100 384',
+  '000000110101 448', '0000001101100 512', '0000001101101 576', '0000001001010 640', '0000001001011 704',
+  '0000001001100 768', '0000001001101 832', '0000001110010 896', '0000001110011 960', '0000001110100 1024',
+  '0000001110101 1088', '0000001110110 1152', '0000001110111 1216', '0000001010010 1280', '0000001010011 1344',
+  '0000001010100 1408', '0000001010101 1472', '0000001011010 1536', '0000001011011 1600', '0000001100100 1664',
+  '0000001100101 1728'
+];
+
+// Makeup codes for runs of 1792 pixels and more, shared by both colors
+const EXTENDED_CODES = [
+  '00000001000 1792', '00000001100 1856', '00000001101 1920', '000000010010 1984', '000000010011 2048',
+  '000000010100 2112', '000000010101 2176', '000000010110 2240', '000000010111 2304', '000000011100 2368',
+  '000000011101 2432', '000000011110 2496', '000000011111 2560'
+];
+
+// Two-dimensional coding modes (ITU T.4 table 4)
+type Mode2D = { type: 'pass' } | { type: 'horizontal' } | { type: 'vertical'; delta: number };
+
+const MODE_CODES: Array<[string, Mode2D]> = [
+  ['1', { type: 'vertical', delta: 0 }],
+  ['011', { type: 'vertical', delta: 1 }],
+  ['010', { type: 'vertical', delta: -1 }],
+  ['001', { type: 'horizontal' }],
+  ['0001', { type: 'pass' }],
+  ['000011', { type: 'vertical', delta: 2 }],
+  ['000010', { type: 'vertical', delta: -2 }],
+  ['0000011', { type: 'vertical', delta: 3 }],
+  ['0000010', { type: 'vertical', delta: -3 }]
+];
+
+const EOL_LENGTH = 12;
+const MAX_CODE_LENGTH = 13;
+
+const WHITE_TABLE = buildCodeTable([...WHITE_CODES, ...EXTENDED_CODES]);
+const BLACK_TABLE = buildCodeTable([...BLACK_CODES, ...EXTENDED_CODES]);
+const MODE_TABLE = new Map(MODE_CODES.map(([code, mode]) => [codeKey(code.length, parseInt(code, 2)), mode]));
+
+/**
+ * Decode CCITT-compressed rows
+ * @throws ImageDecodeError if the data contains invalid codes
+ */
+export function decodeCcitt(data: Buffer, options: CcittOptions): Buffer {
+  const { mode, width, rows } = options;
+  const rowBytes = Math.ceil(width / 8);
+  const out = Buffer.alloc(rowBytes * rows);
+  const bits = new BitReader(options.reverseBits ? reverseBits(data) : data);
+  const twoDimensional = mode === 't6' || (mode === 't4' && ((options.t4Options ?? 0) & 1) !== 0);
+
+  // Changing elements of the reference line; the line above the first row is white
+  let reference: number[] = [width, width];
+
+  for (let row = 0; row < rows; row++) {
+    if (mode === 'modifiedHuffman') {
+      bits.alignToByte();
+    } else if (mode === 't4') {
+      bits.skipEndOfLine();
+    }
+
+    // T.4 2-D lines start with a tag bit: 1 = one-dimensional line
+    const oneDimensional = mode === 'modifiedHuffman' || (mode === 't4' && (!twoDimensional || bits.read(1) === 1));
+    const changes = oneDimensional ? decodeLine1D(bits, width) : decodeLine2D(bits, width, reference);
+
+    fillRow(out, row * rowBytes, changes, width);
+    reference = [...changes, width, width];
+
+    if (bits.exhausted()) {
+      break;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Alternating white and black runs; returns the positions where the color changes
+ */
+function decodeLine1D(bits: BitReader, width: number): number[] {
+  const changes: number[] = [];
+  let position = 0;
+  let white = true;
+
+  while (position < width) {
+    position = Math.min(width, position + readRun(bits, white));
+    changes.push(position);
+    white = !white;
+  }
+  return changes;
+}
+
+/**
+ * Line coded relative to the reference line (ITU T.4 4.2)
+ */
+function decodeLine2D(bits: BitReader, width: number, reference: number[]): number[] {
+  const changes: number[] = [];
+  let a0 = -1;
+  let white = true;
+
+  while (a0 < width) {
+    // b1: first changing element on the reference line right of a0 that changes to the opposite color
+    let index = 0;
+    while (index < reference.length && (reference[index] <= a0 || (index % 2 === 0) !== white)) {
+      index++;
+    }
+    const b1 = reference[index] ?? width;
+    const b2 = reference[index + 1] ?? width;
+
+    const mode = readMode(bits);
+    if (mode.type === 'pass') {
+      a0 = b2;
+    } else if (mode.type === 'horizontal') {
+      const start = Math.max(a0, 0);
+      const a1 = Math.min(width, start + readRun(bits, white));
+      const a2 = Math.min(width, a1 + readRun(bits, !white));
+      changes.push(a1, a2);
+      a0 = a2;
+    } else {
+      const a1 = Math.max(0, Math.min(width, b1 + mode.delta));
+      changes.push(a1);
+      a0 = a1;
+      white = !white;
+    }
+  }
+  return changes;
+}
+
+function readRun(bits: BitReader, white: boolean): number {
+  const table = white ? WHITE_TABLE : BLACK_TABLE;
+  let total = 0;
+
+  for (;;) {
+    let code = 0;
+    let run: number | undefined;
+    for (let length = 1; length <= MAX_CODE_LENGTH && run === undefined; length++) {
+      code = (code << 1) | bits.read(1);
+      run = table.get(codeKey(length, code));
+    }
+    if (run === undefined) {
+      throw new ImageDecodeError(`Invalid CCITT ${white ? 'white' : 'black'} run code`, 'tiff');
+    }
+    total += run;
+    // Makeup codes (64 and up) are followed by a terminating code
+    if (run < 64) {
+      return total;
+    }
+  }
+}
+
+function readMode(bits: BitReader): Mode2D {
+  let code = 0;
+  for (let length = 1; length <= 7; length++) {
+    code = (code << 1) | bits.read(1);
+    const mode = MODE_TABLE.get(codeKey(length, code));
+    if (mode) {
+      return mode;
+    }
+  }
+  throw new ImageDecodeError('Invalid or unsupported CCITT two-dimensional code', 'tiff');
+}
+
+/**
+ * Set the black runs of a row
+ */
+function fillRow(out: Buffer, offset: number, changes: number[], width: number): void {
+  for (let i = 0; i + 1 <= changes.length; i += 2) {
+    const start = changes[i];
+    const end = Math.min(changes[i + 1] ?? width, width);
+    for (let x = start; x < end; x++) {
+      out[offset + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+  }
+}
+
+function buildCodeTable(codes: string[]): Map<number, number> {
+  const table = new Map<number, number>();
+  for (const entry of codes) {
+    const [code, run] = entry.split(' ');
+    table.set(codeKey(code.length, parseInt(code, 2)), Number(run));
+  }
+  return table;
+}
+
+function codeKey(length: number, code: number): number {
+  return (length << 16) | code;
+}
+
+function reverseBits(data: Buffer): Buffer {
+  const out = Buffer.alloc(data.length);
+  for (let i = 0; i < data.length; i++) {
+    let byte = data[i];
+    let reversed = 0;
+    for (let bit = 0; bit < 8; bit++) {
+      reversed = (reversed << 1) | (byte & 1);
+      byte >>= 1;
+    }
+    out[i] = reversed;
+  }
+  return out;
+}
+
+/**
+ * Most-significant-bit-first reader; reads past the end return zeros
+ */
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.data[this.position >> 3] ?? 0;
+      value = (value << 1) | ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    if (this.position > this.data.length * 8 + 64) {
+      throw new ImageDecodeError('CCITT data is truncated', 'tiff');
+    }
+    return value;
+  }
+
+  peek(count: number): number {
+    const position = this.position;
+    const value = this.read(count);
+    this.position = position;
+    return value;
+  }
+
+  alignToByte(): void {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+
+  /**
+   * Skip fill bits and an end-of-line code, if present
+   */
+  skipEndOfLine(): void {
+    while (this.peek(EOL_LENGTH) === 0 && !this.exhausted()) {
+      this.position++;
+    }
+    if (this.peek(EOL_LENGTH) === 1) {
+      this.position += EOL_LENGTH;
+    }
+  }
+
+  exhausted(): boolean {
+    return this.position >= this.data.length * 8;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Image format detection
+ *
+ * Picks the decoder for an image file from its leading bytes, so file
+ * extensions and MIME types never matter.
+ *
+ * @example
+ * ```typescript
+ * const image = openImage(fs.readFileSync('./photo.jpg'));
+ * const pixels = image.decodeFrame(0);
+ * ```
+ */
+
+import { ImageDecodeError } from '../errors';
+import type { ImageDocument, ImageFormat } from './image';
+import { isPng, readPng } from './png';
+import { isJpeg, readJpeg } from './jpeg';
+import { isBmp, readBmp } from './bmp';
+import { isTiff, readTiff } from './tiff';
+
+/**
+ * Detect the format of an image file
+ * @returns The format, or null if it is not a supported image
+ */
+export function detectImageFormat(data: Buffer): ImageFormat | null {
+  if (isPng(data)) {
+    return 'png';
+  }
+  if (isJpeg(data)) {
+    return 'jpeg';
+  }
+  if (isTiff(data)) {
+    return 'tiff';
+  }
+  if (isBmp(data)) {
+    return 'bmp';
+  }
+  return null;
+}
+
+/**
+ * Open an image file and read the size of its frames
+ * Pixels are only decoded by `decodeFrame()`.
+ * @throws ImageDecodeError if the format is not supported or the headers are invalid
+ */
+export function openImage(data: Buffer): ImageDocument {
+  switch (detectImageFormat(data)) {
+    case 'png':
+      return readPng(data);
+    case 'jpeg':
+      return readJpeg(data);
+    case 'tiff':
+      return readTiff(data);
+    case 'bmp':
+      return readBmp(data);
+    default:
+      throw new ImageDecodeError('Unsupported image format (expected PNG, JPEG, BMP or TIFF)');
+  }
+}
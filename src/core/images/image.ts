@@ -0,0 +1,193 @@
+/**
+ * Decoded raster images
+ *
+ * Every decoder produces the same pixel layout: 32-bit BGRA rows, top-down,
+ * `width * 4` bytes per row - the layout of a top-down 32 bpp DIB, so pages
+ * can be handed to StretchDIBits as they are. Printers have no alpha channel,
+ * so transparent pixels are blended onto white while decoding.
+ *
+ * @example
+ * ```typescript
+ * const image = openImage(fs.readFileSync('./scan.tiff'));
+ * image.frames.length; // pages in the file
+ * const page = image.decodeFrame(0);
+ * ```
+ */
+
+import type { PageRotation } from '../types';
+import { ImageDecodeError } from '../errors';
+import { POINTS_PER_INCH } from '../layout';
+
+export type ImageFormat = 'png' | 'jpeg' | 'bmp' | 'tiff';
+
+/** Resolution assumed for images that do not record one */
+export const DEFAULT_IMAGE_DPI = 96;
+
+/** Largest frame the decoders accept: 1 GiB of BGRA pixels (e.g. 16384 x 16384) */
+export const MAX_IMAGE_PIXELS = 2 ** 28;
+
+/**
+ * Pixels of a decoded frame
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** BGRA pixels, top-down, `width * 4` bytes per row */
+  data: Buffer;
+}
+
+/**
+ * Size and resolution of one frame, known before it is decoded
+ */
+export interface ImageFrame {
+  /** Width in pixels, after the file's orientation is applied */
+  width: number;
+  /** Height in pixels, after the file's orientation is applied */
+  height: number;
+  /** Horizontal resolution recorded in the file (0 = unknown) */
+  dpiX: number;
+  /** Vertical resolution recorded in the file (0 = unknown) */
+  dpiY: number;
+}
+
+/**
+ * An image file with one frame (PNG, JPEG, BMP) or several (multi-page TIFF)
+ */
+export interface ImageDocument {
+  format: ImageFormat;
+  frames: ImageFrame[];
+  /**
+   * Decode one frame
+   * @throws ImageDecodeError if the frame data is corrupt or uses an unsupported encoding
+   */
+  decodeFrame(index: number): DecodedImage;
+}
+
+/**
+ * Reject frame sizes read from a file header that are too large to allocate
+ * Checked before decoding, so a damaged or hostile header never allocates
+ * gigabytes of memory.
+ * @throws ImageDecodeError if `width * height` exceeds MAX_IMAGE_PIXELS
+ */
+export function assertImageSize(width: number, height: number, format: ImageFormat): void {
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new ImageDecodeError(
+      `${format.toUpperCase()} image is too large: ${width}x${height} pixels (limit ${MAX_IMAGE_PIXELS})`,
+      format
+    );
+  }
+}
+
+/**
+ * A blank (white) image
+ */
+export function createImage(width: number, height: number): DecodedImage {
+  return { width, height, data: Buffer.alloc(width * height * 4, 0xFF) };
+}
+
+/**
+ * Write one pixel, blending it onto white by its alpha
+ */
+export function writePixel(
+  image: DecodedImage,
+  x: number,
+  y: number,
+  red: number,
+  green: number,
+  blue: number,
+  alpha = 255
+): void {
+  const offset = (y * image.width + x) * 4;
+  const data = image.data;
+
+  if (alpha >= 255) {
+    data[offset] = blue;
+    data[offset + 1] = green;
+    data[offset + 2] = red;
+  } else {
+    const white = 255 - alpha;
+    data[offset] = Math.round((blue * alpha) / 255 + white);
+    data[offset + 1] = Math.round((green * alpha) / 255 + white);
+    data[offset + 2] = Math.round((red * alpha) / 255 + white);
+  }
+  data[offset + 3] = 255;
+}
+
+/**
+ * Printed size of a frame in points, from its resolution
+ */
+export function getFrameSize(frame: ImageFrame): { width: number; height: number } {
+  return {
+    width: (frame.width / (frame.dpiX || DEFAULT_IMAGE_DPI)) * POINTS_PER_INCH,
+    height: (frame.height / (frame.dpiY || DEFAULT_IMAGE_DPI)) * POINTS_PER_INCH
+  };
+}
+
+/**
+ * Whether an EXIF/TIFF orientation swaps width and height
+ */
+export function isTransposed(orientation: number): boolean {
+  return orientation >= 5 && orientation <= 8;
+}
+
+/**
+ * Apply an EXIF/TIFF orientation (1-8) so the image reads upright
+ * 1 = as stored, 2 = mirrored, 3 = 180°, 4 = flipped, 5 = transposed,
+ * 6 = stored 90° counter-clockwise, 7 = transverse, 8 = stored 90° clockwise.
+ */
+export function orientImage(image: DecodedImage, orientation: number): DecodedImage {
+  if (orientation < 2 || orientation > 8) {
+    return image;
+  }
+
+  const { width, height } = image;
+  const transposed = isTransposed(orientation);
+  const result: DecodedImage = transposed
+    ? { width: height, height: width, data: Buffer.alloc(image.data.length) }
+    : { width, height, data: Buffer.alloc(image.data.length) };
+  const source = toPixels(image.data);
+  const target = toPixels(result.data);
+
+  for (let y = 0; y < result.height; y++) {
+    for (let x = 0; x < result.width; x++) {
+      let sourceX: number;
+      let sourceY: number;
+      switch (orientation) {
+        case 2: sourceX = width - 1 - x; sourceY = y; break;
+        case 3: sourceX = width - 1 - x; sourceY = height - 1 - y; break;
+        case 4: sourceX = x; sourceY = height - 1 - y; break;
+        case 5: sourceX = y; sourceY = x; break;
+        case 6: sourceX = y; sourceY = height - 1 - x; break;
+        case 7: sourceX = width - 1 - y; sourceY = height - 1 - x; break;
+        default: sourceX = width - 1 - y; sourceY = x; break;
+      }
+      target[y * result.width + x] = source[sourceY * width + sourceX];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Turn an image clockwise
+ */
+export function rotateImage(image: DecodedImage, rotation: PageRotation): DecodedImage {
+  switch (rotation) {
+    case 90:
+      return orientImage(image, 6);
+    case 180:
+      return orientImage(image, 3);
+    case 270:
+      return orientImage(image, 8);
+    default:
+      return image;
+  }
+}
+
+/**
+ * One 32-bit value per pixel; copies buffers that are not 4-byte aligned
+ */
+function toPixels(data: Buffer): Uint32Array {
+  const aligned = data.byteOffset % 4 === 0 ? data : Buffer.from(data);
+  return new Uint32Array(aligned.buffer, aligned.byteOffset, aligned.length >> 2);
+}
@@ -0,0 +1,19 @@
+/**
+ * Image decoding module exports
+ *
+ * Pure TypeScript decoders that turn PNG, JPEG, BMP and TIFF files into the
+ * BGRA bitmaps printed with StretchDIBits
+ */
+
+export {
+  DEFAULT_IMAGE_DPI,
+  MAX_IMAGE_PIXELS,
+  getFrameSize,
+  orientImage,
+  rotateImage,
+  type ImageFormat,
+  type ImageFrame,
+  type ImageDocument,
+  type DecodedImage
+} from './image';
+export { detectImageFormat, openImage } from './decode';
@@ -0,0 +1,822 @@
+/**
+ * JPEG decoder
+ *
+ * Decodes baseline and progressive Huffman-coded JPEG (JFIF, Exif and Adobe)
+ * with 8-bit samples: grayscale, YCbCr, RGB, CMYK and YCCK, any chroma
+ * subsampling and restart intervals. The Exif orientation is applied, and the
+ * resolution comes from the JFIF or Exif header. Arithmetic coding, lossless
+ * and 12-bit JPEG are not supported.
+ */
+
+import { ImageDecodeError } from '../errors';
+import {
+  assertImageSize,
+  createImage,
+  isTransposed,
+  orientImage,
+  writePixel,
+  type DecodedImage,
+  type ImageDocument
+} from './image';
+import { readTiffHeader, readTiffDirectory, getTiffValue, getTiffDpi, TiffTag } from './tiff-directory';
+
+// Markers
+const SOI = 0xD8;
+const EOI = 0xD9;
+const SOS = 0xDA;
+const DQT = 0xDB;
+const DHT = 0xC4;
+const DRI = 0xDD;
+const APP0 = 0xE0;
+const APP1 = 0xE1;
+const APP14 = 0xEE;
+const SOF0 = 0xC0;
+const SOF1 = 0xC1;
+const SOF2 = 0xC2;
+const RST0 = 0xD0;
+const RST7 = 0xD7;
+
+// Position in the 8x8 block of each coefficient, in zigzag order
+const ZIGZAG = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+]);
+
+// IDCT basis: COSINES[x * 8 + u] = C(u) * cos((2x + 1)uπ / 16) / 2
+const COSINES = new Float64Array(64);
+for (let x = 0; x < 8; x++) {
+  for (let u = 0; u < 8; u++) {
+    COSINES[x * 8 + u] = ((u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16)) / 2;
+  }
+}
+
+const CM_PER_INCH = 2.54;
+
+interface HuffmanTable {
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  symbols: Uint8Array;
+}
+
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** Blocks per line including the padding to whole MCUs */
+  blocksPerLineForMcu: number;
+  blocksPerColumnForMcu: number;
+  /** Coefficients of every block, in natural order */
+  coefficients: Int16Array;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  prediction: number;
+}
+
+interface JpegFrame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  components: JpegComponent[];
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+}
+
+/**
+ * Tables and settings collected while reading markers
+ */
+interface JpegState {
+  quantTables: Array<Uint16Array | undefined>;
+  dcTables: Array<HuffmanTable | undefined>;
+  acTables: Array<HuffmanTable | undefined>;
+  restartInterval: number;
+  frame?: JpegFrame;
+  /** Adobe APP14 color transform (undefined when there is no Adobe marker) */
+  adobeTransform?: number;
+}
+
+/**
+ * Options for JPEG data embedded in other formats
+ */
+export interface JpegDecodeOptions {
+  /** Abbreviated table specification (TIFF JPEGTables) read before the image */
+  tables?: Buffer;
+  /** Convert YCbCr to RGB (default: decided from the JFIF/Adobe markers) */
+  colorTransform?: boolean;
+}
+
+/**
+ * Whether the data starts with a JPEG SOI marker
+ */
+export function isJpeg(data: Buffer): boolean {
+  return data.length >= 3 && data[0] === 0xFF && data[1] === SOI && data[2] === 0xFF;
+}
+
+/**
+ * Read a JPEG file
+ * @throws ImageDecodeError if the data has no supported frame header
+ */
+export function readJpeg(data: Buffer): ImageDocument {
+  if (!isJpeg(data)) {
+    throw new ImageDecodeError('Invalid JPEG header', 'jpeg');
+  }
+
+  const header = readJpegHeader(data);
+  const transposed = isTransposed(header.orientation);
+  return {
+    format: 'jpeg',
+    frames: [{
+      width: transposed ? header.height : header.width,
+      height: transposed ? header.width : header.height,
+      dpiX: transposed ? header.dpiY : header.dpiX,
+      dpiY: transposed ? header.dpiX : header.dpiY
+    }],
+    decodeFrame: () => orientImage(decodeJpeg(data), header.orientation)
+  };
+}
+
+/**
+ * Decode JPEG data to BGRA pixels, ignoring any Exif orientation
+ * @throws ImageDecodeError if the data is corrupt or uses an unsupported coding process
+ */
+export function decodeJpeg(data: Buffer, options: JpegDecodeOptions = {}): DecodedImage {
+  const state: JpegState = {
+    quantTables: [],
+    dcTables: [],
+    acTables: [],
+    restartInterval: 0
+  };
+
+  if (options.tables) {
+    readMarkers(options.tables, state, true);
+  }
+  readMarkers(data, state, false);
+
+  const frame = state.frame;
+  if (!frame) {
+    throw new ImageDecodeError('JPEG data has no frame', 'jpeg');
+  }
+
+  const planes = frame.components.map(component => buildComponentPlane(component, state.quantTables[component.quantTable]));
+  return convertToImage(frame, planes, state, options.colorTransform);
+}
+
+/**
+ * Size, resolution and orientation from the markers before the first scan
+ */
+function readJpegHeader(data: Buffer): { width: number; height: number; dpiX: number; dpiY: number; orientation: number } {
+  let dpiX = 0;
+  let dpiY = 0;
+  let exifDpi = { dpiX: 0, dpiY: 0 };
+  let orientation = 1;
+
+  for (let offset = 2; offset + 4 <= data.length;) {
+    if (data[offset] !== 0xFF) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xFF || marker === SOI || (marker >= RST0 && marker <= RST7)) {
+      offset++;
+      continue;
+    }
+    if (marker === EOI || marker === SOS) {
+      break;
+    }
+
+    const length = data.readUInt16BE(offset + 2);
+    const segment = data.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === APP0 && segment.toString('latin1', 0, 5) === 'JFIF\0' && segment.length >= 12) {
+      // Density units: 1 = dots per inch, 2 = dots per cm (0 = aspect ratio only)
+      const units = segment[7];
+      const factor = units === 1 ? 1 : units === 2 ? CM_PER_INCH : 0;
+      dpiX = segment.readUInt16BE(8) * factor;
+      dpiY = segment.readUInt16BE(10) * factor;
+    } else if (marker === APP1 && segment.toString('latin1', 0, 6) === 'Exif\0\0') {
+      try {
+        const reader = readTiffHeader(segment.subarray(6));
+        const directory = readTiffDirectory(reader, reader.firstIfd);
+        orientation = getTiffValue(reader, directory, TiffTag.ORIENTATION) ?? 1;
+        exifDpi = getTiffDpi(reader, directory);
+      } catch {
+        // A damaged Exif block does not prevent printing the picture
+      }
+    } else if (isFrameMarker(marker)) {
+      assertSupportedFrame(marker);
+      if (segment.length < 6) {
+        throw new ImageDecodeError('JPEG frame header is truncated', 'jpeg');
+      }
+      const width = segment.readUInt16BE(3);
+      const height = segment.readUInt16BE(1);
+      assertImageSize(width, height, 'jpeg');
+      return {
+        width,
+        height,
+        dpiX: dpiX || exifDpi.dpiX,
+        dpiY: dpiY || exifDpi.dpiY,
+        orientation
+      };
+    }
+    offset += 2 + length;
+  }
+
+  throw new ImageDecodeError('JPEG data has no frame header', 'jpeg');
+}
+
+function isFrameMarker(marker: number): boolean {
+  return marker >= 0xC0 && marker <= 0xCF && marker !== DHT && marker !== 0xC8 && marker !== 0xCC;
+}
+
+function assertSupportedFrame(marker: number): void {
+  if (marker === 0xC3 || marker === 0xC7 || marker === 0xCB || marker === 0xCF) {
+    throw new ImageDecodeError('Lossless JPEG is not supported', 'jpeg');
+  }
+  if (marker >= 0xC9) {
+    throw new ImageDecodeError('Arithmetic-coded JPEG is not supported', 'jpeg');
+  }
+  if (marker !== SOF0 && marker !== SOF1 && marker !== SOF2) {
+    throw new ImageDecodeError('Hierarchical JPEG is not supported', 'jpeg');
+  }
+}
+
+/**
+ * Read markers and decode every scan
+ * @param tablesOnly - The data only holds tables (no frame or scans)
+ */
+function readMarkers(data: Buffer, state: JpegState, tablesOnly: boolean): void {
+  if (data.length < 2 || data[0] !== 0xFF || data[1] !== SOI) {
+    throw new ImageDecodeError('Invalid JPEG header', 'jpeg');
+  }
+
+  let offset = 2;
+  while (offset + 1 < data.length) {
+    if (data[offset] !== 0xFF) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    offset += 2;
+    if (marker === 0xFF) {
+      offset--;
+      continue;
+    }
+    if (marker === EOI) {
+      break;
+    }
+    if (marker === SOI || (marker >= RST0 && marker <= RST7) || marker === 0x00) {
+      continue;
+    }
+
+    if (offset + 2 > data.length) {
+      break;
+    }
+    const length = data.readUInt16BE(offset);
+    const segment = data.subarray(offset + 2, offset + length);
+    if (segment.length < length - 2) {
+      throw new ImageDecodeError('JPEG segment is truncated', 'jpeg');
+    }
+    offset += length;
+
+    if (marker === DQT) {
+      readQuantTables(segment, state);
+    } else if (marker === DHT) {
+      readHuffmanTables(segment, state);
+    } else if (marker === DRI) {
+      if (segment.length < 2) {
+        throw new ImageDecodeError('JPEG restart interval is truncated', 'jpeg');
+      }
+      state.restartInterval = segment.readUInt16BE(0);
+    } else if (marker === APP14 && segment.toString('latin1', 0, 5) === 'Adobe' && segment.length >= 12) {
+      state.adobeTransform = segment[11];
+    } else if (isFrameMarker(marker)) {
+      if (tablesOnly) {
+        throw new ImageDecodeError('JPEG tables contain a frame', 'jpeg');
+      }
+      assertSupportedFrame(marker);
+      state.frame = readFrame(segment, marker === SOF2);
+    } else if (marker === SOS) {
+      if (!state.frame) {
+        throw new ImageDecodeError('JPEG scan before the frame header', 'jpeg');
+      }
+      offset = decodeScan(data, offset, segment, state.frame, state);
+    }
+  }
+}
+
+function readQuantTables(segment: Buffer, state: JpegState): void {
+  for (let offset = 0; offset < segment.length;) {
+    const precision = segment[offset] >> 4;
+    const id = segment[offset] & 0x0F;
+    offset++;
+
+    if (offset + (precision === 0 ? 64 : 128) > segment.length) {
+      throw new ImageDecodeError('JPEG quantization table is truncated', 'jpeg');
+    }
+    const table = new Uint16Array(64);
+    for (let k = 0; k < 64; k++) {
+      if (precision === 0) {
+        table[ZIGZAG[k]] = segment[offset++];
+      } else {
+        table[ZIGZAG[k]] = segment.readUInt16BE(offset);
+        offset += 2;
+      }
+    }
+    state.quantTables[id] = table;
+  }
+}
+
+function readHuffmanTables(segment: Buffer, state: JpegState): void {
+  for (let offset = 0; offset + 17 <= segment.length;) {
+    const tableClass = segment[offset] >> 4;
+    const id = segment[offset] & 0x0F;
+    const counts = segment.subarray(offset + 1, offset + 17);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const symbols = new Uint8Array(segment.subarray(offset + 17, offset + 17 + total));
+    offset += 17 + total;
+
+    const table = buildHuffmanTable(counts, symbols);
+    if (tableClass === 0) {
+      state.dcTables[id] = table;
+    } else {
+      state.acTables[id] = table;
+    }
+  }
+}
+
+/**
+ * Canonical Huffman decoding tables (ITU T.81 F.2.2.3)
+ */
+function buildHuffmanTable(counts: Uint8Array, symbols: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(17).fill(-1);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    // Symbol index = code + valueOffset[length]
+    valueOffset[length] = index - code;
+    code += count;
+    index += count;
+    maxCode[length] = count ? code - 1 : -1;
+    code <<= 1;
+  }
+  return { maxCode, valueOffset, symbols };
+}
+
+function readFrame(segment: Buffer, progressive: boolean): JpegFrame {
+  if (segment.length < 6) {
+    throw new ImageDecodeError('JPEG frame header is truncated', 'jpeg');
+  }
+  const precision = segment[0];
+  const height = segment.readUInt16BE(1);
+  const width = segment.readUInt16BE(3);
+  const count = segment[5];
+
+  if (precision !== 8) {
+    throw new ImageDecodeError(`${precision}-bit JPEG is not supported`, 'jpeg');
+  }
+  if (width === 0 || height === 0) {
+    throw new ImageDecodeError('JPEG image has no pixels', 'jpeg');
+  }
+  assertImageSize(width, height, 'jpeg');
+  if (![1, 3, 4].includes(count)) {
+    throw new ImageDecodeError(`Unsupported JPEG component count ${count}`, 'jpeg');
+  }
+  if (segment.length < 6 + count * 3) {
+    throw new ImageDecodeError('JPEG frame header is truncated', 'jpeg');
+  }
+
+  const specs: Array<{ id: number; h: number; v: number; quantTable: number }> = [];
+  for (let i = 0; i < count; i++) {
+    const offset = 6 + i * 3;
+    specs.push({
+      id: segment[offset],
+      h: Math.max(1, segment[offset + 1] >> 4),
+      v: Math.max(1, segment[offset + 1] & 0x0F),
+      quantTable: segment[offset + 2]
+    });
+  }
+
+  const maxH = Math.max(...specs.map(spec => spec.h));
+  const maxV = Math.max(...specs.map(spec => spec.v));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+  const components = specs.map(spec => {
+    const blocksPerLineForMcu = mcusPerLine * spec.h;
+    const blocksPerColumnForMcu = mcusPerColumn * spec.v;
+    return {
+      ...spec,
+      blocksPerLine: Math.ceil(Math.ceil((width * spec.h) / maxH) / 8),
+      blocksPerColumn: Math.ceil(Math.ceil((height * spec.v) / maxV) / 8),
+      blocksPerLineForMcu,
+      blocksPerColumnForMcu,
+      coefficients: new Int16Array(blocksPerLineForMcu * blocksPerColumnForMcu * 64),
+      prediction: 0
+    };
+  });
+
+  return { progressive, width, height, components, maxH, maxV, mcusPerLine, mcusPerColumn };
+}
+
+/**
+ * Decode the entropy-coded data of one scan
+ * @returns Offset just after the scan data
+ */
+function decodeScan(data: Buffer, offset: number, header: Buffer, frame: JpegFrame, state: JpegState): number {
+  const count = header[0];
+  const components: JpegComponent[] = [];
+  for (let i = 0; i < count; i++) {
+    const id = header[1 + i * 2];
+    const tables = header[2 + i * 2];
+    const component = frame.components.find(candidate => candidate.id === id);
+    if (!component) {
+      throw new ImageDecodeError(`JPEG scan references unknown component ${id}`, 'jpeg');
+    }
+    component.dcTable = state.dcTables[tables >> 4];
+    component.acTable = state.acTables[tables & 0x0F];
+    components.push(component);
+  }
+
+  const spectralStart = header[1 + count * 2];
+  const spectralEnd = header[2 + count * 2];
+  const approximation = header[3 + count * 2];
+  const successiveHigh = approximation >> 4;
+  const successiveLow = approximation & 0x0F;
+
+  // Bit reader over the entropy-coded segment
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const readBit = (): number => {
+    if (bitCount === 0) {
+      if (offset >= data.length) {
+        return 0;
+      }
+      bitBuffer = data[offset];
+      if (bitBuffer === 0xFF) {
+        const next = data[offset + 1];
+        if (next !== 0) {
+          // A marker: feed zeros until the interval ends
+          return 0;
+        }
+        offset++;
+      }
+      offset++;
+      bitCount = 8;
+    }
+    bitCount--;
+    return (bitBuffer >> bitCount) & 1;
+  };
+  const receive = (length: number): number => {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | readBit();
+    }
+    return value;
+  };
+  const receiveAndExtend = (length: number): number => {
+    if (length === 0) {
+      return 0;
+    }
+    const value = receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  };
+  const decodeHuffman = (table: HuffmanTable | undefined): number => {
+    if (!table) {
+      throw new ImageDecodeError('JPEG scan uses an undefined Huffman table', 'jpeg');
+    }
+    let code = readBit();
+    for (let length = 1; length <= 16; length++) {
+      if (code <= table.maxCode[length]) {
+        return table.symbols[code + table.valueOffset[length]];
+      }
+      code = (code << 1) | readBit();
+    }
+    throw new ImageDecodeError('Invalid JPEG Huffman code', 'jpeg');
+  };
+
+  let endOfBandRun = 0;
+  let refineState = 0;
+  let refineRun = 0;
+  let refineValue = 0;
+
+  const decodeBaseline = (component: JpegComponent, block: number): void => {
+    const coefficients = component.coefficients;
+    const category = decodeHuffman(component.dcTable);
+    component.prediction += receiveAndExtend(category);
+    coefficients[block] = component.prediction;
+
+    for (let k = 1; k < 64;) {
+      const symbol = decodeHuffman(component.acTable);
+      const size = symbol & 0x0F;
+      const run = symbol >> 4;
+      if (size === 0) {
+        if (run < 15) {
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) {
+        break;
+      }
+      coefficients[block + ZIGZAG[k]] = receiveAndExtend(size);
+      k++;
+    }
+  };
+
+  const decodeDcFirst = (component: JpegComponent, block: number): void => {
+    const category = decodeHuffman(component.dcTable);
+    component.prediction += receiveAndExtend(category) * (1 << successiveLow);
+    component.coefficients[block] = component.prediction;
+  };
+
+  const decodeDcRefine = (component: JpegComponent, block: number): void => {
+    if (readBit()) {
+      component.coefficients[block] |= 1 << successiveLow;
+    }
+  };
+
+  const decodeAcFirst = (component: JpegComponent, block: number): void => {
+    if (endOfBandRun > 0) {
+      endOfBandRun--;
+      return;
+    }
+    for (let k = spectralStart; k <= spectralEnd;) {
+      const symbol = decodeHuffman(component.acTable);
+      const size = symbol & 0x0F;
+      const run = symbol >> 4;
+      if (size === 0) {
+        if (run < 15) {
+          endOfBandRun = receive(run) + (1 << run) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) {
+        break;
+      }
+      component.coefficients[block + ZIGZAG[k]] = receiveAndExtend(size) * (1 << successiveLow);
+      k++;
+    }
+  };
+
+  // Successive approximation of AC coefficients (ITU T.81 G.1.2.3)
+  const decodeAcRefine = (component: JpegComponent, block: number): void => {
+    const coefficients = component.coefficients;
+    for (let k = spectralStart; k <= spectralEnd; k++) {
+      const position = block + ZIGZAG[k];
+      const sign = coefficients[position] < 0 ? -1 : 1;
+
+      switch (refineState) {
+        case 0: {
+          // Read the next run/size symbol
+          const symbol = decodeHuffman(component.acTable);
+          const size = symbol & 0x0F;
+          refineRun = symbol >> 4;
+          if (size === 0) {
+            if (refineRun < 15) {
+              endOfBandRun = receive(refineRun) + (1 << refineRun);
+              refineState = 4;
+            } else {
+              refineRun = 16;
+              refineState = 1;
+            }
+          } else {
+            if (size !== 1) {
+              throw new ImageDecodeError('Invalid JPEG refinement coding', 'jpeg');
+            }
+            refineValue = receiveAndExtend(size);
+            refineState = refineRun ? 2 : 3;
+          }
+          // Re-examine this coefficient in the new state
+          k--;
+          continue;
+        }
+        case 1:
+        case 2:
+          // Skip zero-history coefficients, refining the others
+          if (coefficients[position]) {
+            coefficients[position] += sign * (readBit() << successiveLow);
+          } else {
+            refineRun--;
+            if (refineRun === 0) {
+              refineState = refineState === 2 ? 3 : 0;
+            }
+          }
+          break;
+        case 3:
+          // Place the new coefficient at the next zero-history position
+          if (coefficients[position]) {
+            coefficients[position] += sign * (readBit() << successiveLow);
+          } else {
+            coefficients[position] = refineValue << successiveLow;
+            refineState = 0;
+          }
+          break;
+        case 4:
+          // End of band: only refine coefficients that are already non-zero
+          if (coefficients[position]) {
+            coefficients[position] += sign * (readBit() << successiveLow);
+          }
+          break;
+      }
+    }
+    if (refineState === 4) {
+      endOfBandRun--;
+      if (endOfBandRun === 0) {
+        refineState = 0;
+      }
+    }
+  };
+
+  let decodeBlock: (component: JpegComponent, block: number) => void;
+  if (!frame.progressive) {
+    decodeBlock = decodeBaseline;
+  } else if (spectralStart === 0) {
+    decodeBlock = successiveHigh === 0 ? decodeDcFirst : decodeDcRefine;
+  } else {
+    decodeBlock = successiveHigh === 0 ? decodeAcFirst : decodeAcRefine;
+  }
+
+  const blockOffset = (component: JpegComponent, row: number, column: number): number =>
+    (row * component.blocksPerLineForMcu + column) * 64;
+
+  // Non-interleaved scans cover the component's own blocks; interleaved scans whole MCUs
+  const single = components.length === 1 ? components[0] : undefined;
+  const total = single ? single.blocksPerLine * single.blocksPerColumn : frame.mcusPerLine * frame.mcusPerColumn;
+  const interval = state.restartInterval || total;
+
+  for (let unit = 0; unit < total;) {
+    for (const component of components) {
+      component.prediction = 0;
+    }
+    endOfBandRun = 0;
+    refineState = 0;
+
+    const end = Math.min(total, unit + interval);
+    for (; unit < end; unit++) {
+      if (single) {
+        const row = Math.floor(unit / single.blocksPerLine);
+        const column = unit % single.blocksPerLine;
+        decodeBlock(single, blockOffset(single, row, column));
+      } else {
+        const mcuRow = Math.floor(unit / frame.mcusPerLine);
+        const mcuColumn = unit % frame.mcusPerLine;
+        for (const component of components) {
+          for (let v = 0; v < component.v; v++) {
+            for (let h = 0; h < component.h; h++) {
+              decodeBlock(component, blockOffset(component, mcuRow * component.v + v, mcuColumn * component.h + h));
+            }
+          }
+        }
+      }
+    }
+
+    // Discard the remaining bits and find the next marker
+    bitCount = 0;
+    while (offset + 1 < data.length && !(data[offset] === 0xFF && data[offset + 1] !== 0 && data[offset + 1] !== 0xFF)) {
+      offset++;
+    }
+    const marker = data[offset + 1];
+    if (offset + 1 < data.length && marker >= RST0 && marker <= RST7) {
+      offset += 2;
+    } else {
+      break;
+    }
+  }
+
+  return offset;
+}
+
+/**
+ * Dequantize and inverse-transform the blocks of a component into 8-bit samples
+ */
+function buildComponentPlane(component: JpegComponent, quantTable: Uint16Array | undefined): Uint8ClampedArray {
+  if (!quantTable) {
+    throw new ImageDecodeError('JPEG component uses an undefined quantization table', 'jpeg');
+  }
+
+  const lineWidth = component.blocksPerLineForMcu * 8;
+  const plane = new Uint8ClampedArray(lineWidth * component.blocksPerColumnForMcu * 8);
+  const block = new Float64Array(64);
+  const rows = new Float64Array(64);
+
+  for (let blockRow = 0; blockRow < component.blocksPerColumnForMcu; blockRow++) {
+    for (let blockColumn = 0; blockColumn < component.blocksPerLineForMcu; blockColumn++) {
+      const offset = (blockRow * component.blocksPerLineForMcu + blockColumn) * 64;
+      for (let i = 0; i < 64; i++) {
+        block[i] = component.coefficients[offset + i] * quantTable[i];
+      }
+
+      // Separable 2-D IDCT: rows, then columns
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let u = 0; u < 8; u++) {
+            sum += COSINES[x * 8 + u] * block[v * 8 + u];
+          }
+          rows[v * 8 + x] = sum;
+        }
+      }
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          let sum = 0;
+          for (let v = 0; v < 8; v++) {
+            sum += COSINES[y * 8 + v] * rows[v * 8 + x];
+          }
+          plane[(blockRow * 8 + y) * lineWidth + blockColumn * 8 + x] = Math.round(sum + 128);
+        }
+      }
+    }
+  }
+  return plane;
+}
+
+/**
+ * Upsample the component planes and convert them to BGRA
+ */
+function convertToImage(
+  frame: JpegFrame,
+  planes: Uint8ClampedArray[],
+  state: JpegState,
+  colorTransform: boolean | undefined
+): DecodedImage {
+  const { width, height, components, maxH, maxV } = frame;
+  const image = createImage(width, height);
+  const count = components.length;
+
+  // Three components are YCbCr unless an Adobe marker says otherwise; four are CMYK or YCCK
+  const transform = colorTransform ?? (
+    state.adobeTransform !== undefined
+      ? state.adobeTransform !== 0
+      : count === 3
+  );
+  const adobe = state.adobeTransform !== undefined;
+  const samples = new Array<number>(count).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < count; c++) {
+        const component = components[c];
+        const sampleX = Math.floor((x * component.h) / maxH);
+        const sampleY = Math.floor((y * component.v) / maxV);
+        samples[c] = planes[c][sampleY * component.blocksPerLineForMcu * 8 + sampleX];
+      }
+
+      if (count === 1) {
+        writePixel(image, x, y, samples[0], samples[0], samples[0]);
+        continue;
+      }
+
+      let [first, second, third] = samples;
+      if (transform) {
+        [first, second, third] = ycbcrToRgb(first, second, third);
+      }
+
+      if (count === 3) {
+        writePixel(image, x, y, first, second, third);
+        continue;
+      }
+
+      // Work in inverted ink values (255 = no ink), which Adobe files store directly;
+      // YCCK converts to CMY, and inverted CMY is the color before black is applied
+      const paper = adobe ? samples[3] : 255 - samples[3];
+      const [red, green, blue] = transform || !adobe
+        ? [255 - first, 255 - second, 255 - third]
+        : [first, second, third];
+      writePixel(
+        image,
+        x,
+        y,
+        Math.round((red * paper) / 255),
+        Math.round((green * paper) / 255),
+        Math.round((blue * paper) / 255)
+      );
+    }
+  }
+  return image;
+}
+
+function ycbcrToRgb(luma: number, blue: number, red: number): [number, number, number] {
+  return [
+    clamp(luma + 1.402 * (red - 128)),
+    clamp(luma - 0.344136 * (blue - 128) - 0.714136 * (red - 128)),
+    clamp(luma + 1.772 * (blue - 128))
+  ];
+}
+
+function clamp(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
@@ -0,0 +1,297 @@
+/**
+ * PNG decoder
+ *
+ * Supports every standard color type and bit depth (grayscale, RGB, palette,
+ * with or without alpha, 1 to 16 bits), tRNS transparency and Adam7
+ * interlacing. The physical pixel size (pHYs) gives the resolution.
+ */
+
+import { inflateSync } from 'zlib';
+import { ImageDecodeError } from '../errors';
+import { assertImageSize, createImage, writePixel, type DecodedImage, type ImageDocument } from './image';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+const METRES_PER_INCH = 0.0254;
+
+// Samples per pixel and allowed bit depths for each color type
+const COLOR_TYPES: Record<number, { channels: number; depths: number[] }> = {
+  0: { channels: 1, depths: [1, 2, 4, 8, 16] },
+  2: { channels: 3, depths: [8, 16] },
+  3: { channels: 1, depths: [1, 2, 4, 8] },
+  4: { channels: 2, depths: [8, 16] },
+  6: { channels: 4, depths: [8, 16] }
+};
+
+// Adam7 passes: first column and row, column and row step
+const ADAM7 = [
+  { x: 0, y: 0, stepX: 8, stepY: 8 },
+  { x: 4, y: 0, stepX: 8, stepY: 8 },
+  { x: 0, y: 4, stepX: 4, stepY: 8 },
+  { x: 2, y: 0, stepX: 4, stepY: 4 },
+  { x: 0, y: 2, stepX: 2, stepY: 4 },
+  { x: 1, y: 0, stepX: 2, stepY: 2 },
+  { x: 0, y: 1, stepX: 1, stepY: 2 }
+];
+
+interface PngInfo {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+  palette?: Buffer;
+  transparency?: Buffer;
+  chunks: Buffer[];
+}
+
+/**
+ * Whether the data starts with the PNG signature
+ */
+export function isPng(data: Buffer): boolean {
+  return data.length >= PNG_SIGNATURE.length && data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE);
+}
+
+/**
+ * Read a PNG file
+ * @throws ImageDecodeError if the header is missing or invalid
+ */
+export function readPng(data: Buffer): ImageDocument {
+  if (!isPng(data)) {
+    throw new ImageDecodeError('Invalid PNG signature', 'png');
+  }
+
+  let info: PngInfo | undefined;
+  let dpiX = 0;
+  let dpiY = 0;
+  const chunks: Buffer[] = [];
+
+  for (let offset = PNG_SIGNATURE.length; offset + 8 <= data.length;) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (chunk.length < length) {
+      throw new ImageDecodeError(`PNG ${type} chunk is truncated`, 'png');
+    }
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      info = readHeader(chunk);
+    } else if (!info) {
+      throw new ImageDecodeError('PNG file does not start with an IHDR chunk', 'png');
+    } else if (type === 'PLTE') {
+      info.palette = chunk;
+    } else if (type === 'tRNS') {
+      info.transparency = chunk;
+    } else if (type === 'pHYs' && length >= 9 && chunk[8] === 1) {
+      dpiX = chunk.readUInt32BE(0) * METRES_PER_INCH;
+      dpiY = chunk.readUInt32BE(4) * METRES_PER_INCH;
+    } else if (type === 'IDAT') {
+      chunks.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!info || chunks.length === 0) {
+    throw new ImageDecodeError('PNG file has no image data', 'png');
+  }
+  if (info.colorType === 3 && !info.palette) {
+    throw new ImageDecodeError('PNG palette image has no PLTE chunk', 'png');
+  }
+
+  const png: PngInfo = { ...info, chunks };
+  return {
+    format: 'png',
+    frames: [{ width: png.width, height: png.height, dpiX, dpiY }],
+    decodeFrame: () => decodePng(png)
+  };
+}
+
+function readHeader(chunk: Buffer): PngInfo {
+  if (chunk.length < 13) {
+    throw new ImageDecodeError('PNG IHDR chunk is truncated', 'png');
+  }
+
+  const width = chunk.readUInt32BE(0);
+  const height = chunk.readUInt32BE(4);
+  const bitDepth = chunk[8];
+  const colorType = chunk[9];
+  const interlace = chunk[12];
+
+  if (width === 0 || height === 0) {
+    throw new ImageDecodeError('PNG image has no pixels', 'png');
+  }
+  assertImageSize(width, height, 'png');
+  if (!COLOR_TYPES[colorType]?.depths.includes(bitDepth)) {
+    throw new ImageDecodeError(`Unsupported PNG color type ${colorType} with bit depth ${bitDepth}`, 'png');
+  }
+  if (chunk[10] !== 0 || chunk[11] !== 0 || interlace > 1) {
+    throw new ImageDecodeError('Unsupported PNG compression, filter or interlace method', 'png');
+  }
+
+  return { width, height, bitDepth, colorType, interlaced: interlace === 1, chunks: [] };
+}
+
+function decodePng(png: PngInfo): DecodedImage {
+  const { width, height, bitDepth, colorType } = png;
+  const bitsPerPixel = COLOR_TYPES[colorType].channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(png.chunks));
+  } catch {
+    throw new ImageDecodeError('PNG image data is corrupt', 'png');
+  }
+
+  const image = createImage(width, height);
+  const readPixel = createPixelReader(png);
+  const passes = png.interlaced ? ADAM7 : [{ x: 0, y: 0, stepX: 1, stepY: 1 }];
+  let offset = 0;
+
+  for (const pass of passes) {
+    const passWidth = Math.ceil((width - pass.x) / pass.stepX);
+    const passHeight = Math.ceil((height - pass.y) / pass.stepY);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const rows = unfilter(raw, offset, rowBytes, passHeight, bytesPerPixel);
+    offset += (rowBytes + 1) * passHeight;
+
+    for (let y = 0; y < passHeight; y++) {
+      const row = rows.subarray(y * rowBytes, (y + 1) * rowBytes);
+      for (let x = 0; x < passWidth; x++) {
+        const [red, green, blue, alpha] = readPixel(row, x);
+        writePixel(image, pass.x + x * pass.stepX, pass.y + y * pass.stepY, red, green, blue, alpha);
+      }
+    }
+  }
+
+  return image;
+}
+
+/**
+ * Undo the per-row filters of one (pass) image
+ */
+function unfilter(raw: Buffer, offset: number, rowBytes: number, rows: number, bytesPerPixel: number): Buffer {
+  if (offset + (rowBytes + 1) * rows > raw.length) {
+    throw new ImageDecodeError('PNG image data is truncated', 'png');
+  }
+
+  const out = Buffer.alloc(rowBytes * rows);
+  for (let y = 0; y < rows; y++) {
+    const filter = raw[offset + y * (rowBytes + 1)];
+    const source = offset + y * (rowBytes + 1) + 1;
+    const current = y * rowBytes;
+    const previous = current - rowBytes;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? out[current + i - bytesPerPixel] : 0;
+      const up = y > 0 ? out[previous + i] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? out[previous + i - bytesPerPixel] : 0;
+      let value = raw[source + i];
+
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          value += left;
+          break;
+        case 2:
+          value += up;
+          break;
+        case 3:
+          value += (left + up) >> 1;
+          break;
+        case 4:
+          value += paeth(left, up, upLeft);
+          break;
+        default:
+          throw new ImageDecodeError(`Invalid PNG filter type ${filter}`, 'png');
+      }
+      out[current + i] = value & 0xFF;
+    }
+  }
+  return out;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) {
+    return left;
+  }
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+/**
+ * Reads pixel `x` of an unfiltered row as 8-bit RGBA
+ */
+function createPixelReader(png: PngInfo): (row: Buffer, x: number) => [number, number, number, number] {
+  const { bitDepth, colorType, palette, transparency } = png;
+  const channels = COLOR_TYPES[colorType].channels;
+  const maxValue = (1 << Math.min(bitDepth, 8)) - 1;
+
+  // Raw sample at full bit depth
+  const sample = (row: Buffer, index: number): number => {
+    if (bitDepth === 16) {
+      return row.readUInt16BE(index * 2);
+    }
+    if (bitDepth === 8) {
+      return row[index];
+    }
+    const bit = index * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxValue;
+  };
+  // Sample scaled to 0-255
+  const to8Bit = (value: number): number => (bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxValue));
+
+  switch (colorType) {
+    case 0: {
+      const transparentGray = transparency && transparency.length >= 2 ? transparency.readUInt16BE(0) : -1;
+      return (row, x) => {
+        const value = sample(row, x);
+        const gray = to8Bit(value);
+        return [gray, gray, gray, value === transparentGray ? 0 : 255];
+      };
+    }
+    case 2: {
+      const transparent = transparency && transparency.length >= 6
+        ? [transparency.readUInt16BE(0), transparency.readUInt16BE(2), transparency.readUInt16BE(4)]
+        : undefined;
+      return (row, x) => {
+        const red = sample(row, x * 3);
+        const green = sample(row, x * 3 + 1);
+        const blue = sample(row, x * 3 + 2);
+        const clear = transparent !== undefined && red === transparent[0] && green === transparent[1] && blue === transparent[2];
+        return [to8Bit(red), to8Bit(green), to8Bit(blue), clear ? 0 : 255];
+      };
+    }
+    case 3:
+      return (row, x) => {
+        const index = sample(row, x);
+        const entry = index * 3;
+        const alpha = transparency && index < transparency.length ? transparency[index] : 255;
+        return palette && entry + 2 < palette.length
+          ? [palette[entry], palette[entry + 1], palette[entry + 2], alpha]
+          : [0, 0, 0, 255];
+      };
+    default:
+      // Grayscale or RGB with an alpha channel
+      return (row, x) => {
+        const base = x * channels;
+        const alpha = to8Bit(sample(row, base + channels - 1));
+        if (channels === 2) {
+          const gray = to8Bit(sample(row, base));
+          return [gray, gray, gray, alpha];
+        }
+        return [to8Bit(sample(row, base)), to8Bit(sample(row, base + 1)), to8Bit(sample(row, base + 2)), alpha];
+      };
+  }
+}
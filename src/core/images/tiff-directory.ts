@@ -0,0 +1,214 @@
+/**
+ * TIFF directory structure
+ *
+ * Reads the header and image file directories (IFDs) shared by TIFF files
+ * and the Exif block of JPEG files. Tag values are read on demand.
+ */
+
+import { ImageDecodeError } from '../errors';
+
+/** Tags used by the image decoders */
+export const TiffTag = {
+  NEW_SUBFILE_TYPE: 254,
+  IMAGE_WIDTH: 256,
+  IMAGE_LENGTH: 257,
+  BITS_PER_SAMPLE: 258,
+  COMPRESSION: 259,
+  PHOTOMETRIC: 262,
+  FILL_ORDER: 266,
+  STRIP_OFFSETS: 273,
+  ORIENTATION: 274,
+  SAMPLES_PER_PIXEL: 277,
+  ROWS_PER_STRIP: 278,
+  STRIP_BYTE_COUNTS: 279,
+  X_RESOLUTION: 282,
+  Y_RESOLUTION: 283,
+  PLANAR_CONFIGURATION: 284,
+  T4_OPTIONS: 292,
+  T6_OPTIONS: 293,
+  RESOLUTION_UNIT: 296,
+  PREDICTOR: 317,
+  COLOR_MAP: 320,
+  TILE_WIDTH: 322,
+  TILE_LENGTH: 323,
+  TILE_OFFSETS: 324,
+  TILE_BYTE_COUNTS: 325,
+  EXTRA_SAMPLES: 338,
+  SAMPLE_FORMAT: 339,
+  JPEG_TABLES: 347
+} as const;
+
+// Size in bytes of each TIFF field type (BYTE, ASCII, SHORT, LONG, RATIONAL, ...)
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+const TIFF_VERSION = 42;
+
+/**
+ * A TIFF structure in a buffer
+ */
+export interface TiffReader {
+  data: Buffer;
+  littleEndian: boolean;
+  /** Offset of the first IFD */
+  firstIfd: number;
+}
+
+/**
+ * One directory entry
+ */
+export interface TiffEntry {
+  type: number;
+  count: number;
+  /** Offset of the value in the buffer */
+  offset: number;
+}
+
+/**
+ * One image file directory
+ */
+export interface TiffDirectory {
+  entries: Map<number, TiffEntry>;
+  /** Offset of the next IFD (0 = last) */
+  next: number;
+}
+
+/**
+ * Read a TIFF header ("II*\0" or "MM\0*")
+ * @throws ImageDecodeError if the header is invalid or the file is a BigTIFF
+ */
+export function readTiffHeader(data: Buffer): TiffReader {
+  const byteOrder = data.length >= 8 ? data.toString('latin1', 0, 2) : '';
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new ImageDecodeError('Invalid TIFF header', 'tiff');
+  }
+
+  const littleEndian = byteOrder === 'II';
+  const version = littleEndian ? data.readUInt16LE(2) : data.readUInt16BE(2);
+  if (version !== TIFF_VERSION) {
+    throw new ImageDecodeError(version === 43 ? 'BigTIFF files are not supported' : 'Invalid TIFF header', 'tiff');
+  }
+
+  return { data, littleEndian, firstIfd: readUint32(data, 4, littleEndian) };
+}
+
+/**
+ * Read the directory at `offset`
+ * @throws ImageDecodeError if it lies outside the buffer
+ */
+export function readTiffDirectory(reader: TiffReader, offset: number): TiffDirectory {
+  const { data, littleEndian } = reader;
+  if (offset < 8 || offset + 2 > data.length) {
+    throw new ImageDecodeError('TIFF directory is outside the file', 'tiff');
+  }
+
+  const count = readUint16(data, offset, littleEndian);
+  const end = offset + 2 + count * 12;
+  if (end > data.length) {
+    throw new ImageDecodeError('TIFF directory is truncated', 'tiff');
+  }
+
+  const entries = new Map<number, TiffEntry>();
+  for (let position = offset + 2; position < end; position += 12) {
+    const tag = readUint16(data, position, littleEndian);
+    const type = readUint16(data, position + 2, littleEndian);
+    const valueCount = readUint32(data, position + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (size === 0) {
+      continue;
+    }
+
+    const valueOffset = size <= 4 ? position + 8 : readUint32(data, position + 8, littleEndian);
+    if (valueOffset + size <= data.length) {
+      entries.set(tag, { type, count: valueCount, offset: valueOffset });
+    }
+  }
+
+  const next = end + 4 <= data.length ? readUint32(data, end, littleEndian) : 0;
+  return { entries, next };
+}
+
+/**
+ * Numeric values of a tag; rationals are divided out
+ */
+export function getTiffValues(reader: TiffReader, directory: TiffDirectory, tag: number): number[] | undefined {
+  const entry = directory.entries.get(tag);
+  if (!entry) {
+    return undefined;
+  }
+
+  const values: number[] = [];
+  for (let index = 0; index < entry.count; index++) {
+    values.push(readValue(reader, entry, index));
+  }
+  return values;
+}
+
+/**
+ * First value of a tag
+ */
+export function getTiffValue(reader: TiffReader, directory: TiffDirectory, tag: number): number | undefined {
+  const entry = directory.entries.get(tag);
+  return entry ? readValue(reader, entry, 0) : undefined;
+}
+
+/**
+ * Raw bytes of a tag (for BYTE and UNDEFINED values such as JPEGTables)
+ */
+export function getTiffBytes(reader: TiffReader, directory: TiffDirectory, tag: number): Buffer | undefined {
+  const entry = directory.entries.get(tag);
+  return entry ? reader.data.subarray(entry.offset, entry.offset + entry.count * TYPE_SIZES[entry.type]) : undefined;
+}
+
+/**
+ * Resolution in dots per inch from XResolution/YResolution and ResolutionUnit (0 = unknown)
+ */
+export function getTiffDpi(reader: TiffReader, directory: TiffDirectory): { dpiX: number; dpiY: number } {
+  const unit = getTiffValue(reader, directory, TiffTag.RESOLUTION_UNIT) ?? 2;
+  const factor = unit === 2 ? 1 : unit === 3 ? 2.54 : 0;
+  const dpiX = (getTiffValue(reader, directory, TiffTag.X_RESOLUTION) ?? 0) * factor;
+  const dpiY = (getTiffValue(reader, directory, TiffTag.Y_RESOLUTION) ?? 0) * factor;
+
+  return {
+    dpiX: Number.isFinite(dpiX) && dpiX > 0 ? dpiX : 0,
+    dpiY: Number.isFinite(dpiY) && dpiY > 0 ? dpiY : 0
+  };
+}
+
+function readValue(reader: TiffReader, entry: TiffEntry, index: number): number {
+  const { data, littleEndian } = reader;
+  const offset = entry.offset + index * TYPE_SIZES[entry.type];
+
+  switch (entry.type) {
+    case 3:
+      return readUint16(data, offset, littleEndian);
+    case 4:
+    case 13:
+      return readUint32(data, offset, littleEndian);
+    case 5:
+    case 10: {
+      const numerator = readUint32(data, offset, littleEndian);
+      const denominator = readUint32(data, offset + 4, littleEndian);
+      return denominator ? numerator / denominator : 0;
+    }
+    case 6:
+      return data.readInt8(offset);
+    case 8:
+      return littleEndian ? data.readInt16LE(offset) : data.readInt16BE(offset);
+    case 9:
+      return littleEndian ? data.readInt32LE(offset) : data.readInt32BE(offset);
+    case 11:
+      return littleEndian ? data.readFloatLE(offset) : data.readFloatBE(offset);
+    case 12:
+      return littleEndian ? data.readDoubleLE(offset) : data.readDoubleBE(offset);
+    default:
+      return data[offset];
+  }
+}
+
+function readUint16(data: Buffer, offset: number, littleEndian: boolean): number {
+  return littleEndian ? data.readUInt16LE(offset) : data.readUInt16BE(offset);
+}
+
+function readUint32(data: Buffer, offset: number, littleEndian: boolean): number {
+  return littleEndian ? data.readUInt32LE(offset) : data.readUInt32BE(offset);
+}
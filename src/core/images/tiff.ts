@@ -0,0 +1,565 @@
+/**
+ * TIFF decoder
+ *
+ * Every full-resolution image in the file becomes one frame, so multi-page
+ * scans print as multiple pages; reduced-resolution subfiles (thumbnails) are
+ * skipped. Supports strips and tiles; uncompressed, PackBits, LZW, Deflate,
+ * CCITT fax and JPEG compression; bilevel, grayscale, palette, RGB and CMYK
+ * images with 1 to 16 bits per sample; alpha channels and the orientation tag.
+ */
+
+import { inflateSync } from 'zlib';
+import { ImageDecodeError } from '../errors';
+import {
+  assertImageSize,
+  createImage,
+  isTransposed,
+  orientImage,
+  writePixel,
+  type DecodedImage,
+  type ImageDocument,
+  type ImageFrame
+} from './image';
+import {
+  readTiffHeader,
+  readTiffDirectory,
+  getTiffValue,
+  getTiffValues,
+  getTiffBytes,
+  getTiffDpi,
+  TiffTag,
+  type TiffReader,
+  type TiffDirectory
+} from './tiff-directory';
+import { decodeCcitt, type CcittMode } from './ccitt';
+import { decodeJpeg } from './jpeg';
+
+// Compression values
+const COMPRESSION_NONE = 1;
+const COMPRESSION_CCITT_RLE = 2;
+const COMPRESSION_CCITT_T4 = 3;
+const COMPRESSION_CCITT_T6 = 4;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_OJPEG = 6;
+const COMPRESSION_JPEG = 7;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_PACKBITS = 32773;
+const COMPRESSION_ADOBE_DEFLATE = 32946;
+
+// PhotometricInterpretation values
+const WHITE_IS_ZERO = 0;
+const BLACK_IS_ZERO = 1;
+const RGB = 2;
+const PALETTE = 3;
+const SEPARATED = 5;
+const YCBCR = 6;
+
+// ExtraSamples values
+const ASSOCIATED_ALPHA = 1;
+const UNASSOCIATED_ALPHA = 2;
+
+const LZW_CLEAR = 256;
+const LZW_END = 257;
+
+// Protects against directory chains that loop back on themselves
+const MAX_DIRECTORIES = 10000;
+
+/**
+ * Everything needed to decode one frame
+ */
+interface TiffImage {
+  width: number;
+  height: number;
+  bitsPerSample: number;
+  samplesPerPixel: number;
+  compression: number;
+  photometric: number;
+  orientation: number;
+  /** Byte order of 16-bit samples */
+  littleEndian: boolean;
+  /** Index of the alpha sample and whether color is premultiplied by it */
+  alpha?: { sample: number; associated: boolean };
+  colorMap?: number[];
+  predictor: number;
+  fillOrder: number;
+  t4Options: number;
+  jpegTables?: Buffer;
+  /** Strips or tiles, left to right and top to bottom */
+  chunks: Array<{ offset: number; length: number }>;
+  tiled: boolean;
+  chunkWidth: number;
+  chunkHeight: number;
+}
+
+/**
+ * Whether the data starts with a TIFF (or BigTIFF, rejected when read) header
+ */
+export function isTiff(data: Buffer): boolean {
+  return data.length >= 8 && (
+    (data[0] === 0x49 && data[1] === 0x49 && (data[2] === 42 || data[2] === 43) && data[3] === 0) ||
+    (data[0] === 0x4D && data[1] === 0x4D && data[2] === 0 && (data[3] === 42 || data[3] === 43))
+  );
+}
+
+/**
+ * Read a TIFF file
+ * @throws ImageDecodeError if the file has no readable full-resolution image
+ */
+export function readTiff(data: Buffer): ImageDocument {
+  const reader = readTiffHeader(data);
+  const images: TiffImage[] = [];
+  const frames: ImageFrame[] = [];
+  const visited = new Set<number>();
+
+  for (let offset = reader.firstIfd; offset !== 0 && !visited.has(offset) && visited.size < MAX_DIRECTORIES;) {
+    visited.add(offset);
+    const directory = readTiffDirectory(reader, offset);
+    offset = directory.next;
+
+    // Bit 0 of NewSubfileType marks reduced-resolution copies of another page
+    if ((getTiffValue(reader, directory, TiffTag.NEW_SUBFILE_TYPE) ?? 0) & 1) {
+      continue;
+    }
+
+    const image = readImage(reader, directory);
+    const { dpiX, dpiY } = getTiffDpi(reader, directory);
+    const transposed = isTransposed(image.orientation);
+    images.push(image);
+    frames.push({
+      width: transposed ? image.height : image.width,
+      height: transposed ? image.width : image.height,
+      dpiX: transposed ? dpiY : dpiX,
+      dpiY: transposed ? dpiX : dpiY
+    });
+  }
+
+  if (images.length === 0) {
+    throw new ImageDecodeError('TIFF file has no images', 'tiff');
+  }
+
+  return {
+    format: 'tiff',
+    frames,
+    decodeFrame: (index: number) => {
+      const image = images[index];
+      if (!image) {
+        throw new ImageDecodeError(`TIFF file has no page ${index + 1}`, 'tiff');
+      }
+      return orientImage(decodeImage(data, image), image.orientation);
+    }
+  };
+}
+
+function readImage(reader: TiffReader, directory: TiffDirectory): TiffImage {
+  const value = (tag: number): number | undefined => getTiffValue(reader, directory, tag);
+  const values = (tag: number): number[] | undefined => getTiffValues(reader, directory, tag);
+
+  const width = value(TiffTag.IMAGE_WIDTH) ?? 0;
+  const height = value(TiffTag.IMAGE_LENGTH) ?? 0;
+  const compression = value(TiffTag.COMPRESSION) ?? COMPRESSION_NONE;
+  const bitsPerSample = values(TiffTag.BITS_PER_SAMPLE) ?? [1];
+  const samplesPerPixel = value(TiffTag.SAMPLES_PER_PIXEL) ?? 1;
+  const fax = compression === COMPRESSION_CCITT_RLE || compression === COMPRESSION_CCITT_T4 || compression === COMPRESSION_CCITT_T6;
+  const photometric = value(TiffTag.PHOTOMETRIC) ?? (samplesPerPixel >= 3 ? RGB : fax ? WHITE_IS_ZERO : BLACK_IS_ZERO);
+
+  if (width === 0 || height === 0) {
+    throw new ImageDecodeError('TIFF image has no pixels', 'tiff');
+  }
+  assertImageSize(width, height, 'tiff');
+  if (!bitsPerSample.every(bits => bits === bitsPerSample[0]) || ![1, 2, 4, 8, 16].includes(bitsPerSample[0])) {
+    throw new ImageDecodeError(`Unsupported TIFF bits per sample: ${bitsPerSample.join(', ')}`, 'tiff');
+  }
+  if ((value(TiffTag.SAMPLE_FORMAT) ?? 1) !== 1) {
+    throw new ImageDecodeError('Floating-point and signed TIFF samples are not supported', 'tiff');
+  }
+  if ((value(TiffTag.PLANAR_CONFIGURATION) ?? 1) !== 1 && samplesPerPixel > 1) {
+    throw new ImageDecodeError('Planar TIFF images are not supported', 'tiff');
+  }
+  if (compression === COMPRESSION_OJPEG) {
+    throw new ImageDecodeError('Old-style JPEG compression in TIFF is not supported', 'tiff');
+  }
+  if (![
+    COMPRESSION_NONE, COMPRESSION_CCITT_RLE, COMPRESSION_CCITT_T4, COMPRESSION_CCITT_T6, COMPRESSION_LZW,
+    COMPRESSION_JPEG, COMPRESSION_DEFLATE, COMPRESSION_PACKBITS, COMPRESSION_ADOBE_DEFLATE
+  ].includes(compression)) {
+    throw new ImageDecodeError(`Unsupported TIFF compression ${compression}`, 'tiff');
+  }
+  if (![WHITE_IS_ZERO, BLACK_IS_ZERO, RGB, PALETTE, SEPARATED].includes(photometric) &&
+      !(photometric === YCBCR && compression === COMPRESSION_JPEG)) {
+    throw new ImageDecodeError(`Unsupported TIFF photometric interpretation ${photometric}`, 'tiff');
+  }
+
+  // Strips are tiles as wide as the image
+  const tiled = directory.entries.has(TiffTag.TILE_WIDTH);
+  const chunkWidth = tiled ? value(TiffTag.TILE_WIDTH) ?? 0 : width;
+  const chunkHeight = tiled ? value(TiffTag.TILE_LENGTH) ?? 0 : Math.min(value(TiffTag.ROWS_PER_STRIP) ?? height, height);
+  const offsets = values(tiled ? TiffTag.TILE_OFFSETS : TiffTag.STRIP_OFFSETS);
+  let lengths = values(tiled ? TiffTag.TILE_BYTE_COUNTS : TiffTag.STRIP_BYTE_COUNTS);
+  if (!offsets || chunkWidth === 0 || chunkHeight === 0) {
+    throw new ImageDecodeError('TIFF image has no strip or tile data', 'tiff');
+  }
+  if (!lengths && compression === COMPRESSION_NONE && offsets.length === 1) {
+    lengths = [Math.ceil((width * samplesPerPixel * bitsPerSample[0]) / 8) * height];
+  }
+  if (!lengths || lengths.length < offsets.length) {
+    throw new ImageDecodeError('TIFF image has no strip or tile byte counts', 'tiff');
+  }
+
+  // The first extra sample after the color samples may be alpha
+  const colorSamples = photometric === RGB || photometric === YCBCR ? 3 : photometric === SEPARATED ? 4 : 1;
+  const extraSample = values(TiffTag.EXTRA_SAMPLES)?.[0];
+  const alpha = samplesPerPixel > colorSamples && (extraSample === ASSOCIATED_ALPHA || extraSample === UNASSOCIATED_ALPHA)
+    ? { sample: colorSamples, associated: extraSample === ASSOCIATED_ALPHA }
+    : undefined;
+
+  if (samplesPerPixel < colorSamples) {
+    throw new ImageDecodeError(`TIFF image has ${samplesPerPixel} samples per pixel, expected ${colorSamples}`, 'tiff');
+  }
+
+  return {
+    width,
+    height,
+    bitsPerSample: bitsPerSample[0],
+    samplesPerPixel,
+    compression,
+    photometric,
+    orientation: value(TiffTag.ORIENTATION) ?? 1,
+    littleEndian: reader.littleEndian,
+    alpha,
+    colorMap: photometric === PALETTE ? values(TiffTag.COLOR_MAP) : undefined,
+    predictor: value(TiffTag.PREDICTOR) ?? 1,
+    fillOrder: value(TiffTag.FILL_ORDER) ?? 1,
+    t4Options: value(TiffTag.T4_OPTIONS) ?? 0,
+    jpegTables: getTiffBytes(reader, directory, TiffTag.JPEG_TABLES),
+    chunks: offsets.map((offset, index) => ({ offset, length: lengths[index] })),
+    tiled,
+    chunkWidth,
+    chunkHeight
+  };
+}
+
+function decodeImage(data: Buffer, image: TiffImage): DecodedImage {
+  const { width, height, chunkWidth, chunkHeight } = image;
+  const output = createImage(width, height);
+  const chunksAcross = Math.ceil(width / chunkWidth);
+
+  image.chunks.forEach((chunk, index) => {
+    const left = (index % chunksAcross) * chunkWidth;
+    const top = Math.floor(index / chunksAcross) * chunkHeight;
+    if (top >= height) {
+      return;
+    }
+    // Tiles are always full size; the last strip only holds the rows left in the image
+    const rows = image.tiled ? chunkHeight : Math.min(chunkHeight, height - top);
+
+    const compressed = data.subarray(chunk.offset, chunk.offset + chunk.length);
+    if (image.compression === COMPRESSION_JPEG) {
+      copyJpegChunk(output, image, compressed, left, top);
+    } else {
+      copySamples(output, image, decompress(image, compressed, rows), left, top, rows);
+    }
+  });
+
+  return output;
+}
+
+/**
+ * Decompress a strip or tile to rows of packed samples
+ */
+function decompress(image: TiffImage, compressed: Buffer, rows: number): Buffer {
+  const rowBytes = Math.ceil((image.chunkWidth * image.samplesPerPixel * image.bitsPerSample) / 8);
+  const expected = rowBytes * rows;
+  let samples: Buffer;
+
+  switch (image.compression) {
+    case COMPRESSION_CCITT_RLE:
+    case COMPRESSION_CCITT_T4:
+    case COMPRESSION_CCITT_T6: {
+      const modes: Record<number, CcittMode> = {
+        [COMPRESSION_CCITT_RLE]: 'modifiedHuffman',
+        [COMPRESSION_CCITT_T4]: 't4',
+        [COMPRESSION_CCITT_T6]: 't6'
+      };
+      return decodeCcitt(compressed, {
+        mode: modes[image.compression],
+        width: image.chunkWidth,
+        rows,
+        t4Options: image.t4Options,
+        reverseBits: image.fillOrder === 2
+      });
+    }
+    case COMPRESSION_LZW:
+      samples = decodeLzw(compressed, expected);
+      break;
+    case COMPRESSION_PACKBITS:
+      samples = decodePackBits(compressed, expected);
+      break;
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_ADOBE_DEFLATE:
+      try {
+        samples = inflateSync(compressed);
+      } catch {
+        throw new ImageDecodeError('TIFF Deflate data is corrupt', 'tiff');
+      }
+      break;
+    default:
+      samples = compressed;
+  }
+
+  if (samples.length < expected) {
+    // Truncated strips print as far as they go
+    const padded = Buffer.alloc(expected);
+    samples.copy(padded);
+    samples = padded;
+  }
+  if (image.predictor === 2) {
+    undoHorizontalPredictor(samples, image, rowBytes, rows);
+  }
+  return samples;
+}
+
+/**
+ * Convert packed samples of a chunk to BGRA pixels of the output
+ */
+function copySamples(output: DecodedImage, image: TiffImage, samples: Buffer, left: number, top: number, rows: number): void {
+  const { bitsPerSample, samplesPerPixel, photometric, alpha, colorMap, chunkWidth, littleEndian } = image;
+  const rowBytes = Math.ceil((chunkWidth * samplesPerPixel * bitsPerSample) / 8);
+  const maxValue = bitsPerSample === 16 ? 0xFFFF : (1 << bitsPerSample) - 1;
+  const mapEntries = 1 << bitsPerSample;
+
+  const sample = (row: number, index: number): number => {
+    const offset = row * rowBytes;
+    if (bitsPerSample === 8) {
+      return samples[offset + index];
+    }
+    if (bitsPerSample === 16) {
+      return littleEndian ? samples.readUInt16LE(offset + index * 2) : samples.readUInt16BE(offset + index * 2);
+    }
+    const bit = index * bitsPerSample;
+    return (samples[offset + (bit >> 3)] >> (8 - bitsPerSample - (bit & 7))) & maxValue;
+  };
+  const to8Bit = (value: number): number => (bitsPerSample === 16 ? value >> 8 : Math.round((value * 255) / maxValue));
+
+  const columns = Math.min(chunkWidth, output.width - left);
+  const visibleRows = Math.min(rows, output.height - top);
+
+  for (let y = 0; y < visibleRows; y++) {
+    for (let x = 0; x < columns; x++) {
+      const base = x * samplesPerPixel;
+      let red: number;
+      let green: number;
+      let blue: number;
+
+      switch (photometric) {
+        case WHITE_IS_ZERO:
+          red = green = blue = 255 - to8Bit(sample(y, base));
+          break;
+        case PALETTE: {
+          const index = sample(y, base);
+          red = (colorMap?.[index] ?? 0) >> 8;
+          green = (colorMap?.[mapEntries + index] ?? 0) >> 8;
+          blue = (colorMap?.[2 * mapEntries + index] ?? 0) >> 8;
+          break;
+        }
+        case RGB:
+          red = to8Bit(sample(y, base));
+          green = to8Bit(sample(y, base + 1));
+          blue = to8Bit(sample(y, base + 2));
+          break;
+        case SEPARATED: {
+          const paper = 255 - to8Bit(sample(y, base + 3));
+          red = Math.round(((255 - to8Bit(sample(y, base))) * paper) / 255);
+          green = Math.round(((255 - to8Bit(sample(y, base + 1))) * paper) / 255);
+          blue = Math.round(((255 - to8Bit(sample(y, base + 2))) * paper) / 255);
+          break;
+        }
+        default:
+          red = green = blue = to8Bit(sample(y, base));
+      }
+
+      let opacity = 255;
+      if (alpha) {
+        opacity = to8Bit(sample(y, base + alpha.sample));
+        if (alpha.associated && opacity > 0) {
+          // Undo premultiplication so writePixel can blend onto white
+          red = Math.min(255, Math.round((red * 255) / opacity));
+          green = Math.min(255, Math.round((green * 255) / opacity));
+          blue = Math.min(255, Math.round((blue * 255) / opacity));
+        }
+      }
+      writePixel(output, left + x, top + y, red, green, blue, opacity);
+    }
+  }
+}
+
+/**
+ * Decode a JPEG-compressed strip or tile and copy it to the output
+ */
+function copyJpegChunk(output: DecodedImage, image: TiffImage, compressed: Buffer, left: number, top: number): void {
+  const decoded = decodeJpeg(compressed, {
+    tables: image.jpegTables,
+    colorTransform: image.photometric === YCBCR
+  });
+
+  const columns = Math.min(decoded.width, output.width - left);
+  const rows = Math.min(decoded.height, output.height - top);
+  for (let y = 0; y < rows; y++) {
+    const source = y * decoded.width * 4;
+    decoded.data.copy(output.data, ((top + y) * output.width + left) * 4, source, source + columns * 4);
+  }
+}
+
+/**
+ * TIFF LZW: MSB-first codes of 9 to 12 bits, widening one code early
+ */
+function decodeLzw(compressed: Buffer, expected: number): Buffer {
+  if (compressed.length >= 2 && compressed[0] === 0 && compressed[1] & 1) {
+    throw new ImageDecodeError('Old-style TIFF LZW compression is not supported', 'tiff');
+  }
+
+  const out = Buffer.alloc(expected);
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Int32Array(4096);
+  for (let code = 0; code < 256; code++) {
+    suffix[code] = code;
+    lengths[code] = 1;
+    prefix[code] = -1;
+  }
+
+  let written = 0;
+  let bitPosition = 0;
+  let codeWidth = 9;
+  let next = 258;
+  let previous = -1;
+
+  const readCode = (): number => {
+    let code = 0;
+    for (let i = 0; i < codeWidth; i++) {
+      const byte = compressed[bitPosition >> 3];
+      if (byte === undefined) {
+        return LZW_END;
+      }
+      code = (code << 1) | ((byte >> (7 - (bitPosition & 7))) & 1);
+      bitPosition++;
+    }
+    return code;
+  };
+  // Write the string for `code` and return its first byte
+  const output = (code: number): number => {
+    const length = lengths[code];
+    let entry = code;
+    for (let i = length - 1; i >= 0; i--) {
+      if (written + i < expected) {
+        out[written + i] = suffix[entry];
+      }
+      entry = prefix[entry];
+    }
+    written += length;
+    let first = code;
+    while (prefix[first] !== -1) {
+      first = prefix[first];
+    }
+    return suffix[first];
+  };
+
+  while (written < expected) {
+    const code = readCode();
+    if (code === LZW_END) {
+      break;
+    }
+    if (code === LZW_CLEAR) {
+      codeWidth = 9;
+      next = 258;
+      previous = -1;
+      continue;
+    }
+
+    if (previous === -1) {
+      if (code > 255) {
+        throw new ImageDecodeError('Invalid TIFF LZW data', 'tiff');
+      }
+      output(code);
+      previous = code;
+      continue;
+    }
+
+    let first: number;
+    if (code < next) {
+      first = output(code);
+      if (next < 4096) {
+        addEntry(previous, first);
+      }
+    } else if (code === next) {
+      // The string is the previous one plus its own first byte
+      let head = previous;
+      while (prefix[head] !== -1) {
+        head = prefix[head];
+      }
+      addEntry(previous, suffix[head]);
+      output(code);
+    } else {
+      throw new ImageDecodeError('Invalid TIFF LZW code', 'tiff');
+    }
+    previous = code;
+
+    // Early change: widen when the next code would need the extra bit
+    if (next + 1 >= 1 << codeWidth && codeWidth < 12) {
+      codeWidth++;
+    }
+  }
+  return out;
+
+  function addEntry(prefixCode: number, byte: number): void {
+    prefix[next] = prefixCode;
+    suffix[next] = byte;
+    lengths[next] = lengths[prefixCode] + 1;
+    next++;
+  }
+}
+
+function decodePackBits(compressed: Buffer, expected: number): Buffer {
+  const out = Buffer.alloc(expected);
+  let written = 0;
+
+  for (let offset = 0; offset < compressed.length && written < expected;) {
+    const header = compressed.readInt8(offset++);
+    if (header >= 0) {
+      const count = Math.min(header + 1, expected - written, compressed.length - offset);
+      compressed.copy(out, written, offset, offset + count);
+      written += count;
+      offset += header + 1;
+    } else if (header !== -128) {
+      const count = Math.min(1 - header, expected - written);
+      out.fill(compressed[offset] ?? 0, written, written + count);
+      written += count;
+      offset++;
+    }
+  }
+  return out;
+}
+
+/**
+ * Predictor 2: every sample is stored as the difference to the same sample of the previous pixel
+ */
+function undoHorizontalPredictor(samples: Buffer, image: TiffImage, rowBytes: number, rows: number): void {
+  const { samplesPerPixel, bitsPerSample, chunkWidth, littleEndian } = image;
+  const count = chunkWidth * samplesPerPixel;
+  const read = (offset: number): number => (littleEndian ? samples.readUInt16LE(offset) : samples.readUInt16BE(offset));
+
+  for (let row = 0; row < rows; row++) {
+    const offset = row * rowBytes;
+    for (let i = samplesPerPixel; i < count; i++) {
+      if (bitsPerSample === 8) {
+        samples[offset + i] = (samples[offset + i] + samples[offset + i - samplesPerPixel]) & 0xFF;
+      } else if (bitsPerSample === 16) {
+        const value = (read(offset + i * 2) + read(offset + (i - samplesPerPixel) * 2)) & 0xFFFF;
+        if (littleEndian) {
+          samples.writeUInt16LE(value, offset + i * 2);
+        } else {
+          samples.writeUInt16BE(value, offset + i * 2);
+        }
+      }
+    }
+  }
+}
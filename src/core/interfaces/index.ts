@@ -1,5 +1,19 @@
 // Core interfaces - define contracts for printer operations
-import type { PrintOptions, PrinterInfo, PrinterCapabilitiesInfo } from '../types';
+import type {
+  PrintOptions,
+  PrintJobResult,
+  TextPrintOptions,
+  TextPrintResult,
+  LabelDefinition,
+  LabelPrintOptions,
+  PrinterInfo,
+  PrinterCapabilitiesInfo,
+  PrinterStatus,
+  PrinterWatchOptions,
+  PrinterChangeEvent,
+  JobInfo
+} from '../types';
+import type { LabelBuilder } from '../labels';
 
 /**
  * Interface for printer operations
@@ -9,12 +23,33 @@ export interface IPrinter {
   /**
    * Print a PDF file
    */
-  print(pdfPath: string, options?: PrintOptions): Promise<void>;
+  print(pdfPath: string, options?: PrintOptions): Promise<PrintJobResult>;
   
   /**
-   * Print raw data (PCL, PostScript, etc)
+   * Print raw data (PCL, PostScript, ZPL, etc)
+   * PDFs are rendered like `print()`; other data is sent to the printer unchanged.
    */
-  printRaw(data: Buffer, documentName?: string, options?: PrintOptions): Promise<void>;
+  printRaw(data: Buffer, documentName?: string, options?: PrintOptions): Promise<PrintJobResult>;
+  
+  /**
+   * Print enhanced metafiles (EMF), one page per metafile
+   */
+  printEmf(source: string | Buffer | Array<string | Buffer>, options?: PrintOptions): Promise<PrintJobResult>;
+  
+  /**
+   * Print raster images (PNG, JPEG, BMP, TIFF), one page per image or TIFF page
+   */
+  printImage(source: string | Buffer | Array<string | Buffer>, options?: PrintOptions): Promise<PrintJobResult>;
+  
+  /**
+   * Print plain text with a GDI font, paginated to the printable area
+   */
+  printText(text: string, options?: TextPrintOptions): Promise<TextPrintResult>;
+  
+  /**
+   * Print a label on a thermal printer as ZPL or EPL commands
+   */
+  printLabel(label: LabelBuilder | LabelDefinition, options?: LabelPrintOptions): Promise<PrintJobResult>;
   
   /**
    * Get the printer name being used
@@ -47,6 +82,21 @@ export interface IPrinterManager {
    */
   getPrinterCapabilities(printerName: string): PrinterCapabilitiesInfo;
   
+  /**
+   * Get the details of a single printer (optional)
+   */
+  getPrinterInfo?(printerName: string): PrinterInfo | Promise<PrinterInfo>;
+  
+  /**
+   * Get the current status of a printer (optional)
+   */
+  getPrinterStatus?(printerName: string): PrinterStatus | Promise<PrinterStatus>;
+  
+  /**
+   * Watch printers and jobs for changes (platform-specific)
+   */
+  watch?(options?: PrinterWatchOptions): IPrinterWatcher;
+  
   /**
    * Check if a printer exists
    */
@@ -62,3 +112,49 @@ export interface IPrinterManager {
    */
   closePrinter?(handle: any): void;
 }
+
+/**
+ * Interface for spooler job operations
+ */
+export interface IPrintJobManager {
+  /**
+   * List the jobs queued on a printer
+   */
+  getJobs(printerName: string): JobInfo[] | Promise<JobInfo[]>;
+  
+  /**
+   * Get a single job, or null if it is no longer in the queue
+   */
+  getJob(printerName: string, jobId: number): JobInfo | null | Promise<JobInfo | null>;
+  
+  /**
+   * Pause a queued job
+   */
+  pauseJob(printerName: string, jobId: number): void | Promise<void>;
+  
+  /**
+   * Resume a paused job
+   */
+  resumeJob(printerName: string, jobId: number): void | Promise<void>;
+  
+  /**
+   * Restart a job from the beginning
+   */
+  restartJob(printerName: string, jobId: number): void | Promise<void>;
+  
+  /**
+   * Cancel (delete) a job
+   */
+  cancelJob(printerName: string, jobId: number): void | Promise<void>;
+}
+
+/**
+ * Subscription to printer change notifications
+ * Events can be consumed with `on('change', ...)` or `for await`.
+ */
+export interface IPrinterWatcher extends AsyncIterable<PrinterChangeEvent> {
+  /**
+   * Stop watching and release the notification handle
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,27 @@
+/**
+ * Label encoding
+ *
+ * Turns a label into the bytes sent to the printer in its command language.
+ */
+
+import type { LabelDefinition, LabelLanguage } from '../types';
+import { InvalidOptionError } from '../errors';
+import { generateZpl } from './zpl';
+import { generateEpl } from './epl';
+
+/**
+ * Generate the commands of a label in the printer's language, encoded for sending
+ * ZPL is sent as UTF-8 (the label selects ^CI28); EPL as Latin-1.
+ * @param quantity - Labels to print
+ * @throws InvalidOptionError if the language or the label is invalid
+ */
+export function encodeLabel(label: LabelDefinition, language: LabelLanguage, quantity = 1): Buffer {
+  switch (language) {
+    case 'zpl':
+      return Buffer.from(generateZpl(label, quantity), 'utf8');
+    case 'epl':
+      return Buffer.from(generateEpl(label, quantity), 'latin1');
+    default:
+      throw new InvalidOptionError(`Invalid label language: ${String(language)} (expected 'zpl' or 'epl')`, 'language');
+  }
+}
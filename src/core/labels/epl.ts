@@ -0,0 +1,148 @@
+/**
+ * EPL2 generator
+ *
+ * Formats a label as an EPL2 form for Eltron and Zebra desktop printers.
+ * EPL has no scalable font: text uses the built-in font and multipliers that
+ * come closest to the requested height. The output is Latin-1; graphics are
+ * binary, so encode it with `Buffer.from(epl, 'latin1')`.
+ *
+ * @example
+ * ```typescript
+ * generateEpl({ width: 400, height: 200, fields: [{ type: 'text', x: 20, y: 20, text: 'Hello' }] });
+ * // '\nN\nq400\nQ200,24\nA20,20,0,4,1,1,N,"Hello"\nP1\n'
+ * ```
+ */
+
+import { InvalidOptionError } from '../errors';
+import type { LabelDefinition, LabelRotation } from '../types';
+import {
+  resolveLabel,
+  validateQuantity,
+  type ResolvedBarcodeField,
+  type ResolvedLabelField,
+  type ResolvedTextField
+} from './label';
+
+const ROTATIONS: Record<LabelRotation, number> = { 0: 0, 90: 1, 180: 2, 270: 3 };
+
+// Character cells (width x height) of fonts 1 to 5, in dots
+const FONTS_203_DPI = [[8, 12], [10, 16], [12, 20], [14, 24], [32, 48]];
+const FONTS_300_DPI = [[12, 20], [16, 28], [20, 36], [24, 44], [48, 80]];
+
+const MAX_HORIZONTAL_MULTIPLIER = 6;
+const MAX_VERTICAL_MULTIPLIER = 9;
+
+// EPL darkness goes to 15, half the ZPL range of LabelSetup.darkness
+const DARKNESS_SCALE = 0.5;
+const MAX_SPEED = 6;
+
+// Bar code type 1: Code 128 with automatic subset selection
+const CODE_128 = '1';
+
+/**
+ * Generate the EPL commands of a label
+ * @param quantity - Labels to print (P)
+ * @throws InvalidOptionError if the label is invalid or has text EPL cannot print
+ */
+export function generateEpl(label: LabelDefinition, quantity = 1): string {
+  validateQuantity(quantity);
+  const resolved = resolveLabel(label);
+  const fonts = resolved.dpi >= 300 ? FONTS_300_DPI : FONTS_203_DPI;
+
+  // The leading line feed ends any command a previous job left incomplete
+  const lines = ['', 'N', `q${resolved.width}`, `Q${resolved.height},${resolved.gap}`];
+  if (resolved.darkness !== undefined) {
+    lines.push(`D${Math.round(resolved.darkness * DARKNESS_SCALE)}`);
+  }
+  if (resolved.speed !== undefined) {
+    lines.push(`S${Math.min(resolved.speed, MAX_SPEED)}`);
+  }
+  resolved.fields.forEach((field, index) => lines.push(formatField(field, `fields[${index}]`, fonts)));
+  lines.push(`P${quantity}`);
+
+  return lines.join('\n') + '\n';
+}
+
+function formatField(field: ResolvedLabelField, name: string, fonts: number[][]): string {
+  switch (field.type) {
+    case 'text': {
+      const { font, horizontal, vertical } = selectFont(field, name, fonts);
+      const text = quote(field.text, `${name}.text`);
+      return `A${field.x},${field.y},${ROTATIONS[field.rotation]},${font},${horizontal},${vertical},N,${text}`;
+    }
+    case 'barcode':
+      return formatBarcode(field, quote(field.data, `${name}.data`));
+    case 'box':
+      return `X${field.x},${field.y},${field.thickness},${field.x + field.width},${field.y + field.height}`;
+    case 'graphic': {
+      // GW data is binary with 0 bits printing black
+      const { bitmap } = field;
+      const data = Buffer.from(bitmap.data.map(byte => ~byte & 0xFF));
+      return `GW${field.x},${field.y},${bitmap.bytesPerRow},${bitmap.height},${data.toString('latin1')}`;
+    }
+  }
+}
+
+function formatBarcode(field: ResolvedBarcodeField, data: string): string {
+  switch (field.symbology) {
+    case 'code128': {
+      const interpretation = field.humanReadable ? 'B' : 'N';
+      const rotation = ROTATIONS[field.rotation];
+      return `B${field.x},${field.y},${rotation},${CODE_128},${field.moduleWidth},${field.moduleWidth},${field.height},${interpretation},${data}`;
+    }
+    case 'qr':
+      return `b${field.x},${field.y},Q,m2,s${field.moduleWidth},e${field.errorCorrection},${data}`;
+    case 'datamatrix':
+      return `b${field.x},${field.y},D,h${field.moduleWidth},${data}`;
+  }
+}
+
+/**
+ * Built-in font and multipliers closest to the requested character height
+ * Ties go to the smaller multiplier, which prints sharper characters.
+ */
+function selectFont(
+  field: ResolvedTextField,
+  name: string,
+  fonts: number[][]
+): { font: number; horizontal: number; vertical: number } {
+  const multiplier = (size: number, cell: number, max: number): number =>
+    Math.min(max, Math.max(1, Math.round(size / cell)));
+
+  let font: number;
+  if (field.font !== undefined) {
+    if (!/^[1-5]$/.test(field.font)) {
+      throw new InvalidOptionError(`Invalid EPL font: ${field.font} (expected '1' to '5')`, `${name}.font`);
+    }
+    font = Number(field.font);
+  } else {
+    let best = { font: 1, error: Infinity, vertical: Infinity };
+    fonts.forEach(([, cellHeight], index) => {
+      const vertical = multiplier(field.height, cellHeight, MAX_VERTICAL_MULTIPLIER);
+      const error = Math.abs(cellHeight * vertical - field.height);
+      if (error < best.error || (error === best.error && vertical < best.vertical)) {
+        best = { font: index + 1, error, vertical };
+      }
+    });
+    font = best.font;
+  }
+
+  const [cellWidth, cellHeight] = fonts[font - 1];
+  const vertical = multiplier(field.height, cellHeight, MAX_VERTICAL_MULTIPLIER);
+  // A width equal to the height (the default) keeps the font's proportions
+  const horizontal = field.width !== field.height
+    ? multiplier(field.width, cellWidth, MAX_HORIZONTAL_MULTIPLIER)
+    : Math.min(vertical, MAX_HORIZONTAL_MULTIPLIER);
+  return { font, horizontal, vertical };
+}
+
+/**
+ * Quote a string argument, escaping backslashes and quotes
+ * @throws InvalidOptionError if the text has characters outside Latin-1
+ */
+function quote(text: string, option: string): string {
+  if (/[^\x20-\x7E\xA0-\xFF]/.test(text)) {
+    throw new InvalidOptionError('EPL text can only contain printable Latin-1 characters', option);
+  }
+  return `"${text.replace(/[\\"]/g, char => `\\${char}`)}"`;
+}
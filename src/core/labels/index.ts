@@ -0,0 +1,20 @@
+/**
+ * Label module exports
+ *
+ * Pure builders that turn label definitions into ZPL and EPL commands for
+ * thermal label printers
+ */
+
+export { DEFAULT_LABEL_DPI, validateLabelSetup, toMonochrome, type MonochromeBitmap } from './label';
+export { generateZpl } from './zpl';
+export { generateEpl } from './epl';
+export { encodeLabel } from './encode';
+export {
+  LabelBuilder,
+  type LabelTextOptions,
+  type LabelCode128Options,
+  type LabelQrCodeOptions,
+  type LabelDataMatrixOptions,
+  type LabelBoxOptions,
+  type LabelGraphicOptions
+} from './label-builder';
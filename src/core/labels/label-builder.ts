@@ -0,0 +1,109 @@
+/**
+ * Label builder
+ *
+ * Collects the fields of a label with chainable methods and generates the ZPL
+ * or EPL commands that print it. Positions and sizes are in the label unit.
+ *
+ * @example
+ * ```typescript
+ * const label = new LabelBuilder({ width: 100, height: 50, unit: 'mm', darkness: 20 })
+ *   .text(5, 5, 'ACME Logistics', { height: 5 })
+ *   .code128(5, 14, 'SHP-000123', { height: 12 })
+ *   .qrCode(70, 14, 'https://acme.example/t/000123')
+ *   .box(2, 2, 96, 46, { thickness: 0.5 });
+ * label.toZpl();
+ * ```
+ */
+
+import type {
+  LabelBarcodeField,
+  LabelBitmap,
+  LabelBoxField,
+  LabelDefinition,
+  LabelField,
+  LabelGraphicField,
+  LabelSetup,
+  LabelTextField
+} from '../types';
+import { validateLabelSetup } from './label';
+import { generateZpl } from './zpl';
+import { generateEpl } from './epl';
+
+export type LabelTextOptions = Omit<LabelTextField, 'type' | 'x' | 'y' | 'text'>;
+export type LabelCode128Options = Pick<LabelBarcodeField, 'height' | 'moduleWidth' | 'humanReadable' | 'rotation'>;
+export type LabelQrCodeOptions = Pick<LabelBarcodeField, 'moduleWidth' | 'errorCorrection'>;
+export type LabelDataMatrixOptions = Pick<LabelBarcodeField, 'moduleWidth'>;
+export type LabelBoxOptions = Pick<LabelBoxField, 'thickness'>;
+export type LabelGraphicOptions = Pick<LabelGraphicField, 'threshold'>;
+
+export class LabelBuilder {
+  private readonly setup: LabelSetup;
+  private readonly fields: LabelField[] = [];
+
+  /**
+   * @throws InvalidOptionError if the label size or a print setting is invalid
+   */
+  constructor(setup: LabelSetup) {
+    validateLabelSetup(setup);
+    this.setup = { ...setup };
+  }
+
+  /** Add a line of text */
+  text(x: number, y: number, text: string, options: LabelTextOptions = {}): this {
+    return this.add({ ...options, type: 'text', x, y, text });
+  }
+
+  /** Add a Code 128 barcode */
+  code128(x: number, y: number, data: string, options: LabelCode128Options = {}): this {
+    return this.add({ ...options, type: 'barcode', symbology: 'code128', x, y, data });
+  }
+
+  /** Add a QR code (model 2) */
+  qrCode(x: number, y: number, data: string, options: LabelQrCodeOptions = {}): this {
+    return this.add({ ...options, type: 'barcode', symbology: 'qr', x, y, data });
+  }
+
+  /** Add a Data Matrix (ECC 200) code */
+  dataMatrix(x: number, y: number, data: string, options: LabelDataMatrixOptions = {}): this {
+    return this.add({ ...options, type: 'barcode', symbology: 'datamatrix', x, y, data });
+  }
+
+  /** Add a rectangle outline; a thickness reaching the smaller side fills it */
+  box(x: number, y: number, width: number, height: number, options: LabelBoxOptions = {}): this {
+    return this.add({ ...options, type: 'box', x, y, width, height });
+  }
+
+  /**
+   * Add a monochrome graphic, one image pixel per printer dot
+   * @param image - PNG, JPEG, BMP or TIFF file contents, or decoded BGRA pixels
+   */
+  graphic(x: number, y: number, image: Buffer | LabelBitmap, options: LabelGraphicOptions = {}): this {
+    return this.add({ ...options, type: 'graphic', x, y, image });
+  }
+
+  /** The label as a plain definition, e.g. to store or send elsewhere */
+  build(): LabelDefinition {
+    return { ...this.setup, fields: [...this.fields] };
+  }
+
+  /**
+   * Generate the ZPL commands of the label
+   * @param quantity - Labels to print
+   */
+  toZpl(quantity = 1): string {
+    return generateZpl(this.build(), quantity);
+  }
+
+  /**
+   * Generate the EPL commands of the label
+   * @param quantity - Labels to print
+   */
+  toEpl(quantity = 1): string {
+    return generateEpl(this.build(), quantity);
+  }
+
+  private add(field: LabelField): this {
+    this.fields.push(field);
+    return this;
+  }
+}
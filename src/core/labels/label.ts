@@ -0,0 +1,290 @@
+/**
+ * Label definitions in printer dots
+ *
+ * Validates a label, applies the field defaults and converts every size and
+ * position to dots, so the ZPL and EPL generators only format commands.
+ */
+
+import { InvalidOptionError } from '../errors';
+import { openImage } from '../images';
+import type {
+  LabelBarcodeField,
+  LabelBitmap,
+  LabelDefinition,
+  LabelRotation,
+  LabelSetup,
+  LabelSymbology,
+  LabelTextField
+} from '../types';
+
+export const DEFAULT_LABEL_DPI = 203;
+
+const MM_PER_INCH = 25.4;
+
+// Defaults in millimetres, converted at the label's resolution
+const DEFAULT_TEXT_HEIGHT_MM = 3;
+const DEFAULT_BARCODE_HEIGHT_MM = 10;
+const DEFAULT_GAP_MM = 3;
+
+// Default narrow bar width or module size of each symbology, in dots
+const DEFAULT_MODULE_WIDTHS: Record<LabelSymbology, number> = { code128: 2, qr: 4, datamatrix: 6 };
+
+// Largest QR code magnification printers accept
+const MAX_QR_MODULE_WIDTH = 10;
+
+const DEFAULT_THRESHOLD = 128;
+
+const MAX_DARKNESS = 30;
+const MAX_SPEED = 14;
+
+const ROTATIONS: LabelRotation[] = [0, 90, 180, 270];
+const SYMBOLOGIES: LabelSymbology[] = ['code128', 'qr', 'datamatrix'];
+const ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'];
+
+/**
+ * One-bit graphic, rows padded to whole bytes, most significant bit first, 1 = black
+ */
+export interface MonochromeBitmap {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Buffer;
+}
+
+export type ResolvedTextField = Required<Omit<LabelTextField, 'font'>> & { font?: string };
+export type ResolvedBarcodeField = Required<LabelBarcodeField>;
+export interface ResolvedBoxField {
+  type: 'box';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  thickness: number;
+}
+export interface ResolvedGraphicField {
+  type: 'graphic';
+  x: number;
+  y: number;
+  bitmap: MonochromeBitmap;
+}
+
+export type ResolvedLabelField = ResolvedTextField | ResolvedBarcodeField | ResolvedBoxField | ResolvedGraphicField;
+
+/**
+ * A label with every size and position in dots and the defaults applied
+ */
+export interface ResolvedLabel {
+  width: number;
+  height: number;
+  dpi: number;
+  darkness?: number;
+  speed?: number;
+  gap: number;
+  fields: ResolvedLabelField[];
+}
+
+/**
+ * Validate the stock settings of a label
+ * @throws InvalidOptionError if a setting is out of range
+ */
+export function validateLabelSetup(setup: LabelSetup): void {
+  requirePositive(setup?.width, 'width');
+  requirePositive(setup.height, 'height');
+  if (setup.unit !== undefined && setup.unit !== 'dots' && setup.unit !== 'mm') {
+    throw new InvalidOptionError(`Invalid label unit: ${String(setup.unit)} (expected 'dots' or 'mm')`, 'unit');
+  }
+  if (setup.dpi !== undefined) {
+    requirePositive(setup.dpi, 'dpi');
+  }
+  if (setup.darkness !== undefined && !isIntegerInRange(setup.darkness, 0, MAX_DARKNESS)) {
+    throw new InvalidOptionError(`Invalid darkness: ${setup.darkness} (expected a whole number from 0 to ${MAX_DARKNESS})`, 'darkness');
+  }
+  if (setup.speed !== undefined && !isIntegerInRange(setup.speed, 1, MAX_SPEED)) {
+    throw new InvalidOptionError(`Invalid print speed: ${setup.speed} (expected 1 to ${MAX_SPEED} inches per second)`, 'speed');
+  }
+  if (setup.gap !== undefined && !(Number.isFinite(setup.gap) && setup.gap >= 0)) {
+    throw new InvalidOptionError(`Invalid label gap: ${setup.gap}`, 'gap');
+  }
+}
+
+/**
+ * Reject label quantities the printers do not accept
+ * @throws InvalidOptionError if the quantity is not a positive whole number
+ */
+export function validateQuantity(quantity: number): void {
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new InvalidOptionError(`Invalid label quantity: ${quantity} (expected a whole number of 1 or more)`, 'copies');
+  }
+}
+
+/**
+ * Validate a label and convert it to dots
+ * Graphics given as image files are decoded and converted to one bit per dot.
+ * @throws InvalidOptionError if the label or one of its fields is invalid
+ * @throws ImageDecodeError if a graphic cannot be decoded
+ */
+export function resolveLabel(label: LabelDefinition): ResolvedLabel {
+  validateLabelSetup(label);
+  if (!Array.isArray(label.fields)) {
+    throw new InvalidOptionError('Label fields must be an array', 'fields');
+  }
+
+  const dpi = label.dpi ?? DEFAULT_LABEL_DPI;
+  const toDots = (value: number): number => Math.round(label.unit === 'mm' ? (value * dpi) / MM_PER_INCH : value);
+  const mmToDots = (mm: number): number => Math.round((mm * dpi) / MM_PER_INCH);
+
+  const fields = label.fields.map((field, index): ResolvedLabelField => {
+    const name = `fields[${index}]`;
+    requireNonNegative(field?.x, `${name}.x`);
+    requireNonNegative(field.y, `${name}.y`);
+    const x = toDots(field.x);
+    const y = toDots(field.y);
+
+    switch (field.type) {
+      case 'text': {
+        if (typeof field.text !== 'string' || /[\r\n]/.test(field.text)) {
+          throw new InvalidOptionError('Label text must be a single line of text', `${name}.text`);
+        }
+        optional(field.height, value => requirePositive(value, `${name}.height`));
+        optional(field.width, value => requirePositive(value, `${name}.width`));
+        const height = Math.max(1, field.height !== undefined ? toDots(field.height) : mmToDots(DEFAULT_TEXT_HEIGHT_MM));
+        return {
+          type: 'text',
+          x,
+          y,
+          text: field.text,
+          height,
+          width: field.width !== undefined ? Math.max(1, toDots(field.width)) : height,
+          font: field.font,
+          rotation: requireRotation(field.rotation, `${name}.rotation`)
+        };
+      }
+      case 'barcode': {
+        if (!SYMBOLOGIES.includes(field.symbology)) {
+          throw new InvalidOptionError(
+            `Invalid barcode symbology: ${String(field.symbology)} (expected ${SYMBOLOGIES.join(', ')})`,
+            `${name}.symbology`
+          );
+        }
+        if (typeof field.data !== 'string' || field.data.length === 0) {
+          throw new InvalidOptionError('Barcode data must be a non-empty string', `${name}.data`);
+        }
+        optional(field.height, value => requirePositive(value, `${name}.height`));
+        const moduleWidth = field.moduleWidth ?? DEFAULT_MODULE_WIDTHS[field.symbology];
+        const maxModuleWidth = field.symbology === 'qr' ? MAX_QR_MODULE_WIDTH : Infinity;
+        if (!isIntegerInRange(moduleWidth, 1, maxModuleWidth)) {
+          throw new InvalidOptionError(`Invalid barcode module width: ${moduleWidth} dots`, `${name}.moduleWidth`);
+        }
+        const errorCorrection = field.errorCorrection ?? 'M';
+        if (!ERROR_CORRECTION_LEVELS.includes(errorCorrection)) {
+          throw new InvalidOptionError(`Invalid QR error correction level: ${String(errorCorrection)}`, `${name}.errorCorrection`);
+        }
+        const rotation = requireRotation(field.rotation, `${name}.rotation`);
+        if (rotation !== 0 && field.symbology !== 'code128') {
+          throw new InvalidOptionError('QR and Data Matrix codes cannot be rotated', `${name}.rotation`);
+        }
+        return {
+          type: 'barcode',
+          symbology: field.symbology,
+          x,
+          y,
+          data: field.data,
+          height: Math.max(1, field.height !== undefined ? toDots(field.height) : mmToDots(DEFAULT_BARCODE_HEIGHT_MM)),
+          moduleWidth,
+          humanReadable: field.humanReadable !== false,
+          errorCorrection,
+          rotation
+        };
+      }
+      case 'box': {
+        requirePositive(field.width, `${name}.width`);
+        requirePositive(field.height, `${name}.height`);
+        optional(field.thickness, value => requirePositive(value, `${name}.thickness`));
+        const width = Math.max(1, toDots(field.width));
+        const height = Math.max(1, toDots(field.height));
+        // A line as thick as the box fills it; printers reject thicker lines
+        const thickness = Math.min(width, height, Math.max(1, field.thickness !== undefined ? toDots(field.thickness) : 1));
+        return { type: 'box', x, y, width, height, thickness };
+      }
+      case 'graphic': {
+        const threshold = field.threshold ?? DEFAULT_THRESHOLD;
+        if (!(Number.isFinite(threshold) && threshold >= 0 && threshold <= 255)) {
+          throw new InvalidOptionError(`Invalid graphic threshold: ${threshold} (expected 0 to 255)`, `${name}.threshold`);
+        }
+        const image = Buffer.isBuffer(field.image) ? openImage(field.image).decodeFrame(0) : field.image;
+        return { type: 'graphic', x, y, bitmap: toMonochrome(image, threshold, `${name}.image`) };
+      }
+      default:
+        throw new InvalidOptionError(
+          `Invalid label field type: ${String((field as { type?: unknown }).type)} (expected text, barcode, box or graphic)`,
+          `${name}.type`
+        );
+    }
+  });
+
+  return {
+    width: toDots(label.width),
+    height: toDots(label.height),
+    dpi,
+    darkness: label.darkness,
+    speed: label.speed,
+    gap: label.gap !== undefined ? toDots(label.gap) : mmToDots(DEFAULT_GAP_MM),
+    fields
+  };
+}
+
+/**
+ * Convert BGRA pixels to one bit per dot: pixels darker than `threshold` are black
+ */
+export function toMonochrome(image: LabelBitmap, threshold = DEFAULT_THRESHOLD, option = 'image'): MonochromeBitmap {
+  const { width, height, data } = image ?? {};
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0 || !Buffer.isBuffer(data)) {
+    throw new InvalidOptionError('Graphic must be an image file or decoded pixels with a width and height', option);
+  }
+  if (data.length < width * height * 4) {
+    throw new InvalidOptionError(`Graphic pixel data is too short for ${width}x${height} pixels`, option);
+  }
+
+  const bytesPerRow = Math.ceil(width / 8);
+  const bits = Buffer.alloc(bytesPerRow * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      // ITU-R BT.601 luma of the BGRA pixel
+      const luminance = 0.114 * data[offset] + 0.587 * data[offset + 1] + 0.299 * data[offset + 2];
+      if (luminance < threshold) {
+        bits[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return { width, height, bytesPerRow, data: bits };
+}
+
+function requirePositive(value: number, option: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new InvalidOptionError(`Invalid ${option}: ${String(value)} (expected a positive number)`, option);
+  }
+}
+
+function requireNonNegative(value: number, option: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new InvalidOptionError(`Invalid ${option}: ${String(value)} (expected a number of 0 or more)`, option);
+  }
+}
+
+function requireRotation(rotation: LabelRotation | undefined, option: string): LabelRotation {
+  if (rotation !== undefined && !ROTATIONS.includes(rotation)) {
+    throw new InvalidOptionError(`Invalid rotation: ${String(rotation)} (expected 0, 90, 180 or 270)`, option);
+  }
+  return rotation ?? 0;
+}
+
+function optional<T>(value: T | undefined, validate: (value: T) => void): void {
+  if (value !== undefined) {
+    validate(value);
+  }
+}
+
+function isIntegerInRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
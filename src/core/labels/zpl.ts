@@ -0,0 +1,90 @@
+/**
+ * ZPL II generator
+ *
+ * Formats a label as one ^XA...^XZ format for Zebra printers. Text is sent as
+ * UTF-8 (^CI28) and field data is hex-escaped with ^FH, so any character can
+ * be printed.
+ *
+ * @example
+ * ```typescript
+ * generateZpl({ width: 400, height: 200, fields: [{ type: 'text', x: 20, y: 20, text: 'Hello' }] });
+ * // '^XA\n^CI28\n^PW400\n^LL200\n^LH0,0\n^FO20,20^A0N,24,24^FH^FDHello^FS\n^PQ1\n^XZ\n'
+ * ```
+ */
+
+import { InvalidOptionError } from '../errors';
+import type { LabelDefinition, LabelRotation } from '../types';
+import { resolveLabel, validateQuantity, type ResolvedBarcodeField, type ResolvedLabelField } from './label';
+
+const ORIENTATIONS: Record<LabelRotation, string> = { 0: 'N', 90: 'R', 180: 'I', 270: 'B' };
+
+// ^BX quality level 200: ECC 200, the only Data Matrix variant in use
+const DATA_MATRIX_QUALITY = 200;
+
+/**
+ * Generate the ZPL commands of a label
+ * @param quantity - Labels to print (^PQ)
+ * @throws InvalidOptionError if the label is invalid
+ */
+export function generateZpl(label: LabelDefinition, quantity = 1): string {
+  validateQuantity(quantity);
+  const resolved = resolveLabel(label);
+
+  const lines = ['^XA', '^CI28', `^PW${resolved.width}`, `^LL${resolved.height}`, '^LH0,0'];
+  if (resolved.darkness !== undefined) {
+    lines.push(`~SD${String(resolved.darkness).padStart(2, '0')}`);
+  }
+  if (resolved.speed !== undefined) {
+    lines.push(`^PR${resolved.speed}`);
+  }
+  resolved.fields.forEach((field, index) => lines.push(formatField(field, `fields[${index}]`)));
+  lines.push(`^PQ${quantity}`, '^XZ');
+
+  return lines.join('\n') + '\n';
+}
+
+function formatField(field: ResolvedLabelField, name: string): string {
+  const origin = `^FO${field.x},${field.y}`;
+
+  switch (field.type) {
+    case 'text': {
+      const font = field.font ?? '0';
+      if (!/^[0-9A-Z]$/.test(font)) {
+        throw new InvalidOptionError(`Invalid ZPL font: ${font} (expected '0' to '9' or 'A' to 'Z')`, `${name}.font`);
+      }
+      return `${origin}^A${font}${ORIENTATIONS[field.rotation]},${field.height},${field.width}^FH^FD${escapeFieldData(field.text)}^FS`;
+    }
+    case 'barcode':
+      return origin + formatBarcode(field);
+    case 'box':
+      return `${origin}^GB${field.width},${field.height},${field.thickness}^FS`;
+    case 'graphic': {
+      const { bitmap } = field;
+      const size = bitmap.data.length;
+      return `${origin}^GFA,${size},${size},${bitmap.bytesPerRow},${bitmap.data.toString('hex').toUpperCase()}^FS`;
+    }
+  }
+}
+
+function formatBarcode(field: ResolvedBarcodeField): string {
+  switch (field.symbology) {
+    case 'code128': {
+      // '>' starts a subset switch in ^BC data; '><' prints it
+      const data = escapeFieldData(field.data).replace(/>/g, '><');
+      const interpretation = field.humanReadable ? 'Y' : 'N';
+      return `^BY${field.moduleWidth}^BC${ORIENTATIONS[field.rotation]},${field.height},${interpretation},N,N^FH^FD${data}^FS`;
+    }
+    case 'qr':
+      // Model 2; the data is prefixed with the error correction level and automatic input mode
+      return `^BQN,2,${field.moduleWidth}^FH^FD${field.errorCorrection}A,${escapeFieldData(field.data)}^FS`;
+    case 'datamatrix':
+      return `^BXN,${field.moduleWidth},${DATA_MATRIX_QUALITY}^FH^FD${escapeFieldData(field.data)}^FS`;
+  }
+}
+
+/**
+ * Hex-escape the characters that end or change a field (^FH, '_' indicator)
+ */
+function escapeFieldData(text: string): string {
+  return text.replace(/[\^~_\x00-\x1F\x7F]/g, char => `_${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
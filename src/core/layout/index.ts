@@ -0,0 +1,56 @@
+/**
+ * Page layout module exports
+ *
+ * Pure geometry helpers that decide where pages land on the printable area
+ */
+
+export {
+  POINTS_PER_INCH,
+  validateScaling,
+  resolveScale,
+  computePagePlacement,
+  computeRenderViewport,
+  intersectRects,
+  type Rect,
+  type PagePlacementInput,
+  type PagePlacement,
+  type RenderViewport
+} from './scaling';
+export {
+  validateMargins,
+  resolveMargins,
+  computeLayoutAreas,
+  type SheetMetrics,
+  type MarginInsets,
+  type LayoutAreas
+} from './margins';
+export {
+  validatePageRotation,
+  getPageRotationOverride,
+  resolvePageRotation,
+  rotateSize,
+  toPdfiumRotation,
+  addRotations,
+  rotateRect180,
+  type PageRotationInput
+} from './rotation';
+export {
+  validatePageBox,
+  resolvePageBox,
+  toDisplayRect,
+  computeRenderMatrix,
+  computeBoxPageRect,
+  type PdfBox,
+  type PageBoxes,
+  type RenderMatrix,
+  type RenderMatrixInput
+} from './page-box';
+export {
+  validateNUp,
+  getPagesPerSheet,
+  computeNUpGrid,
+  computeNUpLayout,
+  groupPagesIntoSheets,
+  computeBorderStrips,
+  type NUpLayout
+} from './n-up';
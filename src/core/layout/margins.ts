@@ -0,0 +1,197 @@
+/**
+ * Sheet and margin geometry
+ *
+ * Printer device contexts use the printable area as their origin; the sheet
+ * itself starts PHYSICALOFFSETX/Y pixels further up and left. These helpers
+ * describe the sheet in device coordinates and work out where pages may be
+ * placed once hardware and user margins are taken into account.
+ *
+ * @example
+ * ```typescript
+ * const areas = computeLayoutAreas(sheet, { top: 10, right: 10, bottom: 10, left: 10, unit: 'mm' });
+ * const placement = computePagePlacement({ ...page, area: areas.area, clip: areas.clip, scaling: 'fit' });
+ * ```
+ */
+
+import type { PrintMargins } from '../types';
+import { InvalidOptionError } from '../errors';
+import { intersectRects, type Rect } from './scaling';
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * Sheet geometry of a printer device context, in device pixels
+ */
+export interface SheetMetrics {
+  /** Full sheet width (PHYSICALWIDTH) */
+  physicalWidth: number;
+  /** Full sheet height (PHYSICALHEIGHT) */
+  physicalHeight: number;
+  /** Distance from the left sheet edge to the printable area (PHYSICALOFFSETX) */
+  offsetX: number;
+  /** Distance from the top sheet edge to the printable area (PHYSICALOFFSETY) */
+  offsetY: number;
+  /** Printable area width (HORZRES) */
+  printableWidth: number;
+  /** Printable area height (VERTRES) */
+  printableHeight: number;
+  /** Horizontal resolution (LOGPIXELSX) */
+  dpiX: number;
+  /** Vertical resolution (LOGPIXELSY) */
+  dpiY: number;
+}
+
+/**
+ * Margins resolved to device pixels
+ */
+export interface MarginInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Where pages may be placed on a sheet, in device coordinates
+ */
+export interface LayoutAreas {
+  /** The whole sheet (origin at -offsetX, -offsetY) */
+  sheet: Rect;
+  /** The printable area reported by the driver */
+  printable: Rect;
+  /** The sheet minus user margins */
+  content: Rect;
+  /** Area pages are scaled into and centered on */
+  area: Rect;
+  /** Nothing is drawn outside this rectangle */
+  clip: Rect;
+}
+
+/**
+ * Validate the margins print option
+ * @throws InvalidOptionError for negative or non-numeric margins or an unknown unit
+ */
+export function validateMargins(margins: number | PrintMargins | undefined): void {
+  const sides = toSides(margins);
+
+  if (sides.unit !== 'mm' && sides.unit !== 'in') {
+    throw new InvalidOptionError(`Invalid margin unit: ${String(sides.unit)}`, 'margins');
+  }
+  for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+    const value = sides[side];
+    if (!Number.isFinite(value) || value < 0) {
+      throw new InvalidOptionError(`Invalid ${side} margin: ${value}`, 'margins');
+    }
+  }
+}
+
+/**
+ * Convert user margins to device pixels
+ * A single number applies to all four sides. Values are in millimetres unless
+ * `unit` is 'in'.
+ * @throws InvalidOptionError for negative or non-numeric margins
+ */
+export function resolveMargins(margins: number | PrintMargins | undefined, dpiX: number, dpiY: number): MarginInsets {
+  validateMargins(margins);
+
+  const sides = toSides(margins);
+  const inchesPerUnit = sides.unit === 'in' ? 1 : 1 / MM_PER_INCH;
+  const toPixels = (value: number, dpi: number): number => Math.round(value * inchesPerUnit * dpi);
+
+  return {
+    top: toPixels(sides.top, dpiY),
+    right: toPixels(sides.right, dpiX),
+    bottom: toPixels(sides.bottom, dpiY),
+    left: toPixels(sides.left, dpiX)
+  };
+}
+
+/**
+ * Work out the placement and clipping areas for a sheet
+ *
+ * Pages are always centered on the sheet minus the user margins, so output is
+ * not shifted by asymmetric hardware margins. With `compensate` (the default)
+ * the area pages are scaled into shrinks symmetrically until it lies inside the
+ * printable area, so 'fit' never loses content to unprintable margins. Without
+ * it, pages are sized against the full content area and the printer clips
+ * whatever falls outside its printable area.
+ *
+ * @param sheet - Sheet geometry of the device context
+ * @param margins - User margins (millimetres by default)
+ * @param compensate - Keep pages inside the printable area
+ * @throws InvalidOptionError when the margins leave no room for the page
+ */
+export function computeLayoutAreas(
+  sheet: SheetMetrics,
+  margins?: number | PrintMargins,
+  compensate = true
+): LayoutAreas {
+  const insets = resolveMargins(margins, sheet.dpiX, sheet.dpiY);
+
+  const sheetRect: Rect = {
+    x: -sheet.offsetX,
+    y: -sheet.offsetY,
+    width: sheet.physicalWidth,
+    height: sheet.physicalHeight
+  };
+  const printable: Rect = { x: 0, y: 0, width: sheet.printableWidth, height: sheet.printableHeight };
+  const content: Rect = {
+    x: sheetRect.x + insets.left,
+    y: sheetRect.y + insets.top,
+    width: sheetRect.width - insets.left - insets.right,
+    height: sheetRect.height - insets.top - insets.bottom
+  };
+
+  if (content.width <= 0 || content.height <= 0) {
+    throw new InvalidOptionError('Margins leave no room on the sheet', 'margins');
+  }
+
+  const clip = intersectRects(content, printable);
+  if (clip.width <= 0 || clip.height <= 0) {
+    throw new InvalidOptionError('Margins leave no printable area on the sheet', 'margins');
+  }
+
+  // Fall back to the clip area when the sheet center lies outside the printable area
+  const centered = centeredWithin(content, clip);
+  const compensated = centered.width > 0 && centered.height > 0 ? centered : clip;
+
+  return {
+    sheet: sheetRect,
+    printable,
+    content,
+    area: compensate ? compensated : content,
+    clip
+  };
+}
+
+/**
+ * Largest rectangle centered on `outer` that fits inside `bounds`
+ */
+function centeredWithin(outer: Rect, bounds: Rect): Rect {
+  const centerX = outer.x + outer.width / 2;
+  const centerY = outer.y + outer.height / 2;
+  const halfWidth = Math.max(0, Math.min(centerX - bounds.x, bounds.x + bounds.width - centerX));
+  const halfHeight = Math.max(0, Math.min(centerY - bounds.y, bounds.y + bounds.height - centerY));
+
+  return {
+    x: Math.ceil(centerX - halfWidth),
+    y: Math.ceil(centerY - halfHeight),
+    width: Math.floor(centerX + halfWidth) - Math.ceil(centerX - halfWidth),
+    height: Math.floor(centerY + halfHeight) - Math.ceil(centerY - halfHeight)
+  };
+}
+
+/**
+ * Expand the margins option to four sides and a unit
+ */
+function toSides(margins: number | PrintMargins | undefined): Required<PrintMargins> {
+  return typeof margins === 'number'
+    ? { top: margins, right: margins, bottom: margins, left: margins, unit: 'mm' }
+    : {
+      top: margins?.top ?? 0,
+      right: margins?.right ?? 0,
+      bottom: margins?.bottom ?? 0,
+      left: margins?.left ?? 0,
+      unit: margins?.unit ?? 'mm'
+    };
+}
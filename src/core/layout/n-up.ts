@@ -0,0 +1,179 @@
+/**
+ * N-up layout
+ *
+ * Splits the page area of a sheet into a grid of cells so several PDF pages
+ * print on one side of the paper. Each cell is then treated like a small page
+ * area: pages are scaled, rotated and centered within it as usual.
+ *
+ * @example
+ * ```typescript
+ * const layout = computeNUpLayout({ pagesPerSheet: 4, order: 'N', gutter: 5 }, areas.area, 600, 600);
+ * layout.cells[1]; // second page goes below the first
+ * ```
+ */
+
+import type { NUpOptions, NUpOrder, NUpPages } from '../types';
+import { InvalidOptionError } from '../errors';
+import { POINTS_PER_INCH, type Rect } from './scaling';
+
+const MM_PER_INCH = 25.4;
+
+const N_UP_PAGES: readonly number[] = [1, 2, 4, 6, 9, 16];
+const N_UP_ORDERS: readonly string[] = ['Z', 'N', 'reverseZ', 'reverseN'];
+
+/** Border width used for `border: true`, in points */
+const DEFAULT_BORDER_WIDTH = 0.5;
+
+/**
+ * Cells of an N-up sheet, in device pixels
+ */
+export interface NUpLayout {
+  columns: number;
+  rows: number;
+  /** Cell for each page on the sheet, in reading order */
+  cells: Rect[];
+  /** Border line width (0 = no border) */
+  borderWidth: number;
+}
+
+/**
+ * Check that an nUp option is valid
+ * @throws InvalidOptionError if it is not
+ */
+export function validateNUp(option: NUpPages | NUpOptions | undefined): void {
+  if (option === undefined) {
+    return;
+  }
+
+  const { pagesPerSheet, order, border, gutter } = typeof option === 'number' ? { pagesPerSheet: option } as NUpOptions : option;
+
+  if (!N_UP_PAGES.includes(pagesPerSheet)) {
+    throw new InvalidOptionError(
+      `Invalid pages per sheet: ${String(pagesPerSheet)} (expected 1, 2, 4, 6, 9 or 16)`,
+      'nUp'
+    );
+  }
+  if (order !== undefined && !N_UP_ORDERS.includes(order)) {
+    throw new InvalidOptionError(`Invalid N-up order: ${String(order)}`, 'nUp');
+  }
+  if (typeof border === 'number' && (!Number.isFinite(border) || border < 0)) {
+    throw new InvalidOptionError(`Invalid N-up border width: ${border}`, 'nUp');
+  }
+  if (gutter !== undefined && (!Number.isFinite(gutter) || gutter < 0)) {
+    throw new InvalidOptionError(`Invalid N-up gutter: ${gutter}`, 'nUp');
+  }
+}
+
+/**
+ * Number of pages printed on each sheet
+ */
+export function getPagesPerSheet(option: NUpPages | NUpOptions | undefined): NUpPages {
+  if (option === undefined) {
+    return 1;
+  }
+  return typeof option === 'number' ? option : option.pagesPerSheet;
+}
+
+/**
+ * Grid size for a number of pages per sheet
+ * Portrait areas get at least as many rows as columns; landscape areas the opposite.
+ */
+export function computeNUpGrid(pagesPerSheet: NUpPages, area: { width: number; height: number }): { columns: number; rows: number } {
+  const [short, long] = ({ 1: [1, 1], 2: [1, 2], 4: [2, 2], 6: [2, 3], 9: [3, 3], 16: [4, 4] } as const)[pagesPerSheet];
+
+  return area.width > area.height
+    ? { columns: long, rows: short }
+    : { columns: short, rows: long };
+}
+
+/**
+ * Lay out the cells of an N-up sheet
+ * @param option - Pages per sheet, or full N-up options (gutter in millimetres, border in points)
+ * @param area - Area the pages are printed on, in device pixels
+ * @param dpiX - Horizontal device resolution
+ * @param dpiY - Vertical device resolution
+ * @throws InvalidOptionError for invalid options or a gutter that leaves no room for pages
+ */
+export function computeNUpLayout(
+  option: NUpPages | NUpOptions | undefined,
+  area: Rect,
+  dpiX: number,
+  dpiY: number
+): NUpLayout {
+  validateNUp(option);
+
+  const options: NUpOptions = typeof option === 'object' ? option : { pagesPerSheet: option ?? 1 };
+  const { columns, rows } = computeNUpGrid(options.pagesPerSheet, area);
+  const gutterX = Math.round(((options.gutter ?? 0) / MM_PER_INCH) * dpiX);
+  const gutterY = Math.round(((options.gutter ?? 0) / MM_PER_INCH) * dpiY);
+
+  const cellWidth = (area.width - gutterX * (columns - 1)) / columns;
+  const cellHeight = (area.height - gutterY * (rows - 1)) / rows;
+  if (cellWidth < 1 || cellHeight < 1) {
+    throw new InvalidOptionError('N-up gutter leaves no room for pages', 'nUp');
+  }
+
+  const cells: Rect[] = [];
+  for (let position = 0; position < columns * rows; position++) {
+    const { column, row } = getCellPosition(position, columns, rows, options.order ?? 'Z');
+    const left = Math.round(area.x + column * (cellWidth + gutterX));
+    const top = Math.round(area.y + row * (cellHeight + gutterY));
+    cells.push({
+      x: left,
+      y: top,
+      width: Math.round(area.x + column * (cellWidth + gutterX) + cellWidth) - left,
+      height: Math.round(area.y + row * (cellHeight + gutterY) + cellHeight) - top
+    });
+  }
+
+  const borderPoints = options.border === true ? DEFAULT_BORDER_WIDTH : options.border || 0;
+  const borderWidth = borderPoints > 0
+    ? Math.max(1, Math.round((borderPoints / POINTS_PER_INCH) * Math.max(dpiX, dpiY)))
+    : 0;
+
+  return { columns, rows, cells, borderWidth };
+}
+
+/**
+ * Group page indices into sheets of `pagesPerSheet` pages
+ */
+export function groupPagesIntoSheets(pageIndices: number[], pagesPerSheet: number): number[][] {
+  const sheets: number[][] = [];
+  for (let start = 0; start < pageIndices.length; start += pagesPerSheet) {
+    sheets.push(pageIndices.slice(start, start + pagesPerSheet));
+  }
+  return sheets;
+}
+
+/**
+ * Rectangles outlining `rect`, `width` pixels thick, drawn inside its edges
+ */
+export function computeBorderStrips(rect: Rect, width: number): Rect[] {
+  if (width <= 0 || rect.width <= 0 || rect.height <= 0) {
+    return [];
+  }
+
+  const thickX = Math.min(width, rect.width);
+  const thickY = Math.min(width, rect.height);
+
+  return [
+    { x: rect.x, y: rect.y, width: rect.width, height: thickY },
+    { x: rect.x, y: rect.y + rect.height - thickY, width: rect.width, height: thickY },
+    { x: rect.x, y: rect.y, width: thickX, height: rect.height },
+    { x: rect.x + rect.width - thickX, y: rect.y, width: thickX, height: rect.height }
+  ];
+}
+
+function getCellPosition(position: number, columns: number, rows: number, order: NUpOrder): { column: number; row: number } {
+  switch (order) {
+    case 'N':
+      return { column: Math.floor(position / rows), row: position % rows };
+    case 'reverseZ':
+      return { column: columns - 1 - (position % columns), row: Math.floor(position / columns) };
+    case 'reverseN':
+      return { column: columns - 1 - Math.floor(position / rows), row: position % rows };
+    case 'Z':
+    default:
+      return { column: position % columns, row: Math.floor(position / columns) };
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * PDF page boxes
+ *
+ * Selects the media, crop, bleed, trim or art box of a page and maps it from
+ * PDF user space (origin bottom-left, y up) into the display space PDFium
+ * renders in: points, origin top-left, y down, with the page's /Rotate applied
+ * and the page bounding box (CropBox clipped to MediaBox) starting at 0,0.
+ *
+ * @example
+ * ```typescript
+ * const trim = resolvePageBox('trim', { bounds, media, trim: trimBox });
+ * const display = toDisplayRect(trim, bounds, 90);
+ * ```
+ */
+
+import type { PageBox, PageRotation } from '../types';
+import { InvalidOptionError } from '../errors';
+import type { Rect } from './scaling';
+
+const PAGE_BOXES: readonly string[] = ['media', 'crop', 'bleed', 'trim', 'art'];
+
+/**
+ * Rectangle in PDF user space, in points
+ */
+export interface PdfBox {
+  left: number;
+  bottom: number;
+  right: number;
+  top: number;
+}
+
+/**
+ * Boxes read from a page; missing boxes are null
+ */
+export interface PageBoxes {
+  /** Page bounding box as displayed by PDFium (CropBox clipped to MediaBox) */
+  bounds: PdfBox;
+  media?: PdfBox | null;
+  bleed?: PdfBox | null;
+  trim?: PdfBox | null;
+  art?: PdfBox | null;
+}
+
+/**
+ * PDFium FS_MATRIX: device = (a·x + c·y + e, b·x + d·y + f)
+ */
+export interface RenderMatrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export interface RenderMatrixInput {
+  /** Region of the page to render, in display points */
+  box: Rect;
+  /** Additional clockwise rotation of the output */
+  rotation: PageRotation;
+  /** Rendered size of the (rotated) box in pixels */
+  width: number;
+  height: number;
+  /** Top-left corner of the bitmap within the rendered box, in pixels */
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Check that a pageBox option names a known box
+ * @throws InvalidOptionError if it does not
+ */
+export function validatePageBox(pageBox: PageBox | undefined): void {
+  if (pageBox !== undefined && !PAGE_BOXES.includes(pageBox)) {
+    throw new InvalidOptionError(`Invalid page box: ${String(pageBox)}`, 'pageBox');
+  }
+}
+
+/**
+ * Pick a page box, applying the PDF defaults for missing boxes
+ * The crop box is the page bounding box; bleed, trim and art boxes default to
+ * it. Every box is clipped to the media box.
+ */
+export function resolvePageBox(pageBox: PageBox, boxes: PageBoxes): PdfBox {
+  validatePageBox(pageBox);
+
+  const bounds = normalizeBox(boxes.bounds);
+  const media = boxes.media ? normalizeBox(boxes.media) : bounds;
+
+  if (pageBox === 'media') {
+    return media;
+  }
+  if (pageBox === 'crop') {
+    return bounds;
+  }
+
+  const box = boxes[pageBox];
+  if (!box) {
+    return bounds;
+  }
+
+  const clipped = intersectBoxes(normalizeBox(box), media);
+  return clipped.right > clipped.left && clipped.top > clipped.bottom ? clipped : bounds;
+}
+
+/**
+ * Map a box from PDF user space to PDFium display space
+ * @param box - Box to map
+ * @param bounds - Page bounding box (the display origin)
+ * @param rotation - The page's /Rotate value
+ */
+export function toDisplayRect(box: PdfBox, bounds: PdfBox, rotation: PageRotation): Rect {
+  const { left, bottom, right, top } = normalizeBox(bounds);
+
+  const toDisplay = (x: number, y: number): [number, number] => {
+    switch (rotation) {
+      case 90:
+        return [y - bottom, x - left];
+      case 180:
+        return [right - x, y - bottom];
+      case 270:
+        return [top - y, right - x];
+      case 0:
+      default:
+        return [x - left, top - y];
+    }
+  };
+
+  const [x1, y1] = toDisplay(box.left, box.bottom);
+  const [x2, y2] = toDisplay(box.right, box.top);
+
+  return {
+    x: Math.min(x1, x2),
+    y: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1)
+  };
+}
+
+/**
+ * Matrix that renders a display-space box rotated and scaled into a bitmap
+ * The result is passed to FPDF_RenderPageBitmapWithMatrix, which applies it
+ * after the page's own display transform.
+ */
+export function computeRenderMatrix(input: RenderMatrixInput): RenderMatrix {
+  const { box, rotation, width, height, offsetX, offsetY } = input;
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const scaleX = width / (quarterTurn ? box.height : box.width);
+  const scaleY = height / (quarterTurn ? box.width : box.height);
+  const right = box.x + box.width;
+  const bottom = box.y + box.height;
+
+  switch (rotation) {
+    case 90:
+      return { a: 0, b: scaleY, c: -scaleX, d: 0, e: scaleX * bottom - offsetX, f: -scaleY * box.x - offsetY };
+    case 180:
+      return { a: -scaleX, b: 0, c: 0, d: -scaleY, e: scaleX * right - offsetX, f: scaleY * bottom - offsetY };
+    case 270:
+      return { a: 0, b: -scaleY, c: scaleX, d: 0, e: -scaleX * box.y - offsetX, f: scaleY * right - offsetY };
+    case 0:
+    default:
+      return { a: scaleX, b: 0, c: 0, d: scaleY, e: -scaleX * box.x - offsetX, f: -scaleY * box.y - offsetY };
+  }
+}
+
+/**
+ * Where the whole page lands when a box of it is drawn into `target`
+ * Used when rendering directly to a device context, which always draws the
+ * full page: the page is positioned so the box covers `target` and everything
+ * else is clipped.
+ * @param box - Region of the page to show, in display points
+ * @param page - Displayed page size in points (crop box, /Rotate applied)
+ * @param rotation - Additional clockwise rotation of the output
+ * @param target - Where the rotated box is drawn, in device pixels
+ */
+export function computeBoxPageRect(
+  box: Rect,
+  page: { width: number; height: number },
+  rotation: PageRotation,
+  target: Rect
+): Rect {
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const scaleX = target.width / (quarterTurn ? box.height : box.width);
+  const scaleY = target.height / (quarterTurn ? box.width : box.height);
+
+  // Top-left corner of the box once the page is turned
+  let left: number;
+  let top: number;
+  switch (rotation) {
+    case 90:
+      left = page.height - box.y - box.height;
+      top = box.x;
+      break;
+    case 180:
+      left = page.width - box.x - box.width;
+      top = page.height - box.y - box.height;
+      break;
+    case 270:
+      left = box.y;
+      top = page.width - box.x - box.width;
+      break;
+    case 0:
+    default:
+      left = box.x;
+      top = box.y;
+  }
+
+  return {
+    x: target.x - left * scaleX,
+    y: target.y - top * scaleY,
+    width: (quarterTurn ? page.height : page.width) * scaleX,
+    height: (quarterTurn ? page.width : page.height) * scaleY
+  };
+}
+
+function normalizeBox(box: PdfBox): PdfBox {
+  return {
+    left: Math.min(box.left, box.right),
+    bottom: Math.min(box.bottom, box.top),
+    right: Math.max(box.left, box.right),
+    top: Math.max(box.bottom, box.top)
+  };
+}
+
+function intersectBoxes(a: PdfBox, b: PdfBox): PdfBox {
+  return {
+    left: Math.max(a.left, b.left),
+    bottom: Math.max(a.bottom, b.bottom),
+    right: Math.min(a.right, b.right),
+    top: Math.min(a.top, b.top)
+  };
+}
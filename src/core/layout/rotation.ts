@@ -0,0 +1,135 @@
+/**
+ * Page rotation
+ *
+ * Decides how each page is turned on the sheet, either from an explicit
+ * per-page override or by matching the page orientation to the area it is
+ * printed on. Rotations are clockwise, in degrees.
+ *
+ * @example
+ * ```typescript
+ * // Landscape table on portrait paper
+ * resolvePageRotation({ pageWidth: 792, pageHeight: 612, area, autoRotate: true }); // 270
+ * ```
+ */
+
+import type { PageRotation } from '../types';
+import { InvalidOptionError } from '../errors';
+import type { Rect } from './scaling';
+
+const PAGE_ROTATIONS: readonly number[] = [0, 90, 180, 270];
+
+// Landscape pages are turned counter-clockwise, like driver landscape mode
+const AUTO_ROTATION: PageRotation = 270;
+
+export interface PageRotationInput {
+  /** Page width in points */
+  pageWidth: number;
+  /** Page height in points */
+  pageHeight: number;
+  /** Area the page is printed on (any unit) */
+  area: { width: number; height: number };
+  /** Rotate pages whose orientation differs from the area */
+  autoRotate?: boolean;
+  /** Explicit rotation for this page; wins over autoRotate */
+  override?: PageRotation;
+}
+
+/**
+ * Check that a pageRotation option only contains 0, 90, 180 or 270 and valid page numbers
+ * @throws InvalidOptionError if it does not
+ */
+export function validatePageRotation(option: PageRotation | Record<number, PageRotation> | undefined): void {
+  if (option === undefined) {
+    return;
+  }
+
+  if (typeof option === 'number') {
+    assertRotation(option);
+    return;
+  }
+
+  for (const [key, rotation] of Object.entries(option)) {
+    const pageNumber = Number(key);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+      throw new InvalidOptionError(`Invalid page number in pageRotation: ${key}`, 'pageRotation');
+    }
+    assertRotation(rotation);
+  }
+}
+
+/**
+ * Look up the rotation override for a page
+ * @param option - A rotation for every page, or rotations keyed by 1-based page number
+ * @param pageIndex - Zero-based page index
+ */
+export function getPageRotationOverride(
+  option: PageRotation | Record<number, PageRotation> | undefined,
+  pageIndex: number
+): PageRotation | undefined {
+  if (option === undefined || typeof option === 'number') {
+    return option;
+  }
+  return option[pageIndex + 1];
+}
+
+/**
+ * Decide the rotation of a page
+ */
+export function resolvePageRotation(input: PageRotationInput): PageRotation {
+  if (input.override !== undefined) {
+    assertRotation(input.override);
+    return input.override;
+  }
+
+  if (!input.autoRotate) {
+    return 0;
+  }
+
+  const pageLandscape = input.pageWidth > input.pageHeight;
+  const pagePortrait = input.pageWidth < input.pageHeight;
+  const areaLandscape = input.area.width > input.area.height;
+  const areaPortrait = input.area.width < input.area.height;
+
+  // Square pages and areas never need turning
+  return (pageLandscape && areaPortrait) || (pagePortrait && areaLandscape) ? AUTO_ROTATION : 0;
+}
+
+/**
+ * Page size after rotation
+ */
+export function rotateSize(width: number, height: number, rotation: PageRotation): { width: number; height: number } {
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Convert a clockwise rotation in degrees to the FPDF_RenderPageBitmap `rotate` argument
+ * (0 = normal, 1 = 90° clockwise, 2 = 180°, 3 = 90° counter-clockwise)
+ */
+export function toPdfiumRotation(rotation: PageRotation): number {
+  return rotation / 90;
+}
+
+/**
+ * Add two clockwise rotations
+ */
+export function addRotations(a: PageRotation, b: PageRotation): PageRotation {
+  return ((a + b) % 360) as PageRotation;
+}
+
+/**
+ * Position of a rectangle after turning its frame upside down
+ */
+export function rotateRect180(rect: Rect, frame: Rect): Rect {
+  return {
+    x: 2 * frame.x + frame.width - rect.x - rect.width,
+    y: 2 * frame.y + frame.height - rect.y - rect.height,
+    width: rect.width,
+    height: rect.height
+  };
+}
+
+function assertRotation(rotation: number): void {
+  if (!PAGE_ROTATIONS.includes(rotation)) {
+    throw new InvalidOptionError(`Invalid page rotation: ${rotation} (expected 0, 90, 180 or 270)`, 'pageRotation');
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Page scaling geometry
+ *
+ * Computes where a PDF page lands on the printable area of a device for each
+ * scaling mode, and which part of it has to be rendered. Results are in device
+ * pixels with the origin at the top-left corner of the printable area.
+ *
+ * @example
+ * ```typescript
+ * // Letter page at 100% on a 300 DPI printer
+ * const placement = computePagePlacement({
+ *   pageWidth: 612,
+ *   pageHeight: 792,
+ *   area: { x: 0, y: 0, width: 2400, height: 3150 },
+ *   dpiX: 300,
+ *   dpiY: 300,
+ *   scaling: 'actualSize'
+ * });
+ * placement.page; // { x: -75, y: -75, width: 2550, height: 3300 }
+ * ```
+ */
+
+import type { ScalingMode } from '../types';
+import { InvalidOptionError } from '../errors';
+
+/** PDF user space unit: 1 point = 1/72 inch */
+export const POINTS_PER_INCH = 72;
+
+/**
+ * Axis-aligned rectangle in device pixels
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PagePlacementInput {
+  /** Page width in points */
+  pageWidth: number;
+  /** Page height in points */
+  pageHeight: number;
+  /** Area the page is scaled into and centered on, in device pixels */
+  area: Rect;
+  /** Nothing outside this rectangle is visible (defaults to `area`) */
+  clip?: Rect;
+  /** Horizontal device resolution */
+  dpiX: number;
+  /** Vertical device resolution */
+  dpiY: number;
+  /** @default 'fit' */
+  scaling?: ScalingMode;
+}
+
+export interface PagePlacement {
+  /** Scale relative to true size (1 = 100%) */
+  scale: number;
+  /** The whole page on the device; may extend past the area */
+  page: Rect;
+  /** The part of the page inside the clip area (empty when they do not overlap) */
+  visible: Rect;
+}
+
+/**
+ * Bitmap and PDFium render parameters for a placement
+ * PDFium renders the whole page at `pageWidth` x `pageHeight` pixels, shifted
+ * by (-offsetX, -offsetY), into a bitmap that only covers the visible part.
+ */
+export interface RenderViewport {
+  bitmapWidth: number;
+  bitmapHeight: number;
+  pageWidth: number;
+  pageHeight: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+const SCALING_MODES: readonly string[] = ['fit', 'fill', 'actualSize', 'shrinkToFit'];
+
+/**
+ * Check that a scaling option is a known mode or a positive percentage
+ * @throws InvalidOptionError if it is not
+ */
+export function validateScaling(scaling: ScalingMode | undefined): void {
+  if (scaling === undefined) {
+    return;
+  }
+  if (typeof scaling === 'number') {
+    if (!Number.isFinite(scaling) || scaling <= 0) {
+      throw new InvalidOptionError(`Invalid scaling percentage: ${scaling}`, 'scaling');
+    }
+    return;
+  }
+  if (!SCALING_MODES.includes(scaling)) {
+    throw new InvalidOptionError(`Invalid scaling mode: ${String(scaling)}`, 'scaling');
+  }
+}
+
+/**
+ * Resolve a scaling mode to a scale factor relative to true size
+ * @param scaling - Scaling mode or percentage
+ * @param naturalWidth - Page width at 100%, in device pixels
+ * @param naturalHeight - Page height at 100%, in device pixels
+ * @param area - Area the page must fit into or cover
+ * @throws InvalidOptionError for unknown modes and non-positive percentages
+ */
+export function resolveScale(
+  scaling: ScalingMode,
+  naturalWidth: number,
+  naturalHeight: number,
+  area: { width: number; height: number }
+): number {
+  validateScaling(scaling);
+
+  const fitScale = Math.min(area.width / naturalWidth, area.height / naturalHeight);
+
+  if (typeof scaling === 'number') {
+    return scaling / 100;
+  }
+
+  switch (scaling) {
+    case 'fit':
+      return fitScale;
+    case 'fill':
+      return Math.max(area.width / naturalWidth, area.height / naturalHeight);
+    case 'actualSize':
+      return 1;
+    case 'shrinkToFit':
+    default:
+      return Math.min(1, fitScale);
+  }
+}
+
+/**
+ * Place a page on an area, centered, using the requested scaling mode
+ */
+export function computePagePlacement(input: PagePlacementInput): PagePlacement {
+  const { pageWidth, pageHeight, area, dpiX, dpiY } = input;
+
+  if (!(pageWidth > 0) || !(pageHeight > 0)) {
+    throw new InvalidOptionError(`Invalid page size: ${pageWidth}x${pageHeight} points`, 'scaling');
+  }
+
+  const naturalWidth = (pageWidth / POINTS_PER_INCH) * dpiX;
+  const naturalHeight = (pageHeight / POINTS_PER_INCH) * dpiY;
+  const scale = resolveScale(input.scaling ?? 'fit', naturalWidth, naturalHeight, area);
+
+  const width = Math.round(naturalWidth * scale);
+  const height = Math.round(naturalHeight * scale);
+  const page: Rect = {
+    x: area.x + Math.round((area.width - width) / 2),
+    y: area.y + Math.round((area.height - height) / 2),
+    width,
+    height
+  };
+
+  return { scale, page, visible: intersectRects(page, input.clip ?? area) };
+}
+
+/**
+ * Convert a placement to render-resolution pixels
+ * @param placement - Placement in device pixels
+ * @param scaleX - Render pixels per device pixel, horizontally (renderDpi / dpiX)
+ * @param scaleY - Render pixels per device pixel, vertically (renderDpi / dpiY)
+ */
+export function computeRenderViewport(placement: PagePlacement, scaleX: number, scaleY: number): RenderViewport {
+  const { page, visible } = placement;
+
+  return {
+    bitmapWidth: Math.max(1, Math.round(visible.width * scaleX)),
+    bitmapHeight: Math.max(1, Math.round(visible.height * scaleY)),
+    pageWidth: Math.max(1, Math.round(page.width * scaleX)),
+    pageHeight: Math.max(1, Math.round(page.height * scaleY)),
+    offsetX: Math.round((visible.x - page.x) * scaleX),
+    offsetY: Math.round((visible.y - page.y) * scaleY)
+  };
+}
+
+/**
+ * Intersection of two rectangles (zero-sized when they do not overlap)
+ */
+export function intersectRects(a: Rect, b: Rect): Rect {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+
+  return {
+    x,
+    y,
+    width: Math.max(0, right - x),
+    height: Math.max(0, bottom - y)
+  };
+}
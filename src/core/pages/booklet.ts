@@ -0,0 +1,39 @@
+/**
+ * Booklet imposition
+ *
+ * Orders pages for a saddle-stitched booklet: sheets are printed on both
+ * sides with two pages per side, then stacked, folded in the middle and
+ * stapled on the fold. The page count is padded with blank pages to a multiple
+ * of four, since each folded sheet carries four pages.
+ *
+ * @example
+ * ```typescript
+ * imposeBooklet([0, 1, 2, 3, 4, 5, 6, 7]);
+ * // [[7, 0], [1, 6], [5, 2], [3, 4]]
+ * //  front   back    front   back
+ * ```
+ */
+
+/**
+ * Impose pages in booklet order
+ *
+ * Each entry is one side of a sheet holding its [left, right] pages; sides
+ * alternate front and back. Blank pages are `null`.
+ *
+ * @param pageIndices - Pages of the booklet in reading order
+ * @returns Sides in print order
+ */
+export function imposeBooklet<T>(pageIndices: T[]): Array<[T | null, T | null]> {
+  const paddedCount = Math.ceil(pageIndices.length / 4) * 4;
+  const pageAt = (position: number): T | null => (position < pageIndices.length ? pageIndices[position] : null);
+
+  const sides: Array<[T | null, T | null]> = [];
+  for (let sheet = 0; sheet < paddedCount / 4; sheet++) {
+    const outer = 2 * sheet;
+    const inner = paddedCount - 1 - 2 * sheet;
+    sides.push([pageAt(inner), pageAt(outer)]);
+    sides.push([pageAt(outer + 1), pageAt(inner - 1)]);
+  }
+
+  return sides;
+}
@@ -0,0 +1,74 @@
+/**
+ * Copy production
+ *
+ * Decides whether copies are produced by the printer driver (DEVMODE
+ * dmCopies, one set spooled) or by spooling every copy again. Driver copies
+ * keep spool size and time independent of the copy count, but only work when
+ * the driver can make the requested number of copies, collated if needed.
+ *
+ * @example
+ * ```typescript
+ * resolveCopiesMode('auto', { copies: 3, collate: true }, { maxCopies: 999, collate: false }); // 'software'
+ * ```
+ */
+
+import type { CopiesMode } from '../types';
+import { InvalidOptionError } from '../errors';
+
+const COPIES_MODES: readonly string[] = ['driver', 'software', 'auto'];
+
+/**
+ * Copies requested for a job
+ */
+export interface CopiesRequest {
+  copies: number;
+  collate: boolean;
+}
+
+/**
+ * Copy capabilities reported by the driver (DC_COPIES, DC_COLLATE)
+ */
+export interface CopiesSupport {
+  maxCopies: number;
+  collate: boolean;
+}
+
+/**
+ * Check that a copiesMode option is 'driver', 'software' or 'auto'
+ * @throws InvalidOptionError if it is not
+ */
+export function validateCopiesMode(mode: CopiesMode | undefined): void {
+  if (mode !== undefined && !COPIES_MODES.includes(mode)) {
+    throw new InvalidOptionError(`Invalid copies mode: ${String(mode)} (expected 'driver', 'software' or 'auto')`, 'copiesMode');
+  }
+}
+
+/**
+ * Decide who produces the copies of a job
+ *
+ * 'driver' always hands copies to the driver; 'auto' does so only when the
+ * reported capabilities cover the request and falls back to software copies
+ * otherwise. A single copy is always printed in software.
+ *
+ * @param mode - Requested mode (default: 'software')
+ * @param request - Copies and collation requested
+ * @param support - Driver capabilities; required for 'auto' to pick the driver
+ */
+export function resolveCopiesMode(
+  mode: CopiesMode | undefined,
+  request: CopiesRequest,
+  support?: CopiesSupport
+): 'driver' | 'software' {
+  validateCopiesMode(mode);
+
+  if (mode === undefined || mode === 'software' || request.copies <= 1) {
+    return 'software';
+  }
+  if (mode === 'driver') {
+    return 'driver';
+  }
+
+  return support !== undefined && support.maxCopies >= request.copies && (!request.collate || support.collate)
+    ? 'driver'
+    : 'software';
+}
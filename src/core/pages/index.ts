@@ -0,0 +1,11 @@
+/**
+ * Page sequencing module exports
+ *
+ * Pure helpers that decide which document pages are printed and in which order
+ */
+
+export { parsePageSelection } from './page-selection';
+export { imposeBooklet } from './booklet';
+export { pairDuplexSides, planManualDuplex, type DuplexSheet } from './manual-duplex';
+export { validatePageSubset, selectPageSubset, reverseSides } from './page-order';
+export { validateCopiesMode, resolveCopiesMode, type CopiesRequest, type CopiesSupport } from './copies';
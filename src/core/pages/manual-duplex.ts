@@ -0,0 +1,53 @@
+/**
+ * Manual duplex planning
+ *
+ * Splits the sides of a document into two passes for printers without duplex
+ * hardware: the fronts of every sheet first, then, once the user has turned
+ * the stack over, the backs. Back sides are normally printed last sheet first
+ * so they line up with a stack that came out face down.
+ *
+ * @example
+ * ```typescript
+ * const sheets = pairDuplexSides(['p1', 'p2', 'p3']);
+ * planManualDuplex(sheets);
+ * // { fronts: ['p1', 'p3'], backs: [null, 'p2'] }
+ * ```
+ */
+
+/**
+ * The two sides of a physical sheet; `back` is null when it stays blank
+ */
+export interface DuplexSheet<T> {
+  front: T;
+  back: T | null;
+}
+
+/**
+ * Pair consecutive sides into sheets
+ * An odd number of sides leaves the back of the last sheet blank.
+ */
+export function pairDuplexSides<T>(sides: T[]): Array<DuplexSheet<T>> {
+  const sheets: Array<DuplexSheet<T>> = [];
+  for (let index = 0; index < sides.length; index += 2) {
+    sheets.push({ front: sides[index], back: index + 1 < sides.length ? sides[index + 1] : null });
+  }
+  return sheets;
+}
+
+/**
+ * Split sheets into the front and back passes
+ *
+ * Blank backs are kept as `null` so each back still lands on its own sheet.
+ *
+ * @param sheets - Sheets in the order their fronts are printed
+ * @param reverseBacks - Print backs last sheet first (default: true)
+ */
+export function planManualDuplex<T>(
+  sheets: Array<DuplexSheet<T>>,
+  reverseBacks = true
+): { fronts: T[]; backs: Array<T | null> } {
+  const fronts = sheets.map(sheet => sheet.front);
+  const backs = sheets.map(sheet => sheet.back);
+
+  return { fronts, backs: reverseBacks ? backs.reverse() : backs };
+}
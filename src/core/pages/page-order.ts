@@ -0,0 +1,76 @@
+/**
+ * Page subsets and reverse order
+ *
+ * Narrows the pages to print to the odd or even ones, and reverses the order
+ * sides come out of the printer for output trays that stack face up. Two-sided
+ * output is reversed sheet by sheet so fronts and backs stay together.
+ *
+ * @example
+ * ```typescript
+ * selectPageSubset([0, 1, 2, 3, 4], 'odd');  // [0, 2, 4]
+ * reverseSides([[0], [1], [2]], true);       // [[2], null, [0], [1]]
+ * ```
+ */
+
+import type { PageSubset } from '../types';
+import { InvalidOptionError } from '../errors';
+
+const PAGE_SUBSETS: readonly string[] = ['all', 'odd', 'even'];
+
+/**
+ * Check that a pageSubset option is 'all', 'odd' or 'even'
+ * @throws InvalidOptionError if it is not
+ */
+export function validatePageSubset(subset: PageSubset | undefined): void {
+  if (subset !== undefined && !PAGE_SUBSETS.includes(subset)) {
+    throw new InvalidOptionError(`Invalid page subset: ${String(subset)} (expected 'all', 'odd' or 'even')`, 'pageSubset');
+  }
+}
+
+/**
+ * Keep the odd or even pages of a selection
+ *
+ * Pages are counted by their position in the selection, so 'odd' keeps the
+ * 1st, 3rd, 5th, ... page selected. Without a page selection this matches the
+ * odd page numbers of the document.
+ *
+ * @param pageIndices - Selected pages in print order
+ * @param subset - Pages to keep (default: 'all')
+ * @throws InvalidOptionError for an invalid subset or when no pages are left
+ */
+export function selectPageSubset<T>(pageIndices: T[], subset: PageSubset = 'all'): T[] {
+  validatePageSubset(subset);
+
+  if (subset === 'all') {
+    return pageIndices;
+  }
+
+  const remainder = subset === 'odd' ? 0 : 1;
+  const selected = pageIndices.filter((_, position) => position % 2 === remainder);
+  if (selected.length === 0) {
+    throw new InvalidOptionError(`No ${subset} pages to print`, 'pageSubset');
+  }
+  return selected;
+}
+
+/**
+ * Reverse the order sides are printed in
+ *
+ * For two-sided output the sheets are reversed instead, keeping each front
+ * before its back; an odd number of sides gets a blank (`null`) back on the
+ * last sheet so the pairing does not shift.
+ *
+ * @param sides - Sides in reading order
+ * @param twoSided - Sides are printed front and back
+ */
+export function reverseSides<T>(sides: T[], twoSided = false): Array<T | null> {
+  if (!twoSided) {
+    return [...sides].reverse();
+  }
+
+  const reversed: Array<T | null> = [];
+  for (let index = Math.ceil(sides.length / 2) * 2 - 2; index >= 0; index -= 2) {
+    reversed.push(sides[index], index + 1 < sides.length ? sides[index + 1] : null);
+  }
+  return reversed;
+}
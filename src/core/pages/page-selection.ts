@@ -0,0 +1,103 @@
+/**
+ * Page selection parsing
+ *
+ * Converts page selection expressions such as `"1-3,5,8-"` into an ordered
+ * list of zero-based page indices, validated against the document page count.
+ *
+ * Supported syntax (comma-separated, whitespace ignored):
+ * - `5`      - a single page (1-based)
+ * - `1-3`    - an inclusive range
+ * - `8-`     - from page 8 to the last page
+ * - `5-1`    - a reversed range (5, 4, 3, 2, 1)
+ * - `last`   - the last page
+ * - `-2`     - a page counted from the end (`-1` is the last page)
+ * - `-3--1`  - ranges may mix absolute, negative and `last` references
+ *
+ * @example
+ * ```typescript
+ * parsePageSelection('1-3,5,8-', 10); // [0, 1, 2, 4, 7, 8, 9]
+ * parsePageSelection('last-1', 3);    // [2, 1, 0]
+ * ```
+ */
+
+import { PageSelectionError } from '../errors';
+
+const PAGE_REFERENCE = '(last|-?\\d+)';
+const SEGMENT_PATTERN = new RegExp(`^${PAGE_REFERENCE}(?:(-)${PAGE_REFERENCE}?)?$`, 'i');
+
+/**
+ * Parse a page selection expression into zero-based page indices
+ *
+ * Pages are returned in the order they appear in the expression; repeated
+ * pages are kept so that `"1,1"` prints the first page twice.
+ *
+ * @param selection - Page selection expression (e.g. `"1-3,5,8-"`)
+ * @param pageCount - Number of pages in the document
+ * @returns Zero-based page indices in print order
+ * @throws PageSelectionError if the expression is malformed or references a page outside the document
+ */
+export function parsePageSelection(selection: string, pageCount: number): number[] {
+  if (!Number.isInteger(pageCount) || pageCount <= 0) {
+    throw new PageSelectionError(`Invalid page count: ${pageCount}`, selection);
+  }
+
+  const segments = selection.split(',').map(segment => segment.replace(/\s+/g, ''));
+  if (segments.every(segment => segment === '')) {
+    throw new PageSelectionError('Page selection is empty', selection);
+  }
+
+  const pages: number[] = [];
+
+  for (const segment of segments) {
+    if (segment === '') {
+      throw new PageSelectionError(`Invalid page selection "${selection}": empty segment`, selection);
+    }
+
+    const match = SEGMENT_PATTERN.exec(segment);
+    if (!match) {
+      throw new PageSelectionError(`Invalid page selection "${selection}": cannot parse "${segment}"`, selection);
+    }
+
+    const [, startRef, dash, endRef] = match;
+    const start = resolvePageReference(startRef, pageCount, selection);
+
+    if (!dash) {
+      pages.push(start);
+      continue;
+    }
+
+    // "8-" is an open range running to the last page
+    const end = endRef !== undefined ? resolvePageReference(endRef, pageCount, selection) : pageCount - 1;
+    const step = start <= end ? 1 : -1;
+    for (let page = start; page !== end + step; page += step) {
+      pages.push(page);
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Resolve a single page reference (`5`, `-2`, `last`) to a zero-based index
+ */
+function resolvePageReference(reference: string, pageCount: number, selection: string): number {
+  if (reference.toLowerCase() === 'last') {
+    return pageCount - 1;
+  }
+
+  const value = parseInt(reference, 10);
+  if (value === 0) {
+    throw new PageSelectionError(`Invalid page selection "${selection}": page numbers start at 1`, selection);
+  }
+
+  const index = value > 0 ? value - 1 : pageCount + value;
+  if (index < 0 || index >= pageCount) {
+    throw new PageSelectionError(
+      `Invalid page selection "${selection}": page ${reference} is out of range ` +
+      `(document has ${pageCount} page${pageCount === 1 ? '' : 's'})`,
+      selection
+    );
+  }
+
+  return index;
+}
@@ -0,0 +1,43 @@
+/**
+ * Spooler datatype negotiation for raw jobs
+ *
+ * The print processor of a queue lists the datatypes it accepts
+ * (EnumPrintProcessorDatatypes). Raw jobs use `RAW`, or a variant such as
+ * `RAW [FF appended]` when the processor only offers those.
+ */
+
+import { InvalidOptionError } from '../errors';
+
+/** Datatype of printer-ready data that the print processor passes through unchanged */
+export const RAW_DATATYPE = 'RAW';
+
+/**
+ * Choose the datatype of a raw job
+ * @param supported - Datatypes of the printer's print processor; empty when they could not be read
+ * @param requested - Datatype asked for by the caller
+ * @returns The requested datatype as spelled by the print processor, else `RAW` or the first `RAW` variant
+ * @throws InvalidOptionError if the requested datatype is not supported
+ */
+export function selectRawDatatype(supported: string[], requested?: string): string {
+  if (requested !== undefined) {
+    if (typeof requested !== 'string' || requested.trim() === '') {
+      throw new InvalidOptionError(`Invalid datatype: ${String(requested)}`, 'datatype');
+    }
+    if (supported.length === 0) {
+      return requested;
+    }
+    const match = supported.find(name => name.toUpperCase() === requested.toUpperCase());
+    if (!match) {
+      throw new InvalidOptionError(
+        `Datatype '${requested}' is not supported by the print processor (supported: ${supported.join(', ')})`,
+        'datatype'
+      );
+    }
+    return match;
+  }
+
+  const raw = supported.find(name => name.toUpperCase() === RAW_DATATYPE)
+    ?? supported.find(name => name.toUpperCase().startsWith(RAW_DATATYPE));
+  // Every Windows print processor accepts RAW; use it when the list is unavailable
+  return raw ?? RAW_DATATYPE;
+}
@@ -0,0 +1,8 @@
+/**
+ * Raw printing module exports
+ *
+ * Pure helpers that decide how printer-ready data is sent to the spooler
+ */
+
+export { detectPrintLanguage, isPdfDocument, type PrintLanguage } from './print-language';
+export { RAW_DATATYPE, selectRawDatatype } from './datatype';
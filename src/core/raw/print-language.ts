@@ -0,0 +1,118 @@
+/**
+ * Print language detection
+ *
+ * Identifies the page description language of a printer-ready payload from
+ * its first bytes, so PDFs can be rendered and everything else sent to the
+ * printer unchanged.
+ *
+ * @example
+ * ```typescript
+ * detectPrintLanguage(Buffer.from('^XA^FO50,50^ADN,36,20^FDHello^FS^XZ')); // 'zpl'
+ * ```
+ */
+
+/**
+ * Page description language of a raw payload
+ * - 'pdf' - Portable Document Format
+ * - 'postscript' - Adobe PostScript
+ * - 'pcl' - HP PCL 3/4/5
+ * - 'pclxl' - HP PCL 6 (PCL XL)
+ * - 'zpl' - Zebra Programming Language
+ * - 'epl' - Eltron Programming Language (EPL2)
+ * - 'unknown' - none of the above; sent to the printer as it is
+ */
+export type PrintLanguage = 'pdf' | 'postscript' | 'pcl' | 'pclxl' | 'zpl' | 'epl' | 'unknown';
+
+// PDF readers accept junk before the header within the first kilobyte
+const PDF_HEADER_WINDOW = 1024;
+
+// Bytes inspected to identify the other languages
+const SNIFF_WINDOW = 4096;
+
+// Setup commands an EPL2 label starts with
+const EPL_FIRST_LINE = /^(N|q\d+|Q\d+(,\d+)*|O[A-Z]*|S\d|D\d{1,2}|Z[TB]|R\d+,\d+)\r?\n/;
+
+// Universal Exit Language sequence that starts PJL job streams
+const UEL = '\x1B%-12345X';
+
+// PJL `ENTER LANGUAGE` names
+const PJL_LANGUAGES: Record<string, PrintLanguage> = {
+  PDF: 'pdf',
+  POSTSCRIPT: 'postscript',
+  PCL: 'pcl',
+  PCLXL: 'pclxl',
+  ZPL: 'zpl',
+  EPL: 'epl'
+};
+
+/**
+ * Whether the data is a bare PDF file that has to be rendered before printing
+ * PJL-wrapped PDFs are printer job streams and return false.
+ */
+export function isPdfDocument(data: Buffer): boolean {
+  return !startsWithUel(data) && data.subarray(0, PDF_HEADER_WINDOW).includes('%PDF-', 0, 'latin1');
+}
+
+/**
+ * Detect the page description language of printer-ready data
+ * PJL job streams report the language they switch to with `ENTER LANGUAGE`,
+ * or the language of the data following the PJL commands.
+ */
+export function detectPrintLanguage(data: Buffer): PrintLanguage {
+  if (startsWithUel(data)) {
+    return detectPjlLanguage(data);
+  }
+  if (isPdfDocument(data)) {
+    return 'pdf';
+  }
+
+  // PostScript printed from Windows applications may start with a Ctrl-D
+  const text = data.subarray(0, SNIFF_WINDOW).toString('latin1').replace(/^\x04/, '');
+  if (text.startsWith('%!')) {
+    return 'postscript';
+  }
+  // PCL XL stream header: the first character gives the byte order
+  if (/^[()'] HP-PCL XL;/.test(text)) {
+    return 'pclxl';
+  }
+  if (/^\x1B[E&*()]/.test(text)) {
+    return 'pcl';
+  }
+
+  const trimmed = text.replace(/^[\s\x00]+/, '');
+  // ZPL labels start with ^XA, possibly after ~ or ^ setup commands
+  if (trimmed.startsWith('^XA') || (/^[~^][A-Z]{2}/.test(trimmed) && trimmed.includes('^XA'))) {
+    return 'zpl';
+  }
+  // EPL2 labels start with a setup command (usually N, clear the image buffer) and end with P<count>
+  if (EPL_FIRST_LINE.test(trimmed) && /^P\d+(,\d+)?\r?$/m.test(trimmed)) {
+    return 'epl';
+  }
+  return 'unknown';
+}
+
+function startsWithUel(data: Buffer): boolean {
+  return data.subarray(0, UEL.length).toString('latin1') === UEL;
+}
+
+/**
+ * Language of a PJL job stream
+ */
+function detectPjlLanguage(data: Buffer): PrintLanguage {
+  const text = data.subarray(UEL.length, UEL.length + SNIFF_WINDOW).toString('latin1');
+  const enter = /@PJL\s+ENTER\s+LANGUAGE\s*=\s*([A-Z0-9]+)/i.exec(text);
+  if (enter) {
+    return PJL_LANGUAGES[enter[1].toUpperCase()] ?? 'unknown';
+  }
+
+  // Without ENTER LANGUAGE the printer detects the language of the data after the PJL lines, if any
+  let offset = UEL.length;
+  while (data.subarray(offset, offset + 4).toString('latin1').toUpperCase() === '@PJL') {
+    const end = data.indexOf(0x0A, offset);
+    if (end < 0) {
+      return 'unknown';
+    }
+    offset = end + 1;
+  }
+  return offset < data.length ? detectPrintLanguage(data.subarray(offset)) : 'unknown';
+}
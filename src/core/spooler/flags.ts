@@ -0,0 +1,26 @@
+/**
+ * Bitmask decoding shared by the spooler status modules
+ */
+
+/**
+ * Map each named bit of a Win32 bitmask to a boolean
+ */
+export function decodeFlags<K extends string>(value: number, bits: Record<K, number>): Record<K, boolean> {
+  const flags = {} as Record<K, boolean>;
+  for (const name of Object.keys(bits) as K[]) {
+    flags[name] = (value & bits[name]) !== 0;
+  }
+  return flags;
+}
+
+/**
+ * Join the labels of the set flags in display order, or return `fallback` when none is set
+ */
+export function describeFlags<K extends string>(
+  flags: Record<K, boolean>,
+  labels: ReadonlyArray<readonly [K, string]>,
+  fallback: string
+): string {
+  const set = labels.filter(([flag]) => flags[flag]).map(([, label]) => label);
+  return set.length > 0 ? set.join(', ') : fallback;
+}
@@ -0,0 +1,9 @@
+/**
+ * Spooler status module exports
+ *
+ * Pure helpers that decode the status bitmasks reported by the print spooler
+ */
+
+export { decodeJobStatus, describeJobStatus } from './job-status';
+export { decodePrinterStatus, describePrinterStatus, isPrinterReady } from './printer-status';
+export { decodePrinterAttributes } from './printer-attributes';
@@ -0,0 +1,65 @@
+/**
+ * Spooler job status
+ *
+ * Decodes the JOB_STATUS_* bits of JOB_INFO_1W.Status and summarizes them
+ * as the text shown for a job in the print queue.
+ *
+ * @example
+ * ```typescript
+ * describeJobStatus(decodeJobStatus(0x0050)); // 'Paper out, Printing'
+ * ```
+ */
+
+import type { JobStatusFlags } from '../types';
+import { decodeFlags, describeFlags } from './flags';
+
+// JOB_STATUS_* bits
+const JOB_STATUS_BITS: Record<keyof JobStatusFlags, number> = {
+  paused: 0x00000001,
+  error: 0x00000002,
+  deleting: 0x00000004,
+  spooling: 0x00000008,
+  printing: 0x00000010,
+  offline: 0x00000020,
+  paperOut: 0x00000040,
+  printed: 0x00000080,
+  deleted: 0x00000100,
+  blocked: 0x00000200, // JOB_STATUS_BLOCKED_DEVQ
+  userIntervention: 0x00000400,
+  restarting: 0x00000800, // JOB_STATUS_RESTART
+  complete: 0x00001000,
+  retained: 0x00002000
+};
+
+// Human-readable labels for the status summary, in display order
+const JOB_STATUS_LABELS: Array<[keyof JobStatusFlags, string]> = [
+  ['error', 'Error'],
+  ['offline', 'Offline'],
+  ['paperOut', 'Paper out'],
+  ['userIntervention', 'User intervention required'],
+  ['blocked', 'Blocked'],
+  ['paused', 'Paused'],
+  ['deleting', 'Deleting'],
+  ['deleted', 'Deleted'],
+  ['restarting', 'Restarting'],
+  ['spooling', 'Spooling'],
+  ['printing', 'Printing'],
+  ['printed', 'Printed'],
+  ['complete', 'Sent to printer'],
+  ['retained', 'Retained']
+];
+
+/**
+ * Decode JOB_STATUS_* bits
+ */
+export function decodeJobStatus(status: number): JobStatusFlags {
+  return decodeFlags(status, JOB_STATUS_BITS);
+}
+
+/**
+ * Summarize status flags, e.g. "Paper out, Printing"
+ * A job with no flag set is waiting in the queue.
+ */
+export function describeJobStatus(flags: JobStatusFlags): string {
+  return describeFlags(flags, JOB_STATUS_LABELS, 'Queued');
+}
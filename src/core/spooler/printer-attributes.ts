@@ -0,0 +1,41 @@
+/**
+ * Printer attributes
+ *
+ * Decodes the PRINTER_ATTRIBUTE_* bits of PRINTER_INFO_2W.Attributes: how the
+ * queue is configured, as opposed to its current status.
+ *
+ * @example
+ * ```typescript
+ * decodePrinterAttributes(0x0448); // { shared: true, local: true, workOffline: true, ... }
+ * ```
+ */
+
+import type { PrinterAttributeFlags } from '../types';
+import { decodeFlags } from './flags';
+
+// PRINTER_ATTRIBUTE_* bits
+const PRINTER_ATTRIBUTE_BITS: Record<keyof PrinterAttributeFlags, number> = {
+  queued: 0x00000001,
+  direct: 0x00000002,
+  default: 0x00000004,
+  shared: 0x00000008,
+  network: 0x00000010,
+  hidden: 0x00000020,
+  local: 0x00000040,
+  enableDevQ: 0x00000080,
+  keepPrintedJobs: 0x00000100,
+  doCompleteFirst: 0x00000200,
+  workOffline: 0x00000400,
+  enableBidi: 0x00000800,
+  rawOnly: 0x00001000,
+  published: 0x00002000,
+  fax: 0x00004000,
+  terminalServices: 0x00008000 // PRINTER_ATTRIBUTE_TS
+};
+
+/**
+ * Decode PRINTER_ATTRIBUTE_* bits
+ */
+export function decodePrinterAttributes(attributes: number): PrinterAttributeFlags {
+  return decodeFlags(attributes, PRINTER_ATTRIBUTE_BITS);
+}
@@ -0,0 +1,121 @@
+/**
+ * Printer status
+ *
+ * Decodes the PRINTER_STATUS_* bits of PRINTER_INFO_2W.Status, summarizes
+ * them and decides whether the printer can accept work.
+ *
+ * @example
+ * ```typescript
+ * const flags = decodePrinterStatus(0x00020010);
+ * describePrinterStatus(flags); // 'Paper out, Toner low'
+ * isPrinterReady(flags, false); // false
+ * ```
+ */
+
+import type { PrinterStatusFlags } from '../types';
+import { decodeFlags, describeFlags } from './flags';
+
+// PRINTER_STATUS_* bits
+const PRINTER_STATUS_BITS: Record<keyof PrinterStatusFlags, number> = {
+  paused: 0x00000001,
+  error: 0x00000002,
+  pendingDeletion: 0x00000004,
+  paperJam: 0x00000008,
+  paperOut: 0x00000010,
+  manualFeed: 0x00000020,
+  paperProblem: 0x00000040,
+  offline: 0x00000080,
+  ioActive: 0x00000100,
+  busy: 0x00000200,
+  printing: 0x00000400,
+  outputBinFull: 0x00000800,
+  notAvailable: 0x00001000,
+  waiting: 0x00002000,
+  processing: 0x00004000,
+  initializing: 0x00008000,
+  warmingUp: 0x00010000,
+  tonerLow: 0x00020000,
+  noToner: 0x00040000,
+  pagePunt: 0x00080000,
+  userIntervention: 0x00100000,
+  outOfMemory: 0x00200000,
+  doorOpen: 0x00400000,
+  serverUnknown: 0x00800000,
+  powerSave: 0x01000000,
+  serverOffline: 0x02000000,
+  driverUpdateNeeded: 0x04000000
+};
+
+// Human-readable labels for the status summary, in display order
+const PRINTER_STATUS_LABELS: Array<[keyof PrinterStatusFlags, string]> = [
+  ['error', 'Error'],
+  ['offline', 'Offline'],
+  ['serverOffline', 'Server offline'],
+  ['serverUnknown', 'Server unknown'],
+  ['notAvailable', 'Not available'],
+  ['paused', 'Paused'],
+  ['pendingDeletion', 'Pending deletion'],
+  ['paperJam', 'Paper jam'],
+  ['paperOut', 'Paper out'],
+  ['paperProblem', 'Paper problem'],
+  ['manualFeed', 'Manual feed required'],
+  ['doorOpen', 'Door open'],
+  ['noToner', 'No toner'],
+  ['tonerLow', 'Toner low'],
+  ['outputBinFull', 'Output bin full'],
+  ['outOfMemory', 'Out of memory'],
+  ['pagePunt', 'Page punt'],
+  ['userIntervention', 'User intervention required'],
+  ['driverUpdateNeeded', 'Driver update needed'],
+  ['initializing', 'Initializing'],
+  ['warmingUp', 'Warming up'],
+  ['powerSave', 'Power save'],
+  ['busy', 'Busy'],
+  ['processing', 'Processing'],
+  ['printing', 'Printing'],
+  ['ioActive', 'I/O active'],
+  ['waiting', 'Waiting']
+];
+
+// Status flags that prevent the printer from accepting work
+const NOT_READY_FLAGS: Array<keyof PrinterStatusFlags> = [
+  'paused',
+  'error',
+  'pendingDeletion',
+  'paperJam',
+  'paperOut',
+  'paperProblem',
+  'offline',
+  'outputBinFull',
+  'notAvailable',
+  'noToner',
+  'userIntervention',
+  'outOfMemory',
+  'doorOpen',
+  'serverUnknown',
+  'serverOffline'
+];
+
+/**
+ * Decode PRINTER_STATUS_* bits
+ */
+export function decodePrinterStatus(status: number): PrinterStatusFlags {
+  return decodeFlags(status, PRINTER_STATUS_BITS);
+}
+
+/**
+ * Summarize status flags, e.g. "Paper jam, Toner low"
+ */
+export function describePrinterStatus(flags: PrinterStatusFlags): string {
+  return describeFlags(flags, PRINTER_STATUS_LABELS, 'Ready');
+}
+
+/**
+ * Whether a printer can accept work
+ * Busy, printing, warming up and low toner do not stop a printer; errors, paper
+ * problems, pauses and a queue set to "Use Printer Offline" do.
+ * @param workOffline - PRINTER_ATTRIBUTE_WORK_OFFLINE is set
+ */
+export function isPrinterReady(flags: PrinterStatusFlags, workOffline: boolean): boolean {
+  return !workOffline && !NOT_READY_FLAGS.some(flag => flags[flag]);
+}
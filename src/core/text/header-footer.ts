@@ -0,0 +1,49 @@
+/**
+ * Headers and footers of printed text
+ *
+ * A header or footer is one line with up to three tab-separated parts:
+ * left-aligned, centered and right-aligned.
+ *
+ * @example
+ * ```typescript
+ * formatHeaderFooter('server.log\t\tPage {page} of {pages}', { page: 2, pages: 5, documentName: 'server.log' });
+ * // { left: 'server.log', center: '', right: 'Page 2 of 5' }
+ * ```
+ */
+
+import type { TextHeaderFooter, TextPageInfo } from '../types';
+
+export interface HeaderFooterParts {
+  left: string;
+  center: string;
+  right: string;
+}
+
+/**
+ * Fill in the placeholders of a header or footer and split it into its aligned parts
+ * `{date}` is today's date in the local format, unless `date` is given.
+ */
+export function formatHeaderFooter(
+  template: TextHeaderFooter,
+  info: TextPageInfo,
+  date: Date = new Date()
+): HeaderFooterParts {
+  const line = typeof template === 'function'
+    ? String(template(info) ?? '')
+    : template.replace(/\{(page|pages|documentName|date)\}/g, (_, name: string) => {
+      switch (name) {
+        case 'page':
+          return String(info.page);
+        case 'pages':
+          return String(info.pages);
+        case 'documentName':
+          return info.documentName;
+        default:
+          return date.toLocaleDateString();
+      }
+    });
+
+  // Headers are a single line; line breaks would print on top of the body
+  const [left = '', center = '', ...right] = line.replace(/[\r\n]+/g, ' ').split('\t');
+  return { left, center, right: right.join(' ') };
+}
@@ -0,0 +1,21 @@
+/**
+ * Text printing module exports
+ *
+ * Pure helpers that lay out plain text on printed pages
+ */
+
+export {
+  DEFAULT_TEXT_FONT,
+  DEFAULT_FONT_SIZE,
+  DEFAULT_TAB_WIDTH,
+  validateTextOptions,
+  computeLinesPerPage,
+  expandTabs,
+  wrapLine,
+  paginateText,
+  type MeasureText,
+  type TextLine,
+  type TextLayout,
+  type PaginateTextOptions
+} from './pagination';
+export { formatHeaderFooter, type HeaderFooterParts } from './header-footer';
@@ -0,0 +1,236 @@
+/**
+ * Plain-text pagination
+ *
+ * Breaks text into printed lines and pages. Widths are measured through a
+ * callback, so the same logic works for any font and device: the printer
+ * adapter passes GDI text extents in device pixels, tests pass character
+ * counts.
+ *
+ * @example
+ * ```typescript
+ * const { pages } = paginateText(log, {
+ *   linesPerPage: 60,
+ *   maxWidth: 80,
+ *   measure: text => text.length
+ * });
+ * ```
+ */
+
+import { InvalidOptionError } from '../errors';
+import type { TextPrintOptions } from '../types';
+
+export const DEFAULT_TEXT_FONT = 'Consolas';
+export const DEFAULT_FONT_SIZE = 10;
+export const DEFAULT_TAB_WIDTH = 8;
+
+// LF_FACESIZE, including the terminating null
+const MAX_FONT_NAME_LENGTH = 31;
+const MAX_TAB_WIDTH = 64;
+
+// Gap between line numbers and text
+const GUTTER_SPACING = '  ';
+
+/** Width of a string, in any unit */
+export type MeasureText = (text: string) => number;
+
+/**
+ * One printed line
+ */
+export interface TextLine {
+  text: string;
+  /** One-based source line number, on the first printed line of each source line when numbering */
+  lineNumber?: number;
+}
+
+export interface PaginateTextOptions {
+  /** Body lines that fit on a page */
+  linesPerPage: number;
+  /** Width available for the text, in the units of `measure` */
+  maxWidth: number;
+  measure: MeasureText;
+  /** @default 8 */
+  tabWidth?: number;
+  /** @default true */
+  wrap?: boolean;
+  /** @default false */
+  lineNumbers?: boolean;
+}
+
+export interface TextLayout {
+  /** Lines of each page; form feeds start a new page */
+  pages: TextLine[][];
+  /** Width of the widest line number; numbers are right-aligned to it */
+  numberWidth: number;
+  /** Width reserved for line numbers and the space after them (0 without line numbers) */
+  gutterWidth: number;
+}
+
+/**
+ * Check the text options of printText()
+ * @throws InvalidOptionError if one is invalid
+ */
+export function validateTextOptions(options: TextPrintOptions | undefined): void {
+  const font = options?.font;
+  if (font !== undefined && (typeof font !== 'string' || font.trim() === '' || font.length > MAX_FONT_NAME_LENGTH)) {
+    throw new InvalidOptionError(`Invalid font name: ${String(font)} (expected 1 to ${MAX_FONT_NAME_LENGTH} characters)`, 'font');
+  }
+
+  const fontSize = options?.fontSize;
+  if (fontSize !== undefined && (typeof fontSize !== 'number' || !Number.isFinite(fontSize) || fontSize <= 0)) {
+    throw new InvalidOptionError(`Invalid font size: ${String(fontSize)} (expected a positive number of points)`, 'fontSize');
+  }
+
+  const tabWidth = options?.tabWidth;
+  if (tabWidth !== undefined && (!Number.isInteger(tabWidth) || tabWidth < 1 || tabWidth > MAX_TAB_WIDTH)) {
+    throw new InvalidOptionError(`Invalid tab width: ${String(tabWidth)} (expected 1 to ${MAX_TAB_WIDTH} columns)`, 'tabWidth');
+  }
+
+  for (const option of ['header', 'footer'] as const) {
+    const value = options?.[option];
+    if (value !== undefined && typeof value !== 'string' && typeof value !== 'function') {
+      throw new InvalidOptionError(`Invalid ${option}: expected a string or a function`, option);
+    }
+  }
+}
+
+/**
+ * Body lines that fit between the header and footer of a page
+ * The header and footer each take one line plus one blank line separating them from the body.
+ * @throws InvalidOptionError if not a single line fits
+ */
+export function computeLinesPerPage(
+  areaHeight: number,
+  lineHeight: number,
+  decorations: { header: boolean; footer: boolean }
+): number {
+  const reserved = (decorations.header ? 2 : 0) + (decorations.footer ? 2 : 0);
+  const lines = Math.floor(areaHeight / lineHeight) - reserved;
+  if (lines < 1) {
+    throw new InvalidOptionError('The font size is too large for the printable area', 'fontSize');
+  }
+  return lines;
+}
+
+/**
+ * Replace tabs by spaces up to the next tab stop
+ */
+export function expandTabs(line: string, tabWidth = DEFAULT_TAB_WIDTH): string {
+  if (!line.includes('\t')) {
+    return line;
+  }
+
+  let result = '';
+  for (const char of line) {
+    result += char === '\t' ? ' '.repeat(tabWidth - (result.length % tabWidth)) : char;
+  }
+  return result;
+}
+
+/**
+ * Split a line into parts no wider than `maxWidth`
+ * Lines break after the last space that fits; words wider than a line are
+ * split between characters. Every part holds at least one character.
+ */
+export function wrapLine(line: string, maxWidth: number, measure: MeasureText): string[] {
+  const parts: string[] = [];
+  let rest = line;
+
+  while (rest.length > 0 && measure(rest) > maxWidth) {
+    const fit = fitLength(rest, maxWidth, measure);
+    let end = fit;
+    if (rest[fit] !== ' ') {
+      const space = rest.lastIndexOf(' ', fit - 1);
+      if (space > 0) {
+        end = space + 1;
+      }
+    }
+
+    parts.push(rest.slice(0, end).trimEnd());
+    rest = rest.slice(end).replace(/^ +/, '');
+  }
+
+  if (rest.length > 0 || parts.length === 0) {
+    parts.push(rest);
+  }
+  return parts;
+}
+
+/**
+ * Break text into lines and pages
+ * CRLF, CR and LF end lines, form feeds (\f) start a new page, and a final
+ * line break or form feed does not add an empty line or page. Empty text
+ * gives one blank page.
+ */
+export function paginateText(text: string, options: PaginateTextOptions): TextLayout {
+  const { linesPerPage, measure } = options;
+  const tabWidth = options.tabWidth ?? DEFAULT_TAB_WIDTH;
+  const sourceLines = text.split(/\r\n|\r|\n/);
+  if (sourceLines.length > 1 && sourceLines[sourceLines.length - 1] === '') {
+    sourceLines.pop();
+  }
+
+  const widestNumber = '0'.repeat(String(sourceLines.length).length);
+  const numberWidth = options.lineNumbers ? measure(widestNumber) : 0;
+  const gutterWidth = options.lineNumbers ? measure(widestNumber + GUTTER_SPACING) : 0;
+  const maxWidth = Math.max(1, options.maxWidth - gutterWidth);
+
+  const pages: TextLine[][] = [[]];
+  const newPage = (): void => {
+    pages.push([]);
+  };
+
+  sourceLines.forEach((sourceLine, index) => {
+    const segments = sourceLine.split('\f');
+    segments.forEach((segment, segmentIndex) => {
+      if (segmentIndex > 0) {
+        newPage();
+      }
+      // Form feeds only break pages: they do not leave empty lines behind
+      if (segment === '' && segments.length > 1) {
+        return;
+      }
+
+      const expanded = expandTabs(segment, tabWidth);
+      const parts = options.wrap === false ? [expanded] : wrapLine(expanded, maxWidth, measure);
+      parts.forEach((part, partIndex) => {
+        if (pages[pages.length - 1].length >= linesPerPage) {
+          newPage();
+        }
+        const numbered = options.lineNumbers && segmentIndex === 0 && partIndex === 0;
+        pages[pages.length - 1].push(
+          numbered ? { text: part, lineNumber: index + 1 } : { text: part }
+        );
+      });
+    });
+  });
+
+  // A form feed at the end of the text does not add a blank sheet
+  if (pages.length > 1 && pages[pages.length - 1].length === 0) {
+    pages.pop();
+  }
+
+  return { pages, numberWidth, gutterWidth };
+}
+
+/**
+ * Length of the longest prefix of `text` that fits in `maxWidth` (at least one character)
+ */
+function fitLength(text: string, maxWidth: number, measure: MeasureText): number {
+  let low = 1;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (measure(text.slice(0, middle)) <= maxWidth) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  // Keep surrogate pairs together
+  const code = text.charCodeAt(low - 1);
+  if (code >= 0xD800 && code <= 0xDBFF && low < text.length) {
+    return low > 1 ? low - 1 : low + 1;
+  }
+  return low;
+}
@@ -224,6 +224,136 @@ export enum PaperTray {
   FORM_SOURCE = 15
 }
 
+/**
+ * How a PDF page is sized on the printable area
+ * - 'fit' - scale up or down to fit the printable area, keeping the aspect ratio
+ * - 'fill' - scale to cover the printable area, cropping the overflow
+ * - 'actualSize' - print at 100% (true size), cropping anything outside the printable area
+ * - 'shrinkToFit' - print at 100% unless the page is larger than the printable area, then fit
+ * - number - custom scale in percent (e.g. 50 for half size)
+ */
+export type ScalingMode = 'fit' | 'fill' | 'actualSize' | 'shrinkToFit' | number;
+
+/**
+ * Clockwise page rotation in degrees
+ */
+export type PageRotation = 0 | 90 | 180 | 270;
+
+/**
+ * PDF page boundary used as the printed page
+ * - media: the full physical medium
+ * - crop: the visible page, as shown by viewers (default)
+ * - bleed: the page including bleed for production output
+ * - trim: the finished page after trimming
+ * - art: the meaningful content
+ */
+export type PageBox = 'media' | 'crop' | 'bleed' | 'trim' | 'art';
+
+/**
+ * Pages of the selection to print
+ * - all: every page
+ * - odd: the 1st, 3rd, 5th, ... selected page
+ * - even: the 2nd, 4th, 6th, ... selected page
+ */
+export type PageSubset = 'all' | 'odd' | 'even';
+
+/**
+ * How PDF pages are sent to the printer
+ * - raster: rendered to a bitmap and drawn with StretchDIBits
+ * - vector: drawn into the printer device context by PDFium
+ */
+export type RenderMode = 'raster' | 'vector';
+
+/**
+ * How copies are produced
+ * - software: every copy is rendered and spooled again
+ * - driver: one set is spooled and the driver prints the copies (DEVMODE dmCopies)
+ * - auto: driver copies when DC_COPIES and DC_COLLATE allow it, software otherwise
+ */
+export type CopiesMode = 'driver' | 'software' | 'auto';
+
+/**
+ * Number of PDF pages printed on one side of a sheet
+ */
+export type NUpPages = 1 | 2 | 4 | 6 | 9 | 16;
+
+/**
+ * Order in which pages fill the cells of an N-up sheet
+ * - Z: left to right, then top to bottom
+ * - N: top to bottom, then left to right
+ * - reverseZ: right to left, then top to bottom
+ * - reverseN: top to bottom, then right to left
+ */
+export type NUpOrder = 'Z' | 'N' | 'reverseZ' | 'reverseN';
+
+/**
+ * Edge of the paper the printed sheets are bound on
+ */
+export type DuplexBinding = 'long' | 'short';
+
+/**
+ * Passed to ManualDuplexOptions.onFlip between the two passes
+ */
+export interface ManualDuplexFlipInfo {
+  /** Spooler job that printed the front sides */
+  jobId: number;
+  /** Sheets to reload, including every copy */
+  sheets: number;
+  binding: DuplexBinding;
+  /** The print call's abort signal, if any */
+  signal?: AbortSignal;
+}
+
+/**
+ * Manual duplex for printers without duplex hardware
+ */
+export interface ManualDuplexOptions {
+  /**
+   * Called after the front sides have been spooled
+   * Resolve once the user has put the printed stack back into the tray. If it
+   * rejects, the back sides are not printed and print() rejects with the same error.
+   */
+  onFlip: (info: ManualDuplexFlipInfo) => Promise<void>;
+  /** @default 'long' ('short' for booklets) */
+  binding?: DuplexBinding;
+  /**
+   * Print back sides last sheet first, for printers that stack output face down
+   * @default true
+   */
+  reverseBacks?: boolean;
+}
+
+/**
+ * N-up printing options
+ */
+export interface NUpOptions {
+  /** Pages per sheet */
+  pagesPerSheet: NUpPages;
+  /** @default 'Z' */
+  order?: NUpOrder;
+  /** Draw a border around each page: true for a 0.5pt hairline, or a width in points */
+  border?: boolean | number;
+  /** Space between cells in millimetres (default: 0) */
+  gutter?: number;
+}
+
+/**
+ * Unit for user margins: millimetres or inches
+ */
+export type MarginUnit = 'mm' | 'in';
+
+/**
+ * Blank space to keep around pages, measured from the sheet edges
+ */
+export interface PrintMargins {
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
+  /** @default 'mm' */
+  unit?: MarginUnit;
+}
+
 export interface PrintOptions {
 
   /**
@@ -241,6 +371,19 @@ export interface PrintOptions {
    * @default 1
    */
   copies?: number;
+  /**
+   * Who produces the copies
+   * Driver copies spool the document once, so spool size and time do not grow
+   * with `copies`. `'auto'` checks the driver's DC_COPIES and DC_COLLATE
+   * capabilities and falls back to software copies when they do not cover the
+   * request. Copies chosen in the print dialog and manual duplex jobs always
+   * use software copies.
+   * @default 'software'
+   *
+   * @example
+   * await printer.print('./flyer.pdf', { copies: 500, collate: true, copiesMode: 'auto' });
+   */
+  copiesMode?: CopiesMode;
   /**
    * Duplex (double-sided) printing mode
    * - DuplexMode.SIMPLEX - Single-sided
@@ -302,6 +445,19 @@ export interface PrintOptions {
    * - Custom number (DPI value)
    */
   quality?: PrintQuality | number;
+  /**
+   * How PDF pages reach the printer
+   * - raster: pages are rendered to bitmaps at `quality` DPI and sent with StretchDIBits
+   * - vector: PDFium draws pages straight into the printer device context, so
+   *   text and vector graphics stay sharp at the printer's own resolution and
+   *   spool files stay small. `quality` is ignored. Pages that fail to render
+   *   this way fall back to raster.
+   * @default 'raster'
+   *
+   * @example
+   * await printer.print('./contract.pdf', { renderMode: 'vector' });
+   */
+  renderMode?: RenderMode;
   /**
    * Show Windows print configuration dialog before printing
    * When true, displays the native Windows print dialog allowing the user to
@@ -310,6 +466,212 @@ export interface PrintOptions {
    * @default false
    */
   showPrintDialog?: boolean;
+  /**
+   * Pages to print, as a comma-separated selection expression
+   * Pages are 1-based and printed in the order given.
+   * - `"1-3,5,8-"` - pages 1 to 3, page 5, then page 8 to the end
+   * - `"last"` or `"-1"` - the last page (`"-2"` is the second to last)
+   * - `"5-1"` - pages 5 to 1 in reverse order
+   *
+   * The selection is validated against the document before printing starts;
+   * out-of-range pages cause the print call to reject.
+   * A page range chosen in the print dialog takes precedence.
+   * @default all pages
+   *
+   * @example
+   * await printer.print('./document.pdf', { pages: '1-3,5,8-' });
+   */
+  pages?: string;
+  /**
+   * Print only the odd or even pages of the selection
+   * Pages are counted within the selection (`pages` or the dialog range), so
+   * `'even'` prints its 2nd, 4th, 6th, ... page. Rejects when no page is left.
+   * @default 'all'
+   *
+   * @example
+   * // Fronts of a manual two-sided job
+   * await printer.print('./document.pdf', { pageSubset: 'odd' });
+   */
+  pageSubset?: PageSubset;
+  /**
+   * Print the last sheet first, for printers that stack output face up
+   * Applied after N-up and booklet grouping, so each sheet keeps its layout.
+   * Two-sided output is reversed by sheet, keeping fronts and backs together.
+   * @default false
+   */
+  reverse?: boolean;
+  /**
+   * Password for encrypted PDF documents (user or owner password)
+   * A missing or wrong password rejects with `PdfPasswordError`.
+   *
+   * @example
+   * await printer.print('./statement.pdf', { password: 'secret' });
+   */
+  password?: string;
+  /**
+   * Callback invoked as the print job progresses
+   * Receives job-started, page-rendered, page-spooled, copy-completed and
+   * job-finished events. Errors thrown by the callback are logged and ignored.
+   *
+   * @example
+   * await printer.print('./document.pdf', {
+   *   onProgress: (event) => {
+   *     if (event.type === 'page-spooled') {
+   *       console.log(`Page ${event.current} of ${event.totalPages}`);
+   *     }
+   *   }
+   * });
+   */
+  onProgress?: (event: PrintProgressEvent) => void;
+  /**
+   * Signal to cancel the print job
+   * The job stops between pages and the partially spooled document is discarded
+   * with AbortDoc. The print call then rejects with an error named 'AbortError'.
+   * With `waitForCompletion`, aborting after the job was spooled stops the wait
+   * but leaves the job in the queue.
+   *
+   * @example
+   * const controller = new AbortController();
+   * const job = printer.print('./document.pdf', { signal: controller.signal });
+   * cancelButton.onclick = () => controller.abort();
+   */
+  signal?: AbortSignal;
+  /**
+   * Wait until the printer has actually printed the job
+   * By default the print call resolves once the job has been spooled (EndDoc).
+   * When enabled, the spooler job is tracked until it is printed, or leaves the
+   * queue after it was sent to the printer. The call rejects with a PrintJobError
+   * if the job is deleted (including a job that leaves the queue earlier) or
+   * enters an error state (error, offline, paper out, blocked, user intervention),
+   * and with a PrintJobTimeoutError if it does not finish in time. A job that is
+   * already gone at the first check resolves with `completion: 'unknown'`.
+   * @default false
+   *
+   * @example
+   * await printer.print('./label.pdf', { waitForCompletion: { timeout: 60_000 } });
+   */
+  waitForCompletion?: boolean | WaitForCompletionOptions;
+  /**
+   * How pages are sized on the paper
+   * Pages are always centered on the printable area.
+   * @default 'fit'
+   *
+   * @example
+   * await printer.print('./invoice.pdf', { scaling: 'actualSize' });
+   * await printer.print('./draft.pdf', { scaling: 50 });
+   */
+  scaling?: ScalingMode;
+  /**
+   * Margins around pages, measured from the physical sheet edges
+   * A number applies to all sides in millimetres. Pages are scaled and centered
+   * within the sheet minus these margins, and nothing is drawn inside them.
+   * @default no margins
+   *
+   * @example
+   * await printer.print('./letter.pdf', { margins: 15 });
+   * await printer.print('./letter.pdf', { margins: { top: 1, bottom: 0.5, unit: 'in' } });
+   */
+  margins?: number | PrintMargins;
+  /**
+   * Keep pages inside the printer's printable area
+   * Pages are always centered on the physical sheet. When enabled, the area
+   * they are scaled into shrinks so unprintable hardware margins never cut off
+   * content. Disable it to size pages against the full sheet and let the
+   * printer clip whatever falls in its unprintable margins.
+   * @default true
+   */
+  compensateMargins?: boolean;
+  /**
+   * Turn pages whose orientation differs from the paper
+   * Landscape pages on portrait paper (and vice versa) are rotated 90°
+   * counter-clockwise so they print at full size instead of shrinking.
+   * @default false
+   *
+   * @example
+   * await printer.print('./report-with-tables.pdf', { autoRotate: true });
+   */
+  autoRotate?: boolean;
+  /**
+   * Explicit clockwise rotation, for every page or per 1-based page number
+   * Overrides autoRotate for the pages it names.
+   *
+   * @example
+   * await printer.print('./scan.pdf', { pageRotation: 180 });
+   * await printer.print('./report.pdf', { autoRotate: true, pageRotation: { 3: 0, 7: 90 } });
+   */
+  pageRotation?: PageRotation | Record<number, PageRotation>;
+  /**
+   * Page box that defines the printed page
+   * Missing bleed, trim and art boxes fall back to the crop box. The page's
+   * /Rotate attribute is always honoured.
+   * @default 'crop'
+   *
+   * @example
+   * await printer.print('./print-ready.pdf', { pageBox: 'trim', scaling: 'actualSize' });
+   */
+  pageBox?: PageBox;
+  /**
+   * Print several pages on each sheet
+   * Each page is scaled into its cell with the `scaling`, `autoRotate` and
+   * `pageRotation` options; combine with `autoRotate` for 2 and 6 pages per sheet.
+   * @default 1
+   *
+   * @example
+   * await printer.print('./slides.pdf', { nUp: 4 });
+   * await printer.print('./slides.pdf', { nUp: { pagesPerSheet: 6, order: 'N', border: true, gutter: 5 }, autoRotate: true });
+   */
+  nUp?: NUpPages | NUpOptions;
+  /**
+   * Print a saddle-stitched booklet
+   * Pages are reordered into signature order (padded with blank pages to a
+   * multiple of four) and printed two per landscape side, duplex flipping on
+   * the short edge. Fold the stack in the middle and staple on the fold.
+   * Overrides `orientation` and `duplex`; copies are always collated.
+   * @default false
+   *
+   * @example
+   * await printer.print('./zine.pdf', { booklet: true });
+   */
+  booklet?: boolean;
+  /**
+   * Print both sides on a printer without duplex hardware
+   * Front sides are printed as one spooler job, then `onFlip` waits for the
+   * user to turn the stack over around its long edge and reload it, and the
+   * back sides are printed as a second job. For short-edge binding the backs
+   * are printed rotated by 180°. The driver's duplex setting is turned off.
+   * Use `PrinterManager.getPrinterCapabilities()` (`supportsDuplex`) to decide
+   * when it is needed.
+   *
+   * @example
+   * await printer.print('./handbook.pdf', {
+   *   manualDuplex: {
+   *     onFlip: async ({ sheets }) => {
+   *       await prompt(`Turn the ${sheets} printed sheets over and put them back in the tray`);
+   *     }
+   *   }
+   * });
+   */
+  manualDuplex?: ManualDuplexOptions;
+  /**
+   * Send the data of `printRaw()` to the printer unchanged, even when it is a PDF
+   * Use it for printers that print PDF files natively. Data in any other
+   * printer language (PCL, PostScript, ZPL, ...) is always sent unchanged.
+   * `print()` ignores it: files are always rendered as PDF.
+   * @default false
+   *
+   * @example
+   * await printer.printRaw(fs.readFileSync('./invoice.pdf'), 'Invoice', { passthrough: true });
+   */
+  passthrough?: boolean;
+  /**
+   * Spooler datatype of data sent unchanged by `printRaw()`
+   * Must be one of the datatypes of the printer's print processor. By default
+   * `RAW` is used, or the first `RAW` variant (e.g. `RAW [FF appended]`).
+   *
+   * @example
+   * await printer.printRaw(pclData, 'Report', { datatype: 'RAW [FF auto]' });
+   */
+  datatype?: string;
   /**
    * Page range to print (internal use, set by print dialog)
    * @internal
@@ -321,6 +683,440 @@ export interface PrintOptions {
   };
 }
 
+/**
+ * Page details passed to function headers and footers of `printText()`
+ */
+export interface TextPageInfo {
+  /** One-based page number */
+  page: number;
+  /** Number of pages in the document */
+  pages: number;
+  /** Document name shown in the print queue */
+  documentName: string;
+}
+
+/**
+ * Header or footer line of `printText()`
+ * Strings may use `{page}`, `{pages}`, `{documentName}` and `{date}`, and
+ * tabs to split the line into left, center and right-aligned parts.
+ */
+export type TextHeaderFooter = string | ((info: TextPageInfo) => string);
+
+/**
+ * Options for `printText()`
+ * Page selection, margins, copies, DEVMODE, progress and completion options
+ * work as for PDFs; PDF layout options (scaling, rotation, N-up, ...) do not apply.
+ */
+export interface TextPrintOptions extends PrintOptions {
+  /**
+   * Font face name
+   * @default 'Consolas'
+   */
+  font?: string;
+  /**
+   * Font size in points
+   * @default 10
+   */
+  fontSize?: number;
+  /**
+   * Columns between tab stops
+   * @default 8
+   */
+  tabWidth?: number;
+  /**
+   * Wrap lines that are wider than the page at word boundaries
+   * Words wider than a line are split. Without wrapping, long lines are cut
+   * off at the margin.
+   * @default true
+   */
+  wrap?: boolean;
+  /**
+   * Line printed at the top of every page
+   *
+   * @example
+   * header: 'server.log\t\tPage {page} of {pages}'
+   */
+  header?: TextHeaderFooter;
+  /** Line printed at the bottom of every page */
+  footer?: TextHeaderFooter;
+  /**
+   * Number the lines of the text in a left gutter
+   * Wrapped continuation lines are not numbered.
+   * @default false
+   */
+  lineNumbers?: boolean;
+  /**
+   * Document name shown in the print queue
+   * @default 'Text'
+   */
+  documentName?: string;
+}
+
+/**
+ * Command language of a thermal label printer
+ * - 'zpl' - Zebra Programming Language (ZPL II)
+ * - 'epl' - Eltron Programming Language (EPL2)
+ */
+export type LabelLanguage = 'zpl' | 'epl';
+
+/**
+ * Unit of label sizes and positions
+ * - 'dots' - printer dots
+ * - 'mm' - millimetres, converted to dots at the label's `dpi`
+ */
+export type LabelUnit = 'dots' | 'mm';
+
+/**
+ * Clockwise rotation of a label field
+ */
+export type LabelRotation = 0 | 90 | 180 | 270;
+
+/**
+ * Barcode symbologies of label barcode fields
+ */
+export type LabelSymbology = 'code128' | 'qr' | 'datamatrix';
+
+/**
+ * Label stock and print settings
+ */
+export interface LabelSetup {
+  /** Label width, in `unit` */
+  width: number;
+  /** Label height (length in the feed direction), in `unit` */
+  height: number;
+  /**
+   * Unit of the label size and of every field position and size
+   * @default 'dots'
+   */
+  unit?: LabelUnit;
+  /**
+   * Resolution of the print head in dots per inch
+   * @default 203
+   */
+  dpi?: number;
+  /**
+   * Print darkness from 0 to 30 (ZPL `~SD`; halved for EPL `D`, which goes to 15)
+   * Omitted uses the printer's setting.
+   */
+  darkness?: number;
+  /**
+   * Print speed in inches per second, from 1 to 14 (ZPL `^PR`, EPL `S`)
+   * EPL printers accept speeds up to 6 and interpret them per model.
+   * Omitted uses the printer's setting.
+   */
+  speed?: number;
+  /**
+   * Gap between labels, in `unit` (EPL `Q`; ZPL printers detect it)
+   * @default 3 mm
+   */
+  gap?: number;
+}
+
+/**
+ * A line of text
+ */
+export interface LabelTextField {
+  type: 'text';
+  x: number;
+  y: number;
+  /** Single line of text */
+  text: string;
+  /**
+   * Character height, in the label unit
+   * EPL uses the nearest size of its built-in fonts.
+   * @default 3 mm
+   */
+  height?: number;
+  /**
+   * Character width, in the label unit (ZPL only)
+   * @default height
+   */
+  width?: number;
+  /**
+   * Printer font: a ZPL font name ('0' to 'Z') or an EPL font number ('1' to '5')
+   * Overrides the font EPL picks from `height`.
+   * @default '0' (ZPL scalable font)
+   */
+  font?: string;
+  /** @default 0 */
+  rotation?: LabelRotation;
+}
+
+/**
+ * A barcode: Code 128, QR code or Data Matrix
+ */
+export interface LabelBarcodeField {
+  type: 'barcode';
+  symbology: LabelSymbology;
+  x: number;
+  y: number;
+  /** Encoded data */
+  data: string;
+  /**
+   * Bar height of Code 128 barcodes, in the label unit
+   * @default 10 mm
+   */
+  height?: number;
+  /**
+   * Narrow bar width (Code 128) or module size (QR, Data Matrix), in dots
+   * @default 2 for Code 128, 4 for QR codes, 6 for Data Matrix
+   */
+  moduleWidth?: number;
+  /**
+   * Print the data below Code 128 barcodes
+   * @default true
+   */
+  humanReadable?: boolean;
+  /**
+   * QR code error correction level
+   * @default 'M'
+   */
+  errorCorrection?: 'L' | 'M' | 'Q' | 'H';
+  /** Rotation of Code 128 barcodes; QR and Data Matrix codes cannot be rotated. @default 0 */
+  rotation?: LabelRotation;
+}
+
+/**
+ * A rectangle outline, or a filled bar when the thickness reaches the smaller side
+ */
+export interface LabelBoxField {
+  type: 'box';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**
+   * Line thickness, in the label unit
+   * @default 1 dot
+   */
+  thickness?: number;
+}
+
+/**
+ * Pixels of a label graphic: BGRA rows, top-down, `width * 4` bytes per row
+ * (the layout of images decoded for `printImage()`)
+ */
+export interface LabelBitmap {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+/**
+ * A monochrome graphic, one image pixel per printer dot
+ */
+export interface LabelGraphicField {
+  type: 'graphic';
+  x: number;
+  y: number;
+  /** PNG, JPEG, BMP or TIFF file contents, or decoded pixels */
+  image: Buffer | LabelBitmap;
+  /**
+   * Pixels darker than this luminance (0-255) print black
+   * @default 128
+   */
+  threshold?: number;
+}
+
+export type LabelField = LabelTextField | LabelBarcodeField | LabelBoxField | LabelGraphicField;
+
+/**
+ * A complete label: stock settings and fields
+ * Field positions are the top-left corner of the field, in the label unit.
+ */
+export interface LabelDefinition extends LabelSetup {
+  fields: LabelField[];
+}
+
+/**
+ * Options for `printLabel()`
+ * `copies` is sent to the printer as the label quantity (ZPL `^PQ`, EPL `P`).
+ * Rendering, page and DEVMODE options do not apply.
+ */
+export interface LabelPrintOptions extends PrintOptions {
+  /**
+   * Command language of the printer
+   * @default 'zpl'
+   */
+  language?: LabelLanguage;
+  /**
+   * Document name shown in the print queue
+   * @default 'Label'
+   */
+  documentName?: string;
+}
+
+/**
+ * Options for PrintOptions.waitForCompletion
+ */
+export interface WaitForCompletionOptions {
+  /**
+   * Maximum time to wait for the job to print, in milliseconds
+   * @default 300000 (5 minutes)
+   */
+  timeout?: number;
+  /**
+   * Interval between job status checks, in milliseconds
+   * @default 500
+   */
+  pollInterval?: number;
+}
+
+/**
+ * Emitted once the spooler job has been created
+ */
+export interface PrintJobStartedEvent {
+  type: 'job-started';
+  jobId: number;
+  printerName: string;
+  documentName: string;
+  /** Total pages to spool (selected pages x copies) */
+  totalPages: number;
+  copies: number;
+}
+
+/**
+ * Position of a page within a running print job
+ */
+export interface PrintPageProgress {
+  /** 1-based page number in the document */
+  pageNumber: number;
+  /** 1-based copy the page belongs to */
+  copy: number;
+  /** 1-based position of the page in the job */
+  current: number;
+  /** Total pages to spool (selected pages x copies) */
+  totalPages: number;
+}
+
+/**
+ * Emitted when a page has been rendered to a bitmap
+ */
+export interface PrintPageRenderedEvent extends PrintPageProgress {
+  type: 'page-rendered';
+}
+
+/**
+ * Emitted when a page has been sent to the spooler
+ */
+export interface PrintPageSpooledEvent extends PrintPageProgress {
+  type: 'page-spooled';
+}
+
+/**
+ * Emitted when the last page of a copy has been spooled
+ */
+export interface PrintCopyCompletedEvent {
+  type: 'copy-completed';
+  /** 1-based copy number */
+  copy: number;
+  copies: number;
+}
+
+/**
+ * Emitted when the job has been closed (EndDoc) or discarded (AbortDoc)
+ */
+export interface PrintJobFinishedEvent {
+  type: 'job-finished';
+  jobId: number;
+  pagesPrinted: number;
+  aborted: boolean;
+}
+
+/**
+ * Progress events reported through PrintOptions.onProgress
+ */
+export type PrintProgressEvent =
+  | PrintJobStartedEvent
+  | PrintPageRenderedEvent
+  | PrintPageSpooledEvent
+  | PrintCopyCompletedEvent
+  | PrintJobFinishedEvent;
+
+/**
+ * Elapsed time per phase of a print job, in milliseconds
+ */
+export interface PrintJobTimings {
+  /** Time the print dialog was open (0 when no dialog was shown) */
+  dialog: number;
+  /** PDFium initialization and document loading */
+  load: number;
+  /** DEVMODE configuration and device context creation */
+  deviceContext: number;
+  /** StartDoc call creating the spooler job */
+  startDoc: number;
+  /** Rendering pages to bitmaps (all pages and copies) */
+  render: number;
+  /** Sending rendered pages to the spooler (StartPage/StretchDIBits/EndPage) */
+  spool: number;
+  /** EndDoc or AbortDoc call closing the spooler job */
+  endDoc: number;
+  /** Waiting for the printer to finish the job (0 unless waitForCompletion is set) */
+  completion: number;
+  /** Waiting for the stack to be flipped (0 unless manualDuplex is set) */
+  flip: number;
+  /** Whole print call */
+  total: number;
+}
+
+/**
+ * Outcome of a print job
+ *
+ * @example
+ * const result = await printer.print('./invoice.pdf');
+ * audit.log({ spoolerJobId: result.jobId, printer: result.printerName });
+ */
+export interface PrintJobResult {
+  /** Spooler job id returned by StartDoc (0 if the print dialog was cancelled) */
+  jobId: number;
+  /**
+   * Every spooler job of the print call, in order
+   * Manual duplex creates two jobs: `jobId` is the first (front sides).
+   */
+  jobIds: number[];
+  /** Printer the job was sent to (may differ from the requested one after the print dialog) */
+  printerName: string;
+  /** Document name shown in the print queue */
+  documentName: string;
+  /**
+   * Pages printed, including every copy (one per copy when the data was sent unchanged)
+   * With driver copies this is the spooled set times `copies`; progress events count the spooled pages only.
+   */
+  pagesPrinted: number;
+  /** Copies requested for the job */
+  copies: number;
+  /**
+   * DPI used to render PDF pages (0 when the data was sent unchanged)
+   * Vector rendering draws at the printer's resolution, so this is the device DPI;
+   * pages that fall back to raster are rendered at `quality`.
+   */
+  renderDpi: number;
+  /** True if the user cancelled the print dialog and nothing was printed */
+  cancelled: boolean;
+  /** Elapsed time per phase */
+  timings: PrintJobTimings;
+  /** Spooler datatype of data sent unchanged by `printRaw()` (undefined for rendered jobs) */
+  datatype?: string;
+  /** Outcome of `waitForCompletion` (undefined when the call did not wait) */
+  completion?: PrintJobCompletion;
+}
+
+/**
+ * Outcome of waiting for a job with `waitForCompletion`
+ * - 'printed' - every job was reported printed, or left the queue after it was sent to the printer
+ * - 'unknown' - a job had already left the queue when it was first checked; small
+ *   jobs on fast or direct-to-port printers often do, but it may also have been deleted
+ */
+export type PrintJobCompletion = 'printed' | 'unknown';
+
+/**
+ * Result of `printText()`
+ */
+export interface TextPrintResult extends PrintJobResult {
+  /** Pages the text was paginated into, before page selection and copies */
+  pageCount: number;
+}
+
 export interface PrinterInfo {
   name: string;
   serverName?: string;
@@ -328,10 +1124,226 @@ export interface PrinterInfo {
   driverName?: string;
   location?: string;
   comment?: string;
+  /** Raw status bitmask (PRINTER_STATUS_* values) */
   status: number;
+  /** Decoded status bitmask */
+  statusFlags: PrinterStatusFlags;
+  /** Summary of the status flags, e.g. "Paper jam, Toner low" ("Ready" when no flag is set) */
+  statusText: string;
   isDefault?: boolean;
+  /** Share name when the printer is shared */
+  shareName?: string;
+  /** Print processor, e.g. "winprint" */
+  printProcessor?: string;
+  /** Default spool datatype, e.g. "RAW" */
+  datatype?: string;
+  /** Default print processor parameters */
+  parameters?: string;
+  /** Separator page file */
+  separatorFile?: string;
+  /** Raw attributes bitmask (PRINTER_ATTRIBUTE_* values) */
+  attributes: number;
+  /** Decoded attributes bitmask */
+  attributeFlags: PrinterAttributeFlags;
+  /** Priority used to route jobs when several printers share a port (1-99) */
+  priority: number;
+  /** Default priority assigned to new jobs (1-99) */
+  defaultPriority: number;
+  /** Earliest time jobs are printed, in minutes after midnight UTC (equal start/until means always) */
+  startTime: number;
+  /** Latest time jobs are printed, in minutes after midnight UTC */
+  untilTime: number;
+  /** Number of jobs in the queue */
+  jobCount: number;
+  /** Average pages per minute reported by the spooler */
+  averagePagesPerMinute: number;
+}
+
+/**
+ * Decoded printer attributes (PRINTER_INFO_2W Attributes bits)
+ */
+export interface PrinterAttributeFlags {
+  /** Jobs are fully spooled before printing starts */
+  queued: boolean;
+  /** Jobs are sent directly to the printer, bypassing the spooler */
+  direct: boolean;
+  /** Printer is the default printer */
+  default: boolean;
+  /** Printer is shared */
+  shared: boolean;
+  /** Printer is a network printer connection */
+  network: boolean;
+  hidden: boolean;
+  /** Printer is a local printer */
+  local: boolean;
+  /** Mismatched jobs are held in the queue */
+  enableDevQ: boolean;
+  /** Jobs are kept in the queue after printing */
+  keepPrintedJobs: boolean;
+  /** Completely spooled jobs print before partially spooled ones */
+  doCompleteFirst: boolean;
+  /** "Use Printer Offline" is enabled */
+  workOffline: boolean;
+  /** Bidirectional communication is enabled */
+  enableBidi: boolean;
+  /** Only RAW datatype jobs are accepted */
+  rawOnly: boolean;
+  /** Printer is published in the directory service */
+  published: boolean;
+  fax: boolean;
+  /** Printer is redirected from a Terminal Services session */
+  terminalServices: boolean;
+}
+
+/**
+ * Decoded printer status (PRINTER_INFO_2W Status bits)
+ * Note: many drivers only report a subset of these flags.
+ */
+export interface PrinterStatusFlags {
+  paused: boolean;
+  error: boolean;
+  pendingDeletion: boolean;
+  paperJam: boolean;
+  paperOut: boolean;
+  manualFeed: boolean;
+  paperProblem: boolean;
+  offline: boolean;
+  ioActive: boolean;
+  busy: boolean;
+  printing: boolean;
+  outputBinFull: boolean;
+  notAvailable: boolean;
+  waiting: boolean;
+  processing: boolean;
+  initializing: boolean;
+  warmingUp: boolean;
+  tonerLow: boolean;
+  noToner: boolean;
+  pagePunt: boolean;
+  userIntervention: boolean;
+  outOfMemory: boolean;
+  doorOpen: boolean;
+  serverUnknown: boolean;
+  powerSave: boolean;
+  serverOffline: boolean;
+  driverUpdateNeeded: boolean;
+}
+
+/**
+ * Current status of a single printer
+ */
+export interface PrinterStatus {
+  printerName: string;
+  /** Raw status bitmask (PRINTER_STATUS_* values) */
+  status: number;
+  /** Decoded status bitmask */
+  statusFlags: PrinterStatusFlags;
+  /** Summary of the status flags, e.g. "Offline" */
+  statusText: string;
+  /**
+   * False when the printer cannot accept work right now
+   * (paused, error, offline, paper jam/out/problem, no toner, door open, ...)
+   * or when "Use Printer Offline" is enabled
+   */
+  ready: boolean;
+  /** Number of jobs in the queue */
+  jobCount: number;
+}
+
+/**
+ * Decoded spooler job status (JOB_INFO_1W Status bits)
+ */
+export interface JobStatusFlags {
+  /** Job is paused */
+  paused: boolean;
+  /** Job is in an error state */
+  error: boolean;
+  /** Job is being deleted */
+  deleting: boolean;
+  /** Job is still being spooled */
+  spooling: boolean;
+  /** Job is printing */
+  printing: boolean;
+  /** Printer is offline */
+  offline: boolean;
+  /** Printer is out of paper */
+  paperOut: boolean;
+  /** Job has been printed */
+  printed: boolean;
+  /** Job has been deleted */
+  deleted: boolean;
+  /** Driver cannot print the job */
+  blocked: boolean;
+  /** Printer needs user intervention */
+  userIntervention: boolean;
+  /** Job has been restarted */
+  restarting: boolean;
+  /** Job has been sent to the printer (may not be printed yet) */
+  complete: boolean;
+  /** Job is retained in the queue after printing */
+  retained: boolean;
+}
+
+/**
+ * Print job in a printer queue
+ */
+export interface JobInfo {
+  /** Spooler job id (matches PrintJobResult.jobId) */
+  jobId: number;
+  printerName: string;
+  machineName?: string;
+  userName?: string;
+  /** Document name shown in the queue */
+  documentName: string;
+  datatype?: string;
+  /** Raw status bitmask (JOB_STATUS_* values) */
+  status: number;
+  /** Decoded status bitmask */
+  statusFlags: JobStatusFlags;
+  /** Status text from the driver, or a summary of the status flags */
+  statusText: string;
+  priority: number;
+  /** Position of the job in the queue */
+  position: number;
+  /** Total pages of the job (0 while still spooling on some drivers) */
+  totalPages: number;
+  pagesPrinted: number;
+  /** Time the job was submitted */
+  submitted: Date;
 }
 
+/**
+ * Options for PrinterManager.watch()
+ */
+export interface PrinterWatchOptions {
+  /**
+   * Watch a single printer instead of every printer on the local print server
+   */
+  printerName?: string;
+  /**
+   * Notify printer changes (added, deleted, changed, status)
+   * @default true
+   */
+  printers?: boolean;
+  /**
+   * Notify job changes (added, set, deleted)
+   * @default true
+   */
+  jobs?: boolean;
+}
+
+/**
+ * Printer change notification events
+ */
+export type PrinterChangeEvent =
+  | { type: 'printer-added'; printer: PrinterInfo }
+  | { type: 'printer-deleted'; printerName: string }
+  | { type: 'printer-changed'; printer: PrinterInfo }
+  | { type: 'status-changed'; printer: PrinterInfo; previousStatus: number; previousStatusText: string }
+  | { type: 'job-added'; printerName: string; job: JobInfo }
+  | { type: 'job-set'; printerName: string; job: JobInfo }
+  | { type: 'job-deleted'; printerName: string; jobId: number };
+
 /**
  * Paper size information with dimensions
  */
@@ -372,6 +1384,8 @@ export interface PrinterCapabilitiesInfo {
   trayFormAssignments: TrayFormAssignment[];
   supportsDuplex: boolean;
   maxCopies: number;
+  /** Driver can collate copies (DC_COLLATE) */
+  supportsCollate: boolean;
   mediaReady: string[];
   mediaTypeNames: string[];
 }
@@ -1,19 +1,40 @@
 // Clean Architecture Entry Point
 export * from './core/types';
 export * from './core/interfaces';
+export * from './core/errors';
 export { PrintQuality, PaperSize, DuplexMode, PageOrientation, ColorMode, PaperTray } from './core/types';
+export { parsePageSelection, imposeBooklet, pairDuplexSides, planManualDuplex, type DuplexSheet } from './core/pages';
+export { paginateText, wrapLine, type MeasureText, type TextLine, type TextLayout, type PaginateTextOptions } from './core/text';
+export { detectPrintLanguage, type PrintLanguage } from './core/raw';
+export {
+  LabelBuilder,
+  generateZpl,
+  generateEpl,
+  type LabelTextOptions,
+  type LabelCode128Options,
+  type LabelQrCodeOptions,
+  type LabelDataMatrixOptions,
+  type LabelBoxOptions,
+  type LabelGraphicOptions
+} from './core/labels';
 
 // Re-export platform-specific implementations for backward compatibility
 export { WindowsPrinterManagerAdapter } from './adapters/windows/windows-printer-manager.adapter';
 export { WindowsPrinterAdapter } from './adapters/windows/windows-printer.adapter';
+export { WindowsPrintJobManagerAdapter } from './adapters/windows/windows-print-job-manager.adapter';
+export { WindowsPrinterWatcher } from './adapters/windows/windows-printer-watcher.adapter';
 
 // Export unified types for backward compatibility
 export type { PrintOptions as WindowsPrintOptions, PrinterInfo as WindowsPrinterInfo } from './core/types';
 
 import { WindowsPrinterManagerAdapter } from './adapters/windows/windows-printer-manager.adapter';
 import { WindowsPrinterAdapter } from './adapters/windows/windows-printer.adapter';
+import { WindowsPrintJobManagerAdapter } from './adapters/windows/windows-print-job-manager.adapter';
+import type { WindowsPrinterWatcher } from './adapters/windows/windows-printer-watcher.adapter';
 // Simple, clean facade API
-import type { PrintOptions, PrinterCapabilitiesInfo, PrinterInfo } from './core/types';
+import type { PrintOptions, PrintJobResult, TextPrintOptions, TextPrintResult, LabelDefinition, LabelPrintOptions, PrinterCapabilitiesInfo, PrinterInfo, PrinterStatus, PrinterWatchOptions, JobInfo } from './core/types';
+import { PrinterNotFoundError } from './core/errors';
+import type { LabelBuilder } from './core/labels';
 
 /**
  * Windows PDFPrinter with GDI and PDFium rendering
@@ -53,20 +74,94 @@ export class PDFPrinter {
       const manager = new WindowsPrinterManagerAdapter();
       const exists = await manager.printerExists(printerName);
       if (!exists) {
-        throw new Error(`Printer not found: ${printerName}`);
+        throw new PrinterNotFoundError(`Printer not found: ${printerName}`, printerName);
       }
     }
     return new PDFPrinter(printerName);
   }
   
-  async print(pdfPath: string, options?: PrintOptions): Promise<void> {
+  /**
+   * Print a PDF file
+   * Resolves with the spooler job id, pages printed and per-phase timings.
+   */
+  async print(pdfPath: string, options?: PrintOptions): Promise<PrintJobResult> {
     return this.printer.print(pdfPath, options);
   }
   
-  async printRaw(data: Buffer, documentName?: string, options?: PrintOptions): Promise<void> {
+  /**
+   * Print printer-ready data (PCL, PostScript, ZPL, ...) or an in-memory PDF
+   * PDFs are rendered like `print()`; anything else is sent to the printer
+   * unchanged as a RAW spooler job. Set `passthrough` to send a PDF unchanged.
+   */
+  async printRaw(data: Buffer, documentName?: string, options?: PrintOptions): Promise<PrintJobResult> {
     return this.printer.printRaw(data, documentName, options);
   }
   
+  /**
+   * Print enhanced metafiles (EMF), one page per metafile
+   * Accepts file paths or file contents. Scaling, margins, N-up, copies,
+   * collate and DEVMODE options apply as for PDFs.
+   *
+   * @example
+   * ```typescript
+   * await printer.printEmf(['./chart-1.emf', './chart-2.emf'], { copies: 2, collate: true });
+   * ```
+   */
+  async printEmf(source: string | Buffer | Array<string | Buffer>, options?: PrintOptions): Promise<PrintJobResult> {
+    return this.printer.printEmf(source, options);
+  }
+  
+  /**
+   * Print PNG, JPEG, BMP or TIFF images, one page per image (every page of a multi-page TIFF)
+   * Images are decoded in TypeScript and sized from their recorded resolution
+   * (96 DPI when none). Page selection, scaling, rotation, N-up, copies and
+   * DEVMODE options apply as for PDFs.
+   *
+   * @example
+   * ```typescript
+   * await printer.printImage('./scan.tiff', { pages: '1-3', scaling: 'fit', autoRotate: true });
+   * ```
+   */
+  async printImage(source: string | Buffer | Array<string | Buffer>, options?: PrintOptions): Promise<PrintJobResult> {
+    return this.printer.printImage(source, options);
+  }
+  
+  /**
+   * Print plain text such as logs and receipts
+   * Text is drawn with a GDI font and paginated to the printable area; long
+   * lines wrap and form feeds start a new page. Resolves with `pageCount`, the
+   * number of pages the text was laid out on.
+   *
+   * @example
+   * ```typescript
+   * const result = await printer.printText(fs.readFileSync('./server.log', 'utf8'), {
+   *   fontSize: 8,
+   *   lineNumbers: true,
+   *   header: 'server.log\t\tPage {page} of {pages}'
+   * });
+   * ```
+   */
+  async printText(text: string, options?: TextPrintOptions): Promise<TextPrintResult> {
+    return this.printer.printText(text, options);
+  }
+  
+  /**
+   * Print a label on a Zebra or Eltron thermal printer
+   * The label is generated as ZPL (default) or EPL and sent to the printer
+   * unchanged; `copies` becomes the label quantity.
+   *
+   * @example
+   * ```typescript
+   * const label = new LabelBuilder({ width: 100, height: 50, unit: 'mm' })
+   *   .text(5, 5, 'ACME Logistics', { height: 5 })
+   *   .code128(5, 14, 'SHP-000123');
+   * await printer.printLabel(label, { copies: 2 });
+   * ```
+   */
+  async printLabel(label: LabelBuilder | LabelDefinition, options?: LabelPrintOptions): Promise<PrintJobResult> {
+    return this.printer.printLabel(label, options);
+  }
+  
   getPrinterName(): string {
     return this.printer.getPrinterName();
   }
@@ -127,6 +222,43 @@ export class PrinterManager {
     return result instanceof Promise ? await result : result;
   }
   
+  /**
+   * Get all PRINTER_INFO_2 details of a single printer
+   */
+  static async getPrinterInfo(printerName: string): Promise<PrinterInfo> {
+    return this.manager.getPrinterInfo(printerName);
+  }
+  
+  /**
+   * Get the decoded status of a printer
+   * 
+   * @example
+   * ```typescript
+   * const status = await PrinterManager.getPrinterStatus('HP LaserJet');
+   * if (!status.ready) {
+   *   throw new Error(`Printer unavailable: ${status.statusText}`);
+   * }
+   * ```
+   */
+  static async getPrinterStatus(printerName: string): Promise<PrinterStatus> {
+    return this.manager.getPrinterStatus(printerName);
+  }
+  
+  /**
+   * Watch printers and jobs for changes
+   * 
+   * @example
+   * ```typescript
+   * const watcher = await PrinterManager.watch({ printerName: 'HP LaserJet' });
+   * for await (const event of watcher) {
+   *   if (event.type === 'job-deleted') console.log(`Job ${event.jobId} left the queue`);
+   * }
+   * ```
+   */
+  static async watch(options?: PrinterWatchOptions): Promise<WindowsPrinterWatcher> {
+    return this.manager.watch(options);
+  }
+  
   static async printerExists(printerName: string): Promise<boolean> {
     return this.manager.printerExists(printerName);
   }
@@ -135,6 +267,46 @@ export class PrinterManager {
   static listPrinters = PrinterManager.getAvailablePrinters;
 }
 
+/**
+ * Windows PrintJobManager - inspect and control spooler jobs
+ * 
+ * @example
+ * ```typescript
+ * const result = await printer.print('./document.pdf');
+ * const job = await PrintJobManager.getJob(result.printerName, result.jobId);
+ * if (job?.statusFlags.paperOut) {
+ *   await PrintJobManager.cancelJob(result.printerName, result.jobId);
+ * }
+ * ```
+ */
+export class PrintJobManager {
+  private static manager = new WindowsPrintJobManagerAdapter();
+  
+  static async getJobs(printerName: string): Promise<JobInfo[]> {
+    return this.manager.getJobs(printerName);
+  }
+  
+  static async getJob(printerName: string, jobId: number): Promise<JobInfo | null> {
+    return this.manager.getJob(printerName, jobId);
+  }
+  
+  static async pauseJob(printerName: string, jobId: number): Promise<void> {
+    this.manager.pauseJob(printerName, jobId);
+  }
+  
+  static async resumeJob(printerName: string, jobId: number): Promise<void> {
+    this.manager.resumeJob(printerName, jobId);
+  }
+  
+  static async restartJob(printerName: string, jobId: number): Promise<void> {
+    this.manager.restartJob(printerName, jobId);
+  }
+  
+  static async cancelJob(printerName: string, jobId: number): Promise<void> {
+    this.manager.cancelJob(printerName, jobId);
+  }
+}
+
 // Helper functions
 export async function listPrinters(): Promise<PrinterInfo[]> {
   return PrinterManager.getAvailablePrinters();
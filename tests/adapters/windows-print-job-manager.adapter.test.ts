@@ -0,0 +1,146 @@
+/**
+ * Tests for WindowsPrintJobManagerAdapter with a mocked spooler
+ */
+
+import koffi from 'koffi';
+import { WindowsPrintJobManagerAdapter } from '../../src/adapters/windows/windows-print-job-manager.adapter';
+import * as api from '../../src/adapters/windows/api';
+
+// Mock the Windows API
+jest.mock('../../src/adapters/windows/api', () => ({
+  OpenPrinterW: jest.fn(),
+  ClosePrinter: jest.fn(() => true),
+  EnumJobsW: jest.fn(),
+  GetJobW: jest.fn(),
+  SetJobW: jest.fn(() => true),
+  JOB_INFO_1W: 'JOB_INFO_1W',
+  PRINTER_ACCESS_USE: 8,
+  JOB_CONTROL_PAUSE: 1,
+  JOB_CONTROL_RESUME: 2,
+  JOB_CONTROL_RESTART: 4,
+  JOB_CONTROL_DELETE: 5,
+  ERROR_INVALID_PRINTER_NAME: 1801,
+  GetLastError: jest.fn(() => 5)
+}));
+
+// Mock koffi
+jest.mock('koffi', () => ({
+  sizeof: jest.fn(() => 64),
+  decode: jest.fn()
+}));
+
+const PRINTER = 'Office Laser';
+
+/**
+ * Decoded JOB_INFO_1W structure
+ */
+function jobInfo(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    JobId: 12,
+    pPrinterName: PRINTER,
+    pMachineName: '\\\\DESKTOP-1',
+    pUserName: 'alex',
+    pDocument: 'invoice.pdf',
+    pDatatype: 'NT EMF 1.008',
+    pStatus: null,
+    Status: 0x0010,
+    Priority: 1,
+    Position: 1,
+    TotalPages: 4,
+    PagesPrinted: 1,
+    Submitted: { wYear: 2026, wMonth: 3, wDayOfWeek: 2, wDay: 10, wHour: 14, wMinute: 5, wSecond: 9, wMilliseconds: 250 },
+    ...overrides
+  };
+}
+
+describe('WindowsPrintJobManagerAdapter', () => {
+  const spooler = api as jest.Mocked<typeof api>;
+  const mockDecode = koffi.decode as jest.Mock;
+  let manager: WindowsPrintJobManagerAdapter;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new WindowsPrintJobManagerAdapter();
+
+    spooler.OpenPrinterW.mockImplementation((_name: string, hPrinter: any[]) => {
+      hPrinter[0] = { printer: 'handle' };
+      return true;
+    });
+    spooler.GetJobW.mockImplementation((_hPrinter: any, _jobId: number, _level: number, buffer: any, _size: number, needed: number[]) => {
+      needed[0] = 64;
+      return buffer !== null;
+    });
+  });
+
+  describe('getJob', () => {
+    test('should convert JOB_INFO_1W to JobInfo', () => {
+      mockDecode.mockReturnValue(jobInfo());
+
+      expect(manager.getJob(PRINTER, 12)).toEqual({
+        jobId: 12,
+        printerName: PRINTER,
+        machineName: '\\\\DESKTOP-1',
+        userName: 'alex',
+        documentName: 'invoice.pdf',
+        datatype: 'NT EMF 1.008',
+        status: 0x0010,
+        statusFlags: expect.objectContaining({ printing: true, printed: false, error: false }),
+        statusText: 'Printing',
+        priority: 1,
+        position: 1,
+        totalPages: 4,
+        pagesPrinted: 1,
+        submitted: new Date('2026-03-10T14:05:09.250Z')
+      });
+      expect(spooler.ClosePrinter).toHaveBeenCalledTimes(1);
+    });
+
+    test('should prefer the status text reported by the driver', () => {
+      mockDecode.mockReturnValue(jobInfo({ pStatus: 'Toner cartridge missing', Status: 0x0002 }));
+
+      expect(manager.getJob(PRINTER, 12)).toMatchObject({
+        statusFlags: expect.objectContaining({ error: true }),
+        statusText: 'Toner cartridge missing'
+      });
+    });
+
+    test('should leave missing strings undefined and describe an idle job as queued', () => {
+      mockDecode.mockReturnValue(jobInfo({ pMachineName: null, pUserName: null, pDatatype: null, pDocument: null, Status: 0 }));
+
+      expect(manager.getJob(PRINTER, 12)).toMatchObject({
+        machineName: undefined,
+        userName: undefined,
+        datatype: undefined,
+        documentName: '',
+        statusText: 'Queued'
+      });
+    });
+
+    test('should return null for a job that is no longer in the queue', () => {
+      spooler.GetJobW.mockReturnValue(false);
+
+      expect(manager.getJob(PRINTER, 12)).toBeNull();
+      expect(mockDecode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getJobs', () => {
+    test('should decode every job from its slice of the buffer', () => {
+      spooler.EnumJobsW.mockImplementation(
+        (_hPrinter: any, _first: number, _count: number, _level: number, buffer: any, _size: number, needed: number[], returned: number[]) => {
+          needed[0] = 128;
+          returned[0] = 2;
+          return buffer !== null;
+        }
+      );
+      mockDecode
+        .mockReturnValueOnce(jobInfo({ JobId: 12, Status: 0x1000 }))
+        .mockReturnValueOnce(jobInfo({ JobId: 13, Status: 0x0008 }));
+
+      const jobs = manager.getJobs(PRINTER);
+
+      expect(jobs.map(job => [job.jobId, job.statusText])).toEqual([[12, 'Sent to printer'], [13, 'Spooling']]);
+      expect(mockDecode.mock.calls.map(([slice]) => slice.length)).toEqual([64, 64]);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for WindowsPrinterManagerAdapter with a mocked spooler
+ */
+
+import koffi from 'koffi';
+import { WindowsPrinterManagerAdapter } from '../../src/adapters/windows/windows-printer-manager.adapter';
+import { PrinterNotFoundError, SpoolerError } from '../../src/core/errors';
+import * as api from '../../src/adapters/windows/api';
+
+// Mock the Windows API
+jest.mock('../../src/adapters/windows/api', () => ({
+  EnumPrintersW: jest.fn(),
+  GetDefaultPrinterW: jest.fn(),
+  OpenPrinterW: jest.fn(),
+  ClosePrinter: jest.fn(() => true),
+  GetPrinterW: jest.fn(),
+  PRINTER_ENUM_LOCAL: 2,
+  PRINTER_ENUM_CONNECTIONS: 4,
+  PRINTER_INFO_2W: 'PRINTER_INFO_2W',
+  PRINTER_ACCESS_USE: 8,
+  ERROR_INVALID_PRINTER_NAME: 1801,
+  GetLastError: jest.fn(() => 5)
+}));
+
+// Mock the capabilities service
+jest.mock('../../src/adapters/windows/services/printer-capabilities.service', () => ({
+  PrinterCapabilitiesService: jest.fn()
+}));
+
+// Mock koffi
+jest.mock('koffi', () => ({
+  decode: jest.fn()
+}));
+
+const PRINTER = 'Office Laser';
+
+/**
+ * Decoded PRINTER_INFO_2W structure
+ */
+function printerInfo(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    pServerName: null,
+    pPrinterName: PRINTER,
+    pShareName: 'laser',
+    pPortName: 'IP_10.0.0.20',
+    pDriverName: 'Generic PCL 6',
+    pComment: null,
+    pLocation: 'Floor 2',
+    pSepFile: null,
+    pPrintProcessor: 'winprint',
+    pDatatype: 'RAW',
+    pParameters: null,
+    Attributes: 0x0048,
+    Priority: 1,
+    DefaultPriority: 0,
+    StartTime: 0,
+    UntilTime: 0,
+    Status: 0,
+    cJobs: 2,
+    AveragePPM: 0,
+    ...overrides
+  };
+}
+
+describe('WindowsPrinterManagerAdapter', () => {
+  const spooler = api as jest.Mocked<typeof api>;
+  const mockDecode = koffi.decode as jest.Mock;
+  const platform = Object.getOwnPropertyDescriptor(process, 'platform')!;
+  let manager: WindowsPrinterManagerAdapter;
+
+  beforeAll(() => {
+    Object.defineProperty(process, 'platform', { value: 'win32' });
+  });
+
+  afterAll(() => {
+    Object.defineProperty(process, 'platform', platform);
+  });
+
+  /**
+   * Open the printer and report a PRINTER_INFO_2W of 256 bytes
+   */
+  function mockPrinter(info: Record<string, unknown>): void {
+    spooler.OpenPrinterW.mockImplementation((_name: string, handle: unknown[]) => {
+      handle[0] = { printer: PRINTER };
+      return true;
+    });
+    spooler.GetPrinterW.mockImplementation((_handle: unknown, _level: number, buffer: Buffer | null, _size: number, needed: number[]) => {
+      needed[0] = 256;
+      return buffer !== null;
+    });
+    mockDecode.mockReturnValue(info);
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    spooler.GetDefaultPrinterW.mockReturnValue(false);
+    manager = new WindowsPrinterManagerAdapter();
+  });
+
+  describe('getPrinterInfo', () => {
+    test('should convert PRINTER_INFO_2W to PrinterInfo', () => {
+      mockPrinter(printerInfo());
+
+      const info = manager.getPrinterInfo(PRINTER);
+
+      expect(info).toMatchObject({
+        name: PRINTER,
+        serverName: undefined,
+        portName: 'IP_10.0.0.20',
+        driverName: 'Generic PCL 6',
+        location: 'Floor 2',
+        comment: undefined,
+        shareName: 'laser',
+        datatype: 'RAW',
+        attributes: 0x0048,
+        statusText: 'Ready',
+        isDefault: false,
+        jobCount: 2
+      });
+      expect(info.attributeFlags).toMatchObject({ shared: true, local: true, network: false, workOffline: false });
+      expect(spooler.ClosePrinter).toHaveBeenCalledTimes(1);
+    });
+
+    test('should throw PrinterNotFoundError for an unknown printer', () => {
+      spooler.OpenPrinterW.mockReturnValue(false);
+      spooler.GetLastError.mockReturnValueOnce(1801);
+
+      expect(() => manager.getPrinterInfo('Missing')).toThrow(PrinterNotFoundError);
+      expect(spooler.ClosePrinter).not.toHaveBeenCalled();
+    });
+
+    test('should throw SpoolerError and close the printer when GetPrinter fails', () => {
+      mockPrinter(printerInfo());
+      spooler.GetPrinterW.mockReturnValue(false);
+
+      expect(() => manager.getPrinterInfo(PRINTER)).toThrow(SpoolerError);
+      expect(spooler.ClosePrinter).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getPrinterStatus', () => {
+    test('should report an idle printer as ready', () => {
+      mockPrinter(printerInfo());
+
+      expect(manager.getPrinterStatus(PRINTER)).toMatchObject({
+        printerName: PRINTER,
+        statusText: 'Ready',
+        ready: true,
+        jobCount: 2
+      });
+    });
+
+    test('should report a printer set to work offline as not ready', () => {
+      mockPrinter(printerInfo({ Attributes: 0x0448 }));
+
+      expect(manager.getPrinterStatus(PRINTER).ready).toBe(false);
+    });
+
+    test('should report a printer out of paper as not ready', () => {
+      mockPrinter(printerInfo({ Status: 0x0010 }));
+
+      const status = manager.getPrinterStatus(PRINTER);
+
+      expect(status.ready).toBe(false);
+      expect(status.statusFlags.paperOut).toBe(true);
+      expect(status.statusText).toBe('Paper out');
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Tests for WindowsPrinterWatcher with mocked change notifications
+ */
+
+import { WindowsPrinterWatcher } from '../../src/adapters/windows/windows-printer-watcher.adapter';
+import type { WindowsPrinterManagerAdapter } from '../../src/adapters/windows/windows-printer-manager.adapter';
+import type { WindowsPrintJobManagerAdapter } from '../../src/adapters/windows/windows-print-job-manager.adapter';
+import { SpoolerError } from '../../src/core/errors';
+import type { JobInfo, PrinterChangeEvent, PrinterInfo } from '../../src/core/types';
+import * as api from '../../src/adapters/windows/api';
+
+// Mock the Windows API
+jest.mock('../../src/adapters/windows/api', () => ({
+  OpenPrinterW: jest.fn(),
+  ClosePrinter: jest.fn(() => true),
+  FindFirstPrinterChangeNotification: jest.fn(),
+  FindNextPrinterChangeNotification: jest.fn(),
+  FindClosePrinterChangeNotification: jest.fn(() => true),
+  PRINTER_ACCESS_USE: 8,
+  PRINTER_CHANGE_PRINTER: 0x000000FF,
+  PRINTER_CHANGE_JOB: 0x0000FF00,
+  WaitForSingleObject: { async: jest.fn() },
+  WAIT_OBJECT_0: 0,
+  WAIT_FAILED: 0xFFFFFFFF,
+  INVALID_HANDLE_VALUE: 0xFFFFFFFFFFFFFFFFn,
+  ERROR_INVALID_PRINTER_NAME: 1801,
+  GetLastError: jest.fn(() => 5)
+}));
+
+// Mock koffi
+jest.mock('koffi', () => ({
+  address: jest.fn(() => 0x1000n)
+}));
+
+const H_CHANGE = { change: true };
+const WAIT_TIMEOUT = 0x102;
+
+type WaitCallback = (error: unknown, result: number) => void;
+
+function printer(name: string, overrides: Partial<PrinterInfo> = {}): PrinterInfo {
+  return { name, status: 0, statusText: 'Ready', portName: 'USB001', jobCount: 0, ...overrides } as PrinterInfo;
+}
+
+function job(jobId: number, overrides: Partial<JobInfo> = {}): JobInfo {
+  return { jobId, printerName: 'Office Laser', document: 'invoice.pdf', status: 0, pagesPrinted: 0, ...overrides } as JobInfo;
+}
+
+describe('WindowsPrinterWatcher', () => {
+  const spooler = api as jest.Mocked<typeof api>;
+  const waitAsync = (api.WaitForSingleObject as unknown as { async: jest.Mock }).async;
+  let printers: PrinterInfo[];
+  let jobs: Record<string, JobInfo[]>;
+  let manager: { getAvailablePrinters: jest.Mock; getPrinterInfo: jest.Mock };
+  let jobManager: { getJobs: jest.Mock };
+  let watcher: WindowsPrinterWatcher;
+  let events: PrinterChangeEvent[];
+
+  function createWatcher(): WindowsPrinterWatcher {
+    return new WindowsPrinterWatcher(
+      manager as unknown as WindowsPrinterManagerAdapter,
+      jobManager as unknown as WindowsPrintJobManagerAdapter
+    );
+  }
+
+  /**
+   * Complete the in-flight wait as if the spooler signaled a change
+   */
+  function signal(change: number): void {
+    const callback = waitAsync.mock.calls[waitAsync.mock.calls.length - 1][2] as WaitCallback;
+    spooler.FindNextPrinterChangeNotification.mockImplementationOnce((_handle: unknown, flags: number[]) => {
+      flags[0] = change;
+      return true;
+    });
+    callback(null, 0);
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    spooler.GetLastError.mockImplementation(() => 5);
+    spooler.OpenPrinterW.mockImplementation((_name: string | null, handle: unknown[]) => {
+      handle[0] = { printer: true };
+      return true;
+    });
+    spooler.FindFirstPrinterChangeNotification.mockReturnValue(H_CHANGE);
+
+    printers = [printer('Office Laser')];
+    jobs = { 'Office Laser': [job(12)] };
+    manager = {
+      getAvailablePrinters: jest.fn(() => printers),
+      getPrinterInfo: jest.fn()
+    };
+    jobManager = {
+      getJobs: jest.fn((name: string) => jobs[name] ?? [])
+    };
+
+    events = [];
+    watcher = createWatcher();
+    watcher.on('change', event => events.push(event));
+  });
+
+  afterEach(async () => {
+    const closed = watcher.close();
+    const callback = waitAsync.mock.calls[waitAsync.mock.calls.length - 1]?.[2] as WaitCallback | undefined;
+    callback?.(null, WAIT_TIMEOUT);
+    await closed;
+  });
+
+  describe('start', () => {
+    test('should snapshot printers and jobs without emitting events', () => {
+      watcher.start();
+
+      expect(manager.getAvailablePrinters).toHaveBeenCalledTimes(1);
+      expect(jobManager.getJobs).toHaveBeenCalledWith('Office Laser');
+      expect(waitAsync).toHaveBeenCalledTimes(1);
+      expect(events).toEqual([]);
+    });
+
+    test('should release the handles when the initial snapshot fails', () => {
+      const enumError = new SpoolerError('Failed to enumerate printers', { printerName: '', operation: 'EnumPrinters', win32Error: 1722 });
+      manager.getAvailablePrinters.mockImplementation(() => {
+        throw enumError;
+      });
+
+      // watch() never returns the watcher, so nobody could close it
+      expect(() => watcher.start()).toThrow(enumError);
+
+      expect(spooler.FindClosePrinterChangeNotification).toHaveBeenCalledWith(H_CHANGE);
+      expect(spooler.ClosePrinter).toHaveBeenCalledTimes(1);
+      expect(waitAsync).not.toHaveBeenCalled();
+    });
+
+    test('should keep the FindFirstPrinterChangeNotification error code', () => {
+      spooler.FindFirstPrinterChangeNotification.mockReturnValue(null);
+      // ClosePrinter succeeds and resets the thread's last error
+      let lastError = 1722;
+      spooler.GetLastError.mockImplementation(() => lastError);
+      spooler.ClosePrinter.mockImplementationOnce(() => {
+        lastError = 0;
+        return true;
+      });
+
+      expect(() => watcher.start()).toThrow(
+        expect.objectContaining({ operation: 'FindFirstPrinterChangeNotification', win32Error: 1722 })
+      );
+    });
+  });
+
+  describe('printer changes', () => {
+    test('should emit printer-added for a new printer', () => {
+      watcher.start();
+      printers = [...printers, printer('Label Printer')];
+
+      signal(0x00000001);
+
+      expect(events).toEqual([{ type: 'printer-added', printer: printers[1] }]);
+    });
+
+    test('should emit printer-deleted for a removed printer', () => {
+      watcher.start();
+      printers = [];
+
+      signal(0x00000004);
+
+      expect(events).toEqual([{ type: 'printer-deleted', printerName: 'Office Laser' }]);
+    });
+
+    test('should emit status-changed with the previous status', () => {
+      watcher.start();
+      printers = [printer('Office Laser', { status: 0x0010, statusText: 'Paper out' })];
+
+      signal(0x00000002);
+
+      expect(events).toEqual([{
+        type: 'status-changed',
+        printer: printers[0],
+        previousStatus: 0,
+        previousStatusText: 'Ready'
+      }]);
+    });
+
+    test('should emit printer-changed when printer details change', () => {
+      watcher.start();
+      printers = [printer('Office Laser', { portName: 'IP_10.0.0.20' })];
+
+      signal(0x00000002);
+
+      expect(events).toEqual([{ type: 'printer-changed', printer: printers[0] }]);
+    });
+
+    test('should ignore printer notifications without a difference', () => {
+      watcher.start();
+
+      signal(0x00000002);
+
+      expect(events).toEqual([]);
+    });
+
+    test('should also emit events under their own type', () => {
+      const added = jest.fn();
+      watcher.on('printer-added', added);
+      watcher.start();
+      printers = [...printers, printer('Label Printer')];
+
+      signal(0x00000001);
+
+      expect(added).toHaveBeenCalledWith({ type: 'printer-added', printer: printers[1] });
+    });
+  });
+
+  describe('job changes', () => {
+    test('should emit job-added for a new job', () => {
+      watcher.start();
+      jobs['Office Laser'] = [job(12), job(13)];
+
+      signal(0x00000100);
+
+      expect(events).toEqual([{ type: 'job-added', printerName: 'Office Laser', job: jobs['Office Laser'][1] }]);
+    });
+
+    test('should emit job-set when a job changes', () => {
+      watcher.start();
+      jobs['Office Laser'] = [job(12, { pagesPrinted: 2 })];
+
+      signal(0x00000200);
+
+      expect(events).toEqual([{ type: 'job-set', printerName: 'Office Laser', job: jobs['Office Laser'][0] }]);
+    });
+
+    test('should emit job-deleted for a finished job', () => {
+      watcher.start();
+      jobs['Office Laser'] = [];
+
+      signal(0x00000400);
+
+      expect(events).toEqual([{ type: 'job-deleted', printerName: 'Office Laser', jobId: 12 }]);
+    });
+
+    test('should skip printers whose jobs cannot be read', () => {
+      printers = [printer('\\\\server\\Offline'), printer('Office Laser')];
+      jobManager.getJobs.mockImplementation((name: string) => {
+        if (name === '\\\\server\\Offline') {
+          throw new SpoolerError('Failed to open printer', { printerName: name, operation: 'OpenPrinter', win32Error: 1722 });
+        }
+        return jobs[name] ?? [];
+      });
+
+      watcher.start();
+      jobs['Office Laser'] = [job(12), job(13)];
+      signal(0x00000100);
+
+      expect(events).toEqual([{ type: 'job-added', printerName: 'Office Laser', job: jobs['Office Laser'][1] }]);
+      expect(waitAsync).toHaveBeenCalledTimes(2);
+    });
+
+    test('should keep the job snapshot of a printer that fails temporarily', () => {
+      watcher.start();
+      jobManager.getJobs.mockImplementationOnce(() => {
+        throw new Error('Printer gone');
+      });
+
+      signal(0x00000400);
+      signal(0x00000400);
+
+      expect(events).toEqual([]);
+      expect(waitAsync).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('async iterator', () => {
+    test('should resolve concurrent next() calls in order', async () => {
+      watcher.start();
+      const iterator = watcher[Symbol.asyncIterator]();
+      const first = iterator.next();
+      const second = iterator.next();
+      printers = [...printers, printer('Label Printer')];
+      jobs['Office Laser'] = [];
+
+      signal(0x00000401);
+
+      await expect(first).resolves.toEqual({ value: { type: 'printer-added', printer: printers[1] }, done: false });
+      await expect(second).resolves.toEqual({ value: { type: 'job-deleted', printerName: 'Office Laser', jobId: 12 }, done: false });
+    });
+
+    test('should buffer events until next() is called', async () => {
+      watcher.start();
+      const iterator = watcher[Symbol.asyncIterator]();
+      jobs['Office Laser'] = [];
+
+      signal(0x00000400);
+
+      await expect(iterator.next()).resolves.toEqual({
+        value: { type: 'job-deleted', printerName: 'Office Laser', jobId: 12 },
+        done: false
+      });
+    });
+
+    test('should finish every pending next() when the watcher closes', async () => {
+      watcher.start();
+      const iterator = watcher[Symbol.asyncIterator]();
+      const first = iterator.next();
+      const second = iterator.next();
+
+      const closed = watcher.close();
+      (waitAsync.mock.calls[0][2] as WaitCallback)(null, WAIT_TIMEOUT);
+      await closed;
+
+      await expect(first).resolves.toEqual({ value: undefined, done: true });
+      await expect(second).resolves.toEqual({ value: undefined, done: true });
+      await expect(iterator.next()).resolves.toEqual({ value: undefined, done: true });
+    });
+  });
+
+  test('should release the handles once the in-flight wait returns', async () => {
+    watcher.start();
+
+    const closed = watcher.close();
+    expect(spooler.FindClosePrinterChangeNotification).not.toHaveBeenCalled();
+
+    (waitAsync.mock.calls[0][2] as WaitCallback)(null, WAIT_TIMEOUT);
+    await closed;
+
+    expect(spooler.FindClosePrinterChangeNotification).toHaveBeenCalledWith(H_CHANGE);
+    expect(spooler.ClosePrinter).toHaveBeenCalledTimes(1);
+  });
+
+  test('should emit error and close when the wait fails', async () => {
+    const onError = jest.fn();
+    watcher.on('error', onError);
+    watcher.start();
+
+    (waitAsync.mock.calls[0][2] as WaitCallback)(null, 0xFFFFFFFF);
+    await watcher.close();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'WaitForSingleObject' }));
+    expect(spooler.FindClosePrinterChangeNotification).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,526 @@
+/**
+ * Tests for WindowsPrinterAdapter spooling with mocked GDI and PDFium
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WindowsPrinterAdapter } from '../../src/adapters/windows/windows-printer.adapter';
+import { PdfRenderService } from '../../src/adapters/windows/services/pdf-render.service';
+import { DevModeConfigService } from '../../src/adapters/windows/services/devmode-config.service';
+import { WindowsPrinterManagerAdapter } from '../../src/adapters/windows/windows-printer-manager.adapter';
+import { WindowsPrintJobManagerAdapter } from '../../src/adapters/windows/windows-print-job-manager.adapter';
+import * as api from '../../src/adapters/windows/api';
+import { PdfFormatError, PrintJobError, PrintJobTimeoutError, SpoolerError } from '../../src/core/errors';
+import { decodeJobStatus, describeJobStatus } from '../../src/core/spooler';
+import { PDFPrinter } from '../../src';
+import type { JobInfo, PrintProgressEvent } from '../../src/core/types';
+
+// Mock the Windows API
+jest.mock('../../src/adapters/windows/api', () => ({
+  CreateDCW: jest.fn(),
+  DeleteDC: jest.fn(() => true),
+  StartDocW: jest.fn(),
+  EndDoc: jest.fn(),
+  AbortDoc: jest.fn(),
+  StartPage: jest.fn(),
+  EndPage: jest.fn(),
+  StretchDIBits: jest.fn(),
+  GetDeviceCaps: jest.fn(),
+  HORZRES: 8,
+  VERTRES: 10,
+  LOGPIXELSX: 88,
+  LOGPIXELSY: 90,
+  PHYSICALWIDTH: 110,
+  PHYSICALHEIGHT: 111,
+  PHYSICALOFFSETX: 112,
+  PHYSICALOFFSETY: 113,
+  BITMAPINFOHEADER: 'BITMAPINFOHEADER',
+  BI_RGB: 0,
+  DIB_RGB_COLORS: 0,
+  SRCCOPY: 0x00CC0020,
+  PatBlt: jest.fn(() => true),
+  BLACKNESS: 0x00000042,
+  WHITENESS: 0x00FF0062,
+  SaveDC: jest.fn(() => 1),
+  RestoreDC: jest.fn(() => true),
+  IntersectClipRect: jest.fn(() => 2),
+  CLIP_ERROR: 0,
+  GetLastError: jest.fn(() => 5)
+}));
+
+// Mock the services and the other adapters; their own tests cover them
+jest.mock('../../src/adapters/windows/services/pdf-render.service', () => ({ PdfRenderService: jest.fn() }));
+jest.mock('../../src/adapters/windows/services/devmode-config.service', () => ({ DevModeConfigService: jest.fn() }));
+jest.mock('../../src/adapters/windows/services/printer-capabilities.service', () => ({ PrinterCapabilitiesService: jest.fn() }));
+jest.mock('../../src/adapters/windows/services/print-dialog.service', () => ({ PrintDialogService: jest.fn() }));
+jest.mock('../../src/adapters/windows/services/emf.service', () => ({ EmfService: jest.fn() }));
+jest.mock('../../src/adapters/windows/services/text.service', () => ({ TextService: jest.fn() }));
+jest.mock('../../src/adapters/windows/services/raw-print.service', () => ({ RawPrintService: jest.fn() }));
+jest.mock('../../src/adapters/windows/windows-printer-manager.adapter', () => ({ WindowsPrinterManagerAdapter: jest.fn() }));
+jest.mock('../../src/adapters/windows/windows-print-job-manager.adapter', () => ({ WindowsPrintJobManagerAdapter: jest.fn() }));
+jest.mock('../../src/adapters/windows/windows-printer-watcher.adapter', () => ({ WindowsPrinterWatcher: jest.fn() }));
+
+// Mock koffi
+jest.mock('koffi', () => ({
+  as: jest.fn(),
+  pointer: jest.fn()
+}));
+
+const PRINTER = 'Office Laser';
+const HDC = { dc: 'printer' };
+const PDF = Buffer.from('%PDF-1.7\n%%EOF\n');
+
+// Letter at 300 DPI with quarter-inch unprintable margins
+const DEVICE_CAPS: Record<number, number> = {
+  8: 2400, 10: 3150, 88: 300, 90: 300, 110: 2550, 111: 3300, 112: 75, 113: 75
+};
+
+const gdi = api as jest.Mocked<typeof api>;
+
+/**
+ * Reset the mocks to a printer that accepts every call
+ */
+function mockPrinter(): void {
+  jest.clearAllMocks();
+
+  gdi.CreateDCW.mockReturnValue(HDC);
+  gdi.StartDocW.mockReturnValue(17);
+  gdi.StartPage.mockReturnValue(1);
+  gdi.EndPage.mockReturnValue(1);
+  gdi.EndDoc.mockReturnValue(1);
+  gdi.AbortDoc.mockReturnValue(1);
+  gdi.StretchDIBits.mockReturnValue(1);
+  gdi.GetDeviceCaps.mockImplementation((_hDC: any, index: number) => DEVICE_CAPS[index]);
+
+  (DevModeConfigService as unknown as jest.Mock).mockImplementation(() => ({ getDevModeWithSettings: jest.fn(() => null) }));
+  (WindowsPrinterManagerAdapter as unknown as jest.Mock).mockImplementation(() => ({ printerExists: jest.fn(() => true) }));
+}
+
+/**
+ * Mock PDFium with a document of Letter pages
+ */
+function mockPdfium(pageCount: number): Record<string, jest.Mock> {
+  const pdfium = {
+    initialize: jest.fn(async () => undefined),
+    loadDocument: jest.fn(() => ({ doc: 'pdf' })),
+    getPageCount: jest.fn(() => pageCount),
+    getPageGeometry: jest.fn(() => ({
+      bounds: { left: 0, bottom: 0, right: 612, top: 792 },
+      rotation: 0,
+      width: 612,
+      height: 792,
+      display: { x: 0, y: 0, width: 612, height: 792 }
+    })),
+    renderPage: jest.fn(() => ({ buffer: Buffer.alloc(4), width: 1, height: 1, stride: 4 })),
+    renderPageToDC: jest.fn(),
+    cleanupRenderedPage: jest.fn(),
+    closeDocument: jest.fn(),
+    cleanup: jest.fn(),
+    isCacheEnabled: jest.fn(() => true),
+    setCacheEnabled: jest.fn()
+  };
+  (PdfRenderService as unknown as jest.Mock).mockImplementation(() => pdfium);
+  return pdfium;
+}
+
+describe('WindowsPrinterAdapter spooling', () => {
+  let pdfium: Record<string, jest.Mock>;
+  let printer: WindowsPrinterAdapter;
+  let events: PrintProgressEvent[];
+
+  beforeEach(() => {
+    mockPrinter();
+    pdfium = mockPdfium(3);
+    printer = new WindowsPrinterAdapter(PRINTER);
+    events = [];
+  });
+
+  const onProgress = (event: PrintProgressEvent) => events.push(event);
+
+  test('should spool every page and end the document', async () => {
+    await printer.printRaw(PDF, 'Report', { onProgress });
+
+    expect(gdi.StartDocW).toHaveBeenCalledWith(HDC, expect.objectContaining({ lpszDocName: 'Report' }));
+    expect(gdi.StartPage).toHaveBeenCalledTimes(3);
+    expect(gdi.EndPage).toHaveBeenCalledTimes(3);
+    expect(gdi.EndDoc).toHaveBeenCalledWith(HDC);
+    expect(gdi.AbortDoc).not.toHaveBeenCalled();
+    expect(gdi.DeleteDC).toHaveBeenCalledWith(HDC);
+    expect(events.map(event => event.type)).toEqual([
+      'job-started',
+      'page-rendered', 'page-spooled',
+      'page-rendered', 'page-spooled',
+      'page-rendered', 'page-spooled',
+      'copy-completed',
+      'job-finished'
+    ]);
+    expect(events[0]).toEqual({ type: 'job-started', jobId: 17, printerName: PRINTER, documentName: 'Report', totalPages: 3, copies: 1 });
+    expect(events[6]).toEqual({ type: 'page-spooled', pageNumber: 3, copy: 1, current: 3, totalPages: 3 });
+    expect(events[8]).toEqual({ type: 'job-finished', jobId: 17, pagesPrinted: 3, aborted: false });
+  });
+
+  test('should discard the job when the caller aborts between pages', async () => {
+    const controller = new AbortController();
+    const print = printer.printRaw(PDF, 'Report', {
+      signal: controller.signal,
+      onProgress: event => {
+        onProgress(event);
+        if (event.type === 'page-spooled') {
+          controller.abort();
+        }
+      }
+    });
+
+    await expect(print).rejects.toMatchObject({ name: 'AbortError' });
+    expect(gdi.StartPage).toHaveBeenCalledTimes(1);
+    expect(gdi.AbortDoc).toHaveBeenCalledWith(HDC);
+    expect(gdi.EndDoc).not.toHaveBeenCalled();
+    expect(events[events.length - 1]).toEqual({ type: 'job-finished', jobId: 17, pagesPrinted: 1, aborted: true });
+  });
+
+  test('should see an abort fired from a timer while spooling', async () => {
+    mockPdfium(50);
+    printer = new WindowsPrinterAdapter(PRINTER);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 0);
+
+    await expect(printer.printRaw(PDF, 'Report', { signal: controller.signal, onProgress })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(gdi.StartPage.mock.calls.length).toBeLessThan(50);
+    expect(gdi.AbortDoc).toHaveBeenCalledWith(HDC);
+    expect(gdi.EndDoc).not.toHaveBeenCalled();
+    expect(events[events.length - 1]).toMatchObject({ type: 'job-finished', aborted: true });
+  });
+
+  test('should discard the job when a page fails to render', async () => {
+    const renderError = new Error('PDFium could not render page 2');
+    pdfium.renderPage
+      .mockReturnValueOnce({ buffer: Buffer.alloc(4), width: 1, height: 1, stride: 4 })
+      .mockImplementationOnce(() => { throw renderError; });
+
+    await expect(printer.printRaw(PDF, 'Report', { onProgress })).rejects.toBe(renderError);
+    // The page that failed is still ended before the job is discarded
+    expect(gdi.EndPage).toHaveBeenCalledTimes(2);
+    expect(gdi.AbortDoc).toHaveBeenCalledWith(HDC);
+    expect(gdi.EndDoc).not.toHaveBeenCalled();
+    expect(gdi.DeleteDC).toHaveBeenCalledWith(HDC);
+    expect(events.some(event => event.type === 'job-finished')).toBe(false);
+  });
+
+  test('should discard the job when a page cannot be started', async () => {
+    gdi.StartPage.mockReturnValueOnce(1).mockReturnValueOnce(0);
+
+    await expect(printer.printRaw(PDF, 'Report')).rejects.toMatchObject({
+      name: 'SpoolerError',
+      operation: 'StartPage',
+      jobId: 17,
+      pageIndex: 1
+    });
+    expect(gdi.AbortDoc).toHaveBeenCalledWith(HDC);
+    expect(gdi.EndDoc).not.toHaveBeenCalled();
+  });
+
+  test('should report the drawing error when the page cannot be ended either', async () => {
+    gdi.StretchDIBits.mockReturnValueOnce(0);
+    gdi.EndPage.mockReturnValueOnce(0);
+
+    const error = await printer.printRaw(PDF, 'Report').catch(error => error);
+
+    expect(error).toBeInstanceOf(SpoolerError);
+    expect(error).toMatchObject({ operation: 'StretchDIBits', pageIndex: 0 });
+    expect(gdi.AbortDoc).toHaveBeenCalledWith(HDC);
+    expect(gdi.EndDoc).not.toHaveBeenCalled();
+  });
+
+  test('should reject when a page cannot be ended', async () => {
+    gdi.EndPage.mockReturnValueOnce(1).mockReturnValueOnce(0);
+
+    await expect(printer.printRaw(PDF, 'Report')).rejects.toMatchObject({ operation: 'EndPage', pageIndex: 1 });
+    expect(gdi.AbortDoc).toHaveBeenCalledWith(HDC);
+  });
+
+  test('should reject when the document cannot be ended', async () => {
+    gdi.EndDoc.mockReturnValueOnce(0);
+
+    await expect(printer.printRaw(PDF, 'Report', { onProgress })).rejects.toMatchObject({ operation: 'EndDoc', jobId: 17 });
+    expect(gdi.AbortDoc).not.toHaveBeenCalled();
+    expect(events.some(event => event.type === 'job-finished')).toBe(false);
+  });
+});
+
+describe('WindowsPrinterAdapter vector rendering', () => {
+  const WHITENESS = 0x00FF0062;
+  let pdfium: Record<string, jest.Mock>;
+  let printer: WindowsPrinterAdapter;
+
+  beforeEach(() => {
+    mockPrinter();
+    pdfium = mockPdfium(1);
+    printer = new WindowsPrinterAdapter(PRINTER);
+  });
+
+  test('should draw pages with PDFium\'s GDI renderer', async () => {
+    await printer.printRaw(PDF, 'Report', { renderMode: 'vector' });
+
+    expect(pdfium.renderPageToDC).toHaveBeenCalledWith({ doc: 'pdf' }, 0, HDC, expect.any(Object), expect.any(Object));
+    expect(pdfium.renderPage).not.toHaveBeenCalled();
+    expect(gdi.PatBlt).not.toHaveBeenCalled();
+  });
+
+  test('should report the device DPI as the render DPI', async () => {
+    const result = await printer.printRaw(PDF, 'Report', { renderMode: 'vector', quality: 150 });
+
+    expect(result.renderDpi).toBe(300);
+  });
+
+  test('should clear the page area before falling back to raster', async () => {
+    pdfium.renderPageToDC.mockImplementationOnce(() => {
+      throw new Error('FPDF_RenderPage failed');
+    });
+
+    await printer.printRaw(PDF, 'Report', { renderMode: 'vector' });
+
+    expect(gdi.PatBlt).toHaveBeenCalledTimes(1);
+    const [hDC, x, y, width, height, rop] = gdi.PatBlt.mock.calls[0];
+    expect(rop).toBe(WHITENESS);
+    expect(hDC).toBe(HDC);
+    // The cleared area is the one the bitmap is drawn into
+    expect(gdi.StretchDIBits.mock.calls[0].slice(1, 5)).toEqual([x, y, width, height]);
+    expect(gdi.PatBlt.mock.invocationCallOrder[0]).toBeLessThan(gdi.StretchDIBits.mock.invocationCallOrder[0]);
+    expect(gdi.EndDoc).toHaveBeenCalledWith(HDC);
+  });
+
+  test('should not fall back when the page area cannot be cleared', async () => {
+    pdfium.renderPageToDC.mockImplementationOnce(() => {
+      throw new Error('FPDF_RenderPage failed');
+    });
+    gdi.PatBlt.mockReturnValueOnce(false);
+
+    await expect(printer.printRaw(PDF, 'Report', { renderMode: 'vector' })).rejects.toMatchObject({
+      name: 'SpoolerError',
+      operation: 'PatBlt',
+      pageIndex: 0
+    });
+    expect(pdfium.renderPage).not.toHaveBeenCalled();
+    expect(gdi.AbortDoc).toHaveBeenCalledWith(HDC);
+  });
+
+  test('should not fall back on spooler errors', async () => {
+    gdi.IntersectClipRect.mockReturnValueOnce(0);
+
+    await expect(printer.printRaw(PDF, 'Report', { renderMode: 'vector' })).rejects.toMatchObject({
+      operation: 'IntersectClipRect'
+    });
+    expect(pdfium.renderPage).not.toHaveBeenCalled();
+    expect(gdi.AbortDoc).toHaveBeenCalledWith(HDC);
+  });
+});
+
+describe('WindowsPrinterAdapter results', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    mockPrinter();
+    mockPdfium(2);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf-printer-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should resolve printRaw() with the spooler job and the pages printed', async () => {
+    const result = await new WindowsPrinterAdapter(PRINTER).printRaw(PDF, 'Report', { copies: 3, quality: 150 });
+
+    expect(result).toEqual({
+      jobId: 17,
+      jobIds: [17],
+      printerName: PRINTER,
+      documentName: 'Report',
+      pagesPrinted: 6,
+      copies: 3,
+      renderDpi: 150,
+      cancelled: false,
+      timings: expect.objectContaining({ load: expect.any(Number), spool: expect.any(Number), total: expect.any(Number) })
+    });
+    expect(result.timings.total).toBeGreaterThanOrEqual(result.timings.render);
+  });
+
+  test('should count the copies the driver makes in pagesPrinted', async () => {
+    (DevModeConfigService as unknown as jest.Mock).mockImplementation(() => ({ getDevModeWithSettings: jest.fn(() => ({ dmCopies: 3 })) }));
+
+    const result = await new WindowsPrinterAdapter(PRINTER).printRaw(PDF, 'Report', { copies: 3, copiesMode: 'driver' });
+
+    // One set is spooled and the printer repeats it
+    expect(gdi.StartPage).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ pagesPrinted: 6, copies: 3 });
+  });
+
+  test('should resolve print() with the file name as the document name', async () => {
+    const pdfPath = path.join(tempDir, 'invoice.pdf');
+    fs.writeFileSync(pdfPath, PDF);
+
+    const result = await new WindowsPrinterAdapter(PRINTER).print(pdfPath);
+
+    expect(gdi.StartDocW).toHaveBeenCalledWith(HDC, expect.objectContaining({ lpszDocName: 'invoice.pdf' }));
+    expect(result).toMatchObject({ jobId: 17, jobIds: [17], documentName: 'invoice.pdf', pagesPrinted: 2, copies: 1, renderDpi: 300 });
+  });
+
+  test('should reject a file that is not a PDF instead of sending it to the printer', async () => {
+    const pdfium = mockPdfium(1);
+    const html = Buffer.from('<!DOCTYPE html><html><body>502 Bad Gateway</body></html>');
+    pdfium.loadDocument.mockImplementation(() => {
+      throw new PdfFormatError('Failed to load PDF document: data is not a PDF or is corrupted', 3);
+    });
+    const pdfPath = path.join(tempDir, 'invoice.pdf');
+    fs.writeFileSync(pdfPath, html);
+
+    await expect(new WindowsPrinterAdapter(PRINTER).print(pdfPath, { passthrough: true })).rejects.toBeInstanceOf(PdfFormatError);
+    expect(pdfium.loadDocument).toHaveBeenCalledWith(html, undefined);
+    expect(gdi.StartDocW).not.toHaveBeenCalled();
+  });
+
+  test('should pass the result through the PDFPrinter facade', async () => {
+    const pdfPath = path.join(tempDir, 'invoice.pdf');
+    fs.writeFileSync(pdfPath, PDF);
+
+    const result = await new PDFPrinter(PRINTER).print(pdfPath, { pages: '2' });
+
+    expect(result).toMatchObject({ jobId: 17, printerName: PRINTER, documentName: 'invoice.pdf', pagesPrinted: 1, cancelled: false });
+  });
+});
+
+describe('WindowsPrinterAdapter waitForCompletion', () => {
+  const SPOOLING = 0x0008;
+  const PRINTING = 0x0010;
+  const PRINTED = 0x0080;
+  const DELETING = 0x0004;
+  const PAPER_OUT = 0x0040;
+  const SENT_TO_PRINTER = 0x1000;
+
+  let getJob: jest.Mock;
+  let printer: WindowsPrinterAdapter;
+
+  /**
+   * Job 17 as the spooler reports it with the given JOB_STATUS_* bits
+   */
+  const queued = (status: number): JobInfo => {
+    const statusFlags = decodeJobStatus(status);
+    return {
+      jobId: 17,
+      printerName: PRINTER,
+      documentName: 'Report',
+      status,
+      statusFlags,
+      statusText: describeJobStatus(statusFlags),
+      priority: 1,
+      position: 1,
+      totalPages: 1,
+      pagesPrinted: 0,
+      submitted: new Date()
+    };
+  };
+
+  // Polls the queue returning each status in turn, then an empty queue
+  const queueReports = (...statuses: number[]) => {
+    statuses.forEach(status => getJob.mockReturnValueOnce(queued(status)));
+    getJob.mockReturnValue(null);
+  };
+
+  const print = (timeout = 1000) =>
+    printer.printRaw(PDF, 'Report', { waitForCompletion: { timeout, pollInterval: 1 } });
+
+  beforeEach(() => {
+    mockPrinter();
+    mockPdfium(1);
+    getJob = jest.fn();
+    (WindowsPrintJobManagerAdapter as unknown as jest.Mock).mockImplementation(() => ({ getJob }));
+    printer = new WindowsPrinterAdapter(PRINTER);
+  });
+
+  test('should stop waiting when the caller aborts', async () => {
+    getJob.mockReturnValue(queued(PRINTING));
+    const controller = new AbortController();
+    const print = printer.printRaw(PDF, 'Report', {
+      signal: controller.signal,
+      waitForCompletion: { timeout: 60_000, pollInterval: 60_000 }
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(print).rejects.toMatchObject({ name: 'AbortError' });
+    expect(getJob).toHaveBeenCalledTimes(1);
+    // The job was already spooled and is left in the queue
+    expect(gdi.EndDoc).toHaveBeenCalledWith(HDC);
+    expect(gdi.AbortDoc).not.toHaveBeenCalled();
+  });
+
+  test('should not poll the queue unless requested', async () => {
+    const result = await printer.printRaw(PDF, 'Report');
+
+    expect(getJob).not.toHaveBeenCalled();
+    expect(result.completion).toBeUndefined();
+  });
+
+  test('should resolve once the job is printed', async () => {
+    queueReports(SPOOLING, PRINTING, PRINTED);
+
+    const result = await print();
+
+    expect(getJob).toHaveBeenCalledTimes(3);
+    expect(getJob).toHaveBeenCalledWith(PRINTER, 17);
+    expect(result.completion).toBe('printed');
+    expect(result.timings.completion).toBeGreaterThan(0);
+  });
+
+  test('should resolve when the job leaves the queue after printing', async () => {
+    queueReports(SPOOLING, PRINTING);
+
+    await expect(print()).resolves.toMatchObject({ jobId: 17 });
+  });
+
+  test('should resolve when the job leaves the queue after it was sent to the printer', async () => {
+    queueReports(SENT_TO_PRINTER);
+
+    await expect(print()).resolves.toMatchObject({ jobId: 17 });
+  });
+
+  test('should reject when the job leaves the queue before printing', async () => {
+    queueReports(SPOOLING);
+
+    const error = await print().catch(error => error);
+
+    expect(error).toBeInstanceOf(PrintJobError);
+    expect(error).toMatchObject({ reason: 'deleted', jobId: 17, printerName: PRINTER, job: expect.objectContaining({ statusText: 'Spooling' }) });
+  });
+
+  test('should resolve with an unknown outcome when the job is gone at the first check', async () => {
+    queueReports();
+
+    const result = await print();
+
+    expect(result.completion).toBe('unknown');
+    expect(getJob).toHaveBeenCalledTimes(1);
+  });
+
+  test('should reject when the job is being deleted', async () => {
+    queueReports(PRINTING, PRINTING | DELETING);
+
+    await expect(print()).rejects.toMatchObject({ reason: 'deleted', job: expect.objectContaining({ status: PRINTING | DELETING }) });
+    expect(getJob).toHaveBeenCalledTimes(2);
+  });
+
+  test('should reject when the job enters an error state', async () => {
+    queueReports(PRINTING, PRINTING | PAPER_OUT);
+
+    await expect(print()).rejects.toMatchObject({ reason: 'error', message: 'Print job 17 failed: Paper out, Printing' });
+  });
+
+  test('should reject when the job does not finish in time', async () => {
+    getJob.mockReturnValue(queued(PRINTING));
+
+    const error = await print(20).catch(error => error);
+
+    expect(error).toBeInstanceOf(PrintJobTimeoutError);
+    expect(error).toMatchObject({ reason: 'timeout', timeout: 20, job: expect.objectContaining({ statusText: 'Printing' }) });
+  });
+});
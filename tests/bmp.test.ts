@@ -0,0 +1,157 @@
+/**
+ * Tests for the BMP decoder
+ */
+
+import { openImage, type DecodedImage } from '../src/core/images';
+import { ImageDecodeError } from '../src/core/errors';
+
+interface BmpFixture {
+  width: number;
+  height: number;
+  bitCount: number;
+  compression?: number;
+  palette?: number[][];
+  masks?: number[];
+  pixels: number[];
+  pixelsPerMetre?: number;
+}
+
+/**
+ * BMP with a BITMAPINFOHEADER; `pixels` are the raw rows as stored
+ */
+function createBmp(fixture: BmpFixture): Buffer {
+  const palette = Buffer.from((fixture.palette ?? []).flatMap(([red, green, blue]) => [blue, green, red, 0]));
+  const masks = Buffer.alloc((fixture.masks ?? []).length * 4);
+  (fixture.masks ?? []).forEach((mask, index) => masks.writeUInt32LE(mask, index * 4));
+
+  const info = Buffer.alloc(40);
+  info.writeUInt32LE(40, 0);
+  info.writeInt32LE(fixture.width, 4);
+  info.writeInt32LE(fixture.height, 8);
+  info.writeUInt16LE(1, 12);
+  info.writeUInt16LE(fixture.bitCount, 14);
+  info.writeUInt32LE(fixture.compression ?? 0, 16);
+  info.writeInt32LE(fixture.pixelsPerMetre ?? 0, 24);
+  info.writeInt32LE(fixture.pixelsPerMetre ?? 0, 28);
+  info.writeUInt32LE((fixture.palette ?? []).length, 32);
+
+  const pixelOffset = 14 + 40 + masks.length + palette.length;
+  const file = Buffer.alloc(14);
+  file.write('BM', 0, 'latin1');
+  file.writeUInt32LE(pixelOffset + fixture.pixels.length, 2);
+  file.writeUInt32LE(pixelOffset, 10);
+
+  return Buffer.concat([file, info, masks, palette, Buffer.from(fixture.pixels)]);
+}
+
+function pixel(image: DecodedImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return [image.data[offset + 2], image.data[offset + 1], image.data[offset]];
+}
+
+describe('BMP decoder', () => {
+  test('should decode bottom-up 24-bit rows with padding', () => {
+    // Bottom row first: blue, green; then top row: red, white
+    const bmp = createBmp({
+      width: 2,
+      height: 2,
+      bitCount: 24,
+      pixels: [255, 0, 0, 0, 255, 0, 0, 0, 0, 0, 255, 255, 255, 255, 0, 0]
+    });
+
+    const image = openImage(bmp);
+    const decoded = image.decodeFrame(0);
+
+    expect(image.format).toBe('bmp');
+    expect(pixel(decoded, 0, 0)).toEqual([255, 0, 0]);
+    expect(pixel(decoded, 1, 0)).toEqual([255, 255, 255]);
+    expect(pixel(decoded, 0, 1)).toEqual([0, 0, 255]);
+    expect(pixel(decoded, 1, 1)).toEqual([0, 255, 0]);
+  });
+
+  test('should decode top-down bitmaps', () => {
+    const bmp = createBmp({ width: 1, height: -2, bitCount: 24, pixels: [0, 0, 255, 0, 255, 0, 0, 0] });
+
+    const decoded = openImage(bmp).decodeFrame(0);
+
+    expect(pixel(decoded, 0, 0)).toEqual([255, 0, 0]);
+    expect(pixel(decoded, 0, 1)).toEqual([0, 0, 255]);
+  });
+
+  test('should look up 1-bit palette entries', () => {
+    const bmp = createBmp({
+      width: 3,
+      height: 1,
+      bitCount: 1,
+      palette: [[0, 0, 0], [255, 255, 255]],
+      pixels: [0b01000000, 0, 0, 0]
+    });
+
+    const decoded = openImage(bmp).decodeFrame(0);
+
+    expect([0, 1, 2].map(x => pixel(decoded, x, 0)[0])).toEqual([0, 255, 0]);
+  });
+
+  test('should decode 16-bit 5-5-5 pixels', () => {
+    const bmp = createBmp({ width: 1, height: 1, bitCount: 16, pixels: [0x00, 0x7C, 0, 0] });
+
+    expect(pixel(openImage(bmp).decodeFrame(0), 0, 0)).toEqual([255, 0, 0]);
+  });
+
+  test('should decode 32-bit bit field pixels', () => {
+    const bmp = createBmp({
+      width: 1,
+      height: 1,
+      bitCount: 32,
+      compression: 3,
+      masks: [0x000000FF, 0x0000FF00, 0x00FF0000],
+      pixels: [10, 20, 30, 0]
+    });
+
+    expect(pixel(openImage(bmp).decodeFrame(0), 0, 0)).toEqual([10, 20, 30]);
+  });
+
+  test('should decode RLE8 runs, absolute runs and end-of-line codes', () => {
+    const bmp = createBmp({
+      width: 4,
+      height: 2,
+      bitCount: 8,
+      compression: 1,
+      palette: [[0, 0, 0], [255, 0, 0], [0, 0, 255]],
+      // Bottom row: 4 x red; top row: absolute run blue, black, blue; end of bitmap
+      pixels: [4, 1, 0, 0, 0, 3, 2, 0, 2, 0, 0, 1]
+    });
+
+    const decoded = openImage(bmp).decodeFrame(0);
+
+    expect([0, 1, 2, 3].map(x => pixel(decoded, x, 1))).toEqual([[255, 0, 0], [255, 0, 0], [255, 0, 0], [255, 0, 0]]);
+    expect([0, 1, 2].map(x => pixel(decoded, x, 0))).toEqual([[0, 0, 255], [0, 0, 0], [0, 0, 255]]);
+    // Pixels the bitmap never sets stay white
+    expect(pixel(decoded, 3, 0)).toEqual([255, 255, 255]);
+  });
+
+  test('should read the resolution in pixels per metre', () => {
+    const bmp = createBmp({ width: 1, height: 1, bitCount: 24, pixelsPerMetre: 11811, pixels: [0, 0, 0, 0] });
+
+    expect(openImage(bmp).frames[0].dpiX).toBeCloseTo(300, 0);
+  });
+
+  test('should reject embedded JPEG and PNG compression', () => {
+    const bmp = createBmp({ width: 1, height: 1, bitCount: 24, compression: 4, pixels: [0, 0, 0, 0] });
+
+    expect(() => openImage(bmp)).toThrow(ImageDecodeError);
+  });
+
+  test('should reject truncated pixel data', () => {
+    const bmp = createBmp({ width: 4, height: 4, bitCount: 24, pixels: [0, 0, 0] });
+
+    expect(() => openImage(bmp).decodeFrame(0)).toThrow('BMP pixel data is truncated');
+  });
+
+  test('should reject dimensions too large to decode', () => {
+    const bmp = createBmp({ width: 100000, height: -100000, bitCount: 24, pixels: [0, 0, 0] });
+
+    expect(() => openImage(bmp)).toThrow(ImageDecodeError);
+    expect(() => openImage(bmp)).toThrow('BMP image is too large: 100000x100000 pixels');
+  });
+});
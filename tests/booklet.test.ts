@@ -0,0 +1,74 @@
+/**
+ * Tests for booklet imposition
+ */
+
+import { imposeBooklet } from '../src/core/pages';
+
+const pages = (count: number) => Array.from({ length: count }, (_, pageIndex) => pageIndex);
+
+describe('imposeBooklet', () => {
+  test('should impose a single sheet', () => {
+    expect(imposeBooklet(pages(4))).toEqual([
+      [3, 0],
+      [1, 2]
+    ]);
+  });
+
+  test('should nest sheets from the outside in', () => {
+    expect(imposeBooklet(pages(8))).toEqual([
+      [7, 0],
+      [1, 6],
+      [5, 2],
+      [3, 4]
+    ]);
+  });
+
+  test('should pad with blank pages to a multiple of four', () => {
+    expect(imposeBooklet(pages(6))).toEqual([
+      [null, 0],
+      [1, null],
+      [5, 2],
+      [3, 4]
+    ]);
+  });
+
+  test('should leave a blank back cover for three pages', () => {
+    expect(imposeBooklet(pages(3))).toEqual([
+      [null, 0],
+      [1, 2]
+    ]);
+  });
+
+  test('should print a single page on the front cover', () => {
+    expect(imposeBooklet(pages(1))).toEqual([
+      [null, 0],
+      [null, null]
+    ]);
+  });
+
+  test('should return no sides for no pages', () => {
+    expect(imposeBooklet([])).toEqual([]);
+  });
+
+  test('should use the selected pages in reading order', () => {
+    expect(imposeBooklet([9, 4, 2, 7])).toEqual([
+      [7, 9],
+      [4, 2]
+    ]);
+  });
+
+  test('should place every page exactly once', () => {
+    const sides = imposeBooklet(pages(20));
+    const placed = sides.flat().filter((pageIndex): pageIndex is number => pageIndex !== null);
+
+    expect(sides).toHaveLength(10);
+    expect([...placed].sort((a, b) => a - b)).toEqual(pages(20));
+  });
+
+  test('should put facing pages on the same side of a sheet', () => {
+    // The two middle pages of the booklet are printed side by side
+    const sides = imposeBooklet(pages(12));
+
+    expect(sides[sides.length - 1]).toEqual([5, 6]);
+  });
+});
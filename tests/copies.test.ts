@@ -0,0 +1,66 @@
+/**
+ * Tests for copy production
+ */
+
+import { validateCopiesMode, resolveCopiesMode } from '../src/core/pages';
+import { InvalidOptionError } from '../src/core/errors';
+import type { CopiesMode } from '../src/core/types';
+
+describe('validateCopiesMode', () => {
+  test('should accept known modes and undefined', () => {
+    expect(() => validateCopiesMode(undefined)).not.toThrow();
+    expect(() => validateCopiesMode('driver')).not.toThrow();
+    expect(() => validateCopiesMode('software')).not.toThrow();
+    expect(() => validateCopiesMode('auto')).not.toThrow();
+  });
+
+  test('should reject unknown modes', () => {
+    expect(() => validateCopiesMode('hardware' as CopiesMode)).toThrow(InvalidOptionError);
+
+    try {
+      validateCopiesMode('printer' as CopiesMode);
+    } catch (error) {
+      expect((error as InvalidOptionError).option).toBe('copiesMode');
+    }
+  });
+});
+
+describe('resolveCopiesMode', () => {
+  const support = { maxCopies: 99, collate: true };
+
+  test('should use software copies by default', () => {
+    expect(resolveCopiesMode(undefined, { copies: 5, collate: false }, support)).toBe('software');
+    expect(resolveCopiesMode('software', { copies: 5, collate: false }, support)).toBe('software');
+  });
+
+  test('should print a single copy in software', () => {
+    expect(resolveCopiesMode('driver', { copies: 1, collate: false })).toBe('software');
+    expect(resolveCopiesMode('auto', { copies: 1, collate: true }, support)).toBe('software');
+  });
+
+  test('should always use driver copies in driver mode', () => {
+    expect(resolveCopiesMode('driver', { copies: 5, collate: true })).toBe('driver');
+    expect(resolveCopiesMode('driver', { copies: 500, collate: true }, { maxCopies: 1, collate: false })).toBe('driver');
+  });
+
+  test('should use driver copies in auto mode when supported', () => {
+    expect(resolveCopiesMode('auto', { copies: 5, collate: true }, support)).toBe('driver');
+    expect(resolveCopiesMode('auto', { copies: 99, collate: false }, { maxCopies: 99, collate: false })).toBe('driver');
+  });
+
+  test('should fall back to software copies beyond the driver maximum', () => {
+    expect(resolveCopiesMode('auto', { copies: 100, collate: false }, support)).toBe('software');
+  });
+
+  test('should fall back to software copies when the driver cannot collate', () => {
+    expect(resolveCopiesMode('auto', { copies: 5, collate: true }, { maxCopies: 99, collate: false })).toBe('software');
+  });
+
+  test('should fall back to software copies without driver capabilities', () => {
+    expect(resolveCopiesMode('auto', { copies: 5, collate: false })).toBe('software');
+  });
+
+  test('should reject an invalid mode', () => {
+    expect(() => resolveCopiesMode('both' as CopiesMode, { copies: 2, collate: false })).toThrow(InvalidOptionError);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for image format detection, orientation and printed size
+ */
+
+import { detectImageFormat, getFrameSize, openImage, orientImage, rotateImage, type DecodedImage } from '../src/core/images';
+import { ImageDecodeError } from '../src/core/errors';
+
+/**
+ * 2x3 image whose pixels hold their own index in the blue channel:
+ *   0 1
+ *   2 3
+ *   4 5
+ */
+function createIndexedImage(): DecodedImage {
+  const data = Buffer.alloc(2 * 3 * 4, 0xFF);
+  for (let index = 0; index < 6; index++) {
+    data[index * 4] = index;
+  }
+  return { width: 2, height: 3, data };
+}
+
+function indices(image: DecodedImage): number[][] {
+  const rows: number[][] = [];
+  for (let y = 0; y < image.height; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < image.width; x++) {
+      row.push(image.data[(y * image.width + x) * 4]);
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe('Image format detection', () => {
+  test('should detect formats from their signatures', () => {
+    expect(detectImageFormat(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]))).toBe('png');
+    expect(detectImageFormat(Buffer.from([0xFF, 0xD8, 0xFF, 0xE0]))).toBe('jpeg');
+    expect(detectImageFormat(Buffer.from('II*\0\x08\0\0\0', 'latin1'))).toBe('tiff');
+    expect(detectImageFormat(Buffer.from('MM\0*\0\0\0\x08', 'latin1'))).toBe('tiff');
+    expect(detectImageFormat(Buffer.concat([Buffer.from('BM'), Buffer.alloc(30)]))).toBe('bmp');
+  });
+
+  test('should not detect other files', () => {
+    expect(detectImageFormat(Buffer.from('%PDF-1.7\n'))).toBeNull();
+    expect(detectImageFormat(Buffer.alloc(0))).toBeNull();
+  });
+
+  test('should reject unsupported files when opening', () => {
+    expect(() => openImage(Buffer.from('GIF89a'))).toThrow(ImageDecodeError);
+    expect(() => openImage(Buffer.from('GIF89a'))).toThrow('Unsupported image format');
+  });
+});
+
+describe('Image orientation', () => {
+  test('should keep orientation 1', () => {
+    const image = createIndexedImage();
+
+    expect(orientImage(image, 1)).toBe(image);
+  });
+
+  test('should mirror and flip', () => {
+    expect(indices(orientImage(createIndexedImage(), 2))).toEqual([[1, 0], [3, 2], [5, 4]]);
+    expect(indices(orientImage(createIndexedImage(), 3))).toEqual([[5, 4], [3, 2], [1, 0]]);
+    expect(indices(orientImage(createIndexedImage(), 4))).toEqual([[4, 5], [2, 3], [0, 1]]);
+  });
+
+  test('should transpose and turn', () => {
+    expect(indices(orientImage(createIndexedImage(), 5))).toEqual([[0, 2, 4], [1, 3, 5]]);
+    expect(indices(orientImage(createIndexedImage(), 6))).toEqual([[4, 2, 0], [5, 3, 1]]);
+    expect(indices(orientImage(createIndexedImage(), 7))).toEqual([[5, 3, 1], [4, 2, 0]]);
+    expect(indices(orientImage(createIndexedImage(), 8))).toEqual([[1, 3, 5], [0, 2, 4]]);
+  });
+
+  test('should rotate clockwise', () => {
+    expect(indices(rotateImage(createIndexedImage(), 90))).toEqual([[4, 2, 0], [5, 3, 1]]);
+    expect(indices(rotateImage(createIndexedImage(), 180))).toEqual([[5, 4], [3, 2], [1, 0]]);
+    expect(indices(rotateImage(createIndexedImage(), 270))).toEqual([[1, 3, 5], [0, 2, 4]]);
+    expect(indices(rotateImage(createIndexedImage(), 0))).toEqual([[0, 1], [2, 3], [4, 5]]);
+  });
+});
+
+describe('Image size', () => {
+  test('should size frames from their resolution', () => {
+    expect(getFrameSize({ width: 300, height: 600, dpiX: 150, dpiY: 300 })).toEqual({ width: 144, height: 144 });
+  });
+
+  test('should assume 96 DPI when the resolution is unknown', () => {
+    expect(getFrameSize({ width: 96, height: 192, dpiX: 0, dpiY: 0 })).toEqual({ width: 72, height: 144 });
+  });
+});
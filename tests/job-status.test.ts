@@ -0,0 +1,61 @@
+/**
+ * Tests for spooler job status decoding
+ */
+
+import { decodeJobStatus, describeJobStatus } from '../src/core/spooler';
+
+describe('decodeJobStatus', () => {
+  test('should decode a queued job with no flags', () => {
+    const flags = decodeJobStatus(0);
+
+    expect(Object.values(flags).every(flag => !flag)).toBe(true);
+    expect(Object.keys(flags)).toHaveLength(14);
+  });
+
+  test.each([
+    [0x00000001, 'paused'],
+    [0x00000002, 'error'],
+    [0x00000004, 'deleting'],
+    [0x00000008, 'spooling'],
+    [0x00000010, 'printing'],
+    [0x00000020, 'offline'],
+    [0x00000040, 'paperOut'],
+    [0x00000080, 'printed'],
+    [0x00000100, 'deleted'],
+    [0x00000200, 'blocked'],
+    [0x00000400, 'userIntervention'],
+    [0x00000800, 'restarting'],
+    [0x00001000, 'complete'],
+    [0x00002000, 'retained']
+  ])('should map bit %d to %s only', (bit, flag) => {
+    const flags = decodeJobStatus(bit);
+
+    expect(Object.entries(flags).filter(([, set]) => set).map(([name]) => name)).toEqual([flag]);
+  });
+
+  test('should decode combined bits and ignore unknown ones', () => {
+    expect(decodeJobStatus(0x80001090)).toMatchObject({
+      printing: true,
+      printed: true,
+      complete: true,
+      spooling: false,
+      deleted: false
+    });
+  });
+});
+
+describe('describeJobStatus', () => {
+  test('should describe a job with no flags as queued', () => {
+    expect(describeJobStatus(decodeJobStatus(0))).toBe('Queued');
+  });
+
+  test('should list problems before progress', () => {
+    expect(describeJobStatus(decodeJobStatus(0x0050))).toBe('Paper out, Printing');
+    expect(describeJobStatus(decodeJobStatus(0x0422))).toBe('Error, Offline, User intervention required');
+  });
+
+  test('should describe a job sent to the printer', () => {
+    expect(describeJobStatus(decodeJobStatus(0x1000))).toBe('Sent to printer');
+    expect(describeJobStatus(decodeJobStatus(0x2080))).toBe('Printed, Retained');
+  });
+});
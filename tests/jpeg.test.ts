@@ -0,0 +1,300 @@
+/**
+ * Tests for the JPEG decoder
+ *
+ * Fixtures are built from DC-only blocks: with a flat quantization table of 8
+ * a block's DC coefficient c decodes to a flat block of value c + 128.
+ */
+
+import { openImage, type DecodedImage } from '../src/core/images';
+import { ImageDecodeError } from '../src/core/errors';
+
+class BitWriter {
+  private bits: number[] = [];
+
+  write(value: number, length: number): this {
+    for (let bit = length - 1; bit >= 0; bit--) {
+      this.bits.push((value >> bit) & 1);
+    }
+    return this;
+  }
+
+  /** Entropy-coded bytes, padded with ones and 0xFF-stuffed */
+  toBuffer(): Buffer {
+    const bits = [...this.bits];
+    while (bits.length % 8) {
+      bits.push(1);
+    }
+    const bytes: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      const byte = parseInt(bits.slice(i, i + 8).join(''), 2);
+      bytes.push(byte);
+      if (byte === 0xFF) {
+        bytes.push(0);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+}
+
+/**
+ * Huffman table giving every symbol a code of the same length (its index)
+ */
+class HuffmanSpec {
+  readonly length: number;
+
+  constructor(readonly symbols: number[]) {
+    this.length = Math.max(1, Math.ceil(Math.log2(symbols.length + 1)));
+  }
+
+  write(bits: BitWriter, symbol: number): void {
+    bits.write(this.symbols.indexOf(symbol), this.length);
+  }
+
+  segment(tableClass: number, id: number): Buffer {
+    const counts = new Array(16).fill(0);
+    counts[this.length - 1] = this.symbols.length;
+    return segment(0xC4, [(tableClass << 4) | id, ...counts, ...this.symbols]);
+  }
+}
+
+function segment(marker: number, payload: number[] | Buffer): Buffer {
+  const length = payload.length + 2;
+  return Buffer.concat([Buffer.from([0xFF, marker, length >> 8, length & 0xFF]), Buffer.from(payload)]);
+}
+
+function frame(marker: number, width: number, height: number, components: number[][]): Buffer {
+  return segment(marker, [8, height >> 8, height & 0xFF, width >> 8, width & 0xFF, components.length, ...components.flat()]);
+}
+
+function scan(components: number[][], spectral: [number, number], approximation: number, bits: BitWriter): Buffer {
+  return Buffer.concat([
+    segment(0xDA, [components.length, ...components.flat(), spectral[0], spectral[1], approximation]),
+    bits.toBuffer()
+  ]);
+}
+
+/** Write a DC difference: its category symbol, then its magnitude bits */
+function writeDc(bits: BitWriter, table: HuffmanSpec, diff: number): void {
+  const category = diff === 0 ? 0 : Math.floor(Math.log2(Math.abs(diff))) + 1;
+  table.write(bits, category);
+  if (category > 0) {
+    bits.write(diff > 0 ? diff : diff + (1 << category) - 1, category);
+  }
+}
+
+const SOI = Buffer.from([0xFF, 0xD8]);
+const EOI = Buffer.from([0xFF, 0xD9]);
+const QUANT = segment(0xDB, [0, ...new Array(64).fill(8)]);
+const EOB = 0x00;
+
+function pixel(image: DecodedImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return [image.data[offset + 2], image.data[offset + 1], image.data[offset]];
+}
+
+/**
+ * Baseline grayscale JPEG, 8 pixels high, one flat block per 8 columns
+ */
+function createGrayJpeg(values: number[], extra: Buffer[] = []): Buffer {
+  const dc = new HuffmanSpec([0, 1, 2, 3, 4, 5, 6, 7]);
+  const ac = new HuffmanSpec([EOB]);
+  const bits = new BitWriter();
+  let previous = 0;
+  for (const value of values) {
+    writeDc(bits, dc, value - 128 - previous);
+    ac.write(bits, EOB);
+    previous = value - 128;
+  }
+
+  return Buffer.concat([
+    SOI,
+    ...extra,
+    QUANT,
+    frame(0xC0, values.length * 8, 8, [[1, 0x11, 0]]),
+    dc.segment(0, 0),
+    ac.segment(1, 0),
+    scan([[1, 0x00]], [0, 63], 0, bits),
+    EOI
+  ]);
+}
+
+describe('JPEG decoder', () => {
+  test('should decode baseline grayscale blocks', () => {
+    const image = openImage(createGrayJpeg([200, 100]));
+    const decoded = image.decodeFrame(0);
+
+    expect(image.format).toBe('jpeg');
+    expect(image.frames).toEqual([{ width: 16, height: 8, dpiX: 0, dpiY: 0 }]);
+    expect(pixel(decoded, 0, 0)).toEqual([200, 200, 200]);
+    expect(pixel(decoded, 7, 7)).toEqual([200, 200, 200]);
+    expect(pixel(decoded, 8, 0)).toEqual([100, 100, 100]);
+    expect(pixel(decoded, 15, 7)).toEqual([100, 100, 100]);
+  });
+
+  test('should convert subsampled YCbCr to RGB', () => {
+    // One 4:2:0 MCU: four luma blocks, one Cb and one Cr block
+    const dc = new HuffmanSpec([0, 7]);
+    const ac = new HuffmanSpec([EOB]);
+    const bits = new BitWriter();
+    for (let block = 0; block < 4; block++) {
+      writeDc(bits, dc, 0); // Y = 128
+      ac.write(bits, EOB);
+    }
+    writeDc(bits, dc, 0); // Cb = 128
+    ac.write(bits, EOB);
+    writeDc(bits, dc, 72); // Cr = 200
+    ac.write(bits, EOB);
+
+    const jpeg = Buffer.concat([
+      SOI,
+      QUANT,
+      frame(0xC0, 16, 16, [[1, 0x22, 0], [2, 0x11, 0], [3, 0x11, 0]]),
+      dc.segment(0, 0),
+      ac.segment(1, 0),
+      scan([[1, 0x00], [2, 0x00], [3, 0x00]], [0, 63], 0, bits),
+      EOI
+    ]);
+
+    const decoded = openImage(jpeg).decodeFrame(0);
+
+    expect(pixel(decoded, 0, 0)).toEqual([229, 77, 128]);
+    expect(pixel(decoded, 15, 15)).toEqual([229, 77, 128]);
+  });
+
+  test('should reset predictions at restart markers', () => {
+    const dc = new HuffmanSpec([0, 5, 7]);
+    const ac = new HuffmanSpec([EOB]);
+    const first = new BitWriter();
+    writeDc(first, dc, 72);
+    ac.write(first, EOB);
+    const second = new BitWriter();
+    writeDc(second, dc, -28); // Absolute again after the restart
+    ac.write(second, EOB);
+
+    const jpeg = Buffer.concat([
+      SOI,
+      QUANT,
+      segment(0xDD, [0, 1]),
+      frame(0xC0, 16, 8, [[1, 0x11, 0]]),
+      dc.segment(0, 0),
+      ac.segment(1, 0),
+      scan([[1, 0x00]], [0, 63], 0, first),
+      Buffer.from([0xFF, 0xD0]),
+      second.toBuffer(),
+      EOI
+    ]);
+
+    const decoded = openImage(jpeg).decodeFrame(0);
+
+    expect(pixel(decoded, 0, 0)[0]).toBe(200);
+    expect(pixel(decoded, 8, 0)[0]).toBe(100);
+  });
+
+  test('should decode progressive DC scans with successive approximation', () => {
+    // Coefficients 73 and -29: first scan sends them shifted right by one, the refinement sends the low bits
+    const dc = new HuffmanSpec([0, 6]);
+    const ac = new HuffmanSpec([0x10]);
+    const dcFirst = new BitWriter();
+    writeDc(dcFirst, dc, 36);
+    writeDc(dcFirst, dc, -15 - 36);
+    const dcRefine = new BitWriter().write(1, 1).write(1, 1);
+    // One end-of-band run covering both blocks
+    const acFirst = new BitWriter();
+    ac.write(acFirst, 0x10);
+    acFirst.write(0, 1);
+
+    const jpeg = Buffer.concat([
+      SOI,
+      QUANT,
+      frame(0xC2, 16, 8, [[1, 0x11, 0]]),
+      dc.segment(0, 0),
+      ac.segment(1, 0),
+      scan([[1, 0x00]], [0, 0], 0x01, dcFirst),
+      scan([[1, 0x00]], [1, 63], 0x00, acFirst),
+      scan([[1, 0x00]], [0, 0], 0x10, dcRefine),
+      EOI
+    ]);
+
+    const decoded = openImage(jpeg).decodeFrame(0);
+
+    expect(pixel(decoded, 0, 0)[0]).toBe(201);
+    expect(pixel(decoded, 8, 0)[0]).toBe(99);
+  });
+
+  test('should read the JFIF density', () => {
+    const jfif = segment(0xE0, [...Buffer.from('JFIF\0', 'latin1'), 1, 2, 1, 0, 200, 0, 100, 0, 0]);
+
+    const [frameInfo] = openImage(createGrayJpeg([128], [jfif])).frames;
+
+    expect(frameInfo.dpiX).toBe(200);
+    expect(frameInfo.dpiY).toBe(100);
+  });
+
+  test('should apply the Exif orientation', () => {
+    // Orientation 6: the picture is stored turned 90° counter-clockwise
+    const tiff = Buffer.alloc(26);
+    tiff.write('II', 0, 'latin1');
+    tiff.writeUInt16LE(42, 2);
+    tiff.writeUInt32LE(8, 4);
+    tiff.writeUInt16LE(1, 8);
+    tiff.writeUInt16LE(274, 10);
+    tiff.writeUInt16LE(3, 12);
+    tiff.writeUInt32LE(1, 14);
+    tiff.writeUInt16LE(6, 18);
+    const exif = segment(0xE1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]));
+
+    const image = openImage(createGrayJpeg([200, 100], [exif]));
+    const decoded = image.decodeFrame(0);
+
+    expect(image.frames[0]).toMatchObject({ width: 8, height: 16 });
+    expect(decoded.width).toBe(8);
+    expect(pixel(decoded, 0, 0)[0]).toBe(200);
+    expect(pixel(decoded, 7, 15)[0]).toBe(100);
+  });
+
+  test('should reject arithmetic-coded JPEG', () => {
+    const jpeg = Buffer.concat([SOI, QUANT, frame(0xC9, 8, 8, [[1, 0x11, 0]]), EOI]);
+
+    expect(() => openImage(jpeg)).toThrow(ImageDecodeError);
+    expect(() => openImage(jpeg)).toThrow('Arithmetic-coded JPEG is not supported');
+  });
+
+  test('should reject 12-bit samples', () => {
+    const sof = frame(0xC1, 8, 8, [[1, 0x11, 0]]);
+    sof[4] = 12;
+    const jpeg = Buffer.concat([SOI, QUANT, sof, EOI]);
+
+    expect(() => openImage(jpeg).decodeFrame(0)).toThrow('12-bit JPEG is not supported');
+  });
+
+  test('should reject scans that use undefined tables', () => {
+    const bits = new BitWriter().write(0, 8);
+    const jpeg = Buffer.concat([SOI, QUANT, frame(0xC0, 8, 8, [[1, 0x11, 0]]), scan([[1, 0x00]], [0, 63], 0, bits), EOI]);
+
+    expect(() => openImage(jpeg).decodeFrame(0)).toThrow('undefined Huffman table');
+  });
+
+  test('should reject dimensions too large to decode', () => {
+    const jpeg = Buffer.concat([SOI, QUANT, frame(0xC0, 65535, 65535, [[1, 0x11, 0]]), EOI]);
+
+    expect(() => openImage(jpeg)).toThrow(ImageDecodeError);
+    expect(() => openImage(jpeg)).toThrow('JPEG image is too large: 65535x65535 pixels');
+  });
+
+  describe('truncated segments', () => {
+    test.each([
+      ['8-bit quantization table', segment(0xDB, [0x00, ...new Array(63).fill(8)]), 'JPEG quantization table is truncated'],
+      ['16-bit quantization table', segment(0xDB, [0x10, ...new Array(64).fill(8)]), 'JPEG quantization table is truncated'],
+      ['restart interval', segment(0xDD, []), 'JPEG restart interval is truncated'],
+      ['frame header', segment(0xC0, [8, 0, 8, 0]), 'JPEG frame header is truncated'],
+      ['frame component list', segment(0xC0, [8, 0, 8, 0, 8, 3, 1, 0x11, 0]), 'JPEG frame header is truncated']
+    ])('should reject a truncated %s', (_name, truncated, message) => {
+      const jpeg = Buffer.concat([SOI, truncated, QUANT, frame(0xC0, 8, 8, [[1, 0x11, 0]]), EOI]);
+
+      const decode = () => openImage(jpeg).decodeFrame(0);
+
+      expect(decode).toThrow(ImageDecodeError);
+      expect(decode).toThrow(message);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Tests for the ZPL/EPL label builder, with golden command streams
+ */
+
+import { deflateSync } from 'zlib';
+import { LabelBuilder, generateZpl, generateEpl, encodeLabel, toMonochrome } from '../src/core/labels';
+import { InvalidOptionError } from '../src/core/errors';
+import type { LabelBitmap, LabelDefinition } from '../src/core/types';
+
+/**
+ * BGRA pixels from rows of '#' (black) and '.' (white)
+ */
+function bitmap(rows: string[]): LabelBitmap {
+  const width = rows[0].length;
+  const data = Buffer.alloc(width * rows.length * 4, 0xFF);
+  rows.forEach((row, y) => {
+    [...row].forEach((pixel, x) => {
+      if (pixel === '#') {
+        data.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      }
+    });
+  });
+  return { width, height: rows.length, data };
+}
+
+/**
+ * Minimal 8-bit grayscale PNG (chunk CRCs are not checked by the decoder)
+ */
+function grayPng(width: number, rows: number[][]): Buffer {
+  const chunk = (type: string, body: Buffer): Buffer => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length);
+    return Buffer.concat([length, Buffer.from(type, 'latin1'), body, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(rows.length, 4);
+  header[8] = 8;
+  const pixels = Buffer.concat(rows.map(row => Buffer.from([0, ...row])));
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(pixels)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// 100 x 50 mm shipping label at 203 DPI
+function shippingLabel(): LabelBuilder {
+  return new LabelBuilder({ width: 100, height: 50, unit: 'mm', darkness: 20, speed: 4 })
+    .text(5, 5, 'ACME Logistics', { height: 5 })
+    .code128(5, 14, 'SHP-000123', { height: 12 })
+    .qrCode(70, 14, 'https://acme.example/t/000123')
+    .box(2, 2, 96, 46, { thickness: 0.5 });
+}
+
+// Label in dots with escaping, rotation, Data Matrix and a graphic
+const detailLabel: LabelDefinition = {
+  width: 400,
+  height: 300,
+  fields: [
+    { type: 'text', x: 10, y: 10, text: 'Price: 5^ ~ _x', rotation: 90, height: 30, width: 20 },
+    { type: 'barcode', symbology: 'code128', x: 10, y: 60, data: 'A>B"C\\', humanReadable: false, rotation: 180, moduleWidth: 3, height: 50 },
+    { type: 'barcode', symbology: 'datamatrix', x: 300, y: 10, data: 'DM-42' },
+    { type: 'graphic', x: 200, y: 200, image: bitmap(['###......#', '.....#####']) }
+  ]
+};
+
+describe('generateZpl', () => {
+  test('should generate the shipping label', () => {
+    expect(shippingLabel().toZpl()).toBe([
+      '^XA',
+      '^CI28',
+      '^PW799',
+      '^LL400',
+      '^LH0,0',
+      '~SD20',
+      '^PR4',
+      '^FO40,40^A0N,40,40^FH^FDACME Logistics^FS',
+      '^FO40,112^BY2^BCN,96,Y,N,N^FH^FDSHP-000123^FS',
+      '^FO559,112^BQN,2,4^FH^FDMA,https://acme.example/t/000123^FS',
+      '^FO16,16^GB767,368,4^FS',
+      '^PQ1',
+      '^XZ',
+      ''
+    ].join('\n'));
+  });
+
+  test('should escape field data, rotate fields and encode graphics', () => {
+    expect(generateZpl(detailLabel, 3)).toBe([
+      '^XA',
+      '^CI28',
+      '^PW400',
+      '^LL300',
+      '^LH0,0',
+      '^FO10,10^A0R,30,20^FH^FDPrice: 5_5E _7E _5Fx^FS',
+      '^FO10,60^BY3^BCI,50,N,N,N^FH^FDA><B"C\\^FS',
+      '^FO300,10^BXN,6,200^FH^FDDM-42^FS',
+      '^FO200,200^GFA,4,4,2,E04007C0^FS',
+      '^PQ3',
+      '^XZ',
+      ''
+    ].join('\n'));
+  });
+
+  test('should use a named font and pad the darkness', () => {
+    const zpl = generateZpl({
+      width: 200,
+      height: 100,
+      darkness: 5,
+      fields: [{ type: 'text', x: 0, y: 0, text: 'A', font: 'D', height: 18, width: 10 }]
+    });
+
+    expect(zpl).toContain('~SD05\n');
+    expect(zpl).toContain('^FO0,0^ADN,18,10^FH^FDA^FS');
+  });
+
+  test('should reject fonts ZPL does not have', () => {
+    expect(() => generateZpl({ width: 200, height: 100, fields: [{ type: 'text', x: 0, y: 0, text: 'A', font: 'a' }] }))
+      .toThrow(expect.objectContaining({ option: 'fields[0].font' }));
+  });
+});
+
+describe('generateEpl', () => {
+  test('should generate the shipping label', () => {
+    expect(shippingLabel().toEpl()).toBe([
+      '',
+      'N',
+      'q799',
+      'Q400,24',
+      'D10',
+      'S4',
+      'A40,40,0,3,2,2,N,"ACME Logistics"',
+      'B40,112,0,1,2,2,96,B,"SHP-000123"',
+      'b559,112,Q,m2,s4,eM,"https://acme.example/t/000123"',
+      'X16,16,4,783,384',
+      'P1',
+      ''
+    ].join('\n'));
+  });
+
+  test('should quote data, rotate fields and invert graphics', () => {
+    expect(generateEpl(detailLabel, 3)).toBe([
+      '',
+      'N',
+      'q400',
+      'Q300,24',
+      'A10,10,1,2,2,2,N,"Price: 5^ ~ _x"',
+      'B10,60,2,1,3,3,50,N,"A>B\\"C\\\\"',
+      'b300,10,D,h6,"DM-42"',
+      'GW200,200,2,2,\x1F\xBF\xF8\x3F',
+      'P3',
+      ''
+    ].join('\n'));
+  });
+
+  test('should pick fonts from the 300 DPI set and honour an explicit font', () => {
+    const epl = generateEpl({
+      width: 600,
+      height: 400,
+      dpi: 300,
+      speed: 10,
+      fields: [
+        { type: 'text', x: 0, y: 0, text: 'a', height: 88 },
+        { type: 'text', x: 0, y: 100, text: 'b', font: '1', height: 60 }
+      ]
+    });
+
+    // Speeds above 6 are capped; 88 dots = font 4 (44 dots) doubled; font 1 (20 dots) tripled
+    expect(epl).toContain('\nS6\n');
+    expect(epl).toContain('A0,0,0,4,2,2,N,"a"');
+    expect(epl).toContain('A0,100,0,1,3,3,N,"b"');
+  });
+
+  test('should reject text outside Latin-1 and unknown fonts', () => {
+    expect(() => generateEpl({ width: 200, height: 100, fields: [{ type: 'text', x: 0, y: 0, text: '5 €' }] }))
+      .toThrow(expect.objectContaining({ option: 'fields[0].text' }));
+    expect(() => generateEpl({ width: 200, height: 100, fields: [{ type: 'barcode', symbology: 'qr', x: 0, y: 0, data: 'tab\there' }] }))
+      .toThrow(expect.objectContaining({ option: 'fields[0].data' }));
+    expect(() => generateEpl({ width: 200, height: 100, fields: [{ type: 'text', x: 0, y: 0, text: 'A', font: '6' }] }))
+      .toThrow(InvalidOptionError);
+  });
+});
+
+describe('label validation', () => {
+  test('should reject invalid label settings', () => {
+    expect(() => new LabelBuilder({ width: 0, height: 100 })).toThrow(expect.objectContaining({ option: 'width' }));
+    expect(() => new LabelBuilder({ width: 100, height: 100, unit: 'in' as any })).toThrow(expect.objectContaining({ option: 'unit' }));
+    expect(() => new LabelBuilder({ width: 100, height: 100, darkness: 31 })).toThrow(expect.objectContaining({ option: 'darkness' }));
+    expect(() => new LabelBuilder({ width: 100, height: 100, speed: 0 })).toThrow(expect.objectContaining({ option: 'speed' }));
+    expect(() => new LabelBuilder({ width: 100, height: 100, dpi: -203 })).toThrow(expect.objectContaining({ option: 'dpi' }));
+  });
+
+  test('should reject invalid fields with their position', () => {
+    const label = (field: any): LabelDefinition => ({ width: 400, height: 200, fields: [{ type: 'box', x: 0, y: 0, width: 1, height: 1 }, field] });
+
+    expect(() => generateZpl(label({ type: 'text', x: -1, y: 0, text: 'A' }))).toThrow(expect.objectContaining({ option: 'fields[1].x' }));
+    expect(() => generateZpl(label({ type: 'text', x: 0, y: 0, text: 'two\nlines' }))).toThrow(expect.objectContaining({ option: 'fields[1].text' }));
+    expect(() => generateZpl(label({ type: 'text', x: 0, y: 0, text: 'A', rotation: 45 }))).toThrow(expect.objectContaining({ option: 'fields[1].rotation' }));
+    expect(() => generateZpl(label({ type: 'barcode', symbology: 'ean13', x: 0, y: 0, data: '1' }))).toThrow(expect.objectContaining({ option: 'fields[1].symbology' }));
+    expect(() => generateZpl(label({ type: 'barcode', symbology: 'code128', x: 0, y: 0, data: '' }))).toThrow(expect.objectContaining({ option: 'fields[1].data' }));
+    expect(() => generateZpl(label({ type: 'barcode', symbology: 'qr', x: 0, y: 0, data: '1', moduleWidth: 11 }))).toThrow(expect.objectContaining({ option: 'fields[1].moduleWidth' }));
+    expect(() => generateZpl(label({ type: 'barcode', symbology: 'qr', x: 0, y: 0, data: '1', errorCorrection: 'X' }))).toThrow(expect.objectContaining({ option: 'fields[1].errorCorrection' }));
+    expect(() => generateZpl(label({ type: 'barcode', symbology: 'datamatrix', x: 0, y: 0, data: '1', rotation: 90 }))).toThrow(/cannot be rotated/);
+    expect(() => generateZpl(label({ type: 'box', x: 0, y: 0, width: 0, height: 10 }))).toThrow(expect.objectContaining({ option: 'fields[1].width' }));
+    expect(() => generateZpl(label({ type: 'circle', x: 0, y: 0 }))).toThrow(expect.objectContaining({ option: 'fields[1].type' }));
+  });
+
+  test('should reject invalid quantities', () => {
+    expect(() => shippingLabel().toZpl(0)).toThrow(expect.objectContaining({ option: 'copies' }));
+    expect(() => shippingLabel().toEpl(1.5)).toThrow(InvalidOptionError);
+  });
+
+  test('should limit box lines to the box size', () => {
+    expect(generateZpl({ width: 200, height: 100, fields: [{ type: 'box', x: 0, y: 50, width: 200, height: 3, thickness: 10 }] }))
+      .toContain('^FO0,50^GB200,3,3^FS');
+  });
+});
+
+describe('label graphics', () => {
+  test('should threshold pixels by luminance', () => {
+    const image = { width: 3, height: 1, data: Buffer.from([127, 127, 127, 255, 128, 128, 128, 255, 0, 0, 255, 255]) };
+
+    // Dark gray and pure red (luma 76) are black; mid gray is white
+    expect(toMonochrome(image).data).toEqual(Buffer.from([0xA0]));
+    expect(toMonochrome(image, 50).data).toEqual(Buffer.from([0x00]));
+  });
+
+  test('should decode image files', () => {
+    const png = grayPng(9, [[0, 255, 0, 255, 0, 255, 0, 255, 0]]);
+    const zpl = generateZpl({ width: 100, height: 100, fields: [{ type: 'graphic', x: 5, y: 5, image: png }] });
+
+    expect(zpl).toContain('^FO5,5^GFA,2,2,2,AA80^FS');
+  });
+
+  test('should reject pixel data that is too short', () => {
+    expect(() => toMonochrome({ width: 4, height: 4, data: Buffer.alloc(16) })).toThrow(InvalidOptionError);
+  });
+});
+
+describe('LabelBuilder', () => {
+  test('should build a plain definition', () => {
+    const builder = new LabelBuilder({ width: 400, height: 200 })
+      .text(10, 10, 'A')
+      .dataMatrix(100, 10, 'B', { moduleWidth: 4 })
+      .graphic(0, 0, bitmap(['#']), { threshold: 200 });
+
+    expect(builder.build()).toEqual({
+      width: 400,
+      height: 200,
+      fields: [
+        { type: 'text', x: 10, y: 10, text: 'A' },
+        { type: 'barcode', symbology: 'datamatrix', x: 100, y: 10, data: 'B', moduleWidth: 4 },
+        { type: 'graphic', x: 0, y: 0, image: bitmap(['#']), threshold: 200 }
+      ]
+    });
+    expect(builder.toZpl(2)).toBe(generateZpl(builder.build(), 2));
+  });
+
+  test('should not share fields between built definitions', () => {
+    const builder = new LabelBuilder({ width: 400, height: 200 });
+    const empty = builder.build();
+    builder.box(0, 0, 10, 10);
+
+    expect(empty.fields).toHaveLength(0);
+    expect(builder.build().fields).toHaveLength(1);
+  });
+});
+
+describe('encodeLabel', () => {
+  const label: LabelDefinition = { width: 200, height: 100, fields: [{ type: 'text', x: 0, y: 0, text: 'Größe' }] };
+
+  test('should encode ZPL as UTF-8 and EPL as Latin-1', () => {
+    expect(encodeLabel(label, 'zpl').includes(Buffer.from('Größe', 'utf8'))).toBe(true);
+    expect(encodeLabel(label, 'epl').includes(Buffer.from('Größe', 'latin1'))).toBe(true);
+  });
+
+  test('should reject unknown languages', () => {
+    expect(() => encodeLabel(label, 'tspl' as any)).toThrow(expect.objectContaining({ option: 'language' }));
+  });
+});
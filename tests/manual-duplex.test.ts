@@ -0,0 +1,76 @@
+/**
+ * Tests for manual duplex planning
+ */
+
+import { pairDuplexSides, planManualDuplex, imposeBooklet } from '../src/core/pages';
+
+describe('pairDuplexSides', () => {
+  test('should pair consecutive sides into sheets', () => {
+    expect(pairDuplexSides([0, 1, 2, 3])).toEqual([
+      { front: 0, back: 1 },
+      { front: 2, back: 3 }
+    ]);
+  });
+
+  test('should leave the back of the last sheet blank for an odd number of sides', () => {
+    expect(pairDuplexSides([0, 1, 2])).toEqual([
+      { front: 0, back: 1 },
+      { front: 2, back: null }
+    ]);
+  });
+
+  test('should return no sheets for no sides', () => {
+    expect(pairDuplexSides([])).toEqual([]);
+  });
+
+  test('should keep booklet fronts and backs together', () => {
+    const sheets = pairDuplexSides(imposeBooklet([0, 1, 2, 3, 4, 5, 6, 7]));
+
+    expect(sheets).toEqual([
+      { front: [7, 0], back: [1, 6] },
+      { front: [5, 2], back: [3, 4] }
+    ]);
+  });
+});
+
+describe('planManualDuplex', () => {
+  test('should print fronts in order and backs last sheet first', () => {
+    const sheets = pairDuplexSides([0, 1, 2, 3, 4, 5]);
+
+    expect(planManualDuplex(sheets)).toEqual({
+      fronts: [0, 2, 4],
+      backs: [5, 3, 1]
+    });
+  });
+
+  test('should start the backs with a blank page when the last sheet has no back', () => {
+    const sheets = pairDuplexSides([0, 1, 2, 3, 4]);
+
+    expect(planManualDuplex(sheets)).toEqual({
+      fronts: [0, 2, 4],
+      backs: [null, 3, 1]
+    });
+  });
+
+  test('should keep the sheet order when reverseBacks is disabled', () => {
+    const sheets = pairDuplexSides([0, 1, 2, 3, 4]);
+
+    expect(planManualDuplex(sheets, false)).toEqual({
+      fronts: [0, 2, 4],
+      backs: [1, 3, null]
+    });
+  });
+
+  test('should give every front a back so the stack stays aligned', () => {
+    const { fronts, backs } = planManualDuplex(pairDuplexSides(Array.from({ length: 9 }, (_, index) => index)));
+
+    expect(backs).toHaveLength(fronts.length);
+  });
+
+  test('should not modify the sheets', () => {
+    const sheets = pairDuplexSides([0, 1, 2, 3]);
+    planManualDuplex(sheets);
+
+    expect(sheets).toEqual([{ front: 0, back: 1 }, { front: 2, back: 3 }]);
+  });
+});
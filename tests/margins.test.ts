@@ -0,0 +1,150 @@
+/**
+ * Tests for sheet and margin geometry
+ */
+
+import { computeLayoutAreas, computePagePlacement, resolveMargins, validateMargins, type SheetMetrics } from '../src/core/layout';
+import { InvalidOptionError } from '../src/core/errors';
+
+// US Letter at 300 DPI with an asymmetric hardware margin: 0.25in left/top, 0.15in right, 0.35in bottom
+const LETTER_SHEET: SheetMetrics = {
+  physicalWidth: 2550,
+  physicalHeight: 3300,
+  offsetX: 75,
+  offsetY: 75,
+  printableWidth: 2430,
+  printableHeight: 3120,
+  dpiX: 300,
+  dpiY: 300
+};
+
+describe('validateMargins', () => {
+  test('should accept missing, numeric and per-side margins', () => {
+    expect(() => validateMargins(undefined)).not.toThrow();
+    expect(() => validateMargins(0)).not.toThrow();
+    expect(() => validateMargins({ top: 0.5, left: 0.25, unit: 'in' })).not.toThrow();
+  });
+
+  test('should reject negative and non-numeric sides', () => {
+    expect(() => validateMargins(-1)).toThrow('Invalid top margin: -1');
+    expect(() => validateMargins({ right: -2 })).toThrow('Invalid right margin: -2');
+    expect(() => validateMargins({ bottom: Infinity })).toThrow(InvalidOptionError);
+    expect(() => validateMargins({ left: '5' as any })).toThrow('Invalid left margin: 5');
+  });
+
+  test('should reject unknown units with the margins option name', () => {
+    expect(() => validateMargins({ unit: 'pt' as any })).toThrow(
+      expect.objectContaining({ option: 'margins', message: 'Invalid margin unit: pt' })
+    );
+  });
+});
+
+describe('resolveMargins', () => {
+  test('should treat a number as millimetres on every side', () => {
+    expect(resolveMargins(25.4, 300, 300)).toEqual({ top: 300, right: 300, bottom: 300, left: 300 });
+  });
+
+  test('should convert inches per axis resolution', () => {
+    expect(resolveMargins({ top: 1, left: 0.5, unit: 'in' }, 600, 300)).toEqual({
+      top: 300,
+      right: 0,
+      bottom: 0,
+      left: 300
+    });
+  });
+
+  test('should default missing sides to zero', () => {
+    expect(resolveMargins(undefined, 300, 300)).toEqual({ top: 0, right: 0, bottom: 0, left: 0 });
+    expect(resolveMargins({ bottom: 10 }, 300, 300).bottom).toBe(118);
+  });
+
+  test('should reject negative values and unknown units', () => {
+    expect(() => resolveMargins(-1, 300, 300)).toThrow('Invalid top margin: -1');
+    expect(() => resolveMargins({ left: NaN }, 300, 300)).toThrow(InvalidOptionError);
+    expect(() => resolveMargins({ top: 1, unit: 'cm' as any }, 300, 300)).toThrow('Invalid margin unit: cm');
+  });
+});
+
+describe('computeLayoutAreas', () => {
+  test('should place the sheet relative to the printable area origin', () => {
+    const areas = computeLayoutAreas(LETTER_SHEET);
+
+    expect(areas.sheet).toEqual({ x: -75, y: -75, width: 2550, height: 3300 });
+    expect(areas.printable).toEqual({ x: 0, y: 0, width: 2430, height: 3120 });
+    expect(areas.content).toEqual(areas.sheet);
+    expect(areas.clip).toEqual(areas.printable);
+  });
+
+  test('should center the compensated area on the sheet inside the printable area', () => {
+    const areas = computeLayoutAreas(LETTER_SHEET);
+
+    // Sheet center is at (1200, 1575); the nearest printable edges are left (1200px) and bottom (1545px)
+    expect(areas.area).toEqual({ x: 0, y: 30, width: 2400, height: 3090 });
+  });
+
+  test('should use the full content area without compensation', () => {
+    const areas = computeLayoutAreas(LETTER_SHEET, undefined, false);
+
+    expect(areas.area).toEqual(areas.content);
+  });
+
+  test('should inset the content area by user margins', () => {
+    const areas = computeLayoutAreas(LETTER_SHEET, { top: 1, right: 1, bottom: 1, left: 1, unit: 'in' });
+
+    expect(areas.content).toEqual({ x: 225, y: 225, width: 1950, height: 2700 });
+    expect(areas.clip).toEqual(areas.content);
+    expect(areas.area).toEqual(areas.content);
+  });
+
+  test('should combine user and hardware margins per side', () => {
+    const areas = computeLayoutAreas(LETTER_SHEET, { left: 5, unit: 'mm' });
+
+    // 5mm = 59px is inside the 75px hardware margin, so the printable edge still clips
+    expect(areas.content.x).toBe(-16);
+    expect(areas.clip.x).toBe(0);
+  });
+
+  test('should reject margins that leave no room', () => {
+    expect(() => computeLayoutAreas(LETTER_SHEET, { left: 5, right: 5, unit: 'in' })).toThrow('Margins leave no room on the sheet');
+  });
+
+  test('should reject margins that leave no printable area', () => {
+    expect(() => computeLayoutAreas(LETTER_SHEET, { left: 8.4, unit: 'in' })).toThrow('no printable area');
+  });
+});
+
+describe('placement on the physical sheet', () => {
+  const LETTER_PAGE = { pageWidth: 612, pageHeight: 792, dpiX: 300, dpiY: 300 };
+
+  test('should print actual size aligned with the sheet edges', () => {
+    const areas = computeLayoutAreas(LETTER_SHEET);
+    const placement = computePagePlacement({ ...LETTER_PAGE, area: areas.area, clip: areas.clip, scaling: 'actualSize' });
+
+    // Page edges coincide with the sheet edges, not the printable area
+    expect(placement.page).toEqual(areas.sheet);
+    expect(placement.visible).toEqual(areas.printable);
+  });
+
+  test('should fit inside the printable area when compensating', () => {
+    const areas = computeLayoutAreas(LETTER_SHEET);
+    const placement = computePagePlacement({ ...LETTER_PAGE, area: areas.area, clip: areas.clip, scaling: 'fit' });
+
+    expect(placement.visible).toEqual(placement.page);
+  });
+
+  test('should fit the whole sheet and clip to the printable area without compensation', () => {
+    const areas = computeLayoutAreas(LETTER_SHEET, undefined, false);
+    const placement = computePagePlacement({ ...LETTER_PAGE, area: areas.area, clip: areas.clip, scaling: 'fit' });
+
+    expect(placement.scale).toBe(1);
+    expect(placement.visible).toEqual(areas.printable);
+  });
+
+  test('should keep user margins blank', () => {
+    const areas = computeLayoutAreas(LETTER_SHEET, 20);
+    const placement = computePagePlacement({ ...LETTER_PAGE, area: areas.area, clip: areas.clip, scaling: 'fill' });
+
+    expect(placement.visible.x).toBeGreaterThanOrEqual(areas.content.x);
+    expect(placement.visible.y).toBeGreaterThanOrEqual(areas.content.y);
+    expect(placement.visible.x + placement.visible.width).toBeLessThanOrEqual(areas.content.x + areas.content.width);
+  });
+});
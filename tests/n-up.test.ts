@@ -0,0 +1,174 @@
+/**
+ * Tests for N-up layout
+ */
+
+import {
+  validateNUp,
+  getPagesPerSheet,
+  computeNUpGrid,
+  computeNUpLayout,
+  groupPagesIntoSheets,
+  computeBorderStrips
+} from '../src/core/layout';
+import { InvalidOptionError } from '../src/core/errors';
+
+// Printable area of US Letter at 300 DPI
+const PORTRAIT = { x: 0, y: 0, width: 2400, height: 3000 };
+const LANDSCAPE = { x: 0, y: 0, width: 3000, height: 2400 };
+
+describe('computeNUpGrid', () => {
+  test('should use more rows than columns on portrait areas', () => {
+    expect(computeNUpGrid(1, PORTRAIT)).toEqual({ columns: 1, rows: 1 });
+    expect(computeNUpGrid(2, PORTRAIT)).toEqual({ columns: 1, rows: 2 });
+    expect(computeNUpGrid(4, PORTRAIT)).toEqual({ columns: 2, rows: 2 });
+    expect(computeNUpGrid(6, PORTRAIT)).toEqual({ columns: 2, rows: 3 });
+    expect(computeNUpGrid(9, PORTRAIT)).toEqual({ columns: 3, rows: 3 });
+    expect(computeNUpGrid(16, PORTRAIT)).toEqual({ columns: 4, rows: 4 });
+  });
+
+  test('should use more columns than rows on landscape areas', () => {
+    expect(computeNUpGrid(2, LANDSCAPE)).toEqual({ columns: 2, rows: 1 });
+    expect(computeNUpGrid(6, LANDSCAPE)).toEqual({ columns: 3, rows: 2 });
+  });
+});
+
+describe('computeNUpLayout', () => {
+  test('should cover the area with a single cell by default', () => {
+    const layout = computeNUpLayout(undefined, { x: 10, y: 20, width: 2400, height: 3000 }, 300, 300);
+
+    expect(layout.cells).toEqual([{ x: 10, y: 20, width: 2400, height: 3000 }]);
+    expect(layout.borderWidth).toBe(0);
+  });
+
+  test('should stack two pages on a portrait area', () => {
+    const layout = computeNUpLayout(2, PORTRAIT, 300, 300);
+
+    expect(layout.cells).toEqual([
+      { x: 0, y: 0, width: 2400, height: 1500 },
+      { x: 0, y: 1500, width: 2400, height: 1500 }
+    ]);
+  });
+
+  test('should fill cells left to right, then top to bottom in Z order', () => {
+    const layout = computeNUpLayout({ pagesPerSheet: 4, order: 'Z' }, PORTRAIT, 300, 300);
+
+    expect(layout.cells.map(cell => [cell.x, cell.y])).toEqual([[0, 0], [1200, 0], [0, 1500], [1200, 1500]]);
+  });
+
+  test('should fill cells top to bottom, then left to right in N order', () => {
+    const layout = computeNUpLayout({ pagesPerSheet: 4, order: 'N' }, PORTRAIT, 300, 300);
+
+    expect(layout.cells.map(cell => [cell.x, cell.y])).toEqual([[0, 0], [0, 1500], [1200, 0], [1200, 1500]]);
+  });
+
+  test('should fill cells right to left in reverse orders', () => {
+    const reverseZ = computeNUpLayout({ pagesPerSheet: 6, order: 'reverseZ' }, PORTRAIT, 300, 300);
+    const reverseN = computeNUpLayout({ pagesPerSheet: 6, order: 'reverseN' }, PORTRAIT, 300, 300);
+
+    expect(reverseZ.cells.map(cell => [cell.x, cell.y])).toEqual([
+      [1200, 0], [0, 0], [1200, 1000], [0, 1000], [1200, 2000], [0, 2000]
+    ]);
+    expect(reverseN.cells.map(cell => [cell.x, cell.y])).toEqual([
+      [1200, 0], [1200, 1000], [1200, 2000], [0, 0], [0, 1000], [0, 2000]
+    ]);
+  });
+
+  test('should leave a gutter between cells but not at the edges', () => {
+    // 10mm at 254 DPI = 100 pixels
+    const layout = computeNUpLayout({ pagesPerSheet: 4, gutter: 10 }, { x: 0, y: 0, width: 2100, height: 3100 }, 254, 254);
+
+    expect(layout.cells).toEqual([
+      { x: 0, y: 0, width: 1000, height: 1500 },
+      { x: 1100, y: 0, width: 1000, height: 1500 },
+      { x: 0, y: 1600, width: 1000, height: 1500 },
+      { x: 1100, y: 1600, width: 1000, height: 1500 }
+    ]);
+  });
+
+  test('should split uneven areas without gaps or overlaps', () => {
+    const layout = computeNUpLayout(9, { x: 5, y: 5, width: 1000, height: 1001 }, 300, 300);
+    const firstRow = layout.cells.slice(0, 3);
+
+    expect(firstRow[0].x).toBe(5);
+    expect(firstRow[1].x).toBe(firstRow[0].x + firstRow[0].width);
+    expect(firstRow[2].x).toBe(firstRow[1].x + firstRow[1].width);
+    expect(firstRow[2].x + firstRow[2].width).toBe(1005);
+  });
+
+  test('should convert border widths from points to device pixels', () => {
+    expect(computeNUpLayout({ pagesPerSheet: 4, border: true }, PORTRAIT, 600, 600).borderWidth).toBe(4);
+    expect(computeNUpLayout({ pagesPerSheet: 4, border: 3 }, PORTRAIT, 600, 600).borderWidth).toBe(25);
+    expect(computeNUpLayout({ pagesPerSheet: 4, border: true }, PORTRAIT, 72, 72).borderWidth).toBe(1);
+    expect(computeNUpLayout({ pagesPerSheet: 4, border: false }, PORTRAIT, 600, 600).borderWidth).toBe(0);
+  });
+
+  test('should reject gutters that leave no room for pages', () => {
+    expect(() => computeNUpLayout({ pagesPerSheet: 16, gutter: 100 }, PORTRAIT, 300, 300))
+      .toThrow('N-up gutter leaves no room for pages');
+  });
+});
+
+describe('validateNUp', () => {
+  test('should accept supported page counts and options', () => {
+    expect(() => validateNUp(undefined)).not.toThrow();
+    expect(() => validateNUp(16)).not.toThrow();
+    expect(() => validateNUp({ pagesPerSheet: 2, order: 'reverseN', border: 1, gutter: 0 })).not.toThrow();
+  });
+
+  test('should reject unsupported page counts', () => {
+    expect(() => validateNUp(3 as any)).toThrow('Invalid pages per sheet: 3 (expected 1, 2, 4, 6, 9 or 16)');
+  });
+
+  test('should reject invalid orders, borders and gutters', () => {
+    expect(() => validateNUp({ pagesPerSheet: 4, order: 'S' as any })).toThrow('Invalid N-up order: S');
+    expect(() => validateNUp({ pagesPerSheet: 4, border: -1 })).toThrow('Invalid N-up border width: -1');
+    expect(() => validateNUp({ pagesPerSheet: 4, gutter: NaN })).toThrow(InvalidOptionError);
+  });
+
+  test('should name the option', () => {
+    try {
+      validateNUp(5 as any);
+    } catch (error) {
+      expect((error as InvalidOptionError).option).toBe('nUp');
+    }
+    expect.assertions(1);
+  });
+});
+
+describe('getPagesPerSheet', () => {
+  test('should default to one page per sheet', () => {
+    expect(getPagesPerSheet(undefined)).toBe(1);
+    expect(getPagesPerSheet(6)).toBe(6);
+    expect(getPagesPerSheet({ pagesPerSheet: 9 })).toBe(9);
+  });
+});
+
+describe('groupPagesIntoSheets', () => {
+  test('should fill sheets in page order and leave the last one partial', () => {
+    expect(groupPagesIntoSheets([0, 1, 2, 3, 4], 2)).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  test('should keep one page per sheet without N-up', () => {
+    expect(groupPagesIntoSheets([4, 2], 1)).toEqual([[4], [2]]);
+  });
+
+  test('should return no sheets for no pages', () => {
+    expect(groupPagesIntoSheets([], 4)).toEqual([]);
+  });
+});
+
+describe('computeBorderStrips', () => {
+  test('should outline the rectangle from the inside', () => {
+    expect(computeBorderStrips({ x: 10, y: 20, width: 100, height: 50 }, 2)).toEqual([
+      { x: 10, y: 20, width: 100, height: 2 },
+      { x: 10, y: 68, width: 100, height: 2 },
+      { x: 10, y: 20, width: 2, height: 50 },
+      { x: 108, y: 20, width: 2, height: 50 }
+    ]);
+  });
+
+  test('should draw nothing without a border width or an empty rectangle', () => {
+    expect(computeBorderStrips({ x: 0, y: 0, width: 100, height: 100 }, 0)).toEqual([]);
+    expect(computeBorderStrips({ x: 0, y: 0, width: 0, height: 100 }, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for PDF page boxes
+ */
+
+import {
+  validatePageBox,
+  resolvePageBox,
+  toDisplayRect,
+  computeRenderMatrix,
+  computeBoxPageRect,
+  type PdfBox,
+  type RenderMatrix
+} from '../src/core/layout';
+import { InvalidOptionError } from '../src/core/errors';
+
+// US Letter with a 9pt bleed around a 594x774 trim box
+const MEDIA: PdfBox = { left: 0, bottom: 0, right: 612, top: 792 };
+const TRIM: PdfBox = { left: 9, bottom: 9, right: 603, top: 783 };
+
+function apply(matrix: RenderMatrix, x: number, y: number): [number, number] {
+  return [matrix.a * x + matrix.c * y + matrix.e, matrix.b * x + matrix.d * y + matrix.f];
+}
+
+describe('resolvePageBox', () => {
+  test('should use the bounding box for the crop box', () => {
+    const bounds = { left: 20, bottom: 20, right: 592, top: 772 };
+
+    expect(resolvePageBox('crop', { bounds, media: MEDIA })).toEqual(bounds);
+  });
+
+  test('should return the media box', () => {
+    expect(resolvePageBox('media', { bounds: TRIM, media: MEDIA })).toEqual(MEDIA);
+  });
+
+  test('should fall back to the bounding box when the media box is not in the page dictionary', () => {
+    expect(resolvePageBox('media', { bounds: MEDIA, media: null })).toEqual(MEDIA);
+  });
+
+  test('should return the requested box when present', () => {
+    expect(resolvePageBox('trim', { bounds: MEDIA, media: MEDIA, trim: TRIM })).toEqual(TRIM);
+  });
+
+  test('should fall back to the crop box for missing bleed, trim and art boxes', () => {
+    expect(resolvePageBox('bleed', { bounds: MEDIA, bleed: null })).toEqual(MEDIA);
+    expect(resolvePageBox('trim', { bounds: MEDIA })).toEqual(MEDIA);
+    expect(resolvePageBox('art', { bounds: MEDIA, art: null })).toEqual(MEDIA);
+  });
+
+  test('should clip boxes to the media box', () => {
+    const bleed = { left: -9, bottom: -9, right: 621, top: 801 };
+
+    expect(resolvePageBox('bleed', { bounds: MEDIA, media: MEDIA, bleed })).toEqual(MEDIA);
+  });
+
+  test('should normalize boxes with swapped corners', () => {
+    const swapped = { left: 603, bottom: 783, right: 9, top: 9 };
+
+    expect(resolvePageBox('trim', { bounds: MEDIA, media: MEDIA, trim: swapped })).toEqual(TRIM);
+  });
+
+  test('should reject unknown boxes', () => {
+    expect(() => resolvePageBox('page' as any, { bounds: MEDIA })).toThrow('Invalid page box: page');
+  });
+});
+
+describe('validatePageBox', () => {
+  test('should accept known boxes and undefined', () => {
+    expect(() => validatePageBox(undefined)).not.toThrow();
+    expect(() => validatePageBox('bleed')).not.toThrow();
+  });
+
+  test('should name the option', () => {
+    try {
+      validatePageBox('bounding' as any);
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidOptionError);
+      expect((error as InvalidOptionError).option).toBe('pageBox');
+    }
+    expect.assertions(2);
+  });
+});
+
+describe('toDisplayRect', () => {
+  test('should flip the y axis without rotation', () => {
+    expect(toDisplayRect(TRIM, MEDIA, 0)).toEqual({ x: 9, y: 9, width: 594, height: 774 });
+  });
+
+  test('should measure from the bounding box origin', () => {
+    const bounds = { left: 100, bottom: 50, right: 712, top: 842 };
+    const box = { left: 110, bottom: 50, right: 712, top: 800 };
+
+    expect(toDisplayRect(box, bounds, 0)).toEqual({ x: 10, y: 42, width: 602, height: 750 });
+  });
+
+  test('should swap width and height for /Rotate 90 and 270', () => {
+    expect(toDisplayRect(MEDIA, MEDIA, 90)).toEqual({ x: 0, y: 0, width: 792, height: 612 });
+    expect(toDisplayRect(MEDIA, MEDIA, 270)).toEqual({ x: 0, y: 0, width: 792, height: 612 });
+  });
+
+  test('should place an off-center box according to the rotation', () => {
+    // 10pt strip along the left edge of the page
+    const strip = { left: 0, bottom: 0, right: 10, top: 792 };
+
+    expect(toDisplayRect(strip, MEDIA, 0)).toEqual({ x: 0, y: 0, width: 10, height: 792 });
+    // Turned clockwise the left edge becomes the top
+    expect(toDisplayRect(strip, MEDIA, 90)).toEqual({ x: 0, y: 0, width: 792, height: 10 });
+    expect(toDisplayRect(strip, MEDIA, 180)).toEqual({ x: 602, y: 0, width: 10, height: 792 });
+    expect(toDisplayRect(strip, MEDIA, 270)).toEqual({ x: 0, y: 602, width: 792, height: 10 });
+  });
+});
+
+describe('computeRenderMatrix', () => {
+  const box = { x: 9, y: 9, width: 594, height: 774 };
+
+  test('should scale the box onto the rendered size', () => {
+    const matrix = computeRenderMatrix({ box, rotation: 0, width: 1188, height: 1548, offsetX: 0, offsetY: 0 });
+
+    expect(apply(matrix, 9, 9)).toEqual([0, 0]);
+    expect(apply(matrix, 603, 783)).toEqual([1188, 1548]);
+  });
+
+  test('should shift by the viewport offset', () => {
+    const matrix = computeRenderMatrix({ box, rotation: 0, width: 1188, height: 1548, offsetX: 100, offsetY: 50 });
+
+    expect(apply(matrix, 9, 9)).toEqual([-100, -50]);
+  });
+
+  test('should turn the box clockwise for 90', () => {
+    const matrix = computeRenderMatrix({ box, rotation: 90, width: 1548, height: 1188, offsetX: 0, offsetY: 0 });
+
+    // Top-left goes to top-right, bottom-left to top-left
+    expect(apply(matrix, 9, 9)).toEqual([1548, 0]);
+    expect(apply(matrix, 9, 783)).toEqual([0, 0]);
+    expect(apply(matrix, 603, 783)).toEqual([0, 1188]);
+  });
+
+  test('should turn the box upside down for 180', () => {
+    const matrix = computeRenderMatrix({ box, rotation: 180, width: 1188, height: 1548, offsetX: 0, offsetY: 0 });
+
+    expect(apply(matrix, 9, 9)).toEqual([1188, 1548]);
+    expect(apply(matrix, 603, 783)).toEqual([0, 0]);
+  });
+
+  test('should turn the box counter-clockwise for 270', () => {
+    const matrix = computeRenderMatrix({ box, rotation: 270, width: 1548, height: 1188, offsetX: 0, offsetY: 0 });
+
+    // Top-left goes to bottom-left, top-right to top-left
+    expect(apply(matrix, 9, 9)).toEqual([0, 1188]);
+    expect(apply(matrix, 603, 9)).toEqual([0, 0]);
+    expect(apply(matrix, 603, 783)).toEqual([1548, 0]);
+  });
+});
+
+describe('computeBoxPageRect', () => {
+  const page = { width: 200, height: 300 };
+  const box = { x: 10, y: 20, width: 100, height: 50 };
+
+  test('should return the target when the box is the whole page', () => {
+    const target = { x: 50, y: 60, width: 400, height: 600 };
+
+    expect(computeBoxPageRect({ x: 0, y: 0, ...page }, page, 0, target)).toEqual(target);
+  });
+
+  test('should shift and scale the page so the box fills the target', () => {
+    expect(computeBoxPageRect(box, page, 0, { x: 0, y: 0, width: 200, height: 100 }))
+      .toEqual({ x: -20, y: -40, width: 400, height: 600 });
+  });
+
+  test('should place the box of a page turned clockwise', () => {
+    // The 300x200 turned page has the box at x 230..280, y 10..110
+    expect(computeBoxPageRect(box, page, 90, { x: 0, y: 0, width: 50, height: 100 }))
+      .toEqual({ x: -230, y: -10, width: 300, height: 200 });
+  });
+
+  test('should place the box of a page turned upside down', () => {
+    expect(computeBoxPageRect(box, page, 180, { x: 0, y: 0, width: 100, height: 50 }))
+      .toEqual({ x: -90, y: -230, width: 200, height: 300 });
+  });
+
+  test('should place the box of a page turned counter-clockwise', () => {
+    // The 300x200 turned page has the box at x 20..70, y 90..190
+    expect(computeBoxPageRect(box, page, 270, { x: 0, y: 0, width: 100, height: 200 }))
+      .toEqual({ x: -40, y: -180, width: 600, height: 400 });
+  });
+});
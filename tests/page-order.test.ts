@@ -0,0 +1,89 @@
+/**
+ * Tests for page subsets and reverse order
+ */
+
+import { validatePageSubset, selectPageSubset, reverseSides, imposeBooklet } from '../src/core/pages';
+import { InvalidOptionError } from '../src/core/errors';
+import type { PageSubset } from '../src/core/types';
+
+describe('validatePageSubset', () => {
+  test('should accept known subsets and undefined', () => {
+    expect(() => validatePageSubset(undefined)).not.toThrow();
+    expect(() => validatePageSubset('all')).not.toThrow();
+    expect(() => validatePageSubset('odd')).not.toThrow();
+    expect(() => validatePageSubset('even')).not.toThrow();
+  });
+
+  test('should reject unknown subsets', () => {
+    expect(() => validatePageSubset('first' as PageSubset)).toThrow(InvalidOptionError);
+
+    try {
+      validatePageSubset('ODD' as PageSubset);
+    } catch (error) {
+      expect((error as InvalidOptionError).option).toBe('pageSubset');
+    }
+  });
+});
+
+describe('selectPageSubset', () => {
+  const pages = [0, 1, 2, 3, 4];
+
+  test('should keep every page by default', () => {
+    expect(selectPageSubset(pages)).toEqual(pages);
+    expect(selectPageSubset(pages, 'all')).toEqual(pages);
+  });
+
+  test('should keep the odd pages', () => {
+    expect(selectPageSubset(pages, 'odd')).toEqual([0, 2, 4]);
+  });
+
+  test('should keep the even pages', () => {
+    expect(selectPageSubset(pages, 'even')).toEqual([1, 3]);
+  });
+
+  test('should count pages within the selection', () => {
+    // Pages "5-1": the 1st, 3rd and 5th selected page
+    expect(selectPageSubset([4, 3, 2, 1, 0], 'odd')).toEqual([4, 2, 0]);
+    expect(selectPageSubset([1, 4, 7], 'even')).toEqual([4]);
+  });
+
+  test('should reject a subset that leaves no pages', () => {
+    expect(() => selectPageSubset([0], 'even')).toThrow('No even pages to print');
+  });
+
+  test('should reject an invalid subset', () => {
+    expect(() => selectPageSubset(pages, 'none' as PageSubset)).toThrow(InvalidOptionError);
+  });
+});
+
+describe('reverseSides', () => {
+  test('should reverse one-sided output', () => {
+    expect(reverseSides([[0, 1], [2, 3], [4]])).toEqual([[4], [2, 3], [0, 1]]);
+  });
+
+  test('should not modify the sides', () => {
+    const sides = [[0], [1], [2]];
+    reverseSides(sides);
+
+    expect(sides).toEqual([[0], [1], [2]]);
+  });
+
+  test('should reverse two-sided output by sheet', () => {
+    expect(reverseSides([0, 1, 2, 3], true)).toEqual([2, 3, 0, 1]);
+  });
+
+  test('should give the last sheet a blank back for an odd number of sides', () => {
+    expect(reverseSides([0, 1, 2], true)).toEqual([2, null, 0, 1]);
+  });
+
+  test('should keep booklet sheets together', () => {
+    const sides = imposeBooklet([0, 1, 2, 3, 4, 5, 6, 7]);
+
+    expect(reverseSides(sides, true)).toEqual([[5, 2], [3, 4], [7, 0], [1, 6]]);
+  });
+
+  test('should handle no sides', () => {
+    expect(reverseSides([])).toEqual([]);
+    expect(reverseSides([], true)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for page selection parsing
+ */
+
+import { parsePageSelection } from '../src/core/pages';
+import { PageSelectionError } from '../src/core/errors';
+
+describe('parsePageSelection', () => {
+  describe('single pages and ranges', () => {
+    test('should parse a single page', () => {
+      expect(parsePageSelection('3', 10)).toEqual([2]);
+    });
+
+    test('should parse inclusive ranges and lists', () => {
+      expect(parsePageSelection('1-3,5', 10)).toEqual([0, 1, 2, 4]);
+    });
+
+    test('should parse open-ended ranges to the last page', () => {
+      expect(parsePageSelection('1-3,5,8-', 10)).toEqual([0, 1, 2, 4, 7, 8, 9]);
+    });
+
+    test('should parse reversed ranges in descending order', () => {
+      expect(parsePageSelection('5-2', 10)).toEqual([4, 3, 2, 1]);
+    });
+
+    test('should keep the order and repetitions given by the caller', () => {
+      expect(parsePageSelection('3,1,1', 5)).toEqual([2, 0, 0]);
+    });
+
+    test('should ignore whitespace', () => {
+      expect(parsePageSelection(' 1 - 2 , 4 ', 5)).toEqual([0, 1, 3]);
+    });
+  });
+
+  describe('relative references', () => {
+    test('should resolve "last" case-insensitively', () => {
+      expect(parsePageSelection('last', 7)).toEqual([6]);
+      expect(parsePageSelection('LAST', 7)).toEqual([6]);
+    });
+
+    test('should resolve negative references from the end', () => {
+      expect(parsePageSelection('-1', 7)).toEqual([6]);
+      expect(parsePageSelection('-3', 7)).toEqual([4]);
+    });
+
+    test('should support ranges mixing negative references and "last"', () => {
+      expect(parsePageSelection('-3--1', 7)).toEqual([4, 5, 6]);
+      expect(parsePageSelection('5-last', 7)).toEqual([4, 5, 6]);
+      expect(parsePageSelection('last-1', 3)).toEqual([2, 1, 0]);
+    });
+  });
+
+  describe('validation', () => {
+    test('should reject pages beyond the document', () => {
+      expect(() => parsePageSelection('1-12', 10)).toThrow('page 12 is out of range (document has 10 pages)');
+    });
+
+    test('should reject negative references beyond the first page', () => {
+      expect(() => parsePageSelection('-4', 3)).toThrow('page -4 is out of range');
+    });
+
+    test('should reject page zero', () => {
+      expect(() => parsePageSelection('0-2', 3)).toThrow('page numbers start at 1');
+    });
+
+    test('should reject empty selections and empty segments', () => {
+      expect(() => parsePageSelection('', 3)).toThrow('Page selection is empty');
+      expect(() => parsePageSelection('1,,2', 3)).toThrow('empty segment');
+    });
+
+    test('should reject malformed segments', () => {
+      expect(() => parsePageSelection('1-2-3', 5)).toThrow('cannot parse "1-2-3"');
+      expect(() => parsePageSelection('abc', 5)).toThrow('cannot parse "abc"');
+    });
+
+    test('should reject invalid page counts', () => {
+      expect(() => parsePageSelection('1', 0)).toThrow('Invalid page count');
+    });
+
+    test('should throw PageSelectionError carrying the selection', () => {
+      expect(() => parsePageSelection('1-12', 10)).toThrow(PageSelectionError);
+
+      try {
+        parsePageSelection('2,x', 5);
+      } catch (error) {
+        expect((error as PageSelectionError).selection).toBe('2,x');
+        expect((error as PageSelectionError).name).toBe('PageSelectionError');
+      }
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for the PNG decoder
+ */
+
+import { deflateSync } from 'zlib';
+import { openImage, type DecodedImage } from '../src/core/images';
+import { ImageDecodeError } from '../src/core/errors';
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  // The decoder does not check CRCs
+  return Buffer.concat([length, Buffer.from(type, 'latin1'), data, Buffer.alloc(4)]);
+}
+
+function header(width: number, height: number, bitDepth: number, colorType: number, interlace = 0): Buffer {
+  const data = Buffer.alloc(13);
+  data.writeUInt32BE(width, 0);
+  data.writeUInt32BE(height, 4);
+  data[8] = bitDepth;
+  data[9] = colorType;
+  data[12] = interlace;
+  return chunk('IHDR', data);
+}
+
+/**
+ * PNG from already filtered scanlines (each starting with its filter byte)
+ */
+function createPng(ihdr: Buffer, scanlines: number[][], extra: Buffer[] = []): Buffer {
+  return Buffer.concat([
+    SIGNATURE,
+    ihdr,
+    ...extra,
+    chunk('IDAT', deflateSync(Buffer.from(scanlines.flat()))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function pixel(image: DecodedImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return [image.data[offset + 2], image.data[offset + 1], image.data[offset]];
+}
+
+describe('PNG decoder', () => {
+  test('should decode 8-bit RGB pixels to BGRA', () => {
+    const png = createPng(header(2, 1, 8, 2), [[0, 255, 0, 0, 0, 0, 255]]);
+
+    const image = openImage(png);
+    const decoded = image.decodeFrame(0);
+
+    expect(image.format).toBe('png');
+    expect(image.frames).toEqual([{ width: 2, height: 1, dpiX: 0, dpiY: 0 }]);
+    expect([...decoded.data]).toEqual([0, 0, 255, 255, 255, 0, 0, 255]);
+  });
+
+  test('should undo sub, up, average and paeth filters', () => {
+    // 3x4 grayscale: every row is 10, 20, 30
+    const png = createPng(header(3, 4, 8, 0), [
+      [1, 10, 10, 10],
+      [2, 0, 0, 0],
+      [3, 5, 5, 5],
+      [4, 0, 0, 0]
+    ]);
+
+    const decoded = openImage(png).decodeFrame(0);
+
+    for (let y = 0; y < 4; y++) {
+      expect([pixel(decoded, 0, y)[0], pixel(decoded, 1, y)[0], pixel(decoded, 2, y)[0]]).toEqual([10, 20, 30]);
+    }
+  });
+
+  test('should decode 1-bit grayscale', () => {
+    const png = createPng(header(10, 1, 1, 0), [[0, 0b10100000, 0b01000000]]);
+
+    const decoded = openImage(png).decodeFrame(0);
+
+    expect(pixel(decoded, 0, 0)).toEqual([255, 255, 255]);
+    expect(pixel(decoded, 1, 0)).toEqual([0, 0, 0]);
+    expect(pixel(decoded, 2, 0)).toEqual([255, 255, 255]);
+    expect(pixel(decoded, 9, 0)).toEqual([255, 255, 255]);
+    expect(pixel(decoded, 8, 0)).toEqual([0, 0, 0]);
+  });
+
+  test('should look up palette colors and tRNS alpha', () => {
+    const palette = chunk('PLTE', Buffer.from([255, 0, 0, 0, 0, 255]));
+    const transparency = chunk('tRNS', Buffer.from([0]));
+    const png = createPng(header(2, 1, 8, 3), [[0, 0, 1]], [palette, transparency]);
+
+    const decoded = openImage(png).decodeFrame(0);
+
+    // Fully transparent red prints as white
+    expect(pixel(decoded, 0, 0)).toEqual([255, 255, 255]);
+    expect(pixel(decoded, 1, 0)).toEqual([0, 0, 255]);
+  });
+
+  test('should blend RGBA pixels onto white', () => {
+    const png = createPng(header(1, 1, 8, 6), [[0, 0, 0, 0, 128]]);
+
+    const decoded = openImage(png).decodeFrame(0);
+
+    expect(pixel(decoded, 0, 0)).toEqual([127, 127, 127]);
+  });
+
+  test('should use the high byte of 16-bit samples', () => {
+    const png = createPng(header(1, 1, 16, 2), [[0, 0x12, 0x34, 0x56, 0x78, 0x9A, 0xBC]]);
+
+    expect(pixel(openImage(png).decodeFrame(0), 0, 0)).toEqual([0x12, 0x56, 0x9A]);
+  });
+
+  test('should place the pixels of Adam7 passes', () => {
+    // 3x3 grayscale: passes 1 (0,0), 4 (2,0), 5 (0,2 and 2,2), 6 (1,0 1,2), 7 (row 1)
+    const png = createPng(header(3, 3, 8, 0, 1), [
+      [0, 1],
+      [0, 2],
+      [0, 3, 4],
+      [0, 5],
+      [0, 6],
+      [0, 7, 8, 9]
+    ]);
+
+    const decoded = openImage(png).decodeFrame(0);
+    const values = [0, 1, 2].flatMap(y => [0, 1, 2].map(x => pixel(decoded, x, y)[0]));
+
+    expect(values).toEqual([1, 5, 2, 7, 8, 9, 3, 6, 4]);
+  });
+
+  test('should read the resolution from pHYs', () => {
+    const physical = Buffer.alloc(9);
+    physical.writeUInt32BE(11811, 0); // 300 DPI
+    physical.writeUInt32BE(5906, 4); // 150 DPI
+    physical[8] = 1;
+    const png = createPng(header(1, 1, 8, 0), [[0, 0]], [chunk('pHYs', physical)]);
+
+    const [frame] = openImage(png).frames;
+
+    expect(frame.dpiX).toBeCloseTo(300, 0);
+    expect(frame.dpiY).toBeCloseTo(150, 0);
+  });
+
+  test('should reject unsupported bit depths', () => {
+    const png = createPng(header(1, 1, 4, 2), [[0, 0]]);
+
+    expect(() => openImage(png)).toThrow(ImageDecodeError);
+    expect(() => openImage(png)).toThrow('Unsupported PNG color type 2 with bit depth 4');
+  });
+
+  test('should reject corrupt image data', () => {
+    const png = Buffer.concat([SIGNATURE, header(1, 1, 8, 0), chunk('IDAT', Buffer.from([1, 2, 3])), chunk('IEND', Buffer.alloc(0))]);
+
+    expect(() => openImage(png).decodeFrame(0)).toThrow('PNG image data is corrupt');
+  });
+
+  test('should reject truncated image data', () => {
+    const png = createPng(header(4, 4, 8, 0), [[0, 1, 2, 3, 4]]);
+
+    expect(() => openImage(png).decodeFrame(0)).toThrow('PNG image data is truncated');
+  });
+
+  test('should reject dimensions too large to decode', () => {
+    const png = createPng(header(100000, 100000, 8, 0), [[0, 0]]);
+
+    expect(() => openImage(png)).toThrow(ImageDecodeError);
+    expect(() => openImage(png)).toThrow('PNG image is too large: 100000x100000 pixels');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Tests for printer attribute decoding
+ */
+
+import { decodePrinterAttributes } from '../src/core/spooler';
+
+describe('decodePrinterAttributes', () => {
+  test('should decode a printer with no attributes', () => {
+    const flags = decodePrinterAttributes(0);
+
+    expect(Object.values(flags).every(flag => !flag)).toBe(true);
+    expect(Object.keys(flags)).toHaveLength(16);
+  });
+
+  test.each([
+    [0x00000001, 'queued'],
+    [0x00000002, 'direct'],
+    [0x00000004, 'default'],
+    [0x00000008, 'shared'],
+    [0x00000010, 'network'],
+    [0x00000020, 'hidden'],
+    [0x00000040, 'local'],
+    [0x00000080, 'enableDevQ'],
+    [0x00000100, 'keepPrintedJobs'],
+    [0x00000200, 'doCompleteFirst'],
+    [0x00000400, 'workOffline'],
+    [0x00000800, 'enableBidi'],
+    [0x00001000, 'rawOnly'],
+    [0x00002000, 'published'],
+    [0x00004000, 'fax'],
+    [0x00008000, 'terminalServices']
+  ])('should map bit %d to %s only', (bit, name) => {
+    const flags = decodePrinterAttributes(bit) as unknown as Record<string, boolean>;
+
+    expect(flags[name]).toBe(true);
+    expect(Object.entries(flags).filter(([, set]) => set).map(([key]) => key)).toEqual([name]);
+  });
+
+  test('should decode combined attributes', () => {
+    const flags = decodePrinterAttributes(0x0448);
+
+    expect(flags.shared).toBe(true);
+    expect(flags.local).toBe(true);
+    expect(flags.workOffline).toBe(true);
+    expect(flags.network).toBe(false);
+  });
+
+  test('should ignore bits outside the attribute table', () => {
+    expect(decodePrinterAttributes(0x00010000)).toEqual(decodePrinterAttributes(0));
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for printer status decoding and readiness
+ */
+
+import { decodePrinterStatus, describePrinterStatus, isPrinterReady } from '../src/core/spooler';
+
+describe('decodePrinterStatus', () => {
+  test('should decode an idle printer with no flags', () => {
+    const flags = decodePrinterStatus(0);
+
+    expect(Object.values(flags).every(flag => !flag)).toBe(true);
+    expect(Object.keys(flags)).toHaveLength(27);
+  });
+
+  test.each([
+    [0x00000001, 'paused'],
+    [0x00000002, 'error'],
+    [0x00000004, 'pendingDeletion'],
+    [0x00000008, 'paperJam'],
+    [0x00000010, 'paperOut'],
+    [0x00000020, 'manualFeed'],
+    [0x00000040, 'paperProblem'],
+    [0x00000080, 'offline'],
+    [0x00000100, 'ioActive'],
+    [0x00000200, 'busy'],
+    [0x00000400, 'printing'],
+    [0x00000800, 'outputBinFull'],
+    [0x00001000, 'notAvailable'],
+    [0x00002000, 'waiting'],
+    [0x00004000, 'processing'],
+    [0x00008000, 'initializing'],
+    [0x00010000, 'warmingUp'],
+    [0x00020000, 'tonerLow'],
+    [0x00040000, 'noToner'],
+    [0x00080000, 'pagePunt'],
+    [0x00100000, 'userIntervention'],
+    [0x00200000, 'outOfMemory'],
+    [0x00400000, 'doorOpen'],
+    [0x00800000, 'serverUnknown'],
+    [0x01000000, 'powerSave'],
+    [0x02000000, 'serverOffline'],
+    [0x04000000, 'driverUpdateNeeded']
+  ])('should map bit %d to %s only', (bit, flag) => {
+    const flags = decodePrinterStatus(bit);
+
+    expect(Object.entries(flags).filter(([, set]) => set).map(([name]) => name)).toEqual([flag]);
+  });
+});
+
+describe('describePrinterStatus', () => {
+  test('should describe a printer with no flags as ready', () => {
+    expect(describePrinterStatus(decodePrinterStatus(0))).toBe('Ready');
+  });
+
+  test('should list problems before activity', () => {
+    expect(describePrinterStatus(decodePrinterStatus(0x00020410))).toBe('Paper out, Toner low, Printing');
+    expect(describePrinterStatus(decodePrinterStatus(0x02000082))).toBe('Error, Offline, Server offline');
+  });
+});
+
+describe('isPrinterReady', () => {
+  test('should be ready while idle or working', () => {
+    // Busy, printing, processing, warming up, toner low, power save
+    expect(isPrinterReady(decodePrinterStatus(0), false)).toBe(true);
+    expect(isPrinterReady(decodePrinterStatus(0x01034600), false)).toBe(true);
+  });
+
+  test.each([
+    [0x00000001, 'paused'],
+    [0x00000002, 'error'],
+    [0x00000004, 'pending deletion'],
+    [0x00000008, 'paper jam'],
+    [0x00000010, 'paper out'],
+    [0x00000040, 'paper problem'],
+    [0x00000080, 'offline'],
+    [0x00000800, 'output bin full'],
+    [0x00001000, 'not available'],
+    [0x00040000, 'no toner'],
+    [0x00100000, 'user intervention'],
+    [0x00200000, 'out of memory'],
+    [0x00400000, 'door open'],
+    [0x00800000, 'server unknown'],
+    [0x02000000, 'server offline']
+  ])('should not be ready with bit %d (%s)', bit => {
+    expect(isPrinterReady(decodePrinterStatus(bit), false)).toBe(false);
+  });
+
+  test('should not be ready when the queue is set to work offline', () => {
+    expect(isPrinterReady(decodePrinterStatus(0), true)).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for print language detection and raw datatype negotiation
+ */
+
+import { detectPrintLanguage, isPdfDocument, selectRawDatatype, RAW_DATATYPE } from '../src/core/raw';
+import { InvalidOptionError } from '../src/core/errors';
+
+const data = (text: string): Buffer => Buffer.from(text, 'latin1');
+
+const UEL = '\x1B%-12345X';
+
+describe('isPdfDocument', () => {
+  test('should accept a PDF header at the start or within the first kilobyte', () => {
+    expect(isPdfDocument(data('%PDF-1.7\n%âãÏÓ\n1 0 obj'))).toBe(true);
+    expect(isPdfDocument(data('garbage\r\n%PDF-1.4\n'))).toBe(true);
+  });
+
+  test('should reject a PDF header after the first kilobyte', () => {
+    expect(isPdfDocument(data(' '.repeat(1024) + '%PDF-1.4'))).toBe(false);
+  });
+
+  test('should reject PJL-wrapped PDFs and other languages', () => {
+    expect(isPdfDocument(data(`${UEL}@PJL ENTER LANGUAGE=PDF\r\n%PDF-1.4`))).toBe(false);
+    expect(isPdfDocument(data('%!PS-Adobe-3.0\n'))).toBe(false);
+    expect(isPdfDocument(Buffer.alloc(0))).toBe(false);
+  });
+});
+
+describe('detectPrintLanguage', () => {
+  test('should detect PDF', () => {
+    expect(detectPrintLanguage(data('%PDF-2.0\n'))).toBe('pdf');
+  });
+
+  test('should detect PostScript, with or without a leading Ctrl-D', () => {
+    expect(detectPrintLanguage(data('%!PS-Adobe-3.0\n%%Pages: 1\n'))).toBe('postscript');
+    expect(detectPrintLanguage(data('\x04%!PS-Adobe-3.0\n'))).toBe('postscript');
+  });
+
+  test('should detect PCL from its escape sequences', () => {
+    expect(detectPrintLanguage(data('\x1BE\x1B&l0O\x1B(s0p12h10v0s0b3T'))).toBe('pcl');
+    expect(detectPrintLanguage(data('\x1B&l1X'))).toBe('pcl');
+  });
+
+  test('should detect the PCL XL stream header', () => {
+    expect(detectPrintLanguage(data(') HP-PCL XL;2;0;Comment\n\xC0\x00'))).toBe('pclxl');
+  });
+
+  test('should detect ZPL labels', () => {
+    expect(detectPrintLanguage(data('^XA^FO50,50^ADN,36,20^FDHello^FS^XZ'))).toBe('zpl');
+    expect(detectPrintLanguage(data('\r\n^XA\n^FO20,20^FDShip to^FS\n^XZ'))).toBe('zpl');
+    expect(detectPrintLanguage(data('~SD15\n^XA^PW812^XZ'))).toBe('zpl');
+  });
+
+  test('should detect EPL2 labels', () => {
+    expect(detectPrintLanguage(data('\nN\nq812\nA50,50,0,3,1,1,N,"Hello"\nP1\n'))).toBe('epl');
+    expect(detectPrintLanguage(data('N\r\nB10,10,0,1,2,6,50,B,"123"\r\nP2,1\r\n'))).toBe('epl');
+  });
+
+  test('should not mistake plain text for EPL', () => {
+    expect(detectPrintLanguage(data('No label here\nP1\n'))).toBe('unknown');
+    expect(detectPrintLanguage(data('N\nJust a note\n'))).toBe('unknown');
+  });
+
+  test('should use the PJL ENTER LANGUAGE command', () => {
+    expect(detectPrintLanguage(data(`${UEL}@PJL JOB NAME="Report"\r\n@PJL ENTER LANGUAGE = PCL\r\n\x1BE`))).toBe('pcl');
+    expect(detectPrintLanguage(data(`${UEL}@PJL ENTER LANGUAGE=POSTSCRIPT\n%!PS`))).toBe('postscript');
+    expect(detectPrintLanguage(data(`${UEL}@PJL ENTER LANGUAGE=PDF\n%PDF-1.4`))).toBe('pdf');
+    expect(detectPrintLanguage(data(`${UEL}@PJL ENTER LANGUAGE=PCLXL\n) HP-PCL XL;2;0`))).toBe('pclxl');
+  });
+
+  test('should detect the data after PJL commands without ENTER LANGUAGE', () => {
+    expect(detectPrintLanguage(data(`${UEL}@PJL SET COPIES=2\r\n@PJL\r\n%!PS-Adobe-3.0\n`))).toBe('postscript');
+    expect(detectPrintLanguage(data(`${UEL}\x1BE\x1B&l0O`))).toBe('pcl');
+    expect(detectPrintLanguage(data(UEL))).toBe('unknown');
+  });
+
+  test('should report unknown data', () => {
+    expect(detectPrintLanguage(Buffer.alloc(0))).toBe('unknown');
+    expect(detectPrintLanguage(data('Hello, printer\f'))).toBe('unknown');
+    expect(detectPrintLanguage(data(`${UEL}@PJL ENTER LANGUAGE=ESCP\n`))).toBe('unknown');
+  });
+});
+
+describe('selectRawDatatype', () => {
+  test('should prefer RAW', () => {
+    expect(selectRawDatatype(['NT EMF 1.008', 'RAW [FF appended]', 'RAW', 'TEXT'])).toBe('RAW');
+  });
+
+  test('should fall back to the first RAW variant', () => {
+    expect(selectRawDatatype(['NT EMF 1.008', 'RAW [FF appended]', 'RAW [FF auto]'])).toBe('RAW [FF appended]');
+  });
+
+  test('should use RAW when the datatypes are unknown or have no RAW entry', () => {
+    expect(selectRawDatatype([])).toBe(RAW_DATATYPE);
+    expect(selectRawDatatype(['NT EMF 1.008', 'TEXT'])).toBe('RAW');
+  });
+
+  test('should return a requested datatype as spelled by the print processor', () => {
+    expect(selectRawDatatype(['RAW', 'RAW [FF auto]', 'TEXT'], 'raw [ff auto]')).toBe('RAW [FF auto]');
+    expect(selectRawDatatype(['RAW', 'TEXT'], 'TEXT')).toBe('TEXT');
+  });
+
+  test('should trust a requested datatype when the datatypes are unknown', () => {
+    expect(selectRawDatatype([], 'XPS2GDI')).toBe('XPS2GDI');
+  });
+
+  test('should reject unsupported and empty datatypes', () => {
+    expect(() => selectRawDatatype(['RAW', 'NT EMF 1.008'], 'TEXT')).toThrow(InvalidOptionError);
+    expect(() => selectRawDatatype(['RAW'], 'TEXT')).toThrow(/not supported by the print processor \(supported: RAW\)/);
+    expect(() => selectRawDatatype(['RAW'], ' ')).toThrow(expect.objectContaining({ option: 'datatype' }));
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for page rotation
+ */
+
+import {
+  validatePageRotation,
+  getPageRotationOverride,
+  resolvePageRotation,
+  rotateSize,
+  toPdfiumRotation,
+  addRotations,
+  rotateRect180
+} from '../src/core/layout';
+import { InvalidOptionError } from '../src/core/errors';
+
+const PORTRAIT_AREA = { width: 2400, height: 3150 };
+const LANDSCAPE_AREA = { width: 3150, height: 2400 };
+
+describe('resolvePageRotation', () => {
+  test('should not rotate without autoRotate or an override', () => {
+    expect(resolvePageRotation({ pageWidth: 792, pageHeight: 612, area: PORTRAIT_AREA })).toBe(0);
+  });
+
+  test('should turn landscape pages on portrait areas counter-clockwise', () => {
+    expect(resolvePageRotation({ pageWidth: 792, pageHeight: 612, area: PORTRAIT_AREA, autoRotate: true })).toBe(270);
+  });
+
+  test('should turn portrait pages on landscape areas', () => {
+    expect(resolvePageRotation({ pageWidth: 612, pageHeight: 792, area: LANDSCAPE_AREA, autoRotate: true })).toBe(270);
+  });
+
+  test('should keep pages that already match the area', () => {
+    expect(resolvePageRotation({ pageWidth: 612, pageHeight: 792, area: PORTRAIT_AREA, autoRotate: true })).toBe(0);
+    expect(resolvePageRotation({ pageWidth: 792, pageHeight: 612, area: LANDSCAPE_AREA, autoRotate: true })).toBe(0);
+  });
+
+  test('should never turn square pages', () => {
+    expect(resolvePageRotation({ pageWidth: 600, pageHeight: 600, area: PORTRAIT_AREA, autoRotate: true })).toBe(0);
+  });
+
+  test('should prefer the override over autoRotate', () => {
+    expect(resolvePageRotation({
+      pageWidth: 792,
+      pageHeight: 612,
+      area: PORTRAIT_AREA,
+      autoRotate: true,
+      override: 90
+    })).toBe(90);
+    expect(resolvePageRotation({
+      pageWidth: 792,
+      pageHeight: 612,
+      area: PORTRAIT_AREA,
+      autoRotate: true,
+      override: 0
+    })).toBe(0);
+  });
+});
+
+describe('getPageRotationOverride', () => {
+  test('should apply a single rotation to every page', () => {
+    expect(getPageRotationOverride(180, 0)).toBe(180);
+    expect(getPageRotationOverride(180, 41)).toBe(180);
+  });
+
+  test('should look up rotations by 1-based page number', () => {
+    const option = { 1: 90, 3: 270 } as const;
+
+    expect(getPageRotationOverride(option, 0)).toBe(90);
+    expect(getPageRotationOverride(option, 1)).toBeUndefined();
+    expect(getPageRotationOverride(option, 2)).toBe(270);
+  });
+
+  test('should return undefined without an option', () => {
+    expect(getPageRotationOverride(undefined, 0)).toBeUndefined();
+  });
+});
+
+describe('validatePageRotation', () => {
+  test('should accept quarter turns and undefined', () => {
+    expect(() => validatePageRotation(undefined)).not.toThrow();
+    expect(() => validatePageRotation(90)).not.toThrow();
+    expect(() => validatePageRotation({ 2: 180, 5: 0 })).not.toThrow();
+  });
+
+  test('should reject other angles', () => {
+    expect(() => validatePageRotation(45 as any)).toThrow('Invalid page rotation: 45 (expected 0, 90, 180 or 270)');
+    expect(() => validatePageRotation({ 1: -90 } as any)).toThrow(InvalidOptionError);
+  });
+
+  test('should reject invalid page numbers', () => {
+    expect(() => validatePageRotation({ 0: 90 })).toThrow('Invalid page number in pageRotation: 0');
+    expect(() => validatePageRotation({ 1.5: 90 } as any)).toThrow(InvalidOptionError);
+  });
+
+  test('should name the option', () => {
+    try {
+      validatePageRotation(30 as any);
+    } catch (error) {
+      expect((error as InvalidOptionError).option).toBe('pageRotation');
+    }
+    expect.assertions(1);
+  });
+});
+
+describe('rotateSize', () => {
+  test('should swap width and height for quarter turns only', () => {
+    expect(rotateSize(612, 792, 0)).toEqual({ width: 612, height: 792 });
+    expect(rotateSize(612, 792, 90)).toEqual({ width: 792, height: 612 });
+    expect(rotateSize(612, 792, 180)).toEqual({ width: 612, height: 792 });
+    expect(rotateSize(612, 792, 270)).toEqual({ width: 792, height: 612 });
+  });
+});
+
+describe('toPdfiumRotation', () => {
+  test('should map degrees to the FPDF_RenderPageBitmap rotate argument', () => {
+    expect(toPdfiumRotation(0)).toBe(0);
+    expect(toPdfiumRotation(90)).toBe(1);
+    expect(toPdfiumRotation(180)).toBe(2);
+    expect(toPdfiumRotation(270)).toBe(3);
+  });
+});
+
+describe('addRotations', () => {
+  test('should wrap around a full turn', () => {
+    expect(addRotations(0, 180)).toBe(180);
+    expect(addRotations(270, 180)).toBe(90);
+    expect(addRotations(180, 180)).toBe(0);
+  });
+});
+
+describe('rotateRect180', () => {
+  const sheet = { x: -50, y: -50, width: 2550, height: 3300 };
+
+  test('should move a rectangle to the opposite corner of the frame', () => {
+    expect(rotateRect180({ x: -50, y: -50, width: 1275, height: 1650 }, sheet))
+      .toEqual({ x: 1225, y: 1600, width: 1275, height: 1650 });
+  });
+
+  test('should keep rectangles centered on the frame in place', () => {
+    const centered = { x: 25, y: 25, width: 2400, height: 3150 };
+
+    expect(rotateRect180(centered, sheet)).toEqual(centered);
+  });
+});
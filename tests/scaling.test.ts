@@ -0,0 +1,206 @@
+/**
+ * Tests for page scaling geometry
+ */
+
+import {
+  computePagePlacement,
+  computeRenderViewport,
+  resolveScale,
+  validateScaling,
+  intersectRects,
+  type PagePlacementInput
+} from '../src/core/layout';
+import { InvalidOptionError } from '../src/core/errors';
+
+// US Letter (8.5x11in) on a 300 DPI printer with a 0.25in unprintable border
+const LETTER_PORTRAIT: PagePlacementInput = {
+  pageWidth: 612,
+  pageHeight: 792,
+  area: { x: 0, y: 0, width: 2400, height: 3150 },
+  dpiX: 300,
+  dpiY: 300
+};
+
+describe('computePagePlacement', () => {
+  describe('fit', () => {
+    test('should be the default mode', () => {
+      const placement = computePagePlacement(LETTER_PORTRAIT);
+
+      expect(placement.scale).toBeCloseTo(2400 / 2550, 6);
+    });
+
+    test('should fit a larger page inside the area and center it', () => {
+      const placement = computePagePlacement({ ...LETTER_PORTRAIT, scaling: 'fit' });
+
+      expect(placement.page).toEqual({ x: 0, y: 22, width: 2400, height: 3106 });
+      expect(placement.visible).toEqual(placement.page);
+    });
+
+    test('should enlarge a smaller page', () => {
+      // A6 (297.6x419.5pt) on the same area
+      const placement = computePagePlacement({ ...LETTER_PORTRAIT, pageWidth: 297.6, pageHeight: 419.5, scaling: 'fit' });
+
+      expect(placement.scale).toBeGreaterThan(1);
+      expect(placement.page.width).toBeLessThanOrEqual(2400);
+      expect(placement.page.height).toBeLessThanOrEqual(3150);
+      expect(Math.max(placement.page.width / 2400, placement.page.height / 3150)).toBeCloseTo(1, 3);
+    });
+  });
+
+  describe('fill', () => {
+    test('should cover the whole area and crop the overflow', () => {
+      const placement = computePagePlacement({ ...LETTER_PORTRAIT, scaling: 'fill' });
+
+      expect(placement.scale).toBeCloseTo(3150 / 3300, 6);
+      expect(placement.page.height).toBe(3150);
+      expect(placement.page.width).toBeGreaterThan(2400);
+      expect(placement.page.x).toBeLessThan(0);
+      expect(placement.visible).toEqual({ x: 0, y: 0, width: 2400, height: 3150 });
+    });
+  });
+
+  describe('actualSize', () => {
+    test('should print at true size centered on the area', () => {
+      const placement = computePagePlacement({ ...LETTER_PORTRAIT, scaling: 'actualSize' });
+
+      expect(placement.scale).toBe(1);
+      expect(placement.page).toEqual({ x: -75, y: -75, width: 2550, height: 3300 });
+      expect(placement.visible).toEqual({ x: 0, y: 0, width: 2400, height: 3150 });
+    });
+
+    test('should honour different horizontal and vertical resolutions', () => {
+      const placement = computePagePlacement({
+        ...LETTER_PORTRAIT,
+        area: { x: 0, y: 0, width: 5100, height: 3300 },
+        dpiX: 600,
+        dpiY: 300,
+        scaling: 'actualSize'
+      });
+
+      expect(placement.page).toEqual({ x: 0, y: 0, width: 5100, height: 3300 });
+    });
+  });
+
+  describe('shrinkToFit', () => {
+    test('should shrink pages larger than the area', () => {
+      const placement = computePagePlacement({ ...LETTER_PORTRAIT, scaling: 'shrinkToFit' });
+
+      expect(placement.scale).toBeCloseTo(2400 / 2550, 6);
+    });
+
+    test('should keep smaller pages at true size', () => {
+      // 4x6in label
+      const placement = computePagePlacement({ ...LETTER_PORTRAIT, pageWidth: 288, pageHeight: 432, scaling: 'shrinkToFit' });
+
+      expect(placement.scale).toBe(1);
+      expect(placement.page).toEqual({ x: 600, y: 675, width: 1200, height: 1800 });
+    });
+  });
+
+  describe('percent', () => {
+    test('should scale relative to true size', () => {
+      const placement = computePagePlacement({ ...LETTER_PORTRAIT, scaling: 50 });
+
+      expect(placement.scale).toBe(0.5);
+      expect(placement.page).toEqual({ x: 563, y: 750, width: 1275, height: 1650 });
+    });
+
+    test('should crop pages enlarged beyond the area', () => {
+      const placement = computePagePlacement({ ...LETTER_PORTRAIT, scaling: 200 });
+
+      expect(placement.page.width).toBe(5100);
+      expect(placement.visible).toEqual({ x: 0, y: 0, width: 2400, height: 3150 });
+    });
+  });
+
+  test('should offset the page by the area origin', () => {
+    const placement = computePagePlacement({
+      ...LETTER_PORTRAIT,
+      area: { x: 100, y: 50, width: 2400, height: 3150 },
+      scaling: 'actualSize'
+    });
+
+    expect(placement.page).toEqual({ x: 25, y: -25, width: 2550, height: 3300 });
+    expect(placement.visible).toEqual({ x: 100, y: 50, width: 2400, height: 3150 });
+  });
+
+  test('should reject empty pages', () => {
+    expect(() => computePagePlacement({ ...LETTER_PORTRAIT, pageWidth: 0 })).toThrow(InvalidOptionError);
+  });
+});
+
+describe('resolveScale', () => {
+  const area = { width: 1000, height: 1000 };
+
+  test('should resolve each mode for a landscape page', () => {
+    expect(resolveScale('fit', 2000, 1000, area)).toBe(0.5);
+    expect(resolveScale('fill', 2000, 1000, area)).toBe(1);
+    expect(resolveScale('actualSize', 2000, 1000, area)).toBe(1);
+    expect(resolveScale('shrinkToFit', 2000, 1000, area)).toBe(0.5);
+    expect(resolveScale(125, 2000, 1000, area)).toBe(1.25);
+  });
+});
+
+describe('validateScaling', () => {
+  test('should accept known modes, positive percentages and undefined', () => {
+    expect(() => validateScaling(undefined)).not.toThrow();
+    expect(() => validateScaling('fill')).not.toThrow();
+    expect(() => validateScaling(0.5)).not.toThrow();
+  });
+
+  test('should reject unknown modes and invalid percentages', () => {
+    expect(() => validateScaling('stretch' as any)).toThrow('Invalid scaling mode: stretch');
+    expect(() => validateScaling(0)).toThrow('Invalid scaling percentage: 0');
+    expect(() => validateScaling(-10)).toThrow(InvalidOptionError);
+    expect(() => validateScaling(NaN)).toThrow(InvalidOptionError);
+  });
+});
+
+describe('computeRenderViewport', () => {
+  test('should render the whole page when it is fully visible', () => {
+    const placement = computePagePlacement({ ...LETTER_PORTRAIT, scaling: 50 });
+    const viewport = computeRenderViewport(placement, 1, 1);
+
+    expect(viewport).toEqual({
+      bitmapWidth: 1275,
+      bitmapHeight: 1650,
+      pageWidth: 1275,
+      pageHeight: 1650,
+      offsetX: 0,
+      offsetY: 0
+    });
+  });
+
+  test('should render only the visible part of a cropped page', () => {
+    const placement = computePagePlacement({ ...LETTER_PORTRAIT, scaling: 'actualSize' });
+    const viewport = computeRenderViewport(placement, 1, 1);
+
+    expect(viewport).toEqual({
+      bitmapWidth: 2400,
+      bitmapHeight: 3150,
+      pageWidth: 2550,
+      pageHeight: 3300,
+      offsetX: 75,
+      offsetY: 75
+    });
+  });
+
+  test('should convert device pixels to render resolution', () => {
+    // 150 DPI render for a 300 DPI device
+    const placement = computePagePlacement({ ...LETTER_PORTRAIT, scaling: 'actualSize' });
+    const viewport = computeRenderViewport(placement, 0.5, 0.5);
+
+    expect(viewport.bitmapWidth).toBe(1200);
+    expect(viewport.pageWidth).toBe(1275);
+    expect(viewport.offsetX).toBe(38);
+  });
+});
+
+describe('intersectRects', () => {
+  test('should return an empty rectangle when there is no overlap', () => {
+    const result = intersectRects({ x: 0, y: 0, width: 10, height: 10 }, { x: 20, y: 20, width: 5, height: 5 });
+
+    expect(result.width).toBe(0);
+    expect(result.height).toBe(0);
+  });
+});
@@ -17,7 +17,9 @@ jest.mock('../../src/adapters/windows/api/winspool.api', () => ({
   DM_PAPERSIZE: 0x00000002,
   DM_DUPLEX: 0x00001000,
   DM_COLOR: 0x00000800,
-  DM_DEFAULTSOURCE: 0x00000200
+  DM_DEFAULTSOURCE: 0x00000200,
+  DM_COPIES: 0x00000100,
+  DM_COLLATE: 0x00008000
 }));
 
 const mockWinspoolApi = require('../../src/adapters/windows/api/winspool.api');
@@ -135,6 +137,109 @@ describe('DevModeConfigService', () => {
       expect(mockClosePrinter).toHaveBeenCalledWith(mockHandle);
     });
 
+    test('should configure landscape short-edge duplex for booklets', () => {
+      const mockHandle = { handle: 'test-handle' };
+      const mockDevMode = {
+        dmFields: 0,
+        dmDuplex: 0,
+        dmOrientation: 1
+      };
+
+      mockOpenPrinterW.mockImplementation((name: string, hPrinter: any[]) => {
+        hPrinter[0] = mockHandle;
+        return true;
+      });
+      
+      mockDocumentPropertiesW
+        .mockReturnValueOnce(256)
+        .mockImplementationOnce((hwnd: any, hPrinter: any, printerName: any, devModeOut: any) => {
+          devModeOut[0] = { ...mockDevMode };
+          return 0;
+        })
+        .mockImplementationOnce((hwnd: any, hPrinter: any, printerName: any, devModeOut: any, devModeIn: any) => {
+          devModeOut[0] = { ...devModeIn[0] };
+          return 0;
+        });
+      
+      mockClosePrinter.mockReturnValue(true);
+
+      // Booklet overrides the caller's orientation and duplex settings
+      const options: PrintOptions = { booklet: true, duplex: 1, orientation: 1 };
+      const result = service.getDevModeWithSettings('TestPrinter', options);
+
+      expect(result.dmOrientation).toBe(2);
+      expect(result.dmDuplex).toBe(3);
+      expect(result.dmFields & mockWinspoolApi.DM_ORIENTATION).toBeTruthy();
+      expect(result.dmFields & mockWinspoolApi.DM_DUPLEX).toBeTruthy();
+    });
+
+    test('should print single-sided for manual duplex', () => {
+      const mockHandle = { handle: 'test-handle' };
+      const mockDevMode = {
+        dmFields: 0,
+        dmDuplex: 0,
+        dmOrientation: 1
+      };
+
+      mockOpenPrinterW.mockImplementation((name: string, hPrinter: any[]) => {
+        hPrinter[0] = mockHandle;
+        return true;
+      });
+
+      mockDocumentPropertiesW
+        .mockReturnValueOnce(256)
+        .mockImplementationOnce((hwnd: any, hPrinter: any, printerName: any, devModeOut: any) => {
+          devModeOut[0] = { ...mockDevMode };
+          return 0;
+        })
+        .mockImplementationOnce((hwnd: any, hPrinter: any, printerName: any, devModeOut: any, devModeIn: any) => {
+          devModeOut[0] = { ...devModeIn[0] };
+          return 0;
+        });
+
+      mockClosePrinter.mockReturnValue(true);
+
+      const options: PrintOptions = { booklet: true, duplex: 2, manualDuplex: { onFlip: async () => undefined } };
+      const result = service.getDevModeWithSettings('TestPrinter', options);
+
+      expect(result.dmOrientation).toBe(2);
+      expect(result.dmDuplex).toBe(1);
+      expect(result.dmFields & mockWinspoolApi.DM_DUPLEX).toBeTruthy();
+    });
+
+    test('should set dmCopies only for driver copies', () => {
+      const mockHandle = { handle: 'test-handle' };
+      const mockDevMode = {
+        dmFields: 0,
+        dmCopies: 1,
+        dmCollate: 0
+      };
+
+      mockOpenPrinterW.mockImplementation((name: string, hPrinter: any[]) => {
+        hPrinter[0] = mockHandle;
+        return true;
+      });
+
+      mockDocumentPropertiesW.mockImplementation((hwnd: any, hPrinter: any, printerName: any, devModeOut: any, devModeIn: any) => {
+        if (devModeOut === null) {
+          return 256;
+        }
+        devModeOut[0] = devModeIn ? { ...devModeIn[0] } : { ...mockDevMode };
+        return 0;
+      });
+
+      mockClosePrinter.mockReturnValue(true);
+
+      const driver = service.getDevModeWithSettings('TestPrinter', { copies: 3, collate: true, copiesMode: 'driver' });
+      expect(driver.dmCopies).toBe(3);
+      expect(driver.dmCollate).toBe(1);
+      expect(driver.dmFields & mockWinspoolApi.DM_COPIES).toBeTruthy();
+
+      const software = service.getDevModeWithSettings('TestPrinter', { copies: 3, copiesMode: 'software' });
+      expect(software.dmCopies).toBe(1);
+      expect(software.dmFields & mockWinspoolApi.DM_COPIES).toBeFalsy();
+    });
+
     test('should configure paper size setting', () => {
       const mockHandle = { handle: 'test-handle' };
       const mockDevMode = {
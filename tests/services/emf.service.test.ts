@@ -0,0 +1,135 @@
+/**
+ * Tests for EmfService
+ */
+
+import { EmfService } from '../../src/adapters/windows/services/emf.service';
+import * as gdi32Api from '../../src/adapters/windows/api/gdi32.api';
+import { EmfLoadError } from '../../src/core/errors';
+
+// Mock the Windows API
+jest.mock('../../src/adapters/windows/api/gdi32.api', () => ({
+  SetEnhMetaFileBits: jest.fn(),
+  GetEnhMetaFileHeader: jest.fn(),
+  PlayEnhMetaFile: jest.fn(),
+  DeleteEnhMetaFile: jest.fn(),
+  ENHMETAHEADER: 'ENHMETAHEADER'
+}));
+
+// Mock koffi
+jest.mock('koffi', () => ({
+  sizeof: jest.fn(() => 108)
+}));
+
+/**
+ * Minimal EMR_HEADER record: type, size and the " EMF" signature
+ */
+function createEmfHeader(): Buffer {
+  const data = Buffer.alloc(108);
+  data.writeUInt32LE(1, 0);
+  data.writeUInt32LE(108, 4);
+  data.writeUInt32LE(0x464D4520, 40);
+  return data;
+}
+
+describe('EmfService', () => {
+  let service: EmfService;
+  let mockSetEnhMetaFileBits: jest.MockedFunction<typeof gdi32Api.SetEnhMetaFileBits>;
+  let mockGetEnhMetaFileHeader: jest.MockedFunction<typeof gdi32Api.GetEnhMetaFileHeader>;
+  let mockPlayEnhMetaFile: jest.MockedFunction<typeof gdi32Api.PlayEnhMetaFile>;
+  let mockDeleteEnhMetaFile: jest.MockedFunction<typeof gdi32Api.DeleteEnhMetaFile>;
+
+  beforeEach(() => {
+    service = new EmfService();
+    mockSetEnhMetaFileBits = gdi32Api.SetEnhMetaFileBits as jest.MockedFunction<typeof gdi32Api.SetEnhMetaFileBits>;
+    mockGetEnhMetaFileHeader = gdi32Api.GetEnhMetaFileHeader as jest.MockedFunction<typeof gdi32Api.GetEnhMetaFileHeader>;
+    mockPlayEnhMetaFile = gdi32Api.PlayEnhMetaFile as jest.MockedFunction<typeof gdi32Api.PlayEnhMetaFile>;
+    mockDeleteEnhMetaFile = gdi32Api.DeleteEnhMetaFile as jest.MockedFunction<typeof gdi32Api.DeleteEnhMetaFile>;
+    jest.clearAllMocks();
+
+    mockSetEnhMetaFileBits.mockReturnValue({ metafile: 'handle' });
+    // US Letter picture frame: 215.9 x 279.4 mm
+    mockGetEnhMetaFileHeader.mockImplementation((_handle: any, size: number, header: any) => {
+      header.rclFrame = [0, 0, 21590, 27940];
+      header.nRecords = 12;
+      return size;
+    });
+  });
+
+  describe('load', () => {
+    test('should size the metafile from its picture frame in points', () => {
+      const metafile = service.load(createEmfHeader());
+
+      expect(metafile.handle).toEqual({ metafile: 'handle' });
+      expect(metafile.width).toBeCloseTo(612);
+      expect(metafile.height).toBeCloseTo(792);
+      expect(mockSetEnhMetaFileBits).toHaveBeenCalledWith(108, expect.any(Buffer));
+    });
+
+    test('should reject data without an EMF header', () => {
+      const data = Buffer.from('%PDF-1.7 not a metafile, but long enough to pass the size check......................');
+
+      expect(() => service.load(data, 2)).toThrow(EmfLoadError);
+      try {
+        service.load(data, 2);
+      } catch (error) {
+        expect((error as EmfLoadError).index).toBe(2);
+        expect((error as Error).message).toContain('Metafile 3');
+      }
+      expect(mockSetEnhMetaFileBits).not.toHaveBeenCalled();
+    });
+
+    test('should reject truncated data', () => {
+      expect(() => service.load(createEmfHeader().subarray(0, 40))).toThrow(EmfLoadError);
+    });
+
+    test('should throw when GDI cannot load the metafile', () => {
+      mockSetEnhMetaFileBits.mockReturnValue(null);
+
+      expect(() => service.load(createEmfHeader())).toThrow('Failed to load metafile 1');
+    });
+
+    test('should release the handle when the picture frame is empty', () => {
+      mockGetEnhMetaFileHeader.mockImplementation((_handle: any, size: number, header: any) => {
+        header.rclFrame = [0, 0, 0, 0];
+        return size;
+      });
+
+      expect(() => service.load(createEmfHeader())).toThrow('empty picture frame');
+      expect(mockDeleteEnhMetaFile).toHaveBeenCalledWith({ metafile: 'handle' });
+    });
+
+    test('should release the handle when the header cannot be read', () => {
+      mockGetEnhMetaFileHeader.mockReturnValue(0);
+
+      expect(() => service.load(createEmfHeader())).toThrow(EmfLoadError);
+      expect(mockDeleteEnhMetaFile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('play', () => {
+    test('should play the metafile into the rounded rectangle', () => {
+      mockPlayEnhMetaFile.mockReturnValue(1);
+      const metafile = service.load(createEmfHeader());
+
+      const played = service.play('hdc', metafile, { x: 10.4, y: 20.6, width: 100, height: 200 });
+
+      expect(played).toBe(true);
+      expect(mockPlayEnhMetaFile).toHaveBeenCalledWith('hdc', { metafile: 'handle' }, [10, 21, 110, 221]);
+    });
+
+    test('should report failure when GDI cannot play the metafile', () => {
+      mockPlayEnhMetaFile.mockReturnValue(0);
+      const metafile = service.load(createEmfHeader());
+
+      expect(service.play('hdc', metafile, { x: 0, y: 0, width: 10, height: 10 })).toBe(false);
+    });
+  });
+
+  describe('close', () => {
+    test('should delete the metafile handle', () => {
+      service.close(service.load(createEmfHeader()));
+
+      expect(mockDeleteEnhMetaFile).toHaveBeenCalledWith({ metafile: 'handle' });
+    });
+  });
+});
@@ -3,6 +3,15 @@
  */
 
 import { PdfRenderService, type RenderOptions, type RenderedPage } from '../../src/adapters/windows/services/pdf-render.service';
+import {
+  PdfiumNotInitializedError,
+  PdfLoadError,
+  PdfFileError,
+  PdfFormatError,
+  PdfPasswordError,
+  PdfSecurityError,
+  PdfPageError
+} from '../../src/core/errors';
 
 // Mock the PDFium API module
 const mockPdfiumAPI = {
@@ -23,9 +32,24 @@ const mockPdfiumAPI = {
   FPDFBitmap_GetBuffer: jest.fn(),
   FPDFBitmap_GetStride: jest.fn(),
   FPDF_RenderPageBitmap: jest.fn(),
+  FPDF_RenderPageBitmapWithMatrix: jest.fn(),
+  FPDF_RenderPage: jest.fn(),
+  FPDF_GetPageBoundingBox: jest.fn(),
+  FPDFPage_GetRotation: jest.fn(),
+  FPDFPage_GetMediaBox: jest.fn(),
+  FPDFPage_GetCropBox: jest.fn(),
+  FPDFPage_GetBleedBox: jest.fn(),
+  FPDFPage_GetTrimBox: jest.fn(),
+  FPDFPage_GetArtBox: jest.fn(),
   FPDFBitmap_BGRA: 4,
   FPDF_PRINTING: 0x800,
-  FPDF_ANNOT: 0x01
+  FPDF_ANNOT: 0x01,
+  FPDF_ERR_UNKNOWN: 1,
+  FPDF_ERR_FILE: 2,
+  FPDF_ERR_FORMAT: 3,
+  FPDF_ERR_PASSWORD: 4,
+  FPDF_ERR_SECURITY: 5,
+  FPDF_ERR_PAGE: 6
 };
 
 jest.mock('../../src/adapters/windows/api/pdfium.api', () => mockPdfiumAPI, { virtual: true });
@@ -192,6 +216,61 @@ describe('PdfRenderService', () => {
       mockPdfiumAPI.FPDF_GetLastError.mockReturnValue(1);
 
       expect(() => service.loadDocument(pdfData)).toThrow('Failed to load PDF document');
+      expect(() => service.loadDocument(pdfData)).toThrow(PdfLoadError);
+    });
+
+    test('should pass the password to PDFium', async () => {
+      await service.initialize();
+
+      const mockDoc = { doc: 'encrypted-doc' };
+      const pdfData = Buffer.from('test-pdf-data');
+      mockPdfiumAPI.FPDF_LoadMemDocument.mockReturnValue(mockDoc);
+
+      const result = service.loadDocument(pdfData, 'secret');
+
+      expect(result).toBe(mockDoc);
+      expect(mockPdfiumAPI.FPDF_LoadMemDocument).toHaveBeenCalledWith(pdfData, pdfData.length, 'secret');
+    });
+
+    test.each([
+      [2, PdfFileError],
+      [3, PdfFormatError],
+      [4, PdfPasswordError],
+      [5, PdfSecurityError],
+      [6, PdfPageError]
+    ])('should map PDFium error code %i to a typed error', async (code, ErrorClass) => {
+      await service.initialize();
+
+      mockPdfiumAPI.FPDF_LoadMemDocument.mockReturnValue(null);
+      mockPdfiumAPI.FPDF_GetLastError.mockReturnValue(code);
+
+      let thrown: unknown;
+      try {
+        service.loadDocument(Buffer.from('test-pdf-data'));
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(ErrorClass);
+      expect(thrown).toBeInstanceOf(PdfLoadError);
+      expect((thrown as PdfLoadError).code).toBe(code);
+      expect((thrown as PdfLoadError).name).toBe(ErrorClass.name);
+    });
+
+    test('should report whether a password was provided', async () => {
+      await service.initialize();
+
+      mockPdfiumAPI.FPDF_LoadMemDocument.mockReturnValue(null);
+      mockPdfiumAPI.FPDF_GetLastError.mockReturnValue(4);
+
+      expect(() => service.loadDocument(Buffer.from('data'))).toThrow('password protected');
+      expect(() => service.loadDocument(Buffer.from('data'), 'wrong')).toThrow('incorrect password');
+
+      try {
+        service.loadDocument(Buffer.from('data'), 'wrong');
+      } catch (error) {
+        expect((error as PdfPasswordError).passwordProvided).toBe(true);
+      }
     });
   });
 
@@ -292,6 +371,7 @@ describe('PdfRenderService', () => {
       const options: RenderOptions = { width: 100, height: 100 };
 
       expect(() => service.renderPage(mockDoc, 0, options)).toThrow('PDFium not initialized');
+      expect(() => service.renderPage(mockDoc, 0, options)).toThrow(PdfiumNotInitializedError);
     });
 
     test('should throw error when page loading fails', async () => {
@@ -304,6 +384,74 @@ describe('PdfRenderService', () => {
       expect(() => service.renderPage(mockDoc, 0, options)).toThrow('Failed to load page 1');
     });
 
+    test('should report the failing page index', async () => {
+      await service.initialize();
+      mockPdfiumAPI.FPDF_LoadPage.mockReturnValue(null);
+
+      try {
+        service.renderPage({ doc: 'test-doc' }, 2, { width: 100, height: 100 });
+      } catch (error) {
+        expect(error).toBeInstanceOf(PdfPageError);
+        expect((error as PdfPageError).pageIndex).toBe(2);
+        expect((error as PdfPageError).code).toBe(6);
+      }
+      expect.assertions(3);
+    });
+
+    test('should render a viewport of the page into the bitmap', async () => {
+      await service.initialize();
+      const { mockDoc, mockBitmap, mockPage } = setupMocksForRender();
+
+      const result = service.renderPage(mockDoc, 0, {
+        width: 200,
+        height: 300,
+        viewport: { width: 400, height: 500, x: 50, y: 60 }
+      });
+
+      expect(mockPdfiumAPI.FPDFBitmap_Create).toHaveBeenCalledWith(200, 300, 4);
+      expect(mockPdfiumAPI.FPDF_RenderPageBitmap).toHaveBeenCalledWith(
+        mockBitmap, mockPage, -50, -60, 400, 500, 0, expect.any(Number)
+      );
+      expect(result.width).toBe(200);
+      expect(result.height).toBe(300);
+    });
+
+    test('should pass the rotation to PDFium and fit the rotated page', async () => {
+      await service.initialize();
+      const { mockDoc, mockBitmap, mockPage } = setupMocksForRender();
+
+      // 612x792 page turned a quarter becomes landscape
+      const result = service.renderPage(mockDoc, 0, { width: 792, height: 792, rotate: 3 });
+
+      expect(result.width).toBe(792);
+      expect(result.height).toBe(612);
+      expect(mockPdfiumAPI.FPDF_RenderPageBitmap).toHaveBeenCalledWith(
+        mockBitmap, mockPage, 0, 0, 792, 612, 3, expect.any(Number)
+      );
+    });
+
+    test('should render a page box with a transform matrix', async () => {
+      await service.initialize();
+      const { mockDoc, mockBitmap, mockPage } = setupMocksForRender();
+
+      const result = service.renderPage(mockDoc, 0, {
+        width: 594,
+        height: 800,
+        box: { x: 9, y: 9, width: 594, height: 774 }
+      });
+
+      expect(result.width).toBe(594);
+      expect(result.height).toBe(774);
+      expect(mockPdfiumAPI.FPDF_RenderPageBitmap).not.toHaveBeenCalled();
+      expect(mockPdfiumAPI.FPDF_RenderPageBitmapWithMatrix).toHaveBeenCalledWith(
+        mockBitmap,
+        mockPage,
+        { a: 1, b: 0, c: 0, d: 1, e: -9, f: -9 },
+        { left: 0, top: 0, right: 594, bottom: 774 },
+        expect.any(Number)
+      );
+    });
+
     test('should maintain aspect ratio by default', async () => {
       await service.initialize();
       const { mockDoc } = setupMocksForRender();
@@ -414,6 +562,128 @@ describe('PdfRenderService', () => {
     });
   });
 
+  describe('renderPageToDC', () => {
+    const mockDC = { dc: 'printer' };
+
+    test('should draw the page into the device context', async () => {
+      await service.initialize();
+      const { mockDoc, mockPage } = setupMocksForRender();
+
+      service.renderPageToDC(mockDoc, 0, mockDC, { x: 10.4, y: 20.6, width: 2550, height: 3300 }, { rotate: 1 });
+
+      expect(mockPdfiumAPI.FPDF_RenderPage).toHaveBeenCalledWith(
+        mockDC, mockPage, 10, 21, 2550, 3300, 1, mockPdfiumAPI.FPDF_PRINTING | mockPdfiumAPI.FPDF_ANNOT
+      );
+      expect(mockPdfiumAPI.FPDFBitmap_Create).not.toHaveBeenCalled();
+      expect(mockPdfiumAPI.FPDF_ClosePage).toHaveBeenCalledWith(mockPage);
+    });
+
+    test('should position the whole page so the box fills the target', async () => {
+      await service.initialize();
+      const { mockDoc, mockPage } = setupMocksForRender();
+
+      service.renderPageToDC(mockDoc, 0, mockDC, { x: 0, y: 0, width: 594, height: 774 }, {
+        box: { x: 9, y: 9, width: 594, height: 774 }
+      });
+
+      expect(mockPdfiumAPI.FPDF_RenderPage).toHaveBeenCalledWith(
+        mockDC, mockPage, -9, -9, 612, 792, 0, expect.any(Number)
+      );
+    });
+
+    test('should close the page when rendering fails', async () => {
+      await service.initialize();
+      const { mockDoc, mockPage } = setupMocksForRender();
+      mockPdfiumAPI.FPDF_RenderPage.mockImplementationOnce(() => {
+        throw new Error('render failed');
+      });
+
+      expect(() => service.renderPageToDC(mockDoc, 0, mockDC, { x: 0, y: 0, width: 100, height: 100 })).toThrow('render failed');
+      expect(mockPdfiumAPI.FPDF_ClosePage).toHaveBeenCalledWith(mockPage);
+    });
+
+    test('should throw error when PDFium not initialized', () => {
+      expect(() => service.renderPageToDC({}, 0, mockDC, { x: 0, y: 0, width: 100, height: 100 }))
+        .toThrow(PdfiumNotInitializedError);
+    });
+  });
+
+  describe('getPageGeometry', () => {
+    const setBox = (mock: jest.Mock, box: [number, number, number, number] | null) => {
+      mock.mockImplementation((_page, left, bottom, right, top) => {
+        if (!box) return 0;
+        [left[0], bottom[0], right[0], top[0]] = box;
+        return 1;
+      });
+    };
+
+    beforeEach(() => {
+      mockPdfiumAPI.FPDF_GetPageBoundingBox.mockImplementation((_page, rect) => {
+        Object.assign(rect, { left: 0, top: 792, right: 612, bottom: 0 });
+        return 1;
+      });
+      mockPdfiumAPI.FPDFPage_GetRotation.mockReturnValue(0);
+      setBox(mockPdfiumAPI.FPDFPage_GetMediaBox, [0, 0, 612, 792]);
+      setBox(mockPdfiumAPI.FPDFPage_GetTrimBox, [9, 9, 603, 783]);
+      setBox(mockPdfiumAPI.FPDFPage_GetArtBox, null);
+    });
+
+    test('should return the crop box by default', async () => {
+      await service.initialize();
+      const { mockDoc, mockPage } = setupMocksForRender();
+
+      const geometry = service.getPageGeometry(mockDoc, 0);
+
+      expect(geometry).toEqual({
+        bounds: { left: 0, bottom: 0, right: 612, top: 792 },
+        rotation: 0,
+        width: 612,
+        height: 792,
+        display: { x: 0, y: 0, width: 612, height: 792 }
+      });
+      expect(mockPdfiumAPI.FPDF_ClosePage).toHaveBeenCalledWith(mockPage);
+    });
+
+    test('should return the requested box in display space', async () => {
+      await service.initialize();
+      const { mockDoc } = setupMocksForRender();
+
+      const geometry = service.getPageGeometry(mockDoc, 0, 'trim');
+
+      expect(geometry.width).toBe(594);
+      expect(geometry.height).toBe(774);
+      expect(geometry.display).toEqual({ x: 9, y: 9, width: 594, height: 774 });
+    });
+
+    test('should fall back to the crop box when the box is missing', async () => {
+      await service.initialize();
+      const { mockDoc } = setupMocksForRender();
+
+      const geometry = service.getPageGeometry(mockDoc, 0, 'art');
+
+      expect(geometry.display).toEqual({ x: 0, y: 0, width: 612, height: 792 });
+    });
+
+    test('should apply the /Rotate attribute', async () => {
+      await service.initialize();
+      const { mockDoc } = setupMocksForRender();
+      mockPdfiumAPI.FPDFPage_GetRotation.mockReturnValue(1);
+
+      const geometry = service.getPageGeometry(mockDoc, 0);
+
+      expect(geometry.rotation).toBe(90);
+      expect(geometry.width).toBe(792);
+      expect(geometry.height).toBe(612);
+    });
+
+    test('should throw PdfPageError when the page fails to load', async () => {
+      await service.initialize();
+      mockPdfiumAPI.FPDF_LoadPage.mockReturnValue(null);
+
+      expect(() => service.getPageGeometry({ doc: 'test-doc' }, 1)).toThrow(PdfPageError);
+    });
+  });
+
   describe('cleanupRenderedPage', () => {
     test('should cleanup rendered page bitmap', async () => {
       await service.initialize();
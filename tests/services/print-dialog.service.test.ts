@@ -6,10 +6,12 @@ import { PrintDialogService, type PrintDialogResult } from '../../src/adapters/w
 import * as comdlg32Api from '../../src/adapters/windows/api/comdlg32.api';
 import * as kernel32Api from '../../src/adapters/windows/api/kernel32.api';
 import type { PrintOptions } from '../../src/core/types';
+import { DialogError } from '../../src/core/errors';
 
 // Mock the Windows API
 jest.mock('../../src/adapters/windows/api/comdlg32.api', () => ({
   PrintDlgW: jest.fn(),
+  CommDlgExtendedError: jest.fn(() => 0),
   PD_RETURNDC: 0x00000100,
   PD_ALLPAGES: 0x00000000,
   PD_USEDEVMODECOPIESANDCOLLATE: 0x00040000,
@@ -96,6 +98,29 @@ describe('PrintDialogService', () => {
       expect(result.hDC).toBeUndefined();
     });
 
+    test('should throw DialogError when the dialog reports an extended error', () => {
+      const mockDevMode = { devMode: 'test' };
+      const mockCommDlgExtendedError = comdlg32Api.CommDlgExtendedError as jest.MockedFunction<typeof comdlg32Api.CommDlgExtendedError>;
+
+      mockPrintDlgW.mockImplementation((pdArray: any[]) => {
+        pdArray[0].hDevMode = mockDevMode;
+        return false;
+      });
+      mockCommDlgExtendedError.mockReturnValueOnce(0x100b);
+
+      let thrown: unknown;
+      try {
+        service.showPrintDialog();
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(DialogError);
+      expect((thrown as DialogError).dialogError).toBe(0x100b);
+      expect(mockGlobalFree).toHaveBeenCalledTimes(1);
+      expect(mockGlobalFree).toHaveBeenCalledWith(mockDevMode);
+    });
+
     test('should detect page range selection', () => {
       const mockHDC = { dc: 'test-dc' };
 
@@ -0,0 +1,222 @@
+/**
+ * Tests for RawPrintService
+ */
+
+import koffi from 'koffi';
+import { RawPrintService, type RawPrintJob } from '../../src/adapters/windows/services/raw-print.service';
+import * as winspoolApi from '../../src/adapters/windows/api/winspool.api';
+import * as kernel32Api from '../../src/adapters/windows/api/kernel32.api';
+import { PrinterNotFoundError, SpoolerError } from '../../src/core/errors';
+
+// Mock the Windows API
+jest.mock('../../src/adapters/windows/api/winspool.api', () => ({
+  OpenPrinterW: jest.fn(),
+  ClosePrinter: jest.fn(() => true),
+  EnumPrintProcessorDatatypesW: jest.fn(),
+  StartDocPrinterW: jest.fn(),
+  StartPagePrinter: jest.fn(() => true),
+  WritePrinter: jest.fn(),
+  EndPagePrinter: jest.fn(() => true),
+  EndDocPrinter: jest.fn(() => true),
+  AbortPrinter: jest.fn(() => true),
+  DATATYPES_INFO_1W: 'DATATYPES_INFO_1W',
+  PRINTER_ACCESS_USE: 8,
+  ERROR_INVALID_PRINTER_NAME: 1801
+}));
+
+jest.mock('../../src/adapters/windows/api/kernel32.api', () => ({
+  GetLastError: jest.fn(() => 5)
+}));
+
+// Mock koffi
+jest.mock('koffi', () => ({
+  sizeof: jest.fn(() => 8),
+  decode: jest.fn()
+}));
+
+const PRINTER = 'Zebra ZD420';
+const HANDLE = { printer: 'handle' };
+
+describe('RawPrintService', () => {
+  let service: RawPrintService;
+  const api = winspoolApi as jest.Mocked<typeof winspoolApi>;
+  const kernel32 = kernel32Api as jest.Mocked<typeof kernel32Api>;
+  const mockDecode = koffi.decode as jest.Mock;
+
+  beforeEach(() => {
+    service = new RawPrintService();
+    jest.clearAllMocks();
+
+    api.OpenPrinterW.mockImplementation((_name: string, hPrinter: any[]) => {
+      hPrinter[0] = HANDLE;
+      return true;
+    });
+    api.StartDocPrinterW.mockReturnValue(42);
+    api.WritePrinter.mockImplementation((_hPrinter: any, _data: Buffer, size: number, written: number[]) => {
+      written[0] = size;
+      return true;
+    });
+  });
+
+  describe('getDatatypes', () => {
+    test('should list the datatypes of the print processor', () => {
+      api.EnumPrintProcessorDatatypesW.mockImplementation(
+        (_server: any, _processor: string, _level: number, buffer: any, _size: number, needed: number[], returned: number[]) => {
+          needed[0] = 24;
+          returned[0] = 3;
+          return buffer !== null;
+        }
+      );
+      mockDecode
+        .mockReturnValueOnce({ pName: 'RAW' })
+        .mockReturnValueOnce({ pName: 'RAW [FF appended]' })
+        .mockReturnValueOnce({ pName: 'NT EMF 1.008' });
+
+      expect(service.getDatatypes('winprint')).toEqual(['RAW', 'RAW [FF appended]', 'NT EMF 1.008']);
+      expect(api.EnumPrintProcessorDatatypesW).toHaveBeenLastCalledWith(
+        null, 'winprint', 1, expect.any(Buffer), 24, expect.any(Array), expect.any(Array)
+      );
+      // Each entry is decoded from its own slice of the buffer
+      expect(mockDecode.mock.calls.map(([slice]) => slice.length)).toEqual([8, 8, 8]);
+    });
+
+    test('should return an empty list when the print processor is unknown', () => {
+      api.EnumPrintProcessorDatatypesW.mockReturnValue(false);
+
+      expect(service.getDatatypes('missing')).toEqual([]);
+      expect(api.EnumPrintProcessorDatatypesW).toHaveBeenCalledTimes(1);
+    });
+
+    test('should return an empty list when the second call fails', () => {
+      api.EnumPrintProcessorDatatypesW.mockImplementation(
+        (_server: any, _processor: string, _level: number, _buffer: any, _size: number, needed: number[]) => {
+          needed[0] = 16;
+          return false;
+        }
+      );
+
+      expect(service.getDatatypes('winprint')).toEqual([]);
+      expect(mockDecode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startJob', () => {
+    test('should open the printer and start a document of the datatype', () => {
+      const job = service.startJob(PRINTER, 'label.zpl', 'RAW');
+
+      expect(job).toEqual({ hPrinter: HANDLE, jobId: 42, printerName: PRINTER });
+      expect(api.OpenPrinterW).toHaveBeenCalledWith(PRINTER, expect.any(Array), {
+        pDatatype: 'RAW',
+        pDevMode: null,
+        DesiredAccess: 8
+      });
+      expect(api.StartDocPrinterW).toHaveBeenCalledWith(HANDLE, 1, {
+        pDocName: 'label.zpl',
+        pOutputFile: null,
+        pDatatype: 'RAW'
+      });
+      expect(api.ClosePrinter).not.toHaveBeenCalled();
+    });
+
+    test('should throw PrinterNotFoundError for an unknown printer', () => {
+      api.OpenPrinterW.mockReturnValue(false);
+      kernel32.GetLastError.mockReturnValueOnce(1801);
+
+      expect(() => service.startJob('Missing', 'doc', 'RAW')).toThrow(PrinterNotFoundError);
+    });
+
+    test('should throw SpoolerError when the printer cannot be opened', () => {
+      api.OpenPrinterW.mockReturnValue(false);
+
+      expect(() => service.startJob(PRINTER, 'doc', 'RAW')).toThrow(
+        expect.objectContaining({ operation: 'OpenPrinter', win32Error: 5 })
+      );
+    });
+
+    test('should close the printer when the document cannot be started', () => {
+      api.StartDocPrinterW.mockReturnValue(0);
+
+      expect(() => service.startJob(PRINTER, 'doc', 'TEXT')).toThrow(SpoolerError);
+      expect(() => service.startJob(PRINTER, 'doc', 'TEXT')).toThrow(
+        expect.objectContaining({ operation: 'StartDocPrinter', printerName: PRINTER })
+      );
+      expect(api.ClosePrinter).toHaveBeenCalledWith(HANDLE);
+    });
+  });
+
+  describe('writePage', () => {
+    const job: RawPrintJob = { hPrinter: HANDLE, jobId: 42, printerName: PRINTER };
+
+    test('should write the data inside a spooler page', () => {
+      const data = Buffer.from('^XA^FDHello^FS^XZ');
+
+      service.writePage(job, data);
+
+      expect(api.StartPagePrinter).toHaveBeenCalledWith(HANDLE);
+      expect(api.WritePrinter).toHaveBeenCalledWith(HANDLE, data, data.length, expect.any(Array));
+      expect(api.EndPagePrinter).toHaveBeenCalledWith(HANDLE);
+    });
+
+    test('should keep writing after a partial write', () => {
+      api.WritePrinter.mockImplementation((_hPrinter: any, _data: Buffer, size: number, written: number[]) => {
+        written[0] = Math.min(size, 4);
+        return true;
+      });
+
+      service.writePage(job, Buffer.from('0123456789'));
+
+      expect(api.WritePrinter).toHaveBeenCalledTimes(3);
+      expect(api.WritePrinter.mock.calls.map(call => (call[1] as Buffer).toString())).toEqual(['0123456789', '456789', '89']);
+    });
+
+    test('should throw SpoolerError when the data is rejected', () => {
+      api.WritePrinter.mockReturnValue(false);
+
+      expect(() => service.writePage(job, Buffer.from('data'))).toThrow(
+        expect.objectContaining({ operation: 'WritePrinter', jobId: 42 })
+      );
+      expect(api.EndPagePrinter).not.toHaveBeenCalled();
+    });
+
+    test('should throw SpoolerError when nothing is written', () => {
+      api.WritePrinter.mockImplementation(() => true);
+
+      expect(() => service.writePage(job, Buffer.from('data'))).toThrow(SpoolerError);
+    });
+
+    test('should throw SpoolerError when the page cannot be started', () => {
+      api.StartPagePrinter.mockReturnValueOnce(false);
+
+      expect(() => service.writePage(job, Buffer.from('data'))).toThrow(
+        expect.objectContaining({ operation: 'StartPagePrinter' })
+      );
+      expect(api.WritePrinter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endJob and abortJob', () => {
+    const job: RawPrintJob = { hPrinter: HANDLE, jobId: 42, printerName: PRINTER };
+
+    test('should end the document and close the printer', () => {
+      service.endJob(job);
+
+      expect(api.EndDocPrinter).toHaveBeenCalledWith(HANDLE);
+      expect(api.ClosePrinter).toHaveBeenCalledWith(HANDLE);
+    });
+
+    test('should close the printer even when the document cannot be ended', () => {
+      api.EndDocPrinter.mockReturnValueOnce(false);
+
+      expect(() => service.endJob(job)).toThrow(expect.objectContaining({ operation: 'EndDocPrinter' }));
+      expect(api.ClosePrinter).toHaveBeenCalledWith(HANDLE);
+    });
+
+    test('should abort the job and close the printer', () => {
+      api.AbortPrinter.mockReturnValueOnce(false);
+
+      expect(() => service.abortJob(job)).not.toThrow();
+      expect(api.AbortPrinter).toHaveBeenCalledWith(HANDLE);
+      expect(api.ClosePrinter).toHaveBeenCalledWith(HANDLE);
+    });
+  });
+});
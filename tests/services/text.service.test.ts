@@ -0,0 +1,147 @@
+/**
+ * Tests for TextService
+ */
+
+import { TextService } from '../../src/adapters/windows/services/text.service';
+import * as gdi32Api from '../../src/adapters/windows/api/gdi32.api';
+
+// Mock the Windows API
+jest.mock('../../src/adapters/windows/api/gdi32.api', () => ({
+  CreateFontW: jest.fn(),
+  SelectObject: jest.fn(),
+  DeleteObject: jest.fn(),
+  SetBkMode: jest.fn(),
+  GetTextMetricsW: jest.fn(),
+  GetTextExtentPoint32W: jest.fn(),
+  TextOutW: jest.fn(),
+  SaveDC: jest.fn(() => 1),
+  RestoreDC: jest.fn(() => true),
+  FW_NORMAL: 400,
+  DEFAULT_CHARSET: 1,
+  OUT_DEFAULT_PRECIS: 0,
+  CLIP_DEFAULT_PRECIS: 0,
+  DEFAULT_QUALITY: 0,
+  DEFAULT_PITCH: 0,
+  TRANSPARENT: 1
+}));
+
+const HDC = { dc: 'printer' };
+
+describe('TextService', () => {
+  let service: TextService;
+  const api = gdi32Api as jest.Mocked<typeof gdi32Api>;
+
+  beforeEach(() => {
+    service = new TextService();
+    jest.clearAllMocks();
+
+    api.CreateFontW.mockReturnValue({ font: 'handle' });
+    api.GetTextMetricsW.mockImplementation((_hDC: any, metrics: any) => {
+      metrics.tmHeight = 50;
+      metrics.tmExternalLeading = 4;
+      return true;
+    });
+  });
+
+  describe('createFont', () => {
+    test('should request the character height in device pixels', () => {
+      const font = service.createFont(HDC, 'Consolas', 12, 300);
+
+      expect(font).toEqual({ handle: { font: 'handle' }, lineHeight: 54 });
+      // 12pt at 300 DPI = 50px, negative for the em height
+      expect(api.CreateFontW.mock.calls[0][0]).toBe(-50);
+      expect(api.CreateFontW.mock.calls[0][13]).toBe('Consolas');
+    });
+
+    test('should read the metrics with the font selected and restore the DC', () => {
+      service.createFont(HDC, 'Arial', 10, 600);
+
+      expect(api.SelectObject).toHaveBeenCalledWith(HDC, { font: 'handle' });
+      expect(api.RestoreDC).toHaveBeenCalledWith(HDC, 1);
+    });
+
+    test('should estimate the line height without metrics', () => {
+      api.GetTextMetricsW.mockReturnValue(false);
+
+      const font = service.createFont(HDC, 'Consolas', 12, 300);
+
+      expect(font?.lineHeight).toBe(60);
+    });
+
+    test('should return null when GDI cannot create the font', () => {
+      api.CreateFontW.mockReturnValue(null);
+
+      expect(service.createFont(HDC, 'Consolas', 12, 300)).toBeNull();
+    });
+  });
+
+  describe('use', () => {
+    test('should select the font with a transparent background and restore the DC', () => {
+      const result = service.use(HDC, { handle: 'font', lineHeight: 10 }, () => 'drawn');
+
+      expect(result).toBe('drawn');
+      expect(api.SelectObject).toHaveBeenCalledWith(HDC, 'font');
+      expect(api.SetBkMode).toHaveBeenCalledWith(HDC, 1);
+      expect(api.RestoreDC).toHaveBeenCalledWith(HDC, 1);
+    });
+
+    test('should restore the DC when drawing throws', () => {
+      expect(() => service.use(HDC, { handle: 'font', lineHeight: 10 }, () => {
+        throw new Error('failed');
+      })).toThrow('failed');
+      expect(api.RestoreDC).toHaveBeenCalled();
+    });
+  });
+
+  describe('measure', () => {
+    test('should return the text extent width', () => {
+      api.GetTextExtentPoint32W.mockImplementation((_hDC: any, _text: string, _count: number, size: any) => {
+        size.cx = 123;
+        size.cy = 50;
+        return true;
+      });
+
+      expect(service.measure(HDC, 'hello')).toBe(123);
+      expect(api.GetTextExtentPoint32W).toHaveBeenCalledWith(HDC, 'hello', 5, expect.any(Object));
+    });
+
+    test('should not call GDI for empty text', () => {
+      expect(service.measure(HDC, '')).toBe(0);
+      expect(api.GetTextExtentPoint32W).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('draw', () => {
+    test('should draw at rounded coordinates', () => {
+      api.TextOutW.mockReturnValue(true);
+
+      expect(service.draw(HDC, 10.4, 20.6, 'line')).toBe(true);
+      expect(api.TextOutW).toHaveBeenCalledWith(HDC, 10, 21, 'line', 4);
+    });
+
+    test('should count UTF-16 code units', () => {
+      api.TextOutW.mockReturnValue(true);
+
+      service.draw(HDC, 0, 0, 'a😀');
+
+      expect(api.TextOutW).toHaveBeenCalledWith(HDC, 0, 0, 'a😀', 3);
+    });
+
+    test('should report failures', () => {
+      api.TextOutW.mockReturnValue(false);
+
+      expect(service.draw(HDC, 0, 0, 'line')).toBe(false);
+    });
+
+    test('should skip empty text', () => {
+      expect(service.draw(HDC, 0, 0, '')).toBe(true);
+      expect(api.TextOutW).not.toHaveBeenCalled();
+    });
+  });
+
+  test('should delete fonts on close', () => {
+    service.close({ handle: 'font', lineHeight: 10 });
+
+    expect(api.DeleteObject).toHaveBeenCalledWith('font');
+  });
+});
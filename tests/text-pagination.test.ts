@@ -0,0 +1,216 @@
+/**
+ * Tests for plain-text pagination, wrapping and headers
+ */
+
+import {
+  validateTextOptions,
+  computeLinesPerPage,
+  expandTabs,
+  wrapLine,
+  paginateText,
+  formatHeaderFooter
+} from '../src/core/text';
+import { InvalidOptionError } from '../src/core/errors';
+
+// One unit per character, like a monospace font
+const measure = (text: string): number => text.length;
+
+function texts(pages: Array<Array<{ text: string }>>): string[][] {
+  return pages.map(page => page.map(line => line.text));
+}
+
+describe('validateTextOptions', () => {
+  test('should accept defaults and valid values', () => {
+    expect(() => validateTextOptions(undefined)).not.toThrow();
+    expect(() => validateTextOptions({ font: 'Courier New', fontSize: 8.5, tabWidth: 4, header: () => 'x' })).not.toThrow();
+  });
+
+  test('should reject invalid values', () => {
+    expect(() => validateTextOptions({ fontSize: 0 })).toThrow(InvalidOptionError);
+    expect(() => validateTextOptions({ fontSize: NaN })).toThrow('Invalid font size');
+    expect(() => validateTextOptions({ tabWidth: 2.5 })).toThrow('Invalid tab width');
+    expect(() => validateTextOptions({ font: '' })).toThrow('Invalid font name');
+    expect(() => validateTextOptions({ font: 'x'.repeat(32) })).toThrow('Invalid font name');
+    expect(() => validateTextOptions({ header: 42 as any })).toThrow('Invalid header');
+  });
+
+  test('should name the offending option', () => {
+    try {
+      validateTextOptions({ tabWidth: 0 });
+      fail('Expected InvalidOptionError');
+    } catch (error) {
+      expect((error as InvalidOptionError).option).toBe('tabWidth');
+    }
+  });
+});
+
+describe('computeLinesPerPage', () => {
+  test('should fit whole lines in the area', () => {
+    expect(computeLinesPerPage(1000, 60, { header: false, footer: false })).toBe(16);
+  });
+
+  test('should reserve two lines each for the header and footer', () => {
+    expect(computeLinesPerPage(1000, 60, { header: true, footer: true })).toBe(12);
+  });
+
+  test('should reject fonts taller than the area', () => {
+    expect(() => computeLinesPerPage(100, 60, { header: true, footer: false })).toThrow(InvalidOptionError);
+  });
+});
+
+describe('expandTabs', () => {
+  test('should pad to the next tab stop', () => {
+    expect(expandTabs('a\tbc\td', 4)).toBe('a   bc  d');
+    expect(expandTabs('\tx', 8)).toBe('        x');
+    expect(expandTabs('abcd\tx', 4)).toBe('abcd    x');
+  });
+
+  test('should leave lines without tabs alone', () => {
+    expect(expandTabs('plain')).toBe('plain');
+  });
+});
+
+describe('wrapLine', () => {
+  test('should keep lines that fit', () => {
+    expect(wrapLine('hello world', 11, measure)).toEqual(['hello world']);
+    expect(wrapLine('', 10, measure)).toEqual(['']);
+  });
+
+  test('should break after the last space that fits', () => {
+    expect(wrapLine('the quick brown fox', 10, measure)).toEqual(['the quick', 'brown fox']);
+  });
+
+  test('should break at a space right after the fitting part', () => {
+    expect(wrapLine('abcde fgh', 5, measure)).toEqual(['abcde', 'fgh']);
+  });
+
+  test('should split words wider than a line', () => {
+    expect(wrapLine('abcdefghij', 4, measure)).toEqual(['abcd', 'efgh', 'ij']);
+    expect(wrapLine('ab abcdefgh', 4, measure)).toEqual(['ab', 'abcd', 'efgh']);
+  });
+
+  test('should keep at least one character per line', () => {
+    expect(wrapLine('abc', 0, measure)).toEqual(['a', 'b', 'c']);
+  });
+
+  test('should not split surrogate pairs', () => {
+    const parts = wrapLine('a😀b', 2, measure);
+
+    expect(parts).toEqual(['a', '😀', 'b']);
+  });
+
+  test('should use the measured widths', () => {
+    // "W" is three units wide: six characters, ten units
+    const proportional = (text: string): number => [...text].reduce((width, char) => width + (char === 'W' ? 3 : 1), 0);
+
+    expect(wrapLine('iii WW', 9, proportional)).toEqual(['iii', 'WW']);
+  });
+});
+
+describe('paginateText', () => {
+  const options = { linesPerPage: 3, maxWidth: 20, measure };
+
+  test('should fill pages with lines', () => {
+    const layout = paginateText('1\n2\n3\n4\n5', options);
+
+    expect(texts(layout.pages)).toEqual([['1', '2', '3'], ['4', '5']]);
+    expect(layout.gutterWidth).toBe(0);
+    expect(layout.pages[0][0].lineNumber).toBeUndefined();
+  });
+
+  test('should accept every line ending and ignore a final one', () => {
+    expect(texts(paginateText('a\r\nb\rc\n', options).pages)).toEqual([['a', 'b', 'c']]);
+  });
+
+  test('should keep blank lines', () => {
+    expect(texts(paginateText('a\n\nb', options).pages)).toEqual([['a', '', 'b']]);
+  });
+
+  test('should give one blank page for empty text', () => {
+    expect(texts(paginateText('', options).pages)).toEqual([['']]);
+  });
+
+  test('should start a new page at form feeds', () => {
+    expect(texts(paginateText('a\fb\n\fc\f', options).pages)).toEqual([['a'], ['b'], ['c']]);
+  });
+
+  test('should keep blank pages between form feeds', () => {
+    expect(texts(paginateText('a\f\fb', options).pages)).toEqual([['a'], [], ['b']]);
+  });
+
+  test('should wrap long lines across pages', () => {
+    const layout = paginateText('aaaa bbbb cccc dddd', { ...options, maxWidth: 4 });
+
+    expect(texts(layout.pages)).toEqual([['aaaa', 'bbbb', 'cccc'], ['dddd']]);
+  });
+
+  test('should not wrap when disabled', () => {
+    const layout = paginateText('aaaa bbbb cccc dddd', { ...options, maxWidth: 4, wrap: false });
+
+    expect(texts(layout.pages)).toEqual([['aaaa bbbb cccc dddd']]);
+  });
+
+  test('should expand tabs before measuring', () => {
+    const layout = paginateText('a\tb', { ...options, maxWidth: 4, tabWidth: 4 });
+
+    expect(texts(layout.pages)).toEqual([['a', 'b']]);
+  });
+
+  test('should number source lines and reserve a gutter', () => {
+    const text = Array.from({ length: 10 }, (_, index) => (index === 0 ? 'first line' : `l${index + 1}`)).join('\n');
+
+    const layout = paginateText(text, { linesPerPage: 20, maxWidth: 9, measure, lineNumbers: true });
+
+    // Two digits plus two spaces
+    expect(layout.numberWidth).toBe(2);
+    expect(layout.gutterWidth).toBe(4);
+    expect(layout.pages[0].slice(0, 3)).toEqual([
+      { text: 'first', lineNumber: 1 },
+      { text: 'line' },
+      { text: 'l2', lineNumber: 2 }
+    ]);
+    expect(layout.pages[0][10]).toEqual({ text: 'l10', lineNumber: 10 });
+  });
+});
+
+describe('formatHeaderFooter', () => {
+  const info = { page: 2, pages: 5, documentName: 'server.log' };
+
+  test('should fill in placeholders', () => {
+    expect(formatHeaderFooter('{documentName} - page {page} of {pages}', info)).toEqual({
+      left: 'server.log - page 2 of 5',
+      center: '',
+      right: ''
+    });
+  });
+
+  test('should split tab-separated parts', () => {
+    expect(formatHeaderFooter('{documentName}\tConfidential\tPage {page}', info)).toEqual({
+      left: 'server.log',
+      center: 'Confidential',
+      right: 'Page 2'
+    });
+    expect(formatHeaderFooter('\t\t{page}/{pages}', info)).toEqual({ left: '', center: '', right: '2/5' });
+  });
+
+  test('should format the date', () => {
+    const date = new Date(2026, 0, 15);
+
+    expect(formatHeaderFooter('{date}', info, date).left).toBe(date.toLocaleDateString());
+  });
+
+  test('should call function templates with the page details', () => {
+    const template = jest.fn(({ page, pages }) => `${page}/${pages}`);
+
+    expect(formatHeaderFooter(template, info)).toEqual({ left: '2/5', center: '', right: '' });
+    expect(template).toHaveBeenCalledWith(info);
+  });
+
+  test('should keep headers on one line', () => {
+    expect(formatHeaderFooter('a\nb', info).left).toBe('a b');
+  });
+
+  test('should leave unknown placeholders', () => {
+    expect(formatHeaderFooter('{user}', info).left).toBe('{user}');
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Tests for the TIFF reader and its decompressors
+ */
+
+import { deflateSync } from 'zlib';
+import { openImage, type DecodedImage } from '../src/core/images';
+import { ImageDecodeError } from '../src/core/errors';
+
+// Field types
+const BYTE = 1;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+const TYPE_SIZES: Record<number, number> = { [BYTE]: 1, [SHORT]: 2, [LONG]: 4, [RATIONAL]: 8 };
+
+type Entry = [tag: number, type: number, values: number[]];
+
+interface Page {
+  entries: Entry[];
+  strip: Buffer;
+}
+
+/**
+ * Build a TIFF file with one strip per page; rationals are given as numerator, denominator pairs
+ */
+function createTiff(pages: Page[], littleEndian = true): Buffer {
+  const out = Buffer.alloc(4096);
+  const writeUInt16 = (value: number, offset: number): number =>
+    littleEndian ? out.writeUInt16LE(value, offset) : out.writeUInt16BE(value, offset);
+  const writeUInt32 = (value: number, offset: number): number =>
+    littleEndian ? out.writeUInt32LE(value, offset) : out.writeUInt32BE(value, offset);
+  const writeValue = (type: number, value: number, offset: number): number =>
+    type === BYTE ? out.writeUInt8(value, offset) : type === SHORT ? writeUInt16(value, offset) : writeUInt32(value, offset);
+
+  out.write(littleEndian ? 'II' : 'MM', 0, 'latin1');
+  writeUInt16(42, 2);
+  let nextPointer = 4;
+  let position = 8;
+
+  for (const page of pages) {
+    const stripOffset = position;
+    page.strip.copy(out, position);
+    position += page.strip.length + (page.strip.length % 2);
+
+    const strips: Entry[] = [[273, LONG, [stripOffset]], [279, LONG, [page.strip.length]]];
+    const entries = [...page.entries, ...strips].sort((a, b) => a[0] - b[0]);
+
+    writeUInt32(position, nextPointer);
+    const directory = position;
+    let extra = directory + 2 + entries.length * 12 + 4;
+    writeUInt16(entries.length, directory);
+
+    entries.forEach(([tag, type, values], index) => {
+      const entry = directory + 2 + index * 12;
+      const size = type === RATIONAL ? 4 : TYPE_SIZES[type];
+      const count = type === RATIONAL ? values.length / 2 : values.length;
+      writeUInt16(tag, entry);
+      writeUInt16(type, entry + 2);
+      writeUInt32(count, entry + 4);
+
+      let target = entry + 8;
+      if (values.length * size > 4) {
+        writeUInt32(extra, target);
+        target = extra;
+        extra += values.length * size;
+      }
+      values.forEach((value, i) => writeValue(type, value, target + i * size));
+    });
+
+    nextPointer = directory + 2 + entries.length * 12;
+    position = extra + (extra % 2);
+  }
+
+  return out.subarray(0, position);
+}
+
+/** Entries of an 8-bit grayscale page */
+function grayEntries(width: number, height: number, compression = 1): Entry[] {
+  return [
+    [256, SHORT, [width]],
+    [257, SHORT, [height]],
+    [258, SHORT, [8]],
+    [259, SHORT, [compression]],
+    [262, SHORT, [1]]
+  ];
+}
+
+function gray(image: DecodedImage, x: number, y = 0): number {
+  return image.data[(y * image.width + x) * 4];
+}
+
+function pixel(image: DecodedImage, x: number, y = 0): number[] {
+  const offset = (y * image.width + x) * 4;
+  return [image.data[offset + 2], image.data[offset + 1], image.data[offset]];
+}
+
+describe('TIFF reader', () => {
+  test('should decode uncompressed grayscale', () => {
+    const tiff = createTiff([{ entries: grayEntries(2, 2), strip: Buffer.from([0, 255, 128, 64]) }]);
+
+    const image = openImage(tiff);
+    const decoded = image.decodeFrame(0);
+
+    expect(image.format).toBe('tiff');
+    expect(image.frames).toEqual([{ width: 2, height: 2, dpiX: 0, dpiY: 0 }]);
+    expect([gray(decoded, 0), gray(decoded, 1), gray(decoded, 0, 1), gray(decoded, 1, 1)]).toEqual([0, 255, 128, 64]);
+  });
+
+  test('should invert WhiteIsZero bilevel images', () => {
+    const entries: Entry[] = [[256, SHORT, [3]], [257, SHORT, [1]], [262, SHORT, [0]]];
+    const decoded = openImage(createTiff([{ entries, strip: Buffer.from([0b10100000]) }])).decodeFrame(0);
+
+    expect([gray(decoded, 0), gray(decoded, 1), gray(decoded, 2)]).toEqual([0, 255, 0]);
+  });
+
+  test('should read big-endian 16-bit samples', () => {
+    const entries: Entry[] = [[256, SHORT, [1]], [257, SHORT, [1]], [258, SHORT, [16]], [262, SHORT, [1]]];
+    const decoded = openImage(createTiff([{ entries, strip: Buffer.from([0x80, 0x00]) }], false)).decodeFrame(0);
+
+    expect(gray(decoded, 0)).toBe(128);
+  });
+
+  test('should decode PackBits runs', () => {
+    const strip = Buffer.from([0x01, 10, 20, 0xFD, 0x80]);
+    const decoded = openImage(createTiff([{ entries: grayEntries(6, 1, 32773), strip }])).decodeFrame(0);
+
+    expect([0, 1, 2, 3, 4, 5].map(x => gray(decoded, x))).toEqual([10, 20, 128, 128, 128, 128]);
+  });
+
+  test('should decode LZW strings', () => {
+    // Clear, "A", the not-yet-defined code 258 ("AA"), "A", end of information
+    const codes = [256, 65, 258, 65, 257];
+    const bits = codes.map(code => code.toString(2).padStart(9, '0')).join('').padEnd(48, '0');
+    const strip = Buffer.from(bits.match(/.{8}/g)!.map(byte => parseInt(byte, 2)));
+
+    const decoded = openImage(createTiff([{ entries: grayEntries(4, 1, 5), strip }])).decodeFrame(0);
+
+    expect([0, 1, 2, 3].map(x => gray(decoded, x))).toEqual([65, 65, 65, 65]);
+  });
+
+  test('should reject old-style LZW', () => {
+    const tiff = createTiff([{ entries: grayEntries(1, 1, 5), strip: Buffer.from([0x00, 0x01]) }]);
+
+    expect(() => openImage(tiff).decodeFrame(0)).toThrow('Old-style TIFF LZW compression is not supported');
+  });
+
+  test('should decode Deflate with the horizontal predictor', () => {
+    const entries: Entry[] = [...grayEntries(3, 1, 8), [317, SHORT, [2]]];
+    const strip = deflateSync(Buffer.from([10, 5, 5]));
+
+    const decoded = openImage(createTiff([{ entries, strip }])).decodeFrame(0);
+
+    expect([0, 1, 2].map(x => gray(decoded, x))).toEqual([10, 15, 20]);
+  });
+
+  test('should look up palette colors', () => {
+    const entries: Entry[] = [
+      [256, SHORT, [2]],
+      [257, SHORT, [1]],
+      [262, SHORT, [3]],
+      [320, SHORT, [0xFFFF, 0, 0, 0, 0, 0xFFFF]]
+    ];
+    const decoded = openImage(createTiff([{ entries, strip: Buffer.from([0b01000000]) }])).decodeFrame(0);
+
+    expect(pixel(decoded, 0)).toEqual([255, 0, 0]);
+    expect(pixel(decoded, 1)).toEqual([0, 0, 255]);
+  });
+
+  test('should blend unassociated alpha onto white', () => {
+    const entries: Entry[] = [
+      [256, SHORT, [1]],
+      [257, SHORT, [1]],
+      [258, SHORT, [8, 8, 8, 8]],
+      [262, SHORT, [2]],
+      [277, SHORT, [4]],
+      [338, SHORT, [2]]
+    ];
+    const decoded = openImage(createTiff([{ entries, strip: Buffer.from([0, 0, 0, 0]) }])).decodeFrame(0);
+
+    expect(pixel(decoded, 0)).toEqual([255, 255, 255]);
+  });
+
+  test('should decode CCITT Group 4 lines', () => {
+    // Row 1: horizontal mode, 4 white ("1011") and 4 black ("011"); row 2: two vertical-0 codes
+    const strip = Buffer.from([0b00110110, 0b11110000]);
+    const entries: Entry[] = [[256, SHORT, [8]], [257, SHORT, [2]], [259, SHORT, [4]]];
+
+    const decoded = openImage(createTiff([{ entries, strip }])).decodeFrame(0);
+
+    for (const y of [0, 1]) {
+      expect([0, 3, 4, 7].map(x => gray(decoded, x, y))).toEqual([255, 255, 0, 0]);
+    }
+  });
+
+  test('should open every page and skip reduced-resolution copies', () => {
+    const tiff = createTiff([
+      { entries: [...grayEntries(1, 1), [282, RATIONAL, [300, 1]], [283, RATIONAL, [600, 2]], [296, SHORT, [2]]], strip: Buffer.from([10]) },
+      { entries: [[254, LONG, [1]], ...grayEntries(1, 1)], strip: Buffer.from([20]) },
+      { entries: grayEntries(2, 1), strip: Buffer.from([30, 40]) }
+    ]);
+
+    const image = openImage(tiff);
+
+    expect(image.frames).toEqual([
+      { width: 1, height: 1, dpiX: 300, dpiY: 300 },
+      { width: 2, height: 1, dpiX: 0, dpiY: 0 }
+    ]);
+    expect(gray(image.decodeFrame(0), 0)).toBe(10);
+    expect(gray(image.decodeFrame(1), 1)).toBe(40);
+    expect(() => image.decodeFrame(2)).toThrow('TIFF file has no page 3');
+  });
+
+  test('should apply the orientation tag', () => {
+    const entries: Entry[] = [...grayEntries(2, 1), [274, SHORT, [6]]];
+
+    const image = openImage(createTiff([{ entries, strip: Buffer.from([10, 20]) }]));
+    const decoded = image.decodeFrame(0);
+
+    expect(image.frames[0]).toMatchObject({ width: 1, height: 2 });
+    expect([gray(decoded, 0, 0), gray(decoded, 0, 1)]).toEqual([10, 20]);
+  });
+
+  test('should reject unsupported files', () => {
+    const bigTiff = Buffer.from([0x49, 0x49, 43, 0, 8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    const oldJpeg = createTiff([{ entries: grayEntries(1, 1, 6), strip: Buffer.from([0]) }]);
+
+    expect(() => openImage(bigTiff)).toThrow(ImageDecodeError);
+    expect(() => openImage(bigTiff)).toThrow('BigTIFF files are not supported');
+    expect(() => openImage(oldJpeg)).toThrow('Old-style JPEG compression in TIFF is not supported');
+  });
+
+  test('should reject dimensions too large to decode', () => {
+    const entries: Entry[] = [[256, LONG, [100000]], [257, LONG, [100000]], [258, SHORT, [8]], [262, SHORT, [1]]];
+    const tiff = createTiff([{ entries, strip: Buffer.from([0]) }]);
+
+    expect(() => openImage(tiff)).toThrow(ImageDecodeError);
+    expect(() => openImage(tiff)).toThrow('TIFF image is too large: 100000x100000 pixels');
+  });
+});